@@ -7,11 +7,18 @@ import Landing from "./pages/Landing";
 import Careers from "./pages/Careers";
 import Dashboard from "./pages/Dashboard";
 import Candidates from "./pages/Candidates";
+import Jobs from "./pages/Jobs";
 import Chat from "./pages/Chat";
 import Interviews from "./pages/Interviews";
 import OfferLetters from "./pages/OfferLetters";
 import EmailTemplates from "./pages/EmailTemplates";
+import AptitudeQuestions from "./pages/AptitudeQuestions";
+import AptitudeTest from "./pages/AptitudeTest";
+import CandidateStatus from "./pages/CandidateStatus";
+import OfferResponse from "./pages/OfferResponse";
+import SelfSchedule from "./pages/SelfSchedule";
 import Settings from "./pages/Settings";
+import Users from "./pages/Users";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import CandidatePortal from "./pages/CandidatePortal";
@@ -33,13 +40,20 @@ const App = () => (
           <Route path="/signup" element={<Signup />} />
           <Route path="/auth/callback" element={<AuthCallback />} />
           <Route path="/apply" element={<CandidatePortal />} />
+          <Route path="/aptitude/:token" element={<AptitudeTest />} />
+          <Route path="/status/:token" element={<CandidateStatus />} />
+          <Route path="/offer/:token" element={<OfferResponse />} />
+          <Route path="/schedule/:token" element={<SelfSchedule />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/dashboard/jobs" element={<Jobs />} />
           <Route path="/dashboard/candidates" element={<Candidates />} />
           <Route path="/dashboard/chat" element={<Chat />} />
           <Route path="/dashboard/interviews" element={<Interviews />} />
           <Route path="/dashboard/offers" element={<OfferLetters />} />
           <Route path="/dashboard/templates" element={<EmailTemplates />} />
+          <Route path="/dashboard/aptitude" element={<AptitudeQuestions />} />
           <Route path="/dashboard/settings" element={<Settings />} />
+          <Route path="/dashboard/users" element={<Users />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -20,7 +20,9 @@ import {
 } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction } from '@/lib/functions';
 import { Badge } from '@/components/ui/badge';
+import { fetchTemplateContexts, renderTemplate, validateTemplate } from '@/lib/email-templates';
 
 interface AIEmailDialogProps {
   open: boolean;
@@ -98,24 +100,28 @@ export function AIEmailDialog({
     }
   };
 
-  // Apply template placeholders
-  const applyPlaceholders = (text: string): string => {
-    return text
-      .replace(/\{\{candidateName\}\}/gi, candidateName)
-      .replace(/\{\{position\}\}/gi, 'the position')
-      .replace(/\{\{company\}\}/gi, 'CortexHR')
-      .replace(/\{\{date\}\}/gi, new Date().toLocaleDateString())
-      .replace(/\{\{time\}\}/gi, '');
-  };
-
-  const handleTemplateSelect = (templateId: string) => {
+  const handleTemplateSelect = async (templateId: string) => {
     setSelectedTemplateId(templateId);
     const template = templates.find(t => t.id === templateId);
-    if (template) {
-      setSubject(applyPlaceholders(template.subject));
-      setBody(applyPlaceholders(template.body));
+    if (!template) return;
+
+    const problems = [
+      ...validateTemplate(template.subject, template.email_type),
+      ...validateTemplate(template.body, template.email_type),
+    ];
+    if (problems.length > 0) {
+      toast.error(`Template "${template.name}" needs fixing under Email Templates`, { description: problems.join('\n') });
+      return;
+    }
+
+    try {
+      const contexts = await fetchTemplateContexts([applicationId]);
+      setSubject(renderTemplate(template.subject, contexts[applicationId]));
+      setBody(renderTemplate(template.body, contexts[applicationId]));
       setHtmlBody('');
       toast.success(`Template "${template.name}" applied`);
+    } catch (error) {
+      toast.error(`Failed to apply template: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -159,18 +165,20 @@ export function AIEmailDialog({
 
     setIsSending(true);
     try {
-      const { error } = await supabase.functions.invoke('send-email', {
-        body: {
-          to: candidateEmail,
-          subject,
-          html: htmlBody || `<div style="font-family: Arial, sans-serif; white-space: pre-wrap;">${body}</div>`,
-          emailType: emailType,
-        },
+      // A failed send comes back as an error status, which invokeFunction throws
+      const data = await invokeFunction<{ status: string }>('send-email', {
+        to: candidateEmail,
+        subject,
+        html: htmlBody || `<div style="font-family: Arial, sans-serif; white-space: pre-wrap;">${body}</div>`,
+        emailType: emailType,
+        applicationId,
       });
 
-      if (error) throw error;
-
-      toast.success(`Email sent to ${candidateEmail}`);
+      if (data.status === 'pending') {
+        toast.warning(`Email to ${candidateEmail} is queued and will be retried shortly`);
+      } else {
+        toast.success(`Email sent to ${candidateEmail}`);
+      }
       onOpenChange(false);
     } catch (error: any) {
       toast.error(`Failed to send email: ${error.message}`);
@@ -1,27 +1,28 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Brain, Sparkles, Target, TrendingUp, AlertTriangle, CheckCircle, Lightbulb, Briefcase, GraduationCap, MessageSquare, Users, Crosshair } from "lucide-react";
+import { Brain, Sparkles, Target, TrendingUp, AlertTriangle, CheckCircle, Lightbulb, Briefcase, GraduationCap, MessageSquare, Users, Crosshair, XCircle, type LucideIcon } from "lucide-react";
 import { motion } from "framer-motion";
 import { Separator } from "@/components/ui/separator";
+import ScorecardSummary from "@/components/ScorecardSummary";
+import ActivityTimeline from "@/components/ActivityTimeline";
+import StageHistoryTimeline from "@/components/StageHistoryTimeline";
+import { DEFAULT_RUBRIC, parseKnockouts, parseRubric } from "@/lib/rubric";
+import type { Json } from "@/integrations/supabase/types";
 
 interface ScoreBreakdownItem {
   points?: number;
   justification?: string;
 }
 
-interface ScoreBreakdown {
-  technical_skills?: ScoreBreakdownItem | number;
-  experience_quality?: ScoreBreakdownItem | number;
-  education_certifications?: ScoreBreakdownItem | number;
-  communication_presentation?: ScoreBreakdownItem | number;
-  cultural_fit?: ScoreBreakdownItem | number;
-  job_match?: ScoreBreakdownItem | number;
-  [key: string]: ScoreBreakdownItem | number | undefined;
-}
+// Keyed by rubric dimension; analyses made before per-job rubrics use the default keys
+type ScoreBreakdown = Record<string, ScoreBreakdownItem | number | undefined>;
 
 interface AISkillsData {
   skills?: { name: string; level: string; years?: number }[];
   score_breakdown?: ScoreBreakdown;
+  // Rubric the analysis was scored against, and the knockout verdicts
+  rubric?: Json;
+  knockouts?: Json;
   strengths?: string[];
   concerns?: string[];
   red_flags?: string[];
@@ -41,8 +42,27 @@ interface AIInsightsDialogProps {
   aiScore: number | null;
   aiSummary: string | null;
   aiSkills: AISkillsData | null;
+  // 'analysis_failed' when the last AI run produced no valid analysis
+  analysisStatus?: string;
+  analysisError?: string | null;
+  // Enables the interviewer scorecard comparison
+  applicationId?: string;
+  // Enables the candidate's stage history and activity timelines
+  candidateId?: string;
 }
 
+// Default rubric dimensions keep their familiar icons; custom ones cycle through colours
+const dimensionIcons: Record<string, { icon: LucideIcon; color: string }> = {
+  technical_skills: { icon: Briefcase, color: 'text-blue-500' },
+  experience_quality: { icon: TrendingUp, color: 'text-purple-500' },
+  education_certifications: { icon: GraduationCap, color: 'text-green-500' },
+  communication_presentation: { icon: MessageSquare, color: 'text-yellow-500' },
+  cultural_fit: { icon: Users, color: 'text-pink-500' },
+  job_match: { icon: Crosshair, color: 'text-cyan-500' },
+};
+
+const fallbackColors = ['text-blue-500', 'text-purple-500', 'text-green-500', 'text-yellow-500', 'text-pink-500', 'text-cyan-500'];
+
 const AIInsightsDialog = ({
   open,
   onOpenChange,
@@ -51,7 +71,13 @@ const AIInsightsDialog = ({
   aiScore,
   aiSummary,
   aiSkills,
+  analysisStatus,
+  analysisError,
+  applicationId,
+  candidateId,
 }: AIInsightsDialogProps) => {
+  const analysisFailed = analysisStatus === 'analysis_failed';
+
   const getScoreColor = (score: number) => {
     if (score >= 85) return 'text-emerald-500';
     if (score >= 70) return 'text-primary';
@@ -96,14 +122,25 @@ const AIInsightsDialog = ({
     return item.justification || '';
   };
 
-  const breakdownCategories = scoreBreakdown ? [
-    { key: 'technical_skills', label: 'Technical Skills', maxPoints: 30, icon: Briefcase, color: 'text-blue-500' },
-    { key: 'experience_quality', label: 'Experience Quality', maxPoints: 25, icon: TrendingUp, color: 'text-purple-500' },
-    { key: 'education_certifications', label: 'Education & Certs', maxPoints: 15, icon: GraduationCap, color: 'text-green-500' },
-    { key: 'communication_presentation', label: 'Communication', maxPoints: 10, icon: MessageSquare, color: 'text-yellow-500' },
-    { key: 'cultural_fit', label: 'Cultural Fit', maxPoints: 10, icon: Users, color: 'text-pink-500' },
-    { key: 'job_match', label: 'Job Match', maxPoints: 10, icon: Crosshair, color: 'text-cyan-500' },
-  ] : [];
+  const knockouts = parseKnockouts(skillsData?.knockouts);
+  const missedKnockouts = knockouts.filter((knockout) => !knockout.met);
+
+  const breakdownCategories = scoreBreakdown
+    ? (skillsData?.rubric ? parseRubric(skillsData.rubric) : DEFAULT_RUBRIC).dimensions.map((dimension, index) => ({
+        key: dimension.key,
+        label: dimension.label,
+        maxPoints: dimension.weight,
+        icon: dimensionIcons[dimension.key]?.icon ?? Target,
+        color: dimensionIcons[dimension.key]?.color ?? fallbackColors[index % fallbackColors.length],
+      }))
+    : [];
+
+  const aiPercentages = Object.fromEntries(
+    breakdownCategories.map((category) => [
+      category.key,
+      (getPoints(scoreBreakdown?.[category.key]) / category.maxPoints) * 100,
+    ])
+  );
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -165,6 +202,14 @@ const AIInsightsDialog = ({
                 </div>
               </div>
             </motion.div>
+          ) : analysisFailed ? (
+            <div className="p-6 rounded-xl bg-destructive/10 border border-destructive/30 text-center">
+              <AlertTriangle className="w-8 h-8 mx-auto text-destructive mb-2" />
+              <p className="font-medium text-foreground">AI analysis failed</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {analysisError || 'The AI did not return a valid analysis.'} Review the resume manually or re-process it.
+              </p>
+            </div>
           ) : (
             <div className="p-6 rounded-xl bg-secondary/30 border border-border text-center">
               <Sparkles className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
@@ -173,6 +218,40 @@ const AIInsightsDialog = ({
             </div>
           )}
 
+          {/* Knockout Requirements */}
+          {knockouts.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+              className={`p-4 rounded-xl border ${
+                missedKnockouts.length > 0 ? 'bg-destructive/10 border-destructive/30' : 'bg-emerald-500/10 border-emerald-500/30'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className="font-semibold text-foreground">Knockout Requirements</span>
+                <Badge variant="secondary" className={missedKnockouts.length > 0 ? 'text-destructive' : 'text-emerald-500'}>
+                  {missedKnockouts.length > 0 ? `${missedKnockouts.length} not met` : 'All met'}
+                </Badge>
+              </div>
+              <ul className="space-y-2">
+                {knockouts.map((knockout) => (
+                  <li key={knockout.requirement} className="flex items-start gap-2 text-sm">
+                    {knockout.met ? (
+                      <CheckCircle className="w-4 h-4 text-emerald-500 mt-0.5 shrink-0" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-destructive mt-0.5 shrink-0" />
+                    )}
+                    <div>
+                      <p className="text-foreground">{knockout.requirement}</p>
+                      {knockout.evidence && <p className="text-xs text-muted-foreground">{knockout.evidence}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </motion.div>
+          )}
+
           {/* Score Breakdown */}
           {scoreBreakdown && (
             <motion.div
@@ -187,7 +266,7 @@ const AIInsightsDialog = ({
               </div>
               <div className="grid gap-3">
                 {breakdownCategories.map((category, index) => {
-                  const item = scoreBreakdown[category.key as keyof ScoreBreakdown];
+                  const item = scoreBreakdown[category.key];
                   const points = getPoints(item);
                   const justification = getJustification(item);
                   const percentage = (points / category.maxPoints) * 100;
@@ -232,6 +311,11 @@ const AIInsightsDialog = ({
             </motion.div>
           )}
 
+          {/* Interviewer Scorecards vs AI */}
+          {applicationId && (
+            <ScorecardSummary applicationId={applicationId} aiPercentages={aiPercentages} />
+          )}
+
           {/* AI Summary */}
           {aiSummary && (
             <motion.div
@@ -381,7 +465,7 @@ const AIInsightsDialog = ({
           )}
 
           {/* No insights message */}
-          {aiScore === null && !aiSummary && skills.length === 0 && (
+          {aiScore === null && !aiSummary && skills.length === 0 && !analysisFailed && (
             <div className="text-center py-8">
               <Brain className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
               <p className="text-muted-foreground">No AI insights available yet</p>
@@ -390,6 +474,16 @@ const AIInsightsDialog = ({
               </p>
             </div>
           )}
+
+          {/* Stage History & Activity Timeline */}
+          {candidateId && (
+            <>
+              <Separator />
+              <StageHistoryTimeline candidateId={candidateId} />
+              <Separator />
+              <ActivityTimeline candidateId={candidateId} />
+            </>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,100 @@
+import { useQuery } from '@tanstack/react-query';
+import { History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  describeAuditAction,
+  describeAuditActor,
+  fetchActorNames,
+  formatAuditField,
+  formatAuditValue,
+  parseAuditChanges,
+  type AuditEntry,
+} from '@/lib/audit';
+
+// Most recent entries only; the full history is in Settings > Audit Log
+const TIMELINE_LIMIT = 100;
+
+export const AuditChangeList = ({ entry }: { entry: AuditEntry }) => {
+  const changes = Object.entries(parseAuditChanges(entry.changes));
+  if (changes.length === 0) return null;
+
+  const isUpdate = !entry.action.endsWith('.created') && !entry.action.endsWith('.deleted');
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {changes.map(([field, change]) => (
+        <li key={field} className="break-words">
+          <span className="font-medium text-foreground capitalize">{formatAuditField(field)}</span>{' '}
+          {isUpdate ? (
+            <>
+              {formatAuditValue(change.old)} → {formatAuditValue(change.new)}
+            </>
+          ) : (
+            formatAuditValue(change.new ?? change.old)
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+interface ActivityTimelineProps {
+  candidateId: string;
+}
+
+const ActivityTimeline = ({ candidateId }: ActivityTimelineProps) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['candidate-activity', candidateId],
+    queryFn: async () => {
+      const { data: entries, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .eq('candidate_id', candidateId)
+        .order('occurred_at', { ascending: false })
+        .limit(TIMELINE_LIMIT);
+
+      if (error) throw error;
+
+      return { entries: entries || [], names: await fetchActorNames(entries || []) };
+    },
+    enabled: !!candidateId,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-foreground font-semibold">
+        <History className="w-4 h-4 text-primary" />
+        <span>Activity</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : !data?.entries.length ? (
+        <div className="p-4 bg-secondary/30 rounded-lg border border-border text-sm text-muted-foreground text-center">
+          No recorded activity yet
+        </div>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {data.entries.map((entry) => (
+            <li key={entry.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border-2 border-background" />
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm font-medium text-foreground">{describeAuditAction(entry.action)}</p>
+                <time className="text-xs text-muted-foreground">
+                  {format(new Date(entry.occurred_at), 'MMM d, yyyy h:mm a')}
+                </time>
+              </div>
+              <p className="text-xs text-muted-foreground">by {describeAuditActor(entry, data.names)}</p>
+              <AuditChangeList entry={entry} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ActivityTimeline;
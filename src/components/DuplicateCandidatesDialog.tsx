@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Check, Copy, GitMerge, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { invokeFunction } from '@/lib/functions';
+import { cn } from '@/lib/utils';
+
+interface DuplicateCandidatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  linkedin: 'Same LinkedIn',
+  github: 'Same GitHub',
+  name: 'Similar name',
+  resume: 'Similar resume',
+};
+
+export function DuplicateCandidatesDialog({ open, onOpenChange }: DuplicateCandidatesDialogProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Survivor picked per pair; defaults to the earlier candidate
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+
+  const { data: pairs, isLoading } = useQuery({
+    queryKey: ['candidate-duplicates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('candidate_duplicates')
+        .select(`
+          id, score, reasons, detected_at,
+          candidate_a:candidates!candidate_duplicates_candidate_a_id_fkey(
+            id, full_name, email, phone, linkedin_url, github_url, resume_url, created_at,
+            applications(id, status, jobs(title))
+          ),
+          candidate_b:candidates!candidate_duplicates_candidate_b_id_fkey(
+            id, full_name, email, phone, linkedin_url, github_url, resume_url, created_at,
+            applications(id, status, jobs(title))
+          )
+        `)
+        .eq('status', 'pending')
+        .order('score', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['candidate-duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['candidate-duplicates-count'] });
+  };
+
+  const merge = useMutation({
+    mutationFn: ({ duplicateId, survivorId }: { duplicateId: string; survivorId: string }) =>
+      invokeFunction('candidate-duplicates', { action: 'merge', duplicateId, survivorId }),
+    onSuccess: () => {
+      toast.success('Candidates merged');
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Merge failed: ${error.message}`);
+    },
+  });
+
+  const dismiss = useMutation({
+    mutationFn: async (duplicateId: string) => {
+      const { error } = await supabase
+        .from('candidate_duplicates')
+        .update({ status: 'dismissed', reviewed_by: user?.id, reviewed_at: new Date().toISOString() })
+        .eq('id', duplicateId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Marked as different people');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to dismiss: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5 text-primary" />
+            Possible Duplicates
+          </DialogTitle>
+          <DialogDescription>
+            Candidates that look like the same person. Merging keeps the selected record and moves the other's
+            applications, interviews, offers and emails onto it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !pairs || pairs.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No suspected duplicates to review</p>
+        ) : (
+          <div className="space-y-4 mt-2">
+            {pairs.map((pair) => {
+              const candidates = [pair.candidate_a, pair.candidate_b];
+              const older = candidates[0].created_at <= candidates[1].created_at ? candidates[0] : candidates[1];
+              const survivorId = survivors[pair.id] ?? older.id;
+              const busy = (merge.isPending && merge.variables?.duplicateId === pair.id)
+                || (dismiss.isPending && dismiss.variables === pair.id);
+
+              return (
+                <div key={pair.id} className="rounded-lg border border-border p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="secondary">{Math.round(pair.score * 100)}% match</Badge>
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">{REASON_LABELS[reason] ?? reason}</Badge>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {candidates.map((candidate) => {
+                      const selected = candidate.id === survivorId;
+                      return (
+                        <button
+                          key={candidate.id}
+                          type="button"
+                          onClick={() => setSurvivors({ ...survivors, [pair.id]: candidate.id })}
+                          className={cn(
+                            'text-left p-3 rounded-lg border transition-colors',
+                            selected ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/30'
+                          )}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-foreground truncate">{candidate.full_name}</span>
+                            {selected && (
+                              <span className="flex items-center text-xs text-primary shrink-0">
+                                <Check className="w-3 h-3 mr-1" />
+                                Keep
+                              </span>
+                            )}
+                          </div>
+                          <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                            <p className="truncate">{candidate.email}</p>
+                            {candidate.phone && <p>{candidate.phone}</p>}
+                            {candidate.linkedin_url && <p className="truncate">{candidate.linkedin_url}</p>}
+                            {candidate.github_url && <p className="truncate">{candidate.github_url}</p>}
+                            <p>
+                              Added {format(new Date(candidate.created_at), 'MMM d, yyyy')}
+                              {candidate.resume_url ? ' · Resume on file' : ''}
+                            </p>
+                          </div>
+                          {candidate.applications.length > 0 && (
+                            <div className="mt-2 flex flex-wrap gap-1">
+                              {candidate.applications.map((application) => (
+                                <Badge key={application.id} variant="secondary" className="text-xs capitalize">
+                                  {application.jobs?.title ?? 'Job'} · {application.status}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => dismiss.mutate(pair.id)} disabled={busy}>
+                      <X className="w-4 h-4 mr-1" />
+                      Not a Duplicate
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => merge.mutate({ duplicateId: pair.id, survivorId })}
+                      disabled={busy}
+                    >
+                      {merge.isPending && merge.variables?.duplicateId === pair.id ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <GitMerge className="w-4 h-4 mr-1" />
+                      )}
+                      Merge
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_RUBRIC,
+  RUBRIC_TOTAL_WEIGHT,
+  toDimensionKey,
+  type RubricDimension,
+  type ScoringRubric,
+} from '@/lib/rubric';
+
+interface JobRubricEditorProps {
+  // null keeps the job on the default rubric
+  value: ScoringRubric | null;
+  onChange: (value: ScoringRubric | null) => void;
+}
+
+export function JobRubricEditor({ value, onChange }: JobRubricEditorProps) {
+  const rubric = value ?? DEFAULT_RUBRIC;
+  const total = rubric.dimensions.reduce((sum, dimension) => sum + (dimension.weight || 0), 0);
+
+  const updateDimension = (index: number, changes: Partial<RubricDimension>) => {
+    onChange({
+      ...rubric,
+      dimensions: rubric.dimensions.map((dimension, i) => (i === index ? { ...dimension, ...changes } : dimension)),
+    });
+  };
+
+  const addDimension = () => {
+    onChange({
+      ...rubric,
+      dimensions: [...rubric.dimensions, { key: '', label: '', weight: 0, description: '' }],
+    });
+  };
+
+  const removeDimension = (index: number) => {
+    onChange({ ...rubric, dimensions: rubric.dimensions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="custom-rubric">Custom Scoring Rubric</Label>
+          <p className="text-xs text-muted-foreground">
+            {value
+              ? 'AI resume scoring uses the dimensions and must-haves below.'
+              : 'Using the default rubric (technical 30, experience 25, education 15, communication 10, culture 10, job match 10).'}
+          </p>
+        </div>
+        <Switch
+          id="custom-rubric"
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_RUBRIC : null)}
+        />
+      </div>
+
+      {value && (
+        <div className="space-y-4 rounded-lg border border-border p-4">
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_80px_32px] gap-2 text-xs text-muted-foreground">
+              <span>Dimension</span>
+              <span>Weight</span>
+            </div>
+            {rubric.dimensions.map((dimension, index) => (
+              <div key={index} className="space-y-1">
+                <div className="grid grid-cols-[1fr_80px_32px] gap-2">
+                  <Input
+                    value={dimension.label}
+                    onChange={(e) => updateDimension(index, { label: e.target.value, key: toDimensionKey(e.target.value) })}
+                    placeholder="e.g., Quota Attainment"
+                    aria-label="Dimension name"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={RUBRIC_TOTAL_WEIGHT}
+                    value={dimension.weight || ''}
+                    onChange={(e) => updateDimension(index, { weight: Number(e.target.value) || 0 })}
+                    aria-label="Dimension weight"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-10 w-8"
+                    onClick={() => removeDimension(index)}
+                    disabled={rubric.dimensions.length === 1}
+                    title="Remove dimension"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Input
+                  value={dimension.description}
+                  onChange={(e) => updateDimension(index, { description: e.target.value })}
+                  placeholder="What the AI should look for"
+                  className="text-xs h-8"
+                  aria-label="Dimension guidance"
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button type="button" variant="outline" size="sm" onClick={addDimension}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Dimension
+              </Button>
+              <span
+                className={cn(
+                  'text-xs font-medium',
+                  total === RUBRIC_TOTAL_WEIGHT ? 'text-muted-foreground' : 'text-destructive'
+                )}
+              >
+                Total {total} / {RUBRIC_TOTAL_WEIGHT}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rubric-knockouts">Knockout Requirements</Label>
+            <Textarea
+              id="rubric-knockouts"
+              value={rubric.knockouts.join('\n')}
+              onChange={(e) => onChange({ ...rubric, knockouts: e.target.value.split('\n') })}
+              placeholder={'One per line, e.g.\nRight to work in the UK\n3+ years of B2B sales'}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              Candidates without clear evidence of a knockout requirement are flagged in their AI insights.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rubric-notes">Notes for the AI</Label>
+            <Textarea
+              id="rubric-notes"
+              value={rubric.notes}
+              onChange={(e) => onChange({ ...rubric, notes: e.target.value })}
+              placeholder="e.g., Agency experience counts as client-facing"
+              rows={2}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
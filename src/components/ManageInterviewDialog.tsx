@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, CalendarIcon, History, Loader2 } from 'lucide-react';
+import { format, startOfDay, addDays } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  ALL_TIME_SLOTS,
+  WORKDAY_END_MINUTES,
+  atTime,
+  busyMembers,
+  changeInterview,
+  fetchPanelAvailability,
+  toMinutes,
+  type InterviewChange,
+  type PanelMember,
+} from "@/lib/interviews";
+
+export interface ManagedInterview {
+  id: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  candidateName: string;
+  jobTitle: string;
+  panel: (PanelMember & { name: string })[];
+}
+
+interface ManageInterviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  interview: ManagedInterview;
+  action: InterviewChange;
+}
+
+export function ManageInterviewDialog({ open, onOpenChange, interview, action }: ManageInterviewDialogProps) {
+  const queryClient = useQueryClient();
+  const [selectedDate, setSelectedDate] = useState<Date>();
+  const [selectedTime, setSelectedTime] = useState('');
+  const [duration, setDuration] = useState(String(interview.duration_minutes));
+  const [reason, setReason] = useState('');
+  const [notifyCandidate, setNotifyCandidate] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedDate(undefined);
+    setSelectedTime('');
+    setDuration(String(interview.duration_minutes));
+    setReason('');
+    setNotifyCandidate(true);
+  }, [open, interview]);
+
+  const { data: history } = useQuery({
+    queryKey: ['interview-reschedules', interview.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('interview_reschedules')
+        .select('*')
+        .eq('interview_id', interview.id)
+        .order('changed_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && action === 'reschedule',
+  });
+
+  const { data: dayAvailability, isLoading: loadingBusy } = useQuery({
+    queryKey: ['panel-availability', 'day', interview.panel, selectedDate?.toDateString(), duration],
+    queryFn: () => {
+      const dayStart = startOfDay(selectedDate!);
+      return fetchPanelAvailability(interview.panel, dayStart, addDays(dayStart, 1), parseInt(duration));
+    },
+    enabled: open && action === 'reschedule' && !!selectedDate && interview.panel.length > 0,
+  });
+
+  // The interview being moved shows as busy for its own panel, so it does not count as a conflict
+  const currentStart = new Date(interview.scheduled_at);
+  const currentEnd = new Date(currentStart.getTime() + interview.duration_minutes * 60000);
+  const otherBusy = Object.fromEntries(
+    Object.entries(dayAvailability?.busy ?? {}).map(([userId, slots]) => [
+      userId,
+      slots.filter((slot) => new Date(slot.start).getTime() !== currentStart.getTime() || new Date(slot.end).getTime() !== currentEnd.getTime()),
+    ]),
+  );
+  const calendarConnected = !!dayAvailability && dayAvailability.unknown.length < interview.panel.length;
+
+  const timeSlots = ALL_TIME_SLOTS.filter((time) => toMinutes(time) + parseInt(duration) <= WORKDAY_END_MINUTES);
+  const busyAt = (time: string) => {
+    const start = atTime(selectedDate!, time);
+    return busyMembers(interview.panel, otherBusy, start, new Date(start.getTime() + parseInt(duration) * 60000)).required;
+  };
+
+  const submit = useMutation({
+    mutationFn: () =>
+      changeInterview(action, {
+        interviewId: interview.id,
+        reason: reason.trim(),
+        notifyCandidate,
+        ...(action === 'reschedule'
+          ? { scheduledAt: atTime(selectedDate!, selectedTime).toISOString(), durationMinutes: parseInt(duration) }
+          : {}),
+      }),
+    onSuccess: ({ calendarSynced, meetingSynced }) => {
+      toast.success(action === 'reschedule' ? 'Interview rescheduled' : 'Interview cancelled');
+      if (calendarSynced === false || meetingSynced === false) {
+        toast.warning('The calendar event or video meeting could not be updated. Please check it by hand.');
+      }
+      queryClient.invalidateQueries({ queryKey: ['interviews'] });
+      queryClient.invalidateQueries({ queryKey: ['interview-reschedules', interview.id] });
+      queryClient.invalidateQueries({ queryKey: ['panel-availability'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || `Failed to ${action} the interview`);
+    },
+  });
+
+  const canSubmit = !!reason.trim() && (action === 'cancel' || (!!selectedDate && !!selectedTime));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{action === 'reschedule' ? 'Reschedule Interview' : 'Cancel Interview'}</DialogTitle>
+          <DialogDescription>
+            {interview.candidateName} · {interview.jobTitle} · {format(currentStart, "MMM d, yyyy 'at' h:mm a")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {action === 'reschedule' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>New date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn("w-full justify-start text-left font-normal", !selectedDate && "text-muted-foreground")}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {selectedDate ? format(selectedDate, "PPP") : "Pick a date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={selectedDate}
+                        onSelect={(date) => {
+                          setSelectedDate(date);
+                          setSelectedTime('');
+                        }}
+                        disabled={(date) => date < startOfDay(new Date()) || date.getDay() === 0 || date.getDay() === 6}
+                        initialFocus
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                <div className="space-y-2">
+                  <Label>Duration</Label>
+                  <Select value={duration} onValueChange={setDuration}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="30">30 minutes</SelectItem>
+                      <SelectItem value="45">45 minutes</SelectItem>
+                      <SelectItem value="60">1 hour</SelectItem>
+                      <SelectItem value="90">1.5 hours</SelectItem>
+                      <SelectItem value="120">2 hours</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>New time</Label>
+                  {selectedDate && loadingBusy && (
+                    <span className="text-xs text-muted-foreground flex items-center">
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      Checking availability...
+                    </span>
+                  )}
+                </div>
+                <Select value={selectedTime} onValueChange={setSelectedTime} disabled={!selectedDate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={selectedDate ? "Select a time" : "Select a date first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeSlots.map((time) => {
+                      const busy = selectedDate && calendarConnected ? busyAt(time) : [];
+                      const past = !!selectedDate && atTime(selectedDate, time) <= new Date();
+                      return (
+                        <SelectItem key={time} value={time} disabled={past}>
+                          <div className="flex items-center gap-2">
+                            {time}
+                            {busy.length > 0 && (
+                              <Badge variant="outline" className="text-xs bg-red-500/10 text-red-500 border-red-500/20">
+                                {busy.length === 1 ? `${interview.panel.find((m) => m.userId === busy[0].userId)?.name} busy` : `${busy.length} busy`}
+                              </Badge>
+                            )}
+                          </div>
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="change-reason">Reason</Label>
+            <Textarea
+              id="change-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={action === 'reschedule' ? 'e.g. Lead interviewer is out sick' : 'e.g. Position filled'}
+              rows={2}
+            />
+            <p className="text-xs text-muted-foreground">Shared with the panel and kept on the interview, not sent to the candidate.</p>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border border-border p-3 bg-secondary/30">
+            <Label htmlFor="notify-candidate" className="text-sm font-normal">
+              Email {interview.candidateName} an updated calendar invite
+            </Label>
+            <Switch id="notify-candidate" checked={notifyCandidate} onCheckedChange={setNotifyCandidate} />
+          </div>
+
+          {action === 'cancel' && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+              <AlertCircle className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
+              <p className="text-xs text-muted-foreground">
+                The calendar event and video meeting are removed for everyone, and the panel is told.
+              </p>
+            </div>
+          )}
+
+          {action === 'reschedule' && history && history.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1.5">
+                <History className="w-4 h-4" />
+                Moved {history.length} time{history.length === 1 ? '' : 's'} before
+              </Label>
+              <ul className="space-y-1 text-xs text-muted-foreground max-h-28 overflow-y-auto">
+                {history.map((entry) => (
+                  <li key={entry.id}>
+                    {format(new Date(entry.changed_at), 'MMM d')}: {format(new Date(entry.from_scheduled_at), 'MMM d, h:mm a')} →{' '}
+                    {format(new Date(entry.to_scheduled_at), 'MMM d, h:mm a')} · {entry.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button
+            variant={action === 'cancel' ? 'destructive' : 'default'}
+            onClick={() => submit.mutate()}
+            disabled={!canSubmit || submit.isPending}
+          >
+            {submit.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {action === 'reschedule' ? 'Reschedule' : 'Cancel Interview'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,6 +23,7 @@ import {
 } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction } from '@/lib/functions';
 import { useQueryClient } from '@tanstack/react-query';
 
 const offerLetterSchema = z.object({
@@ -49,6 +50,9 @@ const offerLetterSchema = z.object({
 
 type OfferLetterFormData = z.infer<typeof offerLetterSchema>;
 
+// The candidate has answered or the offer lapsed; saving or sending would reopen it
+const CLOSED_OFFER_STATUSES = ['accepted', 'declined', 'expired'];
+
 interface OfferLetterDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -57,6 +61,8 @@ interface OfferLetterDialogProps {
   jobTitle: string;
   department?: string;
   location?: string;
+  // Only HR managers and admins may send; everyone else saves drafts for approval
+  canSend?: boolean;
   onSuccess?: () => void;
 }
 
@@ -68,12 +74,14 @@ export function OfferLetterDialog({
   jobTitle,
   department = '',
   location = '',
+  canSend = false,
   onSuccess,
 }: OfferLetterDialogProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [existingOffer, setExistingOffer] = useState<any>(null);
   const queryClient = useQueryClient();
+  const isClosed = CLOSED_OFFER_STATUSES.includes(existingOffer?.status);
 
   const form = useForm<OfferLetterFormData>({
     resolver: zodResolver(offerLetterSchema),
@@ -165,7 +173,8 @@ export function OfferLetterDialog({
       notice_period_days: data.notice_period_days || null,
       reporting_manager: data.reporting_manager || null,
       additional_notes: data.additional_notes || null,
-      status: send ? 'sending' : 'draft',
+      // Sending counts as approval; send-offer-letter only sends draft and approved offers
+      status: send ? 'approved' : 'draft',
     };
 
     let offerId = existingOffer?.id;
@@ -212,12 +221,11 @@ export function OfferLetterDialog({
     try {
       const offerId = await saveOfferLetter(data, true);
 
-      const { data: result, error } = await supabase.functions.invoke('send-offer-letter', {
-        body: { offerLetterId: offerId },
+      // Surfaces the function's own message when it refuses, e.g. for an offer that was already sent
+      const result = await invokeFunction<{ success: boolean; message: string }>('send-offer-letter', {
+        offerLetterId: offerId,
       });
 
-      if (error) throw error;
-
       if (result.success) {
         toast.success('Offer letter sent successfully!');
         queryClient.invalidateQueries({ queryKey: ['applications'] });
@@ -243,7 +251,9 @@ export function OfferLetterDialog({
             Offer Letter for {candidateName}
           </DialogTitle>
           <DialogDescription>
-            Fill in the offer details. Save as draft or send directly to the candidate.
+            {isClosed
+              ? `This offer was ${existingOffer.status} and can no longer be changed or sent.`
+              : 'Fill in the offer details. Save as draft or send directly to the candidate.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -494,31 +504,35 @@ export function OfferLetterDialog({
             >
               Cancel
             </Button>
-            <Button
-              type="button"
-              variant="secondary"
-              onClick={form.handleSubmit(handleSave)}
-              disabled={isSaving || isSending}
-            >
-              {isSaving ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <Save className="w-4 h-4 mr-2" />
-              )}
-              Save Draft
-            </Button>
-            <Button
-              type="button"
-              onClick={form.handleSubmit(handleSend)}
-              disabled={isSaving || isSending}
-            >
-              {isSending ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <Send className="w-4 h-4 mr-2" />
-              )}
-              Send Offer Letter
-            </Button>
+            {!isClosed && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={form.handleSubmit(handleSave)}
+                disabled={isSaving || isSending}
+              >
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Draft
+              </Button>
+            )}
+            {canSend && !isClosed && (
+              <Button
+                type="button"
+                onClick={form.handleSubmit(handleSend)}
+                disabled={isSaving || isSending}
+              >
+                {isSending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                Send Offer Letter
+              </Button>
+            )}
           </div>
         </form>
       </DialogContent>
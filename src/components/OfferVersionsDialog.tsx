@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Download, History, Loader2, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { diffOfferVersions, OFFER_LETTER_BUCKET } from '@/lib/offers';
+import { cn } from '@/lib/utils';
+
+interface OfferVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  offerLetterId: string;
+  candidateName: string;
+}
+
+export function OfferVersionsDialog({ open, onOpenChange, offerLetterId, candidateName }: OfferVersionsDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data: versions, isLoading } = useQuery({
+    queryKey: ['offer-letter-versions', offerLetterId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('offer_letter_versions')
+        .select('*')
+        .eq('offer_letter_id', offerLetterId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const selectedIndex = versions ? Math.max(0, versions.findIndex((v) => v.id === selectedId)) : 0;
+  const selected = versions?.[selectedIndex];
+  const previous = versions?.[selectedIndex + 1];
+  const changes = selected ? diffOfferVersions(previous ? previous.content : null, selected.content) : [];
+
+  const handleDownload = async (versionId: string, pdfPath: string) => {
+    setDownloadingId(versionId);
+    try {
+      const { data, error } = await supabase.storage.from(OFFER_LETTER_BUCKET).createSignedUrl(pdfPath, 60);
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download PDF');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Offer History for {candidateName}
+          </DialogTitle>
+          <DialogDescription>
+            Every change to the offer terms is kept as a version. Sent versions include the PDF the candidate received.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !versions || versions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No versions recorded yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4 mt-2">
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={cn(
+                    'w-full text-left p-3 rounded-lg border transition-colors',
+                    version.id === selected?.id
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border hover:border-primary/30'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">Version {version.version_number}</span>
+                    {version.sent_at && (
+                      <Badge variant="secondary" className="bg-blue-500/10 text-blue-600 border-blue-500/20">
+                        <Send className="w-3 h-3 mr-1" />
+                        Sent
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(version.created_at), 'MMM d, yyyy h:mm a')}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-semibold text-foreground">
+                      {previous
+                        ? `Changes from version ${previous.version_number}`
+                        : 'Initial terms'}
+                    </p>
+                    {selected.sent_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Sent {format(new Date(selected.sent_at), 'MMM d, yyyy h:mm a')}
+                      </p>
+                    )}
+                  </div>
+                  {selected.pdf_path && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownload(selected.id, selected.pdf_path!)}
+                      disabled={downloadingId === selected.id}
+                    >
+                      {downloadingId === selected.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Download className="w-4 h-4 mr-2" />
+                      )}
+                      Download PDF
+                    </Button>
+                  )}
+                </div>
+
+                {changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No changes to the offer terms.</p>
+                ) : (
+                  <div className="rounded-lg border border-border divide-y divide-border">
+                    {changes.map((change) => (
+                      <div key={change.key} className="grid grid-cols-[140px_1fr] gap-3 p-3 text-sm">
+                        <span className="font-medium text-foreground">{change.label}</span>
+                        <div className="space-y-1 min-w-0">
+                          {previous && (
+                            <p className="text-destructive line-through break-words">
+                              {change.before ?? '—'}
+                            </p>
+                          )}
+                          <p className={cn('break-words', previous ? 'text-emerald-600' : 'text-foreground')}>
+                            {change.after ?? '—'}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { AlertTriangle, Brain, GripVertical } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { ApplicationStatus, WipLimits, WipLimitedStage } from '@/lib/pipeline';
+
+export interface PipelineCard {
+  id: string;
+  candidateName: string;
+  email: string;
+  jobTitle: string;
+  status: string;
+  aiScore: number | null;
+  aiAnalysisStatus: string;
+  aptitudeScore: number | null;
+  appliedDate: string;
+}
+
+interface PipelineBoardProps<T extends PipelineCard> {
+  cards: T[];
+  // Limits only apply when the board is filtered to a single job
+  wipLimits: WipLimits | null;
+  showJobTitle?: boolean;
+  onMove: (card: T, status: ApplicationStatus) => void;
+  onOpenCard?: (card: T) => void;
+}
+
+const COLUMNS: { status: ApplicationStatus; label: string; accent: string }[] = [
+  { status: 'applied', label: 'Applied', accent: 'bg-muted-foreground' },
+  { status: 'screening', label: 'Screening', accent: 'bg-primary' },
+  { status: 'interview', label: 'Interview', accent: 'bg-accent' },
+  { status: 'offer', label: 'Offer', accent: 'bg-emerald-500' },
+  { status: 'hired', label: 'Hired', accent: 'bg-green-600' },
+  { status: 'rejected', label: 'Rejected', accent: 'bg-destructive' },
+  { status: 'withdrawn', label: 'Withdrawn', accent: 'bg-muted-foreground/50' },
+];
+
+const getLimit = (limits: WipLimits | null, status: ApplicationStatus) =>
+  limits?.[status as WipLimitedStage];
+
+export function PipelineBoard<T extends PipelineCard>({
+  cards,
+  wipLimits,
+  showJobTitle = false,
+  onMove,
+  onOpenCard,
+}: PipelineBoardProps<T>) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+
+  const handleDrop = (e: React.DragEvent, status: ApplicationStatus) => {
+    e.preventDefault();
+    setDropTarget(null);
+    setDraggingId(null);
+
+    const card = cards.find((c) => c.id === e.dataTransfer.getData('text/plain'));
+    if (!card || card.status === status) return;
+
+    const limit = getLimit(wipLimits, status);
+    const count = cards.filter((c) => c.status === status).length;
+    if (limit !== undefined && count >= limit) {
+      const column = COLUMNS.find((c) => c.status === status);
+      toast.error(`${column?.label} is at its WIP limit of ${limit}`);
+      return;
+    }
+
+    onMove(card, status);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {COLUMNS.map((column) => {
+        const columnCards = cards.filter((c) => c.status === column.status);
+        const limit = getLimit(wipLimits, column.status);
+        const atLimit = limit !== undefined && columnCards.length >= limit;
+        const overLimit = limit !== undefined && columnCards.length > limit;
+
+        return (
+          <div
+            key={column.status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(column.status);
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === column.status ? null : current))}
+            onDrop={(e) => handleDrop(e, column.status)}
+            className={cn(
+              'flex-shrink-0 w-72 rounded-xl border bg-card flex flex-col max-h-[70vh] transition-colors',
+              dropTarget === column.status ? 'border-primary bg-primary/5' : 'border-border',
+              overLimit && 'border-destructive/50'
+            )}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+              <div className="flex items-center gap-2">
+                <span className={cn('w-2 h-2 rounded-full', column.accent)} />
+                <span className="text-sm font-semibold text-foreground">{column.label}</span>
+              </div>
+              <span
+                className={cn(
+                  'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+                  overLimit
+                    ? 'bg-destructive/20 text-destructive'
+                    : atLimit
+                      ? 'bg-amber-500/20 text-amber-600'
+                      : 'bg-secondary text-muted-foreground'
+                )}
+                title={limit !== undefined ? `WIP limit: ${limit}` : undefined}
+              >
+                {overLimit && <AlertTriangle className="w-3 h-3" />}
+                {columnCards.length}
+                {limit !== undefined && ` / ${limit}`}
+              </span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-2 min-h-[120px]">
+              {columnCards.map((card) => (
+                <div
+                  key={card.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', card.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingId(card.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setDropTarget(null);
+                  }}
+                  className={cn(
+                    'group rounded-lg border border-border bg-background p-3 cursor-grab active:cursor-grabbing hover:border-primary/40 transition-colors',
+                    draggingId === card.id && 'opacity-50'
+                  )}
+                >
+                  <div className="flex items-start gap-2">
+                    <GripVertical className="w-4 h-4 mt-0.5 text-muted-foreground/50 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm text-foreground truncate">{card.candidateName}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {showJobTitle ? card.jobTitle : card.email}
+                      </p>
+                    </div>
+                    {onOpenCard && (
+                      <button
+                        onClick={() => onOpenCard(card)}
+                        className="p-1 rounded hover:bg-accent/20 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="View AI Insights"
+                      >
+                        <Brain className="w-3.5 h-3.5 text-accent" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                    <div className="flex gap-2">
+                      {card.aiScore === null && card.aiAnalysisStatus === 'analysis_failed' ? (
+                        <span className="text-destructive">AI failed</span>
+                      ) : (
+                        <span>AI {card.aiScore !== null ? `${card.aiScore}%` : '—'}</span>
+                      )}
+                      {card.aptitudeScore !== null && <span>Apt {card.aptitudeScore}%</span>}
+                    </div>
+                    <span>{new Date(card.appliedDate).toLocaleDateString()}</span>
+                  </div>
+                </div>
+              ))}
+              {columnCards.length === 0 && (
+                <p className="text-xs text-center text-muted-foreground py-6">Drop candidates here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Clock, Loader2, RefreshCw, Sparkles, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction } from '@/lib/functions';
+import {
+  fetchTemplateContexts,
+  renderTemplate,
+  validateTemplate,
+  type TemplateContext,
+} from '@/lib/email-templates';
+import {
+  REJECTION_REASON_LABELS,
+  formatCoolOff,
+  plainTextToHtml,
+  type RejectionSettings,
+} from '@/lib/rejections';
+
+export interface RejectionTarget {
+  applicationId: string;
+  candidateName: string;
+  jobTitle: string;
+}
+
+interface RejectApplicationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targets: RejectionTarget[];
+  onRejected?: () => void;
+}
+
+type EmailSource = 'template' | 'ai' | 'none';
+
+interface EmailDraft {
+  subject: string;
+  body: string;
+}
+
+const draftProblems = (draft: EmailDraft) => [
+  ...validateTemplate(draft.subject, 'rejection'),
+  ...validateTemplate(draft.body, 'rejection'),
+];
+
+// A single candidate sees the template rendered for them; bulk keeps the tags until each email is rendered.
+// A template with problems stays as written so they can be fixed in the draft.
+const renderDraft = (draft: EmailDraft, context: TemplateContext | null | undefined): EmailDraft => {
+  if (!context || draftProblems(draft).length > 0) return { subject: draft.subject, body: draft.body };
+  return { subject: renderTemplate(draft.subject, context), body: renderTemplate(draft.body, context) };
+};
+
+export function RejectApplicationsDialog({ open, onOpenChange, targets, onRejected }: RejectApplicationsDialogProps) {
+  const queryClient = useQueryClient();
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+  const [emailSource, setEmailSource] = useState<EmailSource>('template');
+  const [templateId, setTemplateId] = useState('');
+  const [draft, setDraft] = useState<EmailDraft>({ subject: '', body: '' });
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const single = targets.length === 1 ? targets[0] : null;
+
+  useEffect(() => {
+    if (open) {
+      setReasonCode('');
+      setNote('');
+      setEmailSource('template');
+      setTemplateId('');
+      setDraft({ subject: '', body: '' });
+      setProgress(0);
+    }
+  }, [open]);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates', 'rejection'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('id, name, subject, body, is_default')
+        .eq('email_type', 'rejection')
+        .order('is_default', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['rejection-settings'],
+    queryFn: async (): Promise<RejectionSettings | null> => {
+      const { data, error } = await supabase.from('rejection_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+  const coolOffMinutes = settings?.cool_off_minutes;
+
+  const { data: singleContext, isLoading: loadingContext } = useQuery({
+    queryKey: ['template-context', single?.applicationId],
+    queryFn: async () => (await fetchTemplateContexts([single!.applicationId]))[single!.applicationId],
+    enabled: open && !!single,
+  });
+
+  // Start from the default rejection template
+  useEffect(() => {
+    if (open && emailSource === 'template' && !templateId && templates.length > 0 && !loadingContext) {
+      setTemplateId(templates[0].id);
+      setDraft(renderDraft(templates[0], singleContext));
+    }
+  }, [open, emailSource, templateId, templates, loadingContext, singleContext]);
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    setDraft(renderDraft(template, singleContext));
+  };
+
+  const generateDraft = async (applicationId: string): Promise<EmailDraft> => {
+    const data = await invokeFunction<EmailDraft>('generate-email-draft', {
+      applicationId,
+      emailType: 'rejection',
+      additionalContext: note.trim() || undefined,
+    });
+    return { subject: data.subject, body: data.body };
+  };
+
+  const generateSingleDraft = async () => {
+    if (!single) return;
+    setGenerating(true);
+    try {
+      setDraft(await generateDraft(single.applicationId));
+    } catch (error) {
+      toast.error(`Failed to generate email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const emailFor = async (target: RejectionTarget, contexts: Record<string, TemplateContext>): Promise<EmailDraft | null> => {
+    if (emailSource === 'none') return null;
+    // In bulk each candidate gets their own AI draft; a single candidate's draft was reviewed in the dialog
+    if (emailSource === 'ai' && !single) return generateDraft(target.applicationId);
+    const context = contexts[target.applicationId];
+    if (!context) throw new Error('Could not load the details to fill in the email');
+    return renderDraft(draft, context);
+  };
+
+  const needsDraft = emailSource === 'template' || (emailSource === 'ai' && !!single);
+  const problems = needsDraft ? draftProblems(draft) : [];
+
+  const reject = useMutation({
+    mutationFn: async () => {
+      const failures: string[] = [];
+      let queued = 0;
+      const contexts = needsDraft ? await fetchTemplateContexts(targets.map((t) => t.applicationId)) : {};
+
+      for (const target of targets) {
+        try {
+          const email = await emailFor(target, contexts);
+          const { data, error } = await supabase.rpc('reject_application', {
+            _application_id: target.applicationId,
+            _reason_code: reasonCode,
+            _note: note.trim() || undefined,
+            _email_subject: email?.subject,
+            _email_html: email ? plainTextToHtml(email.body) : undefined,
+          });
+          if (error) throw error;
+          if (data) queued++;
+        } catch (error) {
+          failures.push(`${target.candidateName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        setProgress((done) => done + 1);
+      }
+
+      return { rejected: targets.length - failures.length, queued, failures };
+    },
+    onSuccess: ({ rejected, queued, failures }) => {
+      if (rejected > 0) {
+        const emails = queued > 0 ? ` · ${queued} rejection email${queued === 1 ? '' : 's'} queued` : '';
+        toast.success(`Rejected ${rejected} application${rejected === 1 ? '' : 's'}${emails}`);
+      }
+      if (failures.length > 0) {
+        toast.error(`Could not reject ${failures.length} application${failures.length === 1 ? '' : 's'}`, {
+          description: failures.join('\n'),
+        });
+      }
+      onOpenChange(false);
+      onRejected?.();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to reject');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduled-rejections'] });
+      queryClient.invalidateQueries({ queryKey: ['recent-applications'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['stage-history'] });
+    },
+  });
+
+  const canSubmit = !!reasonCode && (!needsDraft || (!!draft.subject.trim() && !!draft.body.trim() && problems.length === 0));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !reject.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="w-5 h-5 text-destructive" />
+            {single ? 'Reject Application' : `Reject ${targets.length} Applications`}
+          </DialogTitle>
+          <DialogDescription>
+            {single
+              ? `${single.candidateName} · ${single.jobTitle}`
+              : targets.map((t) => t.candidateName).join(', ')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reasonCode} onValueChange={setReasonCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Why is this candidate rejected?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REJECTION_REASON_LABELS).map(([code, label]) => (
+                    <SelectItem key={code} value={code}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rejection Email</Label>
+              <Select
+                value={emailSource}
+                onValueChange={(value) => {
+                  setEmailSource(value as EmailSource);
+                  setTemplateId('');
+                  setDraft({ subject: '', body: '' });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="template">From a template</SelectItem>
+                  <SelectItem value="ai">AI draft</SelectItem>
+                  <SelectItem value="none">Don't send an email</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rejection-note">Internal Note (optional)</Label>
+            <Textarea
+              id="rejection-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Only visible to the hiring team"
+              rows={2}
+            />
+          </div>
+
+          {emailSource === 'template' && (
+            templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No rejection templates yet. Create one under Email Templates, or use an AI draft.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={selectTemplate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a rejection template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}{template.is_default ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!single && (
+                  <p className="text-xs text-muted-foreground">
+                    Variables such as {'{{candidateName}}'} and {'{{position}}'} are filled in for each candidate
+                  </p>
+                )}
+              </div>
+            )
+          )}
+
+          {emailSource === 'ai' && (
+            single ? (
+              <Button variant="secondary" className="w-full" onClick={generateSingleDraft} disabled={generating}>
+                {generating ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : draft.subject ? (
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                ) : (
+                  <Sparkles className="w-4 h-4 mr-2" />
+                )}
+                {draft.subject ? 'Regenerate with AI' : 'Generate AI Draft'}
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                A separate AI draft is written for each candidate when you reject.
+              </p>
+            )
+          )}
+
+          {needsDraft && (draft.subject || draft.body) && (
+            <div className="space-y-4 border border-border rounded-lg p-4 bg-secondary/30">
+              <div className="space-y-2">
+                <Label htmlFor="rejection-subject">Subject</Label>
+                <Input
+                  id="rejection-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rejection-body">Body</Label>
+                <Textarea
+                  id="rejection-body"
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  rows={8}
+                  className="font-mono text-sm"
+                />
+              </div>
+              {problems.length > 0 && (
+                <ul className="text-xs text-destructive space-y-1">
+                  {problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {emailSource !== 'none' && coolOffMinutes !== undefined && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Clock className="w-4 h-4 shrink-0" />
+              {coolOffMinutes === 0
+                ? 'The email goes out within a few minutes.'
+                : `The email is held for ${formatCoolOff(coolOffMinutes)} and can be cancelled from the candidate list until then.`}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={reject.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              setProgress(0);
+              reject.mutate();
+            }}
+            disabled={!canSubmit || reject.isPending || generating}
+          >
+            {reject.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {reject.isPending && !single ? `Rejecting ${progress}/${targets.length}` : 'Reject'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,10 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { FileText, Copy, Check, Mail, Phone, MapPin, Briefcase, GraduationCap, Award, Loader2, Sparkles, Languages, BadgeCheck } from "lucide-react";
+import { FileText, Copy, Check, Mail, Phone, MapPin, Briefcase, GraduationCap, Award, Loader2, Sparkles, Languages, BadgeCheck, History } from "lucide-react";
 import { useState, useEffect, useCallback } from "react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import ActivityTimeline from "@/components/ActivityTimeline";
 
 interface ResumePreviewDialogProps {
   open: boolean;
@@ -176,6 +177,7 @@ const ResumePreviewDialog = ({
   const [copied, setCopied] = useState(false);
   const [parsing, setParsing] = useState(false);
   const [parsedResume, setParsedResume] = useState<ParsedResume | null>(null);
+  const [showActivity, setShowActivity] = useState(false);
 
   // Load cached data or parse when dialog opens
   useEffect(() => {
@@ -192,6 +194,7 @@ const ResumePreviewDialog = ({
   useEffect(() => {
     if (!open) {
       setParsedResume(null);
+      setShowActivity(false);
     }
   }, [open]);
 
@@ -309,12 +312,26 @@ const ResumePreviewDialog = ({
               {parsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
               {parsing ? 'Parsing...' : 'Re-parse with AI'}
             </Button>
+            <Button
+              variant={showActivity ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowActivity(!showActivity)}
+              disabled={!candidateId}
+              className="flex items-center gap-2"
+            >
+              <History className="w-4 h-4" />
+              {showActivity ? 'Show Resume' : 'Activity'}
+            </Button>
           </div>
         </div>
 
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto min-h-0">
-          {parsing ? (
+          {showActivity ? (
+            <div className="p-6">
+              <ActivityTimeline candidateId={candidateId} />
+            </div>
+          ) : parsing ? (
             <div className="flex flex-col items-center justify-center py-16">
               <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
               <p className="text-muted-foreground">Parsing resume with AI...</p>
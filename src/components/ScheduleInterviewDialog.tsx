@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { CalendarIcon, Clock, Loader2, Video, AlertCircle, CheckCircle } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { CalendarIcon, Clock, Loader2, Video, AlertCircle, CheckCircle, Sparkles, UserPlus, X, Send } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -18,14 +18,32 @@ import {
 } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { cn } from "@/lib/utils";
-import { format, addDays, addMinutes, isBefore, isAfter, parseISO } from "date-fns";
+import { cn, escapeHtml } from "@/lib/utils";
+import { format, addDays, addMinutes, startOfDay, isSameDay } from "date-fns";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
-import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import { invokeFunction } from "@/lib/functions";
+import {
+  ALL_TIME_SLOTS,
+  MEETING_PROVIDER_LABELS,
+  PANEL_ROLE_LABELS,
+  WORKDAY_END_MINUTES,
+  atTime,
+  busyMembers,
+  fetchPanelAvailability,
+  schedulingLinkUrl,
+  toMinutes,
+  type MeetingChoice,
+  type MeetingProviderName,
+  type PanelMember,
+  type PanelRole,
+} from "@/lib/interviews";
 
 interface Application {
   id: string;
@@ -38,130 +56,184 @@ interface Application {
   };
 }
 
-interface BusySlot {
-  start: string;
-  end: string;
+// Pick a time now, or send the candidate a link to book one of the panel's free slots
+type ScheduleMode = 'pick' | 'link';
+
+interface HrMember {
+  id: string;
+  email: string;
+  full_name: string | null;
 }
 
-export const ScheduleInterviewDialog = () => {
-  const [open, setOpen] = useState(false);
+// How far ahead slots are suggested
+const SUGGESTION_DAYS = 14;
+
+interface ScheduleInterviewDialogProps {
+  // When provided the dialog is controlled by the parent and renders no trigger button
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  // Preselect this application, regardless of its current status
+  applicationId?: string;
+}
+
+export const ScheduleInterviewDialog = ({
+  open: controlledOpen,
+  onOpenChange,
+  applicationId,
+}: ScheduleInterviewDialogProps = {}) => {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = (value: boolean) => {
+    if (!isControlled) setInternalOpen(value);
+    onOpenChange?.(value);
+  };
   const [selectedApplication, setSelectedApplication] = useState<string>('');
   const [selectedDate, setSelectedDate] = useState<Date>();
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [duration, setDuration] = useState<string>('60');
   const [interviewType, setInterviewType] = useState<string>('Technical');
-  const [createMeetLink, setCreateMeetLink] = useState(true);
-  const [busySlots, setBusySlots] = useState<BusySlot[]>([]);
-  const [loadingBusy, setLoadingBusy] = useState(false);
-  const [calendarConnected, setCalendarConnected] = useState(false);
-  const [checkingCalendar, setCheckingCalendar] = useState(true);
+  // 'default' leaves the choice to the organization's default provider
+  const [meetingChoice, setMeetingChoice] = useState<MeetingChoice | 'default'>('default');
+  const [panel, setPanel] = useState<PanelMember[]>([]);
+  const [mode, setMode] = useState<ScheduleMode>('pick');
+  const [bufferMinutes, setBufferMinutes] = useState<string>('15');
+  const [linkDays, setLinkDays] = useState<string>('7');
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
-  // Check Google Calendar connection
   useEffect(() => {
-    if (open) {
-      checkCalendarConnection();
+    if (open && applicationId) {
+      setSelectedApplication(applicationId);
     }
-  }, [open]);
+  }, [open, applicationId]);
 
-  // Fetch busy slots when date changes
+  // Whoever schedules leads the interview unless they change the panel
   useEffect(() => {
-    if (selectedDate && calendarConnected) {
-      fetchBusySlots(selectedDate);
+    if (open && user) {
+      setPanel((current) => (current.length > 0 ? current : [{ userId: user.id, role: 'lead' }]));
     }
-  }, [selectedDate, calendarConnected]);
+  }, [open, user]);
 
-  const checkCalendarConnection = async () => {
-    setCheckingCalendar(true);
-    try {
-      const { data, error } = await supabase.functions.invoke('google-calendar', {
-        body: { action: 'check-connection' },
-      });
-      if (!error && data) {
-        setCalendarConnected(data.connected);
-      }
-    } catch (error) {
-      console.error('Calendar check error:', error);
-    } finally {
-      setCheckingCalendar(false);
-    }
-  };
+  const { data: hrMembers } = useQuery({
+    queryKey: ['hr-members'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .order('full_name', { ascending: true });
+      if (error) throw error;
+      return data as HrMember[];
+    },
+    enabled: open,
+  });
 
-  const fetchBusySlots = async (date: Date) => {
-    setLoadingBusy(true);
-    try {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
-
-      const { data, error } = await supabase.functions.invoke('google-calendar', {
-        body: {
-          action: 'get-free-busy',
-          timeMin: startOfDay.toISOString(),
-          timeMax: endOfDay.toISOString(),
-        },
-      });
+  const { data: meetingSettings } = useQuery({
+    queryKey: ['meeting-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('meeting_settings').select('default_provider').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+  const defaultProvider = (meetingSettings?.default_provider ?? 'google_meet') as MeetingProviderName;
 
-      if (!error && data?.busySlots) {
-        setBusySlots(data.busySlots);
-      }
-    } catch (error) {
-      console.error('Failed to fetch busy slots:', error);
-    } finally {
-      setLoadingBusy(false);
-    }
+  const memberName = (userId: string) => {
+    const member = hrMembers?.find((m) => m.id === userId);
+    return member?.full_name || member?.email || 'Unknown user';
   };
 
-  // Generate time slots
-  const timeSlots = [
-    '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
-    '12:00', '12:30', '13:00', '13:30', '14:00', '14:30',
-    '15:00', '15:30', '16:00', '16:30', '17:00'
-  ];
-
-  // Check if a time slot conflicts with busy periods
-  const isSlotBusy = (timeSlot: string): boolean => {
-    if (!selectedDate || busySlots.length === 0) return false;
-    
-    const [hours, minutes] = timeSlot.split(':').map(Number);
-    const slotStart = new Date(selectedDate);
-    slotStart.setHours(hours, minutes, 0, 0);
-    const slotEnd = addMinutes(slotStart, parseInt(duration));
-
-    return busySlots.some(busy => {
-      const busyStart = parseISO(busy.start);
-      const busyEnd = parseISO(busy.end);
-      // Check for overlap
-      return (isBefore(slotStart, busyEnd) && isAfter(slotEnd, busyStart));
-    });
-  };
+  // Ranked slots over the next two weeks
+  const {
+    data: availability,
+    isLoading: loadingAvailability,
+    error: availabilityError,
+  } = useQuery({
+    queryKey: ['panel-availability', panel, duration],
+    queryFn: () => {
+      const today = startOfDay(new Date());
+      return fetchPanelAvailability(panel, today, addDays(today, SUGGESTION_DAYS), parseInt(duration));
+    },
+    enabled: open && panel.length > 0,
+    staleTime: 60_000,
+    retry: false,
+  });
 
-  // Find first available slot
-  const findFirstAvailable = (): string | null => {
-    for (const slot of timeSlots) {
-      if (!isSlotBusy(slot)) {
-        return slot;
-      }
-    }
-    return null;
-  };
+  // Busy times on the picked day, which may lie beyond the suggestions
+  const { data: dayAvailability, isFetching: loadingBusy } = useQuery({
+    queryKey: ['panel-availability', panel, duration, selectedDate?.toDateString()],
+    queryFn: () => {
+      const day = startOfDay(selectedDate!);
+      return fetchPanelAvailability(panel, day, addDays(day, 1), parseInt(duration));
+    },
+    enabled: open && panel.length > 0 && !!selectedDate,
+    staleTime: 60_000,
+    retry: false,
+  });
+
+  const calendarConnected = !!availability && availability.unknown.length < panel.length;
+  const unconnected = availability?.unknown ?? [];
+
+  // Generate time slots that end within the working day
+  const timeSlots = useMemo(
+    () => ALL_TIME_SLOTS.filter((time) => toMinutes(time) + parseInt(duration) <= WORKDAY_END_MINUTES),
+    [duration],
+  );
+
+  // Panel members busy during a time slot on the selected date
+  const slotConflicts = useCallback((timeSlot: string) => {
+    if (!selectedDate || !dayAvailability) return { required: [], shadows: [] };
+    const slotStart = atTime(selectedDate, timeSlot);
+    return busyMembers(panel, dayAvailability.busy, slotStart, addMinutes(slotStart, parseInt(duration)));
+  }, [selectedDate, dayAvailability, panel, duration]);
+
+  // A slot is busy when a lead or interviewer is; busy shadows only lower a slot's ranking
+  const isSlotBusy = useCallback(
+    (timeSlot: string): boolean => slotConflicts(timeSlot).required.length > 0,
+    [slotConflicts],
+  );
 
   // Auto-select first available when date changes
   useEffect(() => {
-    if (selectedDate && !loadingBusy) {
-      const firstAvailable = findFirstAvailable();
-      if (firstAvailable && !selectedTime) {
+    if (selectedDate && dayAvailability && !selectedTime) {
+      const firstAvailable = timeSlots.find((slot) => !isSlotBusy(slot));
+      if (firstAvailable) {
         setSelectedTime(firstAvailable);
       }
     }
-  }, [selectedDate, loadingBusy, busySlots]);
+  }, [selectedDate, dayAvailability, selectedTime, timeSlots, isSlotBusy]);
+
+  const pickSuggestion = (start: string) => {
+    const date = new Date(start);
+    setSelectedDate(startOfDay(date));
+    setSelectedTime(format(date, 'HH:mm'));
+  };
+
+  const addInterviewer = (userId: string) => {
+    setPanel((current) => [...current, { userId, role: current.some((m) => m.role === 'lead') ? 'interviewer' : 'lead' }]);
+  };
+
+  // A panel has one lead, so promoting someone makes the previous lead an interviewer
+  const setRole = (userId: string, role: PanelRole) => {
+    setPanel((current) =>
+      current.map((member) => {
+        if (member.userId === userId) return { ...member, role };
+        if (role === 'lead' && member.role === 'lead') return { ...member, role: 'interviewer' };
+        return member;
+      }),
+    );
+  };
+
+  const removeInterviewer = (userId: string) => {
+    setPanel((current) => current.filter((member) => member.userId !== userId));
+  };
 
   // Fetch applications that can be scheduled for interview
   const { data: applications, isLoading: loadingApps } = useQuery({
-    queryKey: ['schedulable-applications'],
+    queryKey: ['schedulable-applications', applicationId],
     queryFn: async (): Promise<Application[]> => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('applications')
         .select(`
           id,
@@ -170,8 +242,13 @@ export const ScheduleInterviewDialog = () => {
           job_id,
           candidates:candidate_id(full_name, email),
           jobs:job_id(title)
-        `)
-        .in('status', ['applied', 'screening']);
+        `);
+
+      query = applicationId
+        ? query.eq('id', applicationId)
+        : query.in('status', ['applied', 'screening']);
+
+      const { data, error } = await query;
 
       if (error) {
         console.error('Error fetching schedulable applications:', error);
@@ -203,95 +280,133 @@ export const ScheduleInterviewDialog = () => {
       const app = applications?.find(a => a.id === selectedApplication);
       if (!app) throw new Error('Application not found');
 
-      // Combine date and time
-      const [hours, minutes] = selectedTime.split(':').map(Number);
-      const scheduledAt = new Date(selectedDate);
-      scheduledAt.setHours(hours, minutes, 0, 0);
-      
-      const endTime = addMinutes(scheduledAt, parseInt(duration));
-
-      let meetingUrl = null;
-      let calendarEventId = null;
-
-      // Create Google Calendar event with Meet if connected
-      if (calendarConnected && createMeetLink) {
-        try {
-          const { data: calendarData, error: calendarError } = await supabase.functions.invoke('google-calendar', {
-            body: {
-              action: 'create-event',
-              event: {
-                summary: `Interview: ${app.candidate.full_name} - ${app.job.title}`,
-                description: `${interviewType} interview with ${app.candidate.full_name} for ${app.job.title} position.`,
-                startTime: scheduledAt.toISOString(),
-                endTime: endTime.toISOString(),
-                attendees: [app.candidate.email],
-                createMeet: true,
-              },
-            },
-          });
-
-          if (!calendarError && calendarData) {
-            meetingUrl = calendarData.meetLink;
-            calendarEventId = calendarData.eventId;
-          }
-        } catch (error) {
-          console.error('Failed to create calendar event:', error);
-          toast.error('Calendar event creation failed, but continuing with scheduling');
-        }
-      }
-
-      const { data, error } = await supabase.functions.invoke('schedule-interview', {
-        body: {
+      // The server puts the interview on a panel member's calendar, inviting the candidate and the panel
+      return invokeFunction<{
+        meetingUrl: string | null;
+        meetingProvider: MeetingProviderName | null;
+        calendarEventId: string | null;
+        message: string;
+      }>(
+        'schedule-interview',
+        {
           applicationId: selectedApplication,
-          scheduledAt: scheduledAt.toISOString(),
+          scheduledAt: atTime(selectedDate, selectedTime).toISOString(),
           durationMinutes: parseInt(duration),
           interviewType,
           candidateEmail: app.candidate.email,
           candidateName: app.candidate.full_name,
           jobTitle: app.job.title,
-          meetingUrl,
-          meetingId: calendarEventId,
-        }
-      });
-
-      if (error) throw error;
-      return { ...data, meetingUrl };
+          interviewers: panel,
+          meetingProvider: meetingChoice === 'default' ? undefined : meetingChoice,
+        },
+      );
     },
     onSuccess: (data) => {
-      if (data?.meetingUrl) {
-        toast.success('Interview scheduled with Google Meet link!');
+      if (data.calendarEventId) {
+        toast.success(data.meetingUrl ? 'Interview scheduled and invites sent with a meeting link' : 'Interview scheduled and invites sent');
       } else {
-        toast.success(data?.message || 'Interview scheduled successfully');
+        toast.success(data.message || 'Interview scheduled successfully');
+      }
+      // Another provider steps in when the chosen one is not set up or fails
+      const wanted = meetingChoice === 'default' ? defaultProvider : meetingChoice;
+      if (data.meetingProvider && wanted !== 'none' && data.meetingProvider !== wanted) {
+        toast.info(`${MEETING_PROVIDER_LABELS[wanted]} was unavailable, so a ${MEETING_PROVIDER_LABELS[data.meetingProvider]} link was created`);
       }
       setOpen(false);
       resetForm();
       queryClient.invalidateQueries({ queryKey: ['interviews'] });
       queryClient.invalidateQueries({ queryKey: ['schedulable-applications'] });
       queryClient.invalidateQueries({ queryKey: ['applications'] });
+      queryClient.invalidateQueries({ queryKey: ['panel-availability'] });
     },
     onError: (error: Error) => {
       toast.error(error.message || 'Failed to schedule interview');
     },
   });
 
+  const sendSchedulingLink = useMutation({
+    mutationFn: async () => {
+      const app = applications?.find(a => a.id === selectedApplication);
+      if (!app) throw new Error('Please select a candidate');
+
+      const days = parseInt(linkDays);
+      const { data: link, error } = await supabase
+        .from('scheduling_links')
+        .insert({
+          application_id: app.id,
+          interviewers: panel as unknown as Json,
+          interview_type: interviewType,
+          duration_minutes: parseInt(duration),
+          buffer_minutes: parseInt(bufferMinutes),
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          meeting_provider: meetingChoice === 'default' ? null : meetingChoice,
+          expires_at: addDays(new Date(), days).toISOString(),
+          created_by: user?.id,
+        })
+        .select('id, token')
+        .single();
+
+      if (error) throw error;
+
+      const url = schedulingLinkUrl(link.token);
+      const sent = await invokeFunction<{ status: string; message: string; error?: string }>('send-email', {
+        to: app.candidate.email,
+        subject: `Book your interview: ${app.job.title}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #3b82f6;">Choose your interview time</h2>
+            <p>Dear ${escapeHtml(app.candidate.full_name)},</p>
+            <p>We would like to invite you to a ${parseInt(duration)}-minute ${escapeHtml(interviewType)} interview for the <strong>${escapeHtml(app.job.title)}</strong> position. Please pick the time that suits you best.</p>
+            <p>Times are shown in your own time zone. Please book within ${days} days; you can use the same link to move your interview later.</p>
+            <p><a href="${url}" style="display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Choose a Time</a></p>
+            <p>Best regards,<br/>The CortexHR Team</p>
+          </div>
+        `,
+        emailType: 'scheduling_link',
+        applicationId: app.id,
+        idempotencyKey: `scheduling-link:${link.id}`,
+      });
+      if (sent.status === 'failed') throw new Error(sent.error || sent.message);
+
+      return { url, queued: sent.status === 'pending' };
+    },
+    onSuccess: ({ url, queued }) => {
+      navigator.clipboard?.writeText(url).catch(() => undefined);
+      if (queued) {
+        toast.warning('Scheduling link email is queued and will be retried shortly. Link copied to clipboard.');
+      } else {
+        toast.success('Scheduling link sent. Link copied to clipboard.');
+      }
+      setOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to send the scheduling link');
+    },
+  });
+
   const resetForm = () => {
     setSelectedApplication('');
     setSelectedDate(undefined);
     setSelectedTime('');
     setDuration('60');
     setInterviewType('Technical');
-    setBusySlots([]);
+    setMeetingChoice('default');
+    setPanel([]);
+    setMode('pick');
   };
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button>
-          <Video className="w-4 h-4 mr-2" />
-          New Interview
-        </Button>
-      </DialogTrigger>
-      <DialogContent className="sm:max-w-[550px]">
+      {!isControlled && (
+        <DialogTrigger asChild>
+          <Button>
+            <Video className="w-4 h-4 mr-2" />
+            New Interview
+          </Button>
+        </DialogTrigger>
+      )}
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Schedule Interview</DialogTitle>
           <DialogDescription>
@@ -299,7 +414,7 @@ export const ScheduleInterviewDialog = () => {
             {calendarConnected && (
               <Badge variant="secondary" className="ml-2 bg-green-500/10 text-green-600 border-green-500/20">
                 <CheckCircle className="w-3 h-3 mr-1" />
-                Calendar Connected
+                Calendars Connected
               </Badge>
             )}
           </DialogDescription>
@@ -336,95 +451,258 @@ export const ScheduleInterviewDialog = () => {
             )}
           </div>
 
-          {/* Date Selection */}
+          {/* Interview panel */}
           <div className="space-y-2">
-            <label className="text-sm font-medium">Date</label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                  className={cn(
-                    "w-full justify-start text-left font-normal",
-                    !selectedDate && "text-muted-foreground"
-                  )}
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {selectedDate ? format(selectedDate, "PPP") : "Pick a date"}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar
-                  mode="single"
-                  selected={selectedDate}
-                  onSelect={(date) => {
-                    setSelectedDate(date);
-                    setSelectedTime('');
-                  }}
-                  disabled={(date) => date < new Date() || date.getDay() === 0 || date.getDay() === 6}
-                  initialFocus
-                  className="pointer-events-auto"
-                />
-              </PopoverContent>
-            </Popover>
+            <label className="text-sm font-medium">Interviewers</label>
+            <div className="space-y-2">
+              {panel.map((member) => (
+                <div key={member.userId} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm truncate">
+                    {memberName(member.userId)}
+                    {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </span>
+                  <Select value={member.role} onValueChange={(role) => setRole(member.userId, role as PanelRole)}>
+                    <SelectTrigger className="w-[130px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PANEL_ROLE_LABELS).map(([role, label]) => (
+                        <SelectItem key={role} value={role}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => removeInterviewer(member.userId)}
+                    disabled={panel.length === 1}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Select value="" onValueChange={addInterviewer}>
+                <SelectTrigger className="h-8">
+                  <span className="flex items-center text-muted-foreground">
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Add interviewer
+                  </span>
+                </SelectTrigger>
+                <SelectContent>
+                  {hrMembers
+                    ?.filter((m) => !panel.some((member) => member.userId === m.id))
+                    .map((m) => (
+                      <SelectItem key={m.id} value={m.id}>
+                        {m.full_name || m.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Shadows observe: their calendars do not block a time, and they are not named to the candidate.
+            </p>
+            {unconnected.length > 0 && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+                <AlertCircle className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-amber-600">
+                  {unconnected.map(memberName).join(', ')} {unconnected.length === 1 ? 'has' : 'have'} not connected
+                  Google Calendar, so their availability is not checked.
+                </p>
+              </div>
+            )}
           </div>
 
-          {/* Time Selection with availability */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <label className="text-sm font-medium">Time</label>
-              {loadingBusy && (
-                <span className="text-xs text-muted-foreground flex items-center">
-                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-                  Checking availability...
-                </span>
-              )}
-            </div>
-            <Select 
-              value={selectedTime} 
-              onValueChange={setSelectedTime}
-              disabled={!selectedDate}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder={selectedDate ? "Select a time" : "Select a date first"} />
-              </SelectTrigger>
-              <SelectContent>
-                {timeSlots.map((time) => {
-                  const isBusy = isSlotBusy(time);
-                  return (
-                    <SelectItem 
-                      key={time} 
-                      value={time}
-                      disabled={isBusy}
-                      className={isBusy ? "text-muted-foreground" : ""}
+          <Tabs value={mode} onValueChange={(value) => setMode(value as ScheduleMode)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="pick">Pick a time</TabsTrigger>
+              <TabsTrigger value="link">Let the candidate choose</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {mode === 'pick' && (
+            <>
+              {/* Suggested slots */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-1">
+                  <Sparkles className="w-4 h-4 text-primary" />
+                  Suggested times
+                </label>
+                {loadingAvailability ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Finding times that suit the panel...
+                  </div>
+                ) : availabilityError ? (
+                  <p className="text-sm text-destructive">{(availabilityError as Error).message}</p>
+                ) : !calendarConnected ? (
+                  <p className="text-xs text-muted-foreground">Suggestions need at least one connected calendar on the panel.</p>
+                ) : availability?.suggestions.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">The panel has no common free time in the next {SUGGESTION_DAYS} days.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {availability?.suggestions.map((suggestion) => {
+                      const start = new Date(suggestion.start);
+                      const selected = !!selectedDate && isSameDay(start, selectedDate) && selectedTime === format(start, 'HH:mm');
+                      return (
+                        <button
+                          key={suggestion.start}
+                          type="button"
+                          onClick={() => pickSuggestion(suggestion.start)}
+                          className={cn(
+                            "rounded-lg border p-2 text-left text-sm transition-colors hover:bg-secondary/50",
+                            selected ? "border-primary bg-primary/5" : "border-border"
+                          )}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">{format(start, 'EEE, MMM d · HH:mm')}</span>
+                            <span className="text-xs text-muted-foreground">{suggestion.score}</span>
+                          </div>
+                          {suggestion.notes.length > 0 && (
+                            <p className="text-xs text-muted-foreground truncate">{suggestion.notes.join(' · ')}</p>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Date Selection */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Date</label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !selectedDate && "text-muted-foreground"
+                      )}
                     >
-                      <div className="flex items-center gap-2">
-                        {time}
-                        {calendarConnected && (
-                          isBusy ? (
-                            <Badge variant="outline" className="text-xs bg-red-500/10 text-red-500 border-red-500/20">
-                              Busy
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline" className="text-xs bg-green-500/10 text-green-500 border-green-500/20">
-                              Available
-                            </Badge>
-                          )
-                        )}
-                      </div>
-                    </SelectItem>
-                  );
-                })}
-              </SelectContent>
-            </Select>
-            {calendarConnected && selectedDate && !loadingBusy && (
-              <p className="text-xs text-muted-foreground">
-                {busySlots.length > 0 
-                  ? `${busySlots.length} busy period(s) on this day`
-                  : 'No conflicts on this day'
-                }
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {selectedDate ? format(selectedDate, "PPP") : "Pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={selectedDate}
+                      onSelect={(date) => {
+                        setSelectedDate(date);
+                        setSelectedTime('');
+                      }}
+                      disabled={(date) => date < new Date() || date.getDay() === 0 || date.getDay() === 6}
+                      initialFocus
+                      className="pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              {/* Time Selection with availability */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Time</label>
+                  {loadingBusy && (
+                    <span className="text-xs text-muted-foreground flex items-center">
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      Checking availability...
+                    </span>
+                  )}
+                </div>
+                <Select 
+                  value={selectedTime} 
+                  onValueChange={setSelectedTime}
+                  disabled={!selectedDate}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={selectedDate ? "Select a time" : "Select a date first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeSlots.map((time) => {
+                      const conflicts = slotConflicts(time);
+                      const isBusy = conflicts.required.length > 0;
+                      return (
+                        <SelectItem 
+                          key={time} 
+                          value={time}
+                          disabled={isBusy}
+                          className={isBusy ? "text-muted-foreground" : ""}
+                        >
+                          <div className="flex items-center gap-2">
+                            {time}
+                            {calendarConnected && (
+                              isBusy ? (
+                                <Badge variant="outline" className="text-xs bg-red-500/10 text-red-500 border-red-500/20">
+                                  {conflicts.required.length === 1 ? `${memberName(conflicts.required[0].userId)} busy` : `${conflicts.required.length} busy`}
+                                </Badge>
+                              ) : conflicts.shadows.length > 0 ? (
+                                <Badge variant="outline" className="text-xs bg-amber-500/10 text-amber-600 border-amber-500/20">
+                                  Shadow busy
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-xs bg-green-500/10 text-green-500 border-green-500/20">
+                                  Available
+                                </Badge>
+                              )
+                            )}
+                          </div>
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                {calendarConnected && selectedDate && dayAvailability && !loadingBusy && (
+                  <p className="text-xs text-muted-foreground">
+                    {timeSlots.some(isSlotBusy)
+                      ? `${timeSlots.filter((time) => !isSlotBusy(time)).length} of ${timeSlots.length} times free for the panel on this day`
+                      : 'No conflicts on this day'
+                    }
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {mode === 'link' && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                The candidate is emailed a link to book a time when the whole panel is free, within working hours
+                and with a buffer around other meetings. They can move the booking later from the same link.
               </p>
-            )}
-          </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Buffer</label>
+                  <Select value={bufferMinutes} onValueChange={setBufferMinutes}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">No buffer</SelectItem>
+                      <SelectItem value="10">10 minutes</SelectItem>
+                      <SelectItem value="15">15 minutes</SelectItem>
+                      <SelectItem value="30">30 minutes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Book within</label>
+                  <Select value={linkDays} onValueChange={setLinkDays}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="3">3 days</SelectItem>
+                      <SelectItem value="7">1 week</SelectItem>
+                      <SelectItem value="14">2 weeks</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
 
           <div className="grid grid-cols-2 gap-4">
             {/* Duration */}
@@ -461,30 +739,38 @@ export const ScheduleInterviewDialog = () => {
             </div>
           </div>
 
-          {/* Google Meet Toggle */}
-          {calendarConnected && (
-            <div className="flex items-center justify-between rounded-lg border border-border p-4 bg-secondary/30">
-              <div className="space-y-0.5">
-                <Label htmlFor="create-meet" className="text-sm font-medium">
-                  Create Google Meet Link
-                </Label>
-                <p className="text-xs text-muted-foreground">
-                  Automatically generate a video meeting link
-                </p>
-              </div>
-              <Switch
-                id="create-meet"
-                checked={createMeetLink}
-                onCheckedChange={setCreateMeetLink}
-              />
+          {/* Video Meeting Provider */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-4 bg-secondary/30">
+            <div className="space-y-0.5">
+              <Label htmlFor="meeting-provider" className="text-sm font-medium">
+                Video Meeting
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                The link goes in the invite sent to the candidate and the panel
+              </p>
             </div>
-          )}
+            <Select value={meetingChoice} onValueChange={(value) => setMeetingChoice(value as MeetingChoice | 'default')}>
+              <SelectTrigger id="meeting-provider" className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default ({MEETING_PROVIDER_LABELS[defaultProvider]})</SelectItem>
+                {(Object.keys(MEETING_PROVIDER_LABELS) as MeetingProviderName[]).map((provider) => (
+                  <SelectItem key={provider} value={provider}>
+                    {MEETING_PROVIDER_LABELS[provider]}
+                  </SelectItem>
+                ))}
+                <SelectItem value="none">No video link</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
 
-          {!calendarConnected && !checkingCalendar && (
+          {availability && !calendarConnected && (
             <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
               <AlertCircle className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
               <p className="text-sm text-amber-600">
-                Connect Google Calendar in Settings to see availability and auto-create Meet links.
+                Nobody on the panel has connected Google Calendar in Settings, so availability is not checked and
+                the panel is invited by email instead of a calendar invite.
               </p>
             </div>
           )}
@@ -494,22 +780,41 @@ export const ScheduleInterviewDialog = () => {
           <Button variant="outline" onClick={() => setOpen(false)}>
             Cancel
           </Button>
-          <Button 
-            onClick={() => scheduleInterview.mutate()}
-            disabled={scheduleInterview.isPending || !selectedApplication || !selectedDate || !selectedTime}
-          >
-            {scheduleInterview.isPending ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Scheduling...
-              </>
-            ) : (
-              <>
-                <Clock className="w-4 h-4 mr-2" />
-                Schedule Interview
-              </>
-            )}
-          </Button>
+          {mode === 'link' ? (
+            <Button
+              onClick={() => sendSchedulingLink.mutate()}
+              disabled={sendSchedulingLink.isPending || !selectedApplication || panel.length === 0}
+            >
+              {sendSchedulingLink.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4 mr-2" />
+                  Send Scheduling Link
+                </>
+              )}
+            </Button>
+          ) : (
+            <Button 
+              onClick={() => scheduleInterview.mutate()}
+              disabled={scheduleInterview.isPending || !selectedApplication || !selectedDate || !selectedTime || panel.length === 0}
+            >
+              {scheduleInterview.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Scheduling...
+                </>
+              ) : (
+                <>
+                  <Clock className="w-4 h-4 mr-2" />
+                  Schedule Interview
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { ClipboardList, Loader2, Lock, Save, Send } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  RATING_LABELS,
+  RATING_SCALE,
+  RECOMMENDATIONS,
+  parseRatings,
+  type Competency,
+  type Recommendation,
+} from '@/lib/scorecards';
+
+interface ScorecardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  interviewId: string;
+  candidateName: string;
+  jobTitle: string;
+  interviewType: string;
+}
+
+export function ScorecardDialog({
+  open,
+  onOpenChange,
+  interviewId,
+  candidateName,
+  jobTitle,
+  interviewType,
+}: ScorecardDialogProps) {
+  const queryClient = useQueryClient();
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
+  const [comments, setComments] = useState('');
+
+  const { data: competencies, isLoading: loadingCompetencies } = useQuery({
+    queryKey: ['scorecard-competencies', 'active'],
+    queryFn: async (): Promise<Competency[]> => {
+      const { data, error } = await supabase
+        .from('scorecard_competencies')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  // Opening the form creates the panel member's draft; the others' feedback stays hidden until it is submitted
+  const { data: scorecard, isLoading: loadingScorecard } = useQuery({
+    queryKey: ['interview-scorecard', interviewId],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data: existing, error } = await supabase
+        .from('interview_scorecards')
+        .select('*')
+        .eq('interview_id', interviewId)
+        .eq('interviewer_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (existing) return existing;
+
+      const { data: created, error: createError } = await supabase
+        .from('interview_scorecards')
+        .insert({ interview_id: interviewId, interviewer_id: user.id })
+        .select('*')
+        .single();
+
+      if (createError) throw createError;
+      return created;
+    },
+    enabled: open && !!interviewId,
+  });
+
+  useEffect(() => {
+    if (scorecard) {
+      setRatings(parseRatings(scorecard.ratings));
+      setRecommendation(scorecard.recommendation as Recommendation | null);
+      setComments(scorecard.comments || '');
+    }
+  }, [scorecard]);
+
+  const isSubmitted = !!scorecard?.submitted_at;
+
+  const saveScorecard = useMutation({
+    mutationFn: async (submit: boolean) => {
+      if (!scorecard) throw new Error('Scorecard not loaded');
+
+      if (submit) {
+        const missing = (competencies || []).filter((c) => !ratings[c.id]);
+        if (missing.length > 0) {
+          throw new Error(`Rate every competency before submitting (${missing.map((c) => c.name).join(', ')})`);
+        }
+        if (!recommendation) {
+          throw new Error('Choose an overall recommendation before submitting');
+        }
+      }
+
+      const { error } = await supabase
+        .from('interview_scorecards')
+        .update({
+          ratings,
+          recommendation,
+          comments: comments.trim() || null,
+          submitted_at: submit ? new Date().toISOString() : null,
+        })
+        .eq('id', scorecard.id);
+
+      if (error) throw error;
+      return submit;
+    },
+    onSuccess: (submitted) => {
+      toast.success(submitted ? 'Scorecard submitted' : 'Draft saved');
+      queryClient.invalidateQueries({ queryKey: ['interview-scorecard', interviewId] });
+      queryClient.invalidateQueries({ queryKey: ['application-scorecards'] });
+      if (submitted) onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save scorecard');
+    },
+  });
+
+  const isLoading = loadingCompetencies || loadingScorecard;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary" />
+            Interview Scorecard
+          </DialogTitle>
+          <DialogDescription>
+            {candidateName} · {jobTitle} · {interviewType}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6 py-2">
+            {isSubmitted ? (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-sm text-emerald-600">
+                <Lock className="w-4 h-4 flex-shrink-0" />
+                Submitted {new Date(scorecard.submitted_at!).toLocaleString()}. Other interviewers' feedback is now visible in the candidate's AI Insights.
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Your scorecard is private until you submit it, and you will not see other interviewers' feedback until then.
+              </p>
+            )}
+
+            <div className="space-y-4">
+              {competencies?.map((competency) => (
+                <div key={competency.id} className="space-y-2">
+                  <div>
+                    <Label className="text-sm font-medium">{competency.name}</Label>
+                    {competency.description && (
+                      <p className="text-xs text-muted-foreground">{competency.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {RATING_SCALE.map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        disabled={isSubmitted}
+                        onClick={() => setRatings((prev) => ({ ...prev, [competency.id]: value }))}
+                        title={RATING_LABELS[value]}
+                        className={cn(
+                          'flex-1 py-2 rounded-lg border text-sm font-medium transition-colors disabled:cursor-not-allowed',
+                          ratings[competency.id] === value
+                            ? 'border-primary bg-primary/10 text-primary'
+                            : 'border-border text-muted-foreground hover:bg-secondary/50'
+                        )}
+                      >
+                        {value}
+                      </button>
+                    ))}
+                  </div>
+                  {ratings[competency.id] && (
+                    <p className="text-xs text-muted-foreground">{RATING_LABELS[ratings[competency.id]]}</p>
+                  )}
+                </div>
+              ))}
+              {competencies?.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No competencies are configured. Add them in Settings.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Overall Recommendation</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {RECOMMENDATIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    disabled={isSubmitted}
+                    onClick={() => setRecommendation(option.value)}
+                    className={cn(
+                      'py-2 px-3 rounded-lg border text-sm font-medium transition-colors disabled:cursor-not-allowed',
+                      recommendation === option.value
+                        ? option.color
+                        : 'border-border text-muted-foreground hover:bg-secondary/50'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scorecard-comments" className="text-sm font-medium">Comments</Label>
+              <Textarea
+                id="scorecard-comments"
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                disabled={isSubmitted}
+                placeholder="Evidence for your ratings: what did the candidate say or do?"
+                rows={5}
+              />
+            </div>
+
+            {!isSubmitted && (
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => saveScorecard.mutate(false)}
+                  disabled={saveScorecard.isPending}
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Draft
+                </Button>
+                <Button onClick={() => saveScorecard.mutate(true)} disabled={saveScorecard.isPending}>
+                  {saveScorecard.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  Submit Scorecard
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
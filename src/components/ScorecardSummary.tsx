@@ -0,0 +1,184 @@
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { ClipboardList, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { RECOMMENDATIONS, parseRatings, type Competency } from '@/lib/scorecards';
+
+interface ScorecardSummaryProps {
+  applicationId: string;
+  // AI score_breakdown as a percentage of each category's max points, keyed like ai_skills.score_breakdown
+  aiPercentages: Record<string, number>;
+}
+
+interface SubmittedScorecard {
+  id: string;
+  interviewerName: string;
+  interviewType: string;
+  scheduledAt: string;
+  ratings: Record<string, number>;
+  recommendation: string;
+  comments: string | null;
+}
+
+const ScorecardSummary = ({ applicationId, aiPercentages }: ScorecardSummaryProps) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['application-scorecards', applicationId],
+    queryFn: async () => {
+      const { data: interviews, error } = await supabase
+        .from('interviews')
+        .select('id, interview_type, scheduled_at, interview_scorecards(*)')
+        .eq('application_id', applicationId);
+
+      if (error) throw error;
+
+      // RLS hides other interviewers' drafts, and everything else while the viewer's own draft is open
+      const submitted = (interviews || []).flatMap((interview) =>
+        interview.interview_scorecards
+          .filter((card) => card.submitted_at)
+          .map((card) => ({ ...card, interview }))
+      );
+
+      const interviewerIds = [...new Set(submitted.map((card) => card.interviewer_id))];
+      const [{ data: profiles }, { data: competencies, error: competencyError }] = await Promise.all([
+        interviewerIds.length > 0
+          ? supabase.from('profiles').select('id, email, full_name').in('id', interviewerIds)
+          : Promise.resolve({ data: [] as { id: string; email: string; full_name: string | null }[] }),
+        supabase.from('scorecard_competencies').select('*').order('sort_order', { ascending: true }),
+      ]);
+
+      if (competencyError) throw competencyError;
+
+      const scorecards: SubmittedScorecard[] = submitted.map((card) => {
+        const profile = profiles?.find((p) => p.id === card.interviewer_id);
+        return {
+          id: card.id,
+          interviewerName: profile?.full_name || profile?.email || 'Interviewer',
+          interviewType: card.interview.interview_type,
+          scheduledAt: card.interview.scheduled_at,
+          ratings: parseRatings(card.ratings),
+          recommendation: card.recommendation || '',
+          comments: card.comments,
+        };
+      });
+
+      return { scorecards, competencies: (competencies || []) as Competency[] };
+    },
+    enabled: !!applicationId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const scorecards = data?.scorecards || [];
+  const competencies = data?.competencies || [];
+
+  // Only competencies someone actually rated, including ones retired since
+  const ratedCompetencies = competencies
+    .map((competency) => {
+      const values = scorecards.map((s) => s.ratings[competency.id]).filter((v): v is number => v !== undefined);
+      const average = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+      const aiPercentage = competency.ai_breakdown_key ? aiPercentages[competency.ai_breakdown_key] : undefined;
+      return { competency, average, count: values.length, aiPercentage };
+    })
+    .filter((row) => row.average !== null);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.15 }}
+      className="space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-foreground font-semibold">
+          <ClipboardList className="w-4 h-4 text-primary" />
+          <span>Interviewer Scorecards</span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {RECOMMENDATIONS.map((option) => {
+            const count = scorecards.filter((s) => s.recommendation === option.value).length;
+            return count > 0 ? (
+              <Badge key={option.value} variant="secondary" className={`${option.color} border`}>
+                {count} {option.label}
+              </Badge>
+            ) : null;
+          })}
+        </div>
+      </div>
+
+      {scorecards.length === 0 ? (
+        <div className="p-4 bg-secondary/30 rounded-lg border border-border text-sm text-muted-foreground text-center">
+          No submitted scorecards yet
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-3">
+            {ratedCompetencies.map(({ competency, average, count, aiPercentage }) => {
+              const humanPercentage = ((average! - 1) / 4) * 100;
+              return (
+                <div key={competency.id} className="p-3 bg-secondary/30 rounded-lg border border-border space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-foreground">{competency.name}</span>
+                    <span className="text-sm font-bold text-foreground">
+                      {average!.toFixed(1)}/5
+                      <span className="ml-1 text-xs font-normal text-muted-foreground">({count})</span>
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="w-12 text-xs text-muted-foreground">Panel</span>
+                    <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
+                      <div className="h-full rounded-full bg-primary" style={{ width: `${humanPercentage}%` }} />
+                    </div>
+                  </div>
+                  {aiPercentage !== undefined && (
+                    <div className="flex items-center gap-2">
+                      <span className="w-12 text-xs text-muted-foreground">AI</span>
+                      <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
+                        <div className="h-full rounded-full bg-accent" style={{ width: `${aiPercentage}%` }} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            {scorecards.map((scorecard) => {
+              const recommendation = RECOMMENDATIONS.find((r) => r.value === scorecard.recommendation);
+              return (
+                <div key={scorecard.id} className="p-3 bg-secondary/30 rounded-lg border border-border">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">{scorecard.interviewerName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {scorecard.interviewType} · {format(new Date(scorecard.scheduledAt), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                    {recommendation && (
+                      <Badge variant="secondary" className={`${recommendation.color} border`}>
+                        {recommendation.label}
+                      </Badge>
+                    )}
+                  </div>
+                  {scorecard.comments && (
+                    <p className="mt-2 text-sm text-muted-foreground whitespace-pre-wrap">{scorecard.comments}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default ScorecardSummary;
@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { GitCommitVertical, Loader2, ShieldAlert } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchActorNames } from '@/lib/audit';
+import { STAGE_LABELS } from '@/lib/analytics';
+
+interface StageHistoryTimelineProps {
+  candidateId: string;
+}
+
+// Every stage move across the candidate's applications, newest first
+const StageHistoryTimeline = ({ candidateId }: StageHistoryTimelineProps) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['stage-history', candidateId],
+    queryFn: async () => {
+      const { data: changes, error } = await supabase
+        .from('application_stage_history')
+        .select('id, from_status, to_status, changed_at, changed_by, reason, overridden, applications!inner(candidate_id, jobs(title))')
+        .eq('applications.candidate_id', candidateId)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+
+      const names = await fetchActorNames(
+        (changes || []).map((change) => ({ actor_id: change.changed_by, actor_type: 'user' }))
+      );
+      return { changes: changes || [], names };
+    },
+    enabled: !!candidateId,
+  });
+
+  const jobCount = new Set(data?.changes.map((change) => change.applications.jobs?.title)).size;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-foreground font-semibold">
+        <GitCommitVertical className="w-4 h-4 text-primary" />
+        <span>Stage History</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : !data?.changes.length ? (
+        <div className="p-4 bg-secondary/30 rounded-lg border border-border text-sm text-muted-foreground text-center">
+          No stage changes recorded yet
+        </div>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {data.changes.map((change) => (
+            <li key={change.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border-2 border-background" />
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm font-medium text-foreground">
+                  {change.from_status
+                    ? `${STAGE_LABELS[change.from_status]} → ${STAGE_LABELS[change.to_status]}`
+                    : `Entered as ${STAGE_LABELS[change.to_status].toLowerCase()}`}
+                  {jobCount > 1 && change.applications.jobs && (
+                    <span className="ml-2 font-normal text-muted-foreground">{change.applications.jobs.title}</span>
+                  )}
+                </p>
+                <time className="text-xs text-muted-foreground">
+                  {format(new Date(change.changed_at), 'MMM d, yyyy h:mm a')}
+                </time>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                by {change.changed_by ? data.names[change.changed_by] ?? 'Unknown user' : 'System'}
+              </p>
+              {change.overridden && (
+                <p className="mt-1 flex items-center gap-1 text-xs text-orange-500">
+                  <ShieldAlert className="w-3 h-3" />
+                  Stage rules overridden
+                </p>
+              )}
+              {change.reason && <p className="mt-1 text-xs text-foreground break-words">{change.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default StageHistoryTimeline;
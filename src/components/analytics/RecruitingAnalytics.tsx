@@ -0,0 +1,567 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { BarChart3, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  FUNNEL_STAGES,
+  STAGE_LABELS,
+  bucketDurations,
+  buildFunnel,
+  conversionRate,
+  downloadCsv,
+  formatDays,
+  interviewerLoad,
+  median,
+  offerAcceptance,
+  rejectionReasons,
+  scoreOutcome,
+  sourceBreakdown,
+  stageDurations,
+  timeToHire,
+  totalFunnel,
+  type AnalyticsApplication,
+  type StageChange,
+} from '@/lib/analytics';
+
+const ALL = 'all';
+const PAGE_SIZE = 1000;
+
+const chartConfig = {
+  count: { label: 'Applications', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// PostgREST caps every response, so the whole range is read a page at a time
+async function fetchAll<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+interface AnalyticsCardProps {
+  title: string;
+  description: string;
+  onExport: () => void;
+  className?: string;
+  children: ReactNode;
+}
+
+const AnalyticsCard = ({ title, description, onExport, className, children }: AnalyticsCardProps) => (
+  <div className={cn('bg-card rounded-xl border border-border p-6', className)}>
+    <div className="flex items-start justify-between gap-4 mb-4">
+      <div>
+        <h3 className="font-semibold text-foreground">{title}</h3>
+        <p className="text-xs text-muted-foreground mt-1">{description}</p>
+      </div>
+      <Button variant="ghost" size="sm" onClick={onExport} title="Export CSV">
+        <Download className="w-4 h-4 mr-1" />
+        CSV
+      </Button>
+    </div>
+    {children}
+  </div>
+);
+
+const RecruitingAnalytics = () => {
+  const [filters, setFilters] = useState({
+    from: format(subDays(new Date(), 90), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+    department: ALL,
+  });
+
+  const { data: departments } = useQuery({
+    queryKey: ['job-departments'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('jobs').select('department');
+      if (error) throw error;
+      return [...new Set((data || []).map((job) => job.department))].sort();
+    },
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['recruiting-analytics', filters],
+    queryFn: async () => {
+      const start = new Date(`${filters.from}T00:00:00`).toISOString();
+      const end = new Date(`${filters.to}T23:59:59.999`).toISOString();
+      const department = filters.department === ALL ? null : filters.department;
+
+      // Applications are the cohort: everything below follows the ones created in the range
+      const [applications, history, offers, interviews, profiles] = await Promise.all([
+        fetchAll((from, to) => {
+          let query = supabase
+            .from('applications')
+            .select('id, status, source, ai_score, rejection_reason, created_at, jobs!inner(id, title, department)')
+            .gte('created_at', start)
+            .lte('created_at', end);
+          if (department) query = query.eq('jobs.department', department);
+          return query.order('id').range(from, to);
+        }),
+        fetchAll((from, to) => {
+          let query = supabase
+            .from('application_stage_history')
+            .select('application_id, to_status, changed_at, applications!inner(created_at, jobs!inner(department))')
+            .gte('applications.created_at', start)
+            .lte('applications.created_at', end);
+          if (department) query = query.eq('applications.jobs.department', department);
+          return query.order('id').range(from, to);
+        }),
+        fetchAll((from, to) => {
+          let query = supabase
+            .from('offer_letters')
+            .select('status, applications!inner(jobs!inner(department))')
+            .gte('sent_at', start)
+            .lte('sent_at', end);
+          if (department) query = query.eq('applications.jobs.department', department);
+          return query.order('id').range(from, to);
+        }),
+        fetchAll((from, to) => {
+          let query = supabase
+            .from('interviews')
+            .select('status, interview_interviewers(interviewer_id), interview_scorecards(interviewer_id, submitted_at), applications!inner(jobs!inner(department))')
+            .gte('scheduled_at', start)
+            .lte('scheduled_at', end);
+          if (department) query = query.eq('applications.jobs.department', department);
+          return query.order('id').range(from, to);
+        }),
+        supabase.from('profiles').select('id, full_name, email'),
+      ]);
+
+      if (profiles.error) throw profiles.error;
+
+      return {
+        applications: applications.map((app): AnalyticsApplication => ({
+          id: app.id,
+          jobId: app.jobs.id,
+          jobTitle: app.jobs.title,
+          source: app.source,
+          status: app.status,
+          aiScore: app.ai_score,
+          rejectionReason: app.rejection_reason,
+          createdAt: app.created_at,
+        })),
+        history: history.map((change): StageChange => ({
+          applicationId: change.application_id,
+          toStatus: change.to_status,
+          changedAt: change.changed_at,
+        })),
+        offers: offers.map((offer) => ({ status: offer.status })),
+        interviews: interviews.map((interview) => ({
+          status: interview.status,
+          interviewerIds: interview.interview_interviewers.map((member) => member.interviewer_id),
+          feedbackIds: interview.interview_scorecards
+            .filter((card) => card.submitted_at !== null)
+            .map((card) => card.interviewer_id),
+        })),
+        names: Object.fromEntries((profiles.data || []).map((p) => [p.id, p.full_name || p.email])),
+      };
+    },
+  });
+
+  const metrics = useMemo(() => {
+    if (!data) return null;
+    const funnel = buildFunnel(data.applications, data.history);
+    const hireTimes = timeToHire(data.applications, data.history);
+    const durations = stageDurations(data.history);
+    return {
+      funnel,
+      funnelTotals: totalFunnel(funnel),
+      hireTimes,
+      hireBuckets: bucketDurations(hireTimes),
+      stages: FUNNEL_STAGES.filter((stage) => stage !== 'hired').map((stage) => ({
+        stage,
+        count: durations[stage].length,
+        median: median(durations[stage]),
+        buckets: bucketDurations(durations[stage]),
+      })),
+      sources: sourceBreakdown(data.applications),
+      rejections: rejectionReasons(data.applications),
+      offers: offerAcceptance(data.offers),
+      load: interviewerLoad(data.interviews, data.names),
+      scores: scoreOutcome(data.applications),
+    };
+  }, [data]);
+
+  const fileName = (name: string) => `${name}-${filters.from}-to-${filters.to}.csv`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-end gap-4">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="w-5 h-5 text-primary" />
+          <div>
+            <h2 className="text-lg font-display font-bold text-foreground">Recruiting Analytics</h2>
+            <p className="text-sm text-muted-foreground">Applications created in the selected range</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 w-full lg:w-auto">
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">To</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Department</Label>
+            <Select value={filters.department} onValueChange={(department) => setFilters({ ...filters, department })}>
+              <SelectTrigger className="sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All departments</SelectItem>
+                {departments?.map((department) => (
+                  <SelectItem key={department} value={department}>{department}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {isLoading || !metrics ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Stage conversion */}
+          <AnalyticsCard
+            title="Stage Conversion"
+            description="Applications reaching each stage, overall and per job"
+            className="lg:col-span-2"
+            onExport={() =>
+              downloadCsv(fileName('stage-conversion'), [
+                ['Job', ...FUNNEL_STAGES.map((stage) => STAGE_LABELS[stage])],
+                ...metrics.funnel.map((row) => [row.jobTitle, ...FUNNEL_STAGES.map((stage) => row.counts[stage])]),
+                ['All jobs', ...FUNNEL_STAGES.map((stage) => metrics.funnelTotals[stage])],
+              ])
+            }
+          >
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-6">
+              {FUNNEL_STAGES.map((stage, i) => (
+                <div key={stage} className="p-3 rounded-lg bg-secondary/30">
+                  <p className="text-xs text-muted-foreground">{STAGE_LABELS[stage]}</p>
+                  <p className="text-2xl font-display font-bold text-foreground">{metrics.funnelTotals[stage]}</p>
+                  {i > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {conversionRate(metrics.funnelTotals[FUNNEL_STAGES[i - 1]], metrics.funnelTotals[stage]) ?? '—'}% from{' '}
+                      {STAGE_LABELS[FUNNEL_STAGES[i - 1]].toLowerCase()}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+            {metrics.funnel.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No applications in this range</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground uppercase tracking-wider">
+                      <th className="py-2 pr-4">Job</th>
+                      {FUNNEL_STAGES.map((stage) => (
+                        <th key={stage} className="py-2 px-2 text-right">{STAGE_LABELS[stage]}</th>
+                      ))}
+                      <th className="py-2 pl-2 text-right">Hire rate</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {metrics.funnel.map((row) => (
+                      <tr key={row.jobId}>
+                        <td className="py-2 pr-4 text-foreground">{row.jobTitle}</td>
+                        {FUNNEL_STAGES.map((stage) => (
+                          <td key={stage} className="py-2 px-2 text-right text-muted-foreground">{row.counts[stage]}</td>
+                        ))}
+                        <td className="py-2 pl-2 text-right font-medium text-foreground">
+                          {conversionRate(row.counts.applied, row.counts.hired) ?? '—'}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </AnalyticsCard>
+
+          {/* Time to hire */}
+          <AnalyticsCard
+            title="Time to Hire"
+            description={`Median ${formatDays(median(metrics.hireTimes))} across ${metrics.hireTimes.length} hires`}
+            onExport={() =>
+              downloadCsv(fileName('time-to-hire'), [
+                ['Days to hire', 'Hires'],
+                ...metrics.hireBuckets.map((bucket) => [bucket.label, bucket.count]),
+              ])
+            }
+          >
+            <ChartContainer config={chartConfig} className="h-56 w-full">
+              <BarChart data={metrics.hireBuckets}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={11} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </AnalyticsCard>
+
+          {/* Time in stage */}
+          <AnalyticsCard
+            title="Time in Stage"
+            description="How long applications spent in each stage before moving on"
+            onExport={() =>
+              downloadCsv(fileName('time-in-stage'), [
+                ['Stage', 'Transitions', 'Median days', ...metrics.stages[0].buckets.map((bucket) => bucket.label)],
+                ...metrics.stages.map((row) => [
+                  STAGE_LABELS[row.stage],
+                  row.count,
+                  row.median === null ? null : Math.round(row.median * 10) / 10,
+                  ...row.buckets.map((bucket) => bucket.count),
+                ]),
+              ])
+            }
+          >
+            <div className="space-y-4">
+              {metrics.stages.map((row) => {
+                const peak = Math.max(1, ...row.buckets.map((bucket) => bucket.count));
+                return (
+                  <div key={row.stage}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-foreground">{STAGE_LABELS[row.stage]}</span>
+                      <span className="text-muted-foreground">
+                        median {formatDays(row.median)} · {row.count} moved on
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-6 gap-1 items-end h-8">
+                      {row.buckets.map((bucket) => (
+                        <div
+                          key={bucket.label}
+                          title={`${bucket.label}: ${bucket.count}`}
+                          className="bg-primary/60 rounded-sm"
+                          style={{ height: `${Math.max(4, (bucket.count / peak) * 100)}%`, opacity: bucket.count ? 1 : 0.2 }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="grid grid-cols-6 gap-1 text-[10px] text-muted-foreground text-center">
+                {metrics.stages[0].buckets.map((bucket) => (
+                  <span key={bucket.label}>{bucket.label}</span>
+                ))}
+              </div>
+            </div>
+          </AnalyticsCard>
+
+          {/* Sources */}
+          <AnalyticsCard
+            title="Application Sources"
+            description="Where applications came in, and how many were hired"
+            onExport={() =>
+              downloadCsv(fileName('application-sources'), [
+                ['Source', 'Applications', 'Hired'],
+                ...metrics.sources.map((row) => [row.label, row.applications, row.hired]),
+              ])
+            }
+          >
+            {metrics.sources.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No applications in this range</p>
+            ) : (
+              <div className="space-y-3">
+                {metrics.sources.map((row) => (
+                  <div key={row.source}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-foreground">{row.label}</span>
+                      <span className="text-muted-foreground">
+                        {row.applications} · {row.hired} hired
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-secondary overflow-hidden">
+                      <div
+                        className="h-full bg-primary"
+                        style={{ width: `${(row.applications / metrics.funnelTotals.applied) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </AnalyticsCard>
+
+          {/* Rejection reasons */}
+          <AnalyticsCard
+            title="Rejection Reasons"
+            description="Why applications in the range were rejected"
+            onExport={() =>
+              downloadCsv(fileName('rejection-reasons'), [
+                ['Reason', 'Rejected'],
+                ...metrics.rejections.map((row) => [row.label, row.count]),
+              ])
+            }
+          >
+            {metrics.rejections.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No rejections in this range</p>
+            ) : (
+              <div className="space-y-3">
+                {metrics.rejections.map((row) => (
+                  <div key={row.reason}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-foreground">{row.label}</span>
+                      <span className="text-muted-foreground">{row.count}</span>
+                    </div>
+                    <div className="h-2 rounded-full bg-secondary overflow-hidden">
+                      <div
+                        className="h-full bg-destructive/70"
+                        style={{ width: `${(row.count / metrics.rejections[0].count) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </AnalyticsCard>
+
+          {/* Offer acceptance */}
+          <AnalyticsCard
+            title="Offer Acceptance"
+            description="Offers sent in the range; expired offers count as not accepted"
+            onExport={() =>
+              downloadCsv(fileName('offer-acceptance'), [
+                ['Sent', 'Accepted', 'Declined', 'Expired', 'Awaiting response', 'Acceptance rate %'],
+                [
+                  metrics.offers.sent,
+                  metrics.offers.accepted,
+                  metrics.offers.declined,
+                  metrics.offers.expired,
+                  metrics.offers.awaiting,
+                  metrics.offers.rate,
+                ],
+              ])
+            }
+          >
+            <p className="text-4xl font-display font-bold text-foreground">
+              {metrics.offers.rate === null ? '—' : `${metrics.offers.rate}%`}
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 text-sm">
+              {[
+                ['Accepted', metrics.offers.accepted],
+                ['Declined', metrics.offers.declined],
+                ['Expired', metrics.offers.expired],
+                ['Awaiting', metrics.offers.awaiting],
+              ].map(([label, value]) => (
+                <div key={label} className="p-2 rounded-lg bg-secondary/30">
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className="font-semibold text-foreground">{value}</p>
+                </div>
+              ))}
+            </div>
+          </AnalyticsCard>
+
+          {/* Interviewer load */}
+          <AnalyticsCard
+            title="Interviewer Load"
+            description="Interviews scheduled in the range per panel member, and completed ones they submitted feedback for"
+            onExport={() =>
+              downloadCsv(fileName('interviewer-load'), [
+                ['Interviewer', 'Scheduled', 'Completed', 'Cancelled', 'Feedback submitted'],
+                ...metrics.load.map((row) => [row.name, row.scheduled, row.completed, row.cancelled, row.feedback]),
+              ])
+            }
+          >
+            {metrics.load.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No interviews in this range</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground uppercase tracking-wider">
+                    <th className="py-2">Interviewer</th>
+                    <th className="py-2 text-right">Scheduled</th>
+                    <th className="py-2 text-right">Completed</th>
+                    <th className="py-2 text-right">Cancelled</th>
+                    <th className="py-2 text-right">Feedback</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {metrics.load.map((row) => (
+                    <tr key={row.interviewerId}>
+                      <td className="py-2 text-foreground">{row.name}</td>
+                      <td className="py-2 text-right text-muted-foreground">{row.scheduled}</td>
+                      <td className="py-2 text-right text-muted-foreground">{row.completed}</td>
+                      <td className="py-2 text-right text-muted-foreground">{row.cancelled}</td>
+                      <td className="py-2 text-right text-muted-foreground">
+                        {row.completed > 0 ? `${row.feedback}/${row.completed}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </AnalyticsCard>
+
+          {/* AI score vs outcome */}
+          <AnalyticsCard
+            title="AI Score vs Outcome"
+            description={`Hired versus rejected applications with an AI score (${metrics.scores.sample})`}
+            onExport={() =>
+              downloadCsv(fileName('ai-score-outcome'), [
+                ['AI score', 'Decided', 'Hired', 'Hire rate %'],
+                ...metrics.scores.bands.map((band) => [band.label, band.decided, band.hired, band.hireRate]),
+                [],
+                ['Correlation (r)', metrics.scores.correlation === null ? null : metrics.scores.correlation.toFixed(3)],
+              ])
+            }
+          >
+            <p className="text-sm text-muted-foreground mb-3">
+              Correlation{' '}
+              <span className="font-semibold text-foreground">
+                {metrics.scores.correlation === null ? 'not enough data' : `r = ${metrics.scores.correlation.toFixed(2)}`}
+              </span>
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground uppercase tracking-wider">
+                  <th className="py-2">AI score</th>
+                  <th className="py-2 text-right">Decided</th>
+                  <th className="py-2 text-right">Hired</th>
+                  <th className="py-2 text-right">Hire rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {metrics.scores.bands.map((band) => (
+                  <tr key={band.label}>
+                    <td className="py-2 text-foreground">{band.label}</td>
+                    <td className="py-2 text-right text-muted-foreground">{band.decided}</td>
+                    <td className="py-2 text-right text-muted-foreground">{band.hired}</td>
+                    <td className="py-2 text-right font-medium text-foreground">
+                      {band.hireRate === null ? '—' : `${band.hireRate}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </AnalyticsCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecruitingAnalytics;
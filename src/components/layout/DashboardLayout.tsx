@@ -1,14 +1,19 @@
 import { Link, useLocation } from "react-router-dom";
-import { Sparkles, LayoutDashboard, Users, MessageSquare, Video, FileText, Mail, Settings, LogOut } from "lucide-react";
+import { Sparkles, LayoutDashboard, Briefcase, Users, MessageSquare, Video, FileText, Mail, ClipboardCheck, Settings, LogOut, UserCog, ShieldAlert, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { ROLE_LABELS, ROUTE_PERMISSIONS } from "@/lib/roles";
 
 const navItems = [
   { icon: LayoutDashboard, label: "Dashboard", href: "/dashboard" },
+  { icon: Briefcase, label: "Jobs", href: "/dashboard/jobs" },
   { icon: Users, label: "Candidates", href: "/dashboard/candidates" },
   { icon: MessageSquare, label: "Chat", href: "/dashboard/chat" },
   { icon: Video, label: "Interviews", href: "/dashboard/interviews" },
   { icon: FileText, label: "Offer Letters", href: "/dashboard/offers" },
   { icon: Mail, label: "Email Templates", href: "/dashboard/templates" },
+  { icon: ClipboardCheck, label: "Aptitude Tests", href: "/dashboard/aptitude" },
+  { icon: UserCog, label: "Users", href: "/dashboard/users" },
   { icon: Settings, label: "Settings", href: "/dashboard/settings" },
 ];
 
@@ -18,6 +23,15 @@ interface DashboardLayoutProps {
 
 const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const location = useLocation();
+  const { loading, role, can } = useAuth(true);
+
+  // Route guard: pages behind a permission render only for roles that hold it
+  const requiredPermission = ROUTE_PERMISSIONS[location.pathname];
+  const allowed = !requiredPermission || can(requiredPermission);
+  const visibleNavItems = navItems.filter((item) => {
+    const permission = ROUTE_PERMISSIONS[item.href];
+    return !permission || can(permission);
+  });
 
   return (
     <div className="min-h-screen bg-background flex">
@@ -37,7 +51,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
 
         {/* Navigation */}
         <nav className="flex-1 p-4 space-y-1">
-          {navItems.map((item) => {
+          {visibleNavItems.map((item) => {
             const Icon = item.icon;
             const isActive = location.pathname === item.href;
             
@@ -61,6 +75,9 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
 
         {/* Logout */}
         <div className="p-4 border-t border-sidebar-border">
+          {role && (
+            <p className="px-4 pb-2 text-xs text-muted-foreground">Signed in as {ROLE_LABELS[role]}</p>
+          )}
           <Link
             to="/"
             className="flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium text-sidebar-foreground hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground transition-all"
@@ -74,7 +91,21 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
       {/* Main Content */}
       <main className="flex-1 overflow-auto">
         <div className="p-8">
-          {children}
+          {allowed ? (
+            children
+          ) : loading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-64 text-center">
+              <ShieldAlert className="w-12 h-12 text-muted-foreground mb-4" />
+              <h2 className="text-lg font-semibold text-foreground">You don't have access to this page</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Ask an admin if you need {role ? `more than ${ROLE_LABELS[role]} access` : "access"}.
+              </p>
+            </div>
+          )}
         </div>
       </main>
     </div>
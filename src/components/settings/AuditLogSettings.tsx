@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Loader2, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { AuditChangeList } from '@/components/ActivityTimeline';
+import {
+  AUDIT_ENTITY_LABELS,
+  describeAuditAction,
+  describeAuditActor,
+  fetchActorNames,
+} from '@/lib/audit';
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+
+const emptyFilters = { entityType: ALL, actor: ALL, action: '', from: '', to: '' };
+
+const AuditLogSettings = () => {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setLimit(PAGE_SIZE);
+  };
+
+  const { data: staff } = useQuery({
+    queryKey: ['audit-staff'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('id, email, full_name').order('full_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data, isLoading, isFetching } = useQuery({
+    queryKey: ['audit-log', filters, limit],
+    queryFn: async () => {
+      // One extra row tells us whether there is another page
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('occurred_at', { ascending: false })
+        .limit(limit + 1);
+
+      if (filters.entityType !== ALL) query = query.eq('entity_type', filters.entityType);
+      if (filters.actor === 'system') query = query.is('actor_id', null);
+      else if (filters.actor === 'candidate') query = query.eq('actor_type', 'candidate');
+      else if (filters.actor !== ALL) query = query.eq('actor_id', filters.actor);
+      if (filters.action.trim()) query = query.ilike('action', `%${filters.action.trim()}%`);
+      if (filters.from) query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) query = query.lte('occurred_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const { data: entries, error } = await query;
+      if (error) throw error;
+
+      const page = (entries || []).slice(0, limit);
+      return { entries: page, hasMore: (entries || []).length > limit, names: await fetchActorNames(page) };
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <div className="w-12 h-12 rounded-lg bg-secondary flex items-center justify-center">
+          <ScrollText className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Audit Log</h3>
+          <p className="text-sm text-muted-foreground">
+            Every change to candidates, applications, interviews, offers, jobs and templates
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Entity</Label>
+          <Select value={filters.entityType} onValueChange={(value) => updateFilter('entityType', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All entities</SelectItem>
+              {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Actor</Label>
+          <Select value={filters.actor} onValueChange={(value) => updateFilter('actor', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              <SelectItem value="system">System</SelectItem>
+              <SelectItem value="candidate">Candidates</SelectItem>
+              {staff?.map((member) => (
+                <SelectItem key={member.id} value={member.id}>{member.full_name || member.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Action</Label>
+          <Input
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            placeholder="e.g. offer.sent"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">From</Label>
+          <Input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">To</Label>
+          <Input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : !data?.entries.length ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No audit entries match these filters</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-44">When</TableHead>
+                <TableHead className="w-40">Actor</TableHead>
+                <TableHead>Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-xs text-muted-foreground align-top">
+                    {format(new Date(entry.occurred_at), 'MMM d, yyyy h:mm:ss a')}
+                  </TableCell>
+                  <TableCell className="text-sm align-top">{describeAuditActor(entry, data.names)}</TableCell>
+                  <TableCell className="align-top">
+                    <p className="text-sm font-medium text-foreground">
+                      {describeAuditAction(entry.action)}
+                      {entry.entity_id && (
+                        <span className="ml-2 font-mono text-xs text-muted-foreground">{entry.entity_id.slice(0, 8)}</span>
+                      )}
+                    </p>
+                    <AuditChangeList entry={entry} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {data.hasMore && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" size="sm" onClick={() => setLimit(limit + PAGE_SIZE)} disabled={isFetching}>
+                {isFetching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogSettings;
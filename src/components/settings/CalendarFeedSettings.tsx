@@ -0,0 +1,130 @@
+import { CalendarDays, Copy, ExternalLink, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { calendarFeedUrl } from '@/lib/interviews';
+
+const CalendarFeedSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: feed, isLoading } = useQuery({
+    queryKey: ['calendar-feed', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  // A new URL replaces the old one, which stops working straight away
+  const createFeed = useMutation({
+    mutationFn: async () => {
+      const { error: deleteError } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', user!.id);
+      if (deleteError) throw deleteError;
+      const { error } = await supabase.from('calendar_feed_tokens').insert({ user_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(feed ? 'New calendar feed URL created. Update your calendar subscription.' : 'Calendar feed created');
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to create the calendar feed');
+    },
+  });
+
+  const revokeFeed = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', user!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Calendar feed turned off');
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to turn off the calendar feed');
+    },
+  });
+
+  const url = feed ? calendarFeedUrl(feed.token) : '';
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(url);
+    toast.success('Feed URL copied');
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <div className="w-12 h-12 rounded-lg bg-secondary flex items-center justify-center">
+          <CalendarDays className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Interview Calendar Feed</h3>
+          <p className="text-sm text-muted-foreground">
+            Subscribe to your interviews from Outlook, Apple Calendar or any other calendar app
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : feed ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input value={url} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={copyUrl} title="Copy URL">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Anyone with this URL can see your interviews, so keep it private.{' '}
+            {feed.last_accessed_at
+              ? `Last fetched by a calendar ${formatDistanceToNow(new Date(feed.last_accessed_at), { addSuffix: true })}.`
+              : 'Not fetched by a calendar yet.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => window.open(url.replace(/^https?:/, 'webcal:'), '_blank')}>
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Open in Calendar App
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => createFeed.mutate()} disabled={createFeed.isPending}>
+              {createFeed.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              New URL
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeFeed.mutate()}
+              disabled={revokeFeed.isPending}
+              className="text-destructive hover:text-destructive"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Turn Off
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => createFeed.mutate()} disabled={createFeed.isPending}>
+          {createFeed.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Create Feed URL
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
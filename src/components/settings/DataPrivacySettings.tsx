@@ -0,0 +1,296 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { FileText, Loader2, Save, ShieldCheck, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { invokeFunction } from '@/lib/functions';
+import {
+  ERASURE_SOURCE_LABELS,
+  RETENTION_OUTCOME_LABELS,
+  parseErasureReport,
+  type ErasureRequest,
+  type RetentionPolicy,
+} from '@/lib/privacy';
+
+const REQUEST_LIMIT = 25;
+
+type ErasureRequestRow = ErasureRequest & { candidates: { full_name: string; email: string } | null };
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  completed: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
+  failed: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+const DataPrivacySettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Days per outcome as typed; blank means keep indefinitely
+  const [windows, setWindows] = useState<Record<string, string>>({});
+  const [toErase, setToErase] = useState<ErasureRequestRow | null>(null);
+  const [reportFor, setReportFor] = useState<ErasureRequestRow | null>(null);
+
+  const { data: policies, isLoading: policiesLoading } = useQuery({
+    queryKey: ['retention-policies'],
+    queryFn: async (): Promise<RetentionPolicy[]> => {
+      const { data, error } = await supabase.from('retention_policies').select('*');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (policies) {
+      setWindows(Object.fromEntries(policies.map((p) => [p.outcome, p.retention_days?.toString() ?? ''])));
+    }
+  }, [policies]);
+
+  const { data: requests, isLoading: requestsLoading } = useQuery({
+    queryKey: ['erasure-requests'],
+    queryFn: async (): Promise<ErasureRequestRow[]> => {
+      const { data, error } = await supabase
+        .from('data_erasure_requests')
+        .select('*, candidates(full_name, email)')
+        .order('created_at', { ascending: false })
+        .limit(REQUEST_LIMIT);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const saveWindows = useMutation({
+    mutationFn: async () => {
+      for (const policy of policies || []) {
+        const value = windows[policy.outcome]?.trim() ?? '';
+        const retentionDays = value === '' ? null : Number(value);
+        if (retentionDays !== null && (!Number.isInteger(retentionDays) || retentionDays <= 0)) {
+          throw new Error(`${RETENTION_OUTCOME_LABELS[policy.outcome]}: enter a whole number of days, or leave blank`);
+        }
+        if (retentionDays === policy.retention_days) continue;
+
+        const { error } = await supabase
+          .from('retention_policies')
+          .update({ retention_days: retentionDays, updated_by: user?.id })
+          .eq('outcome', policy.outcome);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Retention windows saved');
+      queryClient.invalidateQueries({ queryKey: ['retention-policies'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save retention windows');
+    },
+  });
+
+  const erase = useMutation({
+    mutationFn: (requestId: string) => invokeFunction('data-privacy', { action: 'erase', requestId }),
+    onSuccess: () => {
+      toast.success('Candidate data erased');
+      queryClient.invalidateQueries({ queryKey: ['erasure-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Erasure failed: ${error.message}`);
+      queryClient.invalidateQueries({ queryKey: ['erasure-requests'] });
+    },
+  });
+
+  const report = parseErasureReport(reportFor?.report ?? null);
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="w-12 h-12 rounded-lg bg-secondary flex items-center justify-center">
+          <ShieldCheck className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Data Retention & Privacy</h3>
+          <p className="text-sm text-muted-foreground">
+            Candidates are anonymized automatically once every application has been closed for longer than its window
+          </p>
+        </div>
+      </div>
+
+      {/* Retention windows */}
+      {policiesLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {(policies || []).map((policy) => (
+              <div key={policy.outcome} className="space-y-1">
+                <Label htmlFor={`retention-${policy.outcome}`}>{RETENTION_OUTCOME_LABELS[policy.outcome]} (days)</Label>
+                <Input
+                  id={`retention-${policy.outcome}`}
+                  type="number"
+                  min={1}
+                  value={windows[policy.outcome] ?? ''}
+                  onChange={(e) => setWindows({ ...windows, [policy.outcome]: e.target.value })}
+                  placeholder="Keep indefinitely"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={() => saveWindows.mutate()} disabled={saveWindows.isPending}>
+              {saveWindows.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Windows
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Erasure requests */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-foreground">Erasure Requests</h4>
+        {requestsLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : !requests?.length ? (
+          <p className="text-sm text-muted-foreground">No erasure requests yet</p>
+        ) : (
+          <div className="space-y-2">
+            {requests.map((request) => (
+              <div
+                key={request.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg bg-secondary/30 border border-border"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {request.candidates?.full_name ?? 'Deleted candidate'}
+                    {request.status === 'pending' && request.candidates?.email && (
+                      <span className="ml-2 font-normal text-muted-foreground">{request.candidates.email}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {ERASURE_SOURCE_LABELS[request.source] ?? request.source} ·{' '}
+                    {format(new Date(request.created_at), 'MMM d, yyyy')}
+                    {request.reason && ` · ${request.reason}`}
+                  </p>
+                  {request.error && <p className="text-xs text-destructive mt-1">{request.error}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="secondary" className={`${statusColors[request.status]} border capitalize`}>
+                    {request.status}
+                  </Badge>
+                  {request.status === 'completed' ? (
+                    <Button variant="ghost" size="sm" onClick={() => setReportFor(request)}>
+                      <FileText className="w-4 h-4 mr-1" />
+                      Report
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setToErase(request)}
+                      disabled={erase.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      {request.status === 'failed' ? 'Retry' : 'Erase'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!toErase} onOpenChange={(open) => !open && setToErase(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Erase {toErase?.candidates?.full_name ?? 'this candidate'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Personal details, resumes, notes, correspondence and offer PDFs are removed and open applications are
+              withdrawn. Scores and pipeline history are kept without identifying data. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (toErase) erase.mutate(toErase.id);
+                setToErase(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Erase
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!reportFor} onOpenChange={(open) => !open && setReportFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Erasure Report</DialogTitle>
+            <DialogDescription>
+              {report ? `Completed ${format(new Date(report.erasedAt), 'MMM d, yyyy h:mm a')}` : 'No report recorded'}
+            </DialogDescription>
+          </DialogHeader>
+          {report && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                {Object.entries(report.records).map(([key, count]) => (
+                  <div key={key} className="flex justify-between p-2 rounded bg-secondary/30">
+                    <span className="text-muted-foreground">{key.replace(/([A-Z])/g, ' $1').toLowerCase()}</span>
+                    <span className="font-medium text-foreground">{count}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between p-2 rounded bg-secondary/30">
+                  <span className="text-muted-foreground">resume files deleted</span>
+                  <span className="font-medium text-foreground">{report.storage.resumesDeleted}</span>
+                </div>
+                <div className="flex justify-between p-2 rounded bg-secondary/30">
+                  <span className="text-muted-foreground">offer pdfs deleted</span>
+                  <span className="font-medium text-foreground">{report.storage.offerPdfsDeleted}</span>
+                </div>
+              </div>
+              {report.storage.failed.length > 0 && (
+                <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive">
+                  <p className="font-medium">These files could not be deleted and need manual removal:</p>
+                  <ul className="mt-1 list-disc pl-5 text-xs">
+                    {report.storage.failed.map((path) => (
+                      <li key={path} className="break-all">{path}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DataPrivacySettings;
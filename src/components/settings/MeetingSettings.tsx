@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Video } from 'lucide-react';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { MEETING_PROVIDER_LABELS, type MeetingProviderName } from '@/lib/interviews';
+
+const MeetingSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['meeting-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('meeting_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const save = useMutation({
+    mutationFn: async (provider: MeetingProviderName) => {
+      const { error } = await supabase
+        .from('meeting_settings')
+        .update({ default_provider: provider, updated_by: user?.id })
+        .eq('id', true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Default video meeting provider saved');
+      queryClient.invalidateQueries({ queryKey: ['meeting-settings'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save the meeting provider');
+    },
+  });
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="w-12 h-12 rounded-lg bg-secondary flex items-center justify-center">
+          <Video className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Video Meetings</h3>
+          <p className="text-sm text-muted-foreground">
+            The provider interviews get a meeting link from, unless another is picked when scheduling
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : settings && (
+        <div className="space-y-1 max-w-xs">
+          <Label>Default provider</Label>
+          <Select
+            value={settings.default_provider}
+            onValueChange={(value) => save.mutate(value as MeetingProviderName)}
+            disabled={save.isPending}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MEETING_PROVIDER_LABELS) as MeetingProviderName[]).map((provider) => (
+                <SelectItem key={provider} value={provider}>
+                  {MEETING_PROVIDER_LABELS[provider]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground pt-1">
+            Google Meet needs a panel member with Google Calendar connected. Teams, Zoom and Jitsi are set up by
+            your administrator; when the chosen provider is unavailable, the next one that is set up is used.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeetingSettings;
@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, MailX } from 'lucide-react';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { formatCoolOff, type RejectionSettings as RejectionSettingsRow } from '@/lib/rejections';
+
+const COOL_OFF_OPTIONS = [0, 60, 240, 1440, 2880, 4320, 10080];
+
+const RejectionSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['rejection-settings'],
+    queryFn: async (): Promise<RejectionSettingsRow | null> => {
+      const { data, error } = await supabase.from('rejection_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const save = useMutation({
+    mutationFn: async (coolOffMinutes: number) => {
+      const { error } = await supabase
+        .from('rejection_settings')
+        .update({ cool_off_minutes: coolOffMinutes, updated_by: user?.id })
+        .eq('id', true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Cool-off period saved');
+      queryClient.invalidateQueries({ queryKey: ['rejection-settings'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save the cool-off period');
+    },
+  });
+
+  // Keep a custom value set outside the presets selectable
+  const options = settings && !COOL_OFF_OPTIONS.includes(settings.cool_off_minutes)
+    ? [...COOL_OFF_OPTIONS, settings.cool_off_minutes].sort((a, b) => a - b)
+    : COOL_OFF_OPTIONS;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="w-12 h-12 rounded-lg bg-secondary flex items-center justify-center">
+          <MailX className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Rejection Emails</h3>
+          <p className="text-sm text-muted-foreground">
+            Rejection emails wait out a cool-off period, so a mistaken rejection can be undone before the candidate hears of it
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : settings && (
+        <div className="space-y-1 max-w-xs">
+          <Label>Cool-off period</Label>
+          <Select
+            value={settings.cool_off_minutes.toString()}
+            onValueChange={(value) => save.mutate(Number(value))}
+            disabled={save.isPending}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((minutes) => (
+                <SelectItem key={minutes} value={minutes.toString()}>
+                  {minutes === 0 ? 'Send right away' : formatCoolOff(minutes)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RejectionSettings;
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { ClipboardList, Edit, Loader2, Plus, Save } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { AI_BREAKDOWN_CATEGORIES, type Competency } from '@/lib/scorecards';
+
+const emptyForm = { name: '', description: '', ai_breakdown_key: 'none' };
+
+const ScorecardCompetenciesSettings = () => {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Competency | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: competencies, isLoading } = useQuery({
+    queryKey: ['scorecard-competencies'],
+    queryFn: async (): Promise<Competency[]> => {
+      const { data, error } = await supabase
+        .from('scorecard_competencies')
+        .select('*')
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['scorecard-competencies'] });
+
+  const saveCompetency = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        ai_breakdown_key: formData.ai_breakdown_key === 'none' ? null : formData.ai_breakdown_key,
+      };
+
+      if (editing) {
+        const { error } = await supabase.from('scorecard_competencies').update(payload).eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const nextOrder = Math.max(0, ...(competencies || []).map((c) => c.sort_order)) + 1;
+        const { error } = await supabase.from('scorecard_competencies').insert({ ...payload, sort_order: nextOrder });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(editing ? 'Competency updated' : 'Competency added');
+      invalidate();
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save competency');
+    },
+  });
+
+  // Competencies are retired rather than deleted so past scorecards keep their labels
+  const toggleActive = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from('scorecard_competencies').update({ is_active }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update competency');
+    },
+  });
+
+  const openDialog = (competency: Competency | null) => {
+    setEditing(competency);
+    setFormData(
+      competency
+        ? {
+            name: competency.name,
+            description: competency.description || '',
+            ai_breakdown_key: competency.ai_breakdown_key || 'none',
+          }
+        : emptyForm
+    );
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-lg bg-secondary flex items-center justify-center">
+            <ClipboardList className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-foreground">Interview Scorecards</h3>
+            <p className="text-sm text-muted-foreground">Competencies interviewers rate from 1 to 5</p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {competencies?.map((competency) => (
+            <div key={competency.id} className="flex items-center justify-between py-3 gap-4">
+              <div className="min-w-0">
+                <p className={`font-medium ${competency.is_active ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                  {competency.name}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {competency.description || 'No description'}
+                  {competency.ai_breakdown_key && (
+                    <> · compared with AI {AI_BREAKDOWN_CATEGORIES.find((c) => c.key === competency.ai_breakdown_key)?.label}</>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <Button variant="ghost" size="sm" onClick={() => openDialog(competency)}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Switch
+                  checked={competency.is_active}
+                  onCheckedChange={(checked) => toggleActive.mutate({ id: competency.id, is_active: checked })}
+                />
+              </div>
+            </div>
+          ))}
+          {competencies?.length === 0 && (
+            <p className="py-4 text-sm text-muted-foreground text-center">No competencies yet</p>
+          )}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Competency' : 'Add Competency'}</DialogTitle>
+            <DialogDescription>Interviewers rate each active competency on every scorecard.</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveCompetency.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="competency-name">Name</Label>
+              <Input
+                id="competency-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. System Design"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="competency-description">Description</Label>
+              <Input
+                id="competency-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="What a strong answer looks like"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Compare with AI category</Label>
+              <Select
+                value={formData.ai_breakdown_key}
+                onValueChange={(value) => setFormData({ ...formData, ai_breakdown_key: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {AI_BREAKDOWN_CATEGORIES.map((category) => (
+                    <SelectItem key={category.key} value={category.key}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saveCompetency.isPending}>
+                {saveCompetency.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScorecardCompetenciesSettings;
@@ -2,12 +2,14 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import type { User, Session } from "@supabase/supabase-js";
+import { hasPermission, primaryRole, type AppRole, type Permission } from "@/lib/roles";
 
 interface AuthState {
   user: User | null;
   session: Session | null;
   loading: boolean;
   isHrStaff: boolean;
+  roles: AppRole[];
 }
 
 export const useAuth = (requireAuth: boolean = true) => {
@@ -16,19 +18,20 @@ export const useAuth = (requireAuth: boolean = true) => {
     session: null,
     loading: true,
     isHrStaff: false,
+    roles: [],
   });
   const navigate = useNavigate();
 
   useEffect(() => {
     let mounted = true;
 
-    const checkHrRole = async (userId: string) => {
+    // Staff can hold more than one role; any role grants dashboard access
+    const fetchRoles = async (userId: string) => {
       const { data: roleData } = await supabase
         .from("user_roles")
         .select("role")
-        .eq("user_id", userId)
-        .maybeSingle();
-      return !!roleData;
+        .eq("user_id", userId);
+      return (roleData ?? []).map((row) => row.role);
     };
 
     // Set up auth listener FIRST
@@ -47,12 +50,14 @@ export const useAuth = (requireAuth: boolean = true) => {
         if (session?.user) {
           setTimeout(async () => {
             if (!mounted) return;
-            const isHrStaff = await checkHrRole(session.user.id);
+            const roles = await fetchRoles(session.user.id);
+            const isHrStaff = roles.length > 0;
             if (!mounted) return;
             
             setAuthState(prev => ({
               ...prev,
               isHrStaff,
+              roles,
               loading: false,
             }));
 
@@ -65,6 +70,7 @@ export const useAuth = (requireAuth: boolean = true) => {
           setAuthState(prev => ({
             ...prev,
             isHrStaff: false,
+            roles: [],
             loading: false,
           }));
           
@@ -80,14 +86,15 @@ export const useAuth = (requireAuth: boolean = true) => {
       if (!mounted) return;
       
       if (!session?.user) {
-        setAuthState({ user: null, session: null, loading: false, isHrStaff: false });
+        setAuthState({ user: null, session: null, loading: false, isHrStaff: false, roles: [] });
         if (requireAuth) {
           navigate("/login");
         }
         return;
       }
 
-      const isHrStaff = await checkHrRole(session.user.id);
+      const roles = await fetchRoles(session.user.id);
+      const isHrStaff = roles.length > 0;
       if (!mounted) return;
 
       if (requireAuth && !isHrStaff) {
@@ -101,6 +108,7 @@ export const useAuth = (requireAuth: boolean = true) => {
         session,
         loading: false,
         isHrStaff,
+        roles,
       });
     });
 
@@ -115,5 +123,7 @@ export const useAuth = (requireAuth: boolean = true) => {
     navigate("/login");
   };
 
-  return { ...authState, signOut };
+  const can = (permission: Permission) => hasPermission(authState.roles, permission);
+
+  return { ...authState, role: primaryRole(authState.roles), can, signOut };
 };
\ No newline at end of file
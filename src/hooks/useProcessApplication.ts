@@ -29,19 +29,28 @@ export function useProcessApplication() {
         if (status === 402) {
           throw new Error('AI credits exhausted. Please add funds.');
         }
+        if (status === 422) {
+          throw new Error('AI analysis failed. The application is marked for manual review.');
+        }
         throw new Error(error.message || 'Failed to process resume');
       }
 
+      if (data?.success === false) {
+        throw new Error(data.message || 'Failed to process resume');
+      }
+
       return data;
     },
     onSuccess: (data) => {
-      toast.success(`Resume processed! AI Score: ${data.analysis?.score || 'N/A'}%`);
+      toast.success(`Resume processed! AI Score: ${data.analysis?.score ?? 'N/A'}%`);
       queryClient.invalidateQueries({ queryKey: ['applications'] });
       queryClient.invalidateQueries({ queryKey: ['recent-applications'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
     },
     onError: (error: Error) => {
       console.error('Processing error:', error);
+      // A failed run is recorded on the application, so refresh to show it
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
       if (error.message.includes('Rate limit')) {
         toast.error('Rate limit exceeded. Please try again in a moment.');
       } else if (error.message.includes('credits')) {
@@ -0,0 +1,93 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { invokeFunction } from "@/lib/functions";
+import { escapeHtml } from "@/lib/utils";
+
+interface SendAptitudeTestInput {
+  applicationId: string;
+  candidateId: string;
+  candidateName: string;
+  candidateEmail: string;
+  jobTitle: string;
+  questionCount?: number;
+  timeLimitMinutes?: number;
+}
+
+export function useSendAptitudeTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      applicationId,
+      candidateId,
+      candidateName,
+      candidateEmail,
+      jobTitle,
+      questionCount = 10,
+      timeLimitMinutes = 20,
+    }: SendAptitudeTestInput) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // Only the newest link may be used; earlier unopened ones stop working. A test already in
+      // progress still ends at its own time limit.
+      const { error: expireError } = await supabase
+        .from('aptitude_test_sessions')
+        .update({ link_expires_at: new Date().toISOString() })
+        .eq('application_id', applicationId)
+        .is('started_at', null)
+        .is('submitted_at', null)
+        .gt('link_expires_at', new Date().toISOString());
+
+      if (expireError) throw expireError;
+
+      const { data: session, error } = await supabase
+        .from('aptitude_test_sessions')
+        .insert({
+          application_id: applicationId,
+          question_count: questionCount,
+          time_limit_minutes: timeLimitMinutes,
+          created_by: user?.id,
+        })
+        .select('token')
+        .single();
+
+      if (error) throw error;
+
+      const testUrl = `${window.location.origin}/aptitude/${session.token}`;
+
+      const sent = await invokeFunction<{ status: string; message: string; error?: string }>('send-email', {
+        to: candidateEmail,
+        subject: `Aptitude Test: ${jobTitle}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #3b82f6;">Your Aptitude Test</h2>
+            <p>Dear ${escapeHtml(candidateName)},</p>
+            <p>As the next step for the <strong>${escapeHtml(jobTitle)}</strong> position, please complete a short aptitude test.</p>
+            <p>The test has ${questionCount} multiple-choice questions and a ${timeLimitMinutes}-minute time limit that starts when you press "Begin Test". The link is valid for 7 days.</p>
+            <p><a href="${testUrl}" style="display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Start Aptitude Test</a></p>
+            <p>Best regards,<br/>The CortexHR Team</p>
+          </div>
+        `,
+        emailType: 'aptitude_test',
+        candidateId,
+        applicationId,
+      });
+      if (sent.status === 'failed') throw new Error(sent.error || sent.message);
+
+      return { testUrl, queued: sent.status === 'pending' };
+    },
+    onSuccess: ({ testUrl, queued }) => {
+      navigator.clipboard?.writeText(testUrl).catch(() => undefined);
+      if (queued) {
+        toast.warning('Aptitude test email is queued and will be retried shortly. Link copied to clipboard.');
+      } else {
+        toast.success('Aptitude test sent. Link copied to clipboard.');
+      }
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to send aptitude test: ${error.message}`);
+    },
+  });
+}
@@ -14,8 +14,66 @@ export type Database = {
   }
   public: {
     Tables: {
+      application_stage_history: {
+        Row: {
+          application_id: string
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["application_status"] | null
+          id: string
+          overridden: boolean
+          reason: string | null
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Insert: {
+          application_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          overridden?: boolean
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Update: {
+          application_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          overridden?: boolean
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["application_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_stage_history_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_stage_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["application_status"]
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["application_status"]
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["application_status"]
+          to_status?: Database["public"]["Enums"]["application_status"]
+        }
+        Relationships: []
+      }
       applications: {
         Row: {
+          ai_analysis_error: string | null
+          ai_analysis_status: string
           ai_score: number | null
           ai_skills: Json | null
           ai_summary: string | null
@@ -26,10 +84,17 @@ export type Database = {
           id: string
           job_id: string
           notes: string | null
+          rejected_at: string | null
+          rejection_note: string | null
+          rejection_reason: string | null
+          source: string | null
           status: Database["public"]["Enums"]["application_status"]
           updated_at: string
+          withdrawn_at: string | null
         }
         Insert: {
+          ai_analysis_error?: string | null
+          ai_analysis_status?: string
           ai_score?: number | null
           ai_skills?: Json | null
           ai_summary?: string | null
@@ -40,10 +105,17 @@ export type Database = {
           id?: string
           job_id: string
           notes?: string | null
+          rejected_at?: string | null
+          rejection_note?: string | null
+          rejection_reason?: string | null
+          source?: string | null
           status?: Database["public"]["Enums"]["application_status"]
           updated_at?: string
+          withdrawn_at?: string | null
         }
         Update: {
+          ai_analysis_error?: string | null
+          ai_analysis_status?: string
           ai_score?: number | null
           ai_skills?: Json | null
           ai_summary?: string | null
@@ -54,8 +126,13 @@ export type Database = {
           id?: string
           job_id?: string
           notes?: string | null
+          rejected_at?: string | null
+          rejection_note?: string | null
+          rejection_reason?: string | null
+          source?: string | null
           status?: Database["public"]["Enums"]["application_status"]
           updated_at?: string
+          withdrawn_at?: string | null
         }
         Relationships: [
           {
@@ -80,7 +157,7 @@ export type Database = {
           created_at: string
           id: string
           is_correct: boolean
-          question_id: string
+          question_id: string | null
           selected_option: string
         }
         Insert: {
@@ -88,7 +165,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_correct: boolean
-          question_id: string
+          question_id?: string | null
           selected_option: string
         }
         Update: {
@@ -96,7 +173,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_correct?: boolean
-          question_id?: string
+          question_id?: string | null
           selected_option?: string
         }
         Relationships: [
@@ -161,9 +238,174 @@ export type Database = {
         }
         Relationships: []
       }
+      aptitude_test_sessions: {
+        Row: {
+          application_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          link_expires_at: string
+          question_count: number
+          question_ids: string[] | null
+          score: number | null
+          started_at: string | null
+          submitted_at: string | null
+          time_limit_minutes: number
+          token: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          link_expires_at?: string
+          question_count?: number
+          question_ids?: string[] | null
+          score?: number | null
+          started_at?: string | null
+          submitted_at?: string | null
+          time_limit_minutes?: number
+          token?: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          link_expires_at?: string
+          question_count?: number
+          question_ids?: string[] | null
+          score?: number | null
+          started_at?: string | null
+          submitted_at?: string | null
+          time_limit_minutes?: number
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "aptitude_test_sessions_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_type: string
+          candidate_id: string | null
+          changes: Json
+          entity_id: string | null
+          entity_type: string
+          id: string
+          metadata: Json
+          occurred_at: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_type?: string
+          candidate_id?: string | null
+          changes?: Json
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          metadata?: Json
+          occurred_at?: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_type?: string
+          candidate_id?: string | null
+          changes?: Json
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          metadata?: Json
+          occurred_at?: string
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          last_accessed_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      candidate_duplicates: {
+        Row: {
+          candidate_a_id: string
+          candidate_b_id: string
+          detected_at: string
+          id: string
+          reasons: string[]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          score: number
+          status: string
+        }
+        Insert: {
+          candidate_a_id: string
+          candidate_b_id: string
+          detected_at?: string
+          id?: string
+          reasons?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          score: number
+          status?: string
+        }
+        Update: {
+          candidate_a_id?: string
+          candidate_b_id?: string
+          detected_at?: string
+          id?: string
+          reasons?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          score?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_duplicates_candidate_a_id_fkey"
+            columns: ["candidate_a_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_duplicates_candidate_b_id_fkey"
+            columns: ["candidate_b_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       candidates: {
         Row: {
           access_token: string | null
+          anonymized_at: string | null
           created_at: string
           email: string
           full_name: string
@@ -180,6 +422,7 @@ export type Database = {
         }
         Insert: {
           access_token?: string | null
+          anonymized_at?: string | null
           created_at?: string
           email: string
           full_name: string
@@ -196,6 +439,7 @@ export type Database = {
         }
         Update: {
           access_token?: string | null
+          anonymized_at?: string | null
           created_at?: string
           email?: string
           full_name?: string
@@ -212,33 +456,101 @@ export type Database = {
         }
         Relationships: []
       }
+      data_erasure_requests: {
+        Row: {
+          candidate_id: string | null
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          processed_by: string | null
+          reason: string | null
+          report: Json | null
+          requested_by: string | null
+          source: string
+          status: string
+        }
+        Insert: {
+          candidate_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          processed_by?: string | null
+          reason?: string | null
+          report?: Json | null
+          requested_by?: string | null
+          source: string
+          status?: string
+        }
+        Update: {
+          candidate_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          processed_by?: string | null
+          reason?: string | null
+          report?: Json | null
+          requested_by?: string | null
+          source?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_erasure_requests_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_logs: {
         Row: {
+          bounced_at: string | null
           candidate_id: string | null
+          delivered_at: string | null
           email_type: string
+          error: string | null
           id: string
+          provider_message_id: string | null
           recipient_email: string
+          scheduled_email_id: string | null
           sent_at: string
           status: string
           subject: string
+          transport: string | null
         }
         Insert: {
+          bounced_at?: string | null
           candidate_id?: string | null
+          delivered_at?: string | null
           email_type: string
+          error?: string | null
           id?: string
+          provider_message_id?: string | null
           recipient_email: string
+          scheduled_email_id?: string | null
           sent_at?: string
           status?: string
           subject: string
+          transport?: string | null
         }
         Update: {
+          bounced_at?: string | null
           candidate_id?: string | null
+          delivered_at?: string | null
           email_type?: string
+          error?: string | null
           id?: string
+          provider_message_id?: string | null
           recipient_email?: string
+          scheduled_email_id?: string | null
           sent_at?: string
           status?: string
           subject?: string
+          transport?: string | null
         }
         Relationships: [
           {
@@ -248,6 +560,13 @@ export type Database = {
             referencedRelation: "candidates"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_logs_scheduled_email_id_fkey"
+            columns: ["scheduled_email_id"]
+            isOneToOne: true
+            referencedRelation: "scheduled_emails"
+            referencedColumns: ["id"]
+          },
         ]
       }
       email_templates: {
@@ -316,15 +635,143 @@ export type Database = {
         }
         Relationships: []
       }
+      interview_interviewers: {
+        Row: {
+          created_at: string
+          id: string
+          interview_id: string
+          interviewer_id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interview_id: string
+          interviewer_id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interview_id?: string
+          interviewer_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_interviewers_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_reschedules: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_duration_minutes: number
+          from_scheduled_at: string
+          id: string
+          interview_id: string
+          reason: string
+          to_duration_minutes: number
+          to_scheduled_at: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_duration_minutes: number
+          from_scheduled_at: string
+          id?: string
+          interview_id: string
+          reason: string
+          to_duration_minutes: number
+          to_scheduled_at: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_duration_minutes?: number
+          from_scheduled_at?: string
+          id?: string
+          interview_id?: string
+          reason?: string
+          to_duration_minutes?: number
+          to_scheduled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_reschedules_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_scorecards: {
+        Row: {
+          comments: string | null
+          created_at: string
+          id: string
+          interview_id: string
+          interviewer_id: string
+          ratings: Json
+          recommendation: string | null
+          submitted_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          comments?: string | null
+          created_at?: string
+          id?: string
+          interview_id: string
+          interviewer_id: string
+          ratings?: Json
+          recommendation?: string | null
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          comments?: string | null
+          created_at?: string
+          id?: string
+          interview_id?: string
+          interviewer_id?: string
+          ratings?: Json
+          recommendation?: string | null
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_scorecards_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       interviews: {
         Row: {
           application_id: string
+          calendar_event_id: string | null
+          calendar_owner_id: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           created_at: string
           created_by: string | null
           duration_minutes: number
+          ical_sequence: number
+          ical_uid: string | null
           id: string
           interview_type: string
           meeting_id: string | null
+          meeting_provider: string | null
           meeting_url: string | null
           notes: string | null
           scheduled_at: string
@@ -333,12 +780,20 @@ export type Database = {
         }
         Insert: {
           application_id: string
+          calendar_event_id?: string | null
+          calendar_owner_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           created_at?: string
           created_by?: string | null
           duration_minutes?: number
+          ical_sequence?: number
+          ical_uid?: string | null
           id?: string
           interview_type?: string
           meeting_id?: string | null
+          meeting_provider?: string | null
           meeting_url?: string | null
           notes?: string | null
           scheduled_at: string
@@ -347,12 +802,20 @@ export type Database = {
         }
         Update: {
           application_id?: string
+          calendar_event_id?: string | null
+          calendar_owner_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           created_at?: string
           created_by?: string | null
           duration_minutes?: number
+          ical_sequence?: number
+          ical_uid?: string | null
           id?: string
           interview_type?: string
           meeting_id?: string | null
+          meeting_provider?: string | null
           meeting_url?: string | null
           notes?: string | null
           scheduled_at?: string
@@ -375,53 +838,136 @@ export type Database = {
           created_at: string
           created_by: string | null
           department: string
+          closed_at: string | null
           description: string | null
+          headcount: number
           id: string
           is_active: boolean
           job_type: string
           location: string
+          opened_at: string | null
           requirements: string | null
+          scoring_rubric: Json | null
+          status: Database["public"]["Enums"]["job_status"]
           title: string
           updated_at: string
+          wip_limits: Json
         }
         Insert: {
           assigned_hr_id?: string | null
           created_at?: string
+          closed_at?: string | null
           created_by?: string | null
           department: string
           description?: string | null
+          headcount?: number
           id?: string
           is_active?: boolean
           job_type?: string
           location: string
+          opened_at?: string | null
           requirements?: string | null
+          scoring_rubric?: Json | null
+          status?: Database["public"]["Enums"]["job_status"]
           title: string
           updated_at?: string
+          wip_limits?: Json
         }
         Update: {
           assigned_hr_id?: string | null
           created_at?: string
           created_by?: string | null
           department?: string
+          closed_at?: string | null
           description?: string | null
+          headcount?: number
           id?: string
           is_active?: boolean
           job_type?: string
           location?: string
+          opened_at?: string | null
           requirements?: string | null
+          scoring_rubric?: Json | null
+          status?: Database["public"]["Enums"]["job_status"]
           title?: string
           updated_at?: string
+          wip_limits?: Json
+        }
+        Relationships: []
+      }
+      meeting_settings: {
+        Row: {
+          default_provider: string
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          default_provider?: string
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          default_provider?: string
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
+      offer_letter_versions: {
+        Row: {
+          content: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          offer_letter_id: string
+          pdf_path: string | null
+          sent_at: string | null
+          version_number: number
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          offer_letter_id: string
+          pdf_path?: string | null
+          sent_at?: string | null
+          version_number: number
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          offer_letter_id?: string
+          pdf_path?: string | null
+          sent_at?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offer_letter_versions_offer_letter_id_fkey"
+            columns: ["offer_letter_id"]
+            isOneToOne: false
+            referencedRelation: "offer_letters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       offer_letters: {
         Row: {
           additional_notes: string | null
           application_id: string
+          approved_at: string | null
+          approved_by: string | null
           benefits_package: string | null
           bonus_structure: string | null
           created_at: string
           created_by: string | null
+          decline_reason: string | null
           department: string
           employment_type: string
           equity_details: string | null
@@ -433,11 +979,15 @@ export type Database = {
           proposed_start_date: string
           remote_policy: string | null
           reporting_manager: string | null
+          responded_at: string | null
           salary_amount: number
           salary_currency: string
           salary_frequency: string
           sent_at: string | null
           sick_leave_days: number | null
+          signature_ip: string | null
+          signature_name: string | null
+          signature_user_agent: string | null
           status: string
           updated_at: string
           vacation_days: number | null
@@ -446,10 +996,13 @@ export type Database = {
         Insert: {
           additional_notes?: string | null
           application_id: string
+          approved_at?: string | null
+          approved_by?: string | null
           benefits_package?: string | null
           bonus_structure?: string | null
           created_at?: string
           created_by?: string | null
+          decline_reason?: string | null
           department: string
           employment_type?: string
           equity_details?: string | null
@@ -461,11 +1014,15 @@ export type Database = {
           proposed_start_date: string
           remote_policy?: string | null
           reporting_manager?: string | null
+          responded_at?: string | null
           salary_amount: number
           salary_currency?: string
           salary_frequency?: string
           sent_at?: string | null
           sick_leave_days?: number | null
+          signature_ip?: string | null
+          signature_name?: string | null
+          signature_user_agent?: string | null
           status?: string
           updated_at?: string
           vacation_days?: number | null
@@ -474,10 +1031,13 @@ export type Database = {
         Update: {
           additional_notes?: string | null
           application_id?: string
+          approved_at?: string | null
+          approved_by?: string | null
           benefits_package?: string | null
           bonus_structure?: string | null
           created_at?: string
           created_by?: string | null
+          decline_reason?: string | null
           department?: string
           employment_type?: string
           equity_details?: string | null
@@ -489,11 +1049,15 @@ export type Database = {
           proposed_start_date?: string
           remote_policy?: string | null
           reporting_manager?: string | null
+          responded_at?: string | null
           salary_amount?: number
           salary_currency?: string
           salary_frequency?: string
           sent_at?: string | null
           sick_leave_days?: number | null
+          signature_ip?: string | null
+          signature_name?: string | null
+          signature_user_agent?: string | null
           status?: string
           updated_at?: string
           vacation_days?: number | null
@@ -536,6 +1100,255 @@ export type Database = {
         }
         Relationships: []
       }
+      rejection_settings: {
+        Row: {
+          cool_off_minutes: number
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          cool_off_minutes?: number
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          cool_off_minutes?: number
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      retention_policies: {
+        Row: {
+          outcome: Database["public"]["Enums"]["application_status"]
+          retention_days: number | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          outcome: Database["public"]["Enums"]["application_status"]
+          retention_days?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          outcome?: Database["public"]["Enums"]["application_status"]
+          retention_days?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      scheduled_emails: {
+        Row: {
+          application_id: string | null
+          attachments: Json
+          attempts: number
+          cancelled_at: string | null
+          cancelled_by: string | null
+          candidate_id: string | null
+          created_at: string
+          created_by: string | null
+          email_type: string
+          error: string | null
+          html: string
+          id: string
+          idempotency_key: string | null
+          locked_at: string | null
+          max_attempts: number
+          provider_message_id: string | null
+          recipient_email: string
+          send_at: string
+          sent_at: string | null
+          status: string
+          subject: string
+          transport: string | null
+        }
+        Insert: {
+          application_id?: string | null
+          attachments?: Json
+          attempts?: number
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          candidate_id: string | null
+          created_at?: string
+          created_by?: string | null
+          email_type: string
+          error?: string | null
+          html: string
+          id?: string
+          idempotency_key?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          provider_message_id?: string | null
+          recipient_email: string
+          send_at: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          transport?: string | null
+        }
+        Update: {
+          application_id?: string | null
+          attachments?: Json
+          attempts?: number
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          candidate_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          email_type?: string
+          error?: string | null
+          html?: string
+          id?: string
+          idempotency_key?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          provider_message_id?: string | null
+          recipient_email?: string
+          send_at?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          transport?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_emails_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_emails_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduling_links: {
+        Row: {
+          application_id: string
+          booked_at: string | null
+          buffer_minutes: number
+          created_at: string
+          created_by: string | null
+          duration_minutes: number
+          expires_at: string
+          id: string
+          interview_id: string | null
+          interview_type: string
+          interviewers: Json
+          meeting_provider: string | null
+          reschedule_count: number
+          status: string
+          time_zone: string
+          token: string
+          updated_at: string
+          window_days: number
+          workday_end_hour: number
+          workday_start_hour: number
+        }
+        Insert: {
+          application_id: string
+          booked_at?: string | null
+          buffer_minutes?: number
+          created_at?: string
+          created_by?: string | null
+          duration_minutes?: number
+          expires_at: string
+          id?: string
+          interview_id?: string | null
+          interview_type?: string
+          interviewers: Json
+          meeting_provider?: string | null
+          reschedule_count?: number
+          status?: string
+          time_zone?: string
+          token?: string
+          updated_at?: string
+          window_days?: number
+          workday_end_hour?: number
+          workday_start_hour?: number
+        }
+        Update: {
+          application_id?: string
+          booked_at?: string | null
+          buffer_minutes?: number
+          created_at?: string
+          created_by?: string | null
+          duration_minutes?: number
+          expires_at?: string
+          id?: string
+          interview_id?: string | null
+          interview_type?: string
+          interviewers?: Json
+          meeting_provider?: string | null
+          reschedule_count?: number
+          status?: string
+          time_zone?: string
+          token?: string
+          updated_at?: string
+          window_days?: number
+          workday_end_hour?: number
+          workday_start_hour?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduling_links_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduling_links_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scorecard_competencies: {
+        Row: {
+          ai_breakdown_key: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          ai_breakdown_key?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          ai_breakdown_key?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -562,6 +1375,76 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      anonymize_candidate: { Args: { _candidate_id: string }; Returns: Json }
+      audit_diff: { Args: { _new: Json; _old: Json }; Returns: Json }
+      can_access_application: {
+        Args: { _application_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_candidate: {
+        Args: { _candidate_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_job: {
+        Args: { _job_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_resume: {
+        Args: { _path: string; _user_id: string }
+        Returns: boolean
+      }
+      candidate_duplicate_matches: {
+        Args: { _candidate_id: string }
+        Returns: {
+          candidate_id: string
+          reasons: string[]
+          score: number
+        }[]
+      }
+      candidate_email_exists: {
+        Args: { _email: string }
+        Returns: boolean
+      }
+      candidates_due_for_purge: { Args: Record<PropertyKey, never>; Returns: string[] }
+      change_application_status: {
+        Args: {
+          _application_id: string
+          _only_from?: Database["public"]["Enums"]["application_status"][]
+          _override?: boolean
+          _reason?: string
+          _status: Database["public"]["Enums"]["application_status"]
+        }
+        Returns: boolean
+      }
+      claim_scheduled_emails: {
+        Args: { _ids?: string[]; _limit?: number }
+        Returns: {
+          application_id: string | null
+          attachments: Json
+          attempts: number
+          cancelled_at: string | null
+          cancelled_by: string | null
+          candidate_id: string | null
+          created_at: string
+          created_by: string | null
+          email_type: string
+          error: string | null
+          html: string
+          id: string
+          idempotency_key: string | null
+          locked_at: string | null
+          max_attempts: number
+          provider_message_id: string | null
+          recipient_email: string
+          send_at: string
+          sent_at: string | null
+          status: string
+          subject: string
+          transport: string | null
+        }[]
+      }
+      expire_overdue_offers: { Args: Record<PropertyKey, never>; Returns: number }
+      has_full_access: { Args: { _user_id: string }; Returns: boolean }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -569,7 +1452,40 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_submitted_scorecard: {
+        Args: { _interview_id: string; _user_id: string }
+        Returns: boolean
+      }
+      invoke_edge_function: { Args: { _body: Json; _name: string }; Returns: undefined }
+      is_allowed_stage_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["application_status"]
+          _to: Database["public"]["Enums"]["application_status"]
+        }
+        Returns: boolean
+      }
       is_hr_staff: { Args: { _user_id: string }; Returns: boolean }
+      is_panel_member: {
+        Args: { _interview_id: string; _user_id: string }
+        Returns: boolean
+      }
+      merge_candidates: {
+        Args: { _merged_id: string; _survivor_id: string }
+        Returns: Json
+      }
+      normalize_phone: { Args: { _phone: string }; Returns: string }
+      normalize_profile_url: { Args: { _url: string }; Returns: string }
+      refresh_candidate_duplicates: { Args: { _candidate_id: string }; Returns: undefined }
+      reject_application: {
+        Args: {
+          _application_id: string
+          _email_html?: string
+          _email_subject?: string
+          _note?: string
+          _reason_code: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "recruiter" | "hr_manager"
@@ -580,6 +1496,8 @@ export type Database = {
         | "offer"
         | "hired"
         | "rejected"
+        | "withdrawn"
+      job_status: "draft" | "open" | "on_hold" | "closed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -715,7 +1633,9 @@ export const Constants = {
         "offer",
         "hired",
         "rejected",
+        "withdrawn",
       ],
+      job_status: ["draft", "open", "on_hold", "closed"],
     },
   },
 } as const
@@ -0,0 +1,289 @@
+import type { ApplicationStatus } from "@/lib/pipeline";
+import { REJECTION_REASON_LABELS } from "@/lib/rejections";
+
+// Pipeline order; rejected and withdrawn are exits, not stages
+export const FUNNEL_STAGES: ApplicationStatus[] = ["applied", "screening", "interview", "offer", "hired"];
+
+export const STAGE_LABELS: Record<string, string> = {
+  applied: "Applied",
+  screening: "Screening",
+  interview: "Interview",
+  offer: "Offer",
+  hired: "Hired",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+export const SOURCE_LABELS: Record<string, string> = {
+  portal: "Candidate portal",
+  careers: "Careers page",
+  gmail: "Gmail import",
+  email: "Email webhook",
+  manual: "Added by HR",
+};
+
+export const UNKNOWN_SOURCE = "unknown";
+
+export interface AnalyticsApplication {
+  id: string;
+  jobId: string;
+  jobTitle: string;
+  source: string | null;
+  status: ApplicationStatus;
+  aiScore: number | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+export interface StageChange {
+  applicationId: string;
+  toStatus: ApplicationStatus;
+  changedAt: string;
+}
+
+export interface AnalyticsOffer {
+  status: string;
+}
+
+export interface AnalyticsInterview {
+  status: string;
+  // The interview panel
+  interviewerIds: string[];
+  // Panel members who submitted a scorecard
+  feedbackIds: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+
+const groupHistory = (history: StageChange[]) => {
+  const byApplication = new Map<string, StageChange[]>();
+  for (const change of history) {
+    const changes = byApplication.get(change.applicationId) ?? [];
+    changes.push(change);
+    byApplication.set(change.applicationId, changes);
+  }
+  for (const changes of byApplication.values()) {
+    changes.sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+  }
+  return byApplication;
+};
+
+export interface FunnelRow {
+  jobId: string;
+  jobTitle: string;
+  counts: Record<string, number>;
+}
+
+// An application counts toward every stage up to the furthest it reached, so a candidate moved
+// straight from applied to interview still passed screening
+export function buildFunnel(applications: AnalyticsApplication[], history: StageChange[]): FunnelRow[] {
+  const byApplication = groupHistory(history);
+  const rows = new Map<string, FunnelRow>();
+
+  for (const application of applications) {
+    const reached = [application.status, ...(byApplication.get(application.id) ?? []).map((c) => c.toStatus)]
+      .map((status) => FUNNEL_STAGES.indexOf(status))
+      .reduce((furthest, index) => Math.max(furthest, index), 0);
+
+    const row = rows.get(application.jobId) ?? {
+      jobId: application.jobId,
+      jobTitle: application.jobTitle,
+      counts: Object.fromEntries(FUNNEL_STAGES.map((stage) => [stage, 0])),
+    };
+    for (let i = 0; i <= reached; i++) row.counts[FUNNEL_STAGES[i]]++;
+    rows.set(application.jobId, row);
+  }
+
+  return [...rows.values()].sort((a, b) => b.counts.applied - a.counts.applied);
+}
+
+export function totalFunnel(rows: FunnelRow[]): Record<string, number> {
+  return Object.fromEntries(
+    FUNNEL_STAGES.map((stage) => [stage, rows.reduce((sum, row) => sum + row.counts[stage], 0)])
+  );
+}
+
+export const conversionRate = (from: number, to: number) => (from > 0 ? Math.round((to / from) * 100) : null);
+
+// Days spent in each stage, for stages the application has already left
+export function stageDurations(history: StageChange[]): Record<string, number[]> {
+  const durations: Record<string, number[]> = Object.fromEntries(FUNNEL_STAGES.map((stage) => [stage, []]));
+  for (const changes of groupHistory(history).values()) {
+    for (let i = 0; i < changes.length - 1; i++) {
+      durations[changes[i].toStatus]?.push(daysBetween(changes[i].changedAt, changes[i + 1].changedAt));
+    }
+  }
+  return durations;
+}
+
+// Days from application to the first move into hired
+export function timeToHire(applications: AnalyticsApplication[], history: StageChange[]): number[] {
+  const byApplication = groupHistory(history);
+  return applications.flatMap((application) => {
+    const hired = byApplication.get(application.id)?.find((change) => change.toStatus === "hired");
+    return hired ? [daysBetween(application.createdAt, hired.changedAt)] : [];
+  });
+}
+
+export const DURATION_BUCKETS = [
+  { label: "< 1 day", maxDays: 1 },
+  { label: "1–3 days", maxDays: 3 },
+  { label: "3–7 days", maxDays: 7 },
+  { label: "1–2 weeks", maxDays: 14 },
+  { label: "2–4 weeks", maxDays: 28 },
+  { label: "4+ weeks", maxDays: Infinity },
+];
+
+export function bucketDurations(days: number[]) {
+  return DURATION_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    count: days.filter((d) => d >= (i === 0 ? 0 : DURATION_BUCKETS[i - 1].maxDays) && d < bucket.maxDays).length,
+  }));
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export const formatDays = (days: number | null) => {
+  if (days === null) return "—";
+  return days < 1 ? `${Math.round(days * 24)}h` : `${Math.round(days * 10) / 10}d`;
+};
+
+export function sourceBreakdown(applications: AnalyticsApplication[]) {
+  const rows = new Map<string, { source: string; label: string; applications: number; hired: number }>();
+  for (const application of applications) {
+    const source = application.source ?? UNKNOWN_SOURCE;
+    const row = rows.get(source) ?? { source, label: SOURCE_LABELS[source] ?? "Unknown", applications: 0, hired: 0 };
+    row.applications++;
+    if (application.status === "hired") row.hired++;
+    rows.set(source, row);
+  }
+  return [...rows.values()].sort((a, b) => b.applications - a.applications);
+}
+
+// Rejected applications by reason; rejections from before reasons were recorded show as not recorded
+export function rejectionReasons(applications: AnalyticsApplication[]) {
+  const rows = new Map<string, { reason: string; label: string; count: number }>();
+  for (const application of applications) {
+    if (application.status !== "rejected") continue;
+    const reason = application.rejectionReason ?? "not_recorded";
+    const row = rows.get(reason) ?? { reason, label: REJECTION_REASON_LABELS[reason] ?? "Not recorded", count: 0 };
+    row.count++;
+    rows.set(reason, row);
+  }
+  return [...rows.values()].sort((a, b) => b.count - a.count);
+}
+
+// Acceptance is measured against offers that got an answer; open offers are reported separately
+export function offerAcceptance(offers: AnalyticsOffer[]) {
+  const count = (status: string) => offers.filter((offer) => offer.status === status).length;
+  const accepted = count("accepted");
+  const declined = count("declined");
+  const expired = count("expired");
+  const decided = accepted + declined + expired;
+  return {
+    sent: offers.length,
+    accepted,
+    declined,
+    expired,
+    awaiting: offers.length - decided,
+    rate: decided > 0 ? Math.round((accepted / decided) * 100) : null,
+  };
+}
+
+export function interviewerLoad(interviews: AnalyticsInterview[], names: Record<string, string>) {
+  const rows = new Map<
+    string,
+    { interviewerId: string; name: string; scheduled: number; completed: number; cancelled: number; feedback: number }
+  >();
+  for (const interview of interviews) {
+    for (const interviewerId of interview.interviewerIds) {
+      const row = rows.get(interviewerId) ?? {
+        interviewerId,
+        name: names[interviewerId] ?? "Unknown user",
+        scheduled: 0,
+        completed: 0,
+        cancelled: 0,
+        feedback: 0,
+      };
+      row.scheduled++;
+      if (interview.status === "completed") row.completed++;
+      if (interview.status === "completed" && interview.feedbackIds.includes(interviewerId)) row.feedback++;
+      if (interview.status === "cancelled") row.cancelled++;
+      rows.set(interviewerId, row);
+    }
+  }
+  return [...rows.values()].sort((a, b) => b.scheduled - a.scheduled);
+}
+
+export const SCORE_BANDS = [
+  { label: "85–100", min: 85 },
+  { label: "70–84", min: 70 },
+  { label: "50–69", min: 50 },
+  { label: "0–49", min: 0 },
+];
+
+// Hired versus rejected applications that have an AI score. Withdrawals are left out: the candidate
+// chose, not the team. The correlation is Pearson's r between score and hired (1) / rejected (0).
+export function scoreOutcome(applications: AnalyticsApplication[]) {
+  const decided = applications.filter(
+    (application): application is AnalyticsApplication & { aiScore: number } =>
+      application.aiScore !== null && (application.status === "hired" || application.status === "rejected")
+  );
+
+  const bands = SCORE_BANDS.map((band, i) => {
+    const upper = i === 0 ? Infinity : SCORE_BANDS[i - 1].min;
+    const inBand = decided.filter((a) => a.aiScore >= band.min && a.aiScore < upper);
+    const hired = inBand.filter((a) => a.status === "hired").length;
+    return {
+      label: band.label,
+      decided: inBand.length,
+      hired,
+      hireRate: inBand.length > 0 ? Math.round((hired / inBand.length) * 100) : null,
+    };
+  });
+
+  return { bands, sample: decided.length, correlation: pearson(decided.map((a) => [a.aiScore, a.status === "hired" ? 1 : 0])) };
+}
+
+function pearson(pairs: [number, number][]): number | null {
+  if (pairs.length < 3) return null;
+  const n = pairs.length;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+type CsvValue = string | number | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]) => rows.map((row) => row.map(csvCell).join(",")).join("\n");
+
+export const downloadCsv = (fileName: string, rows: CsvValue[][]) => {
+  const blob = new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
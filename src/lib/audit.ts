@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type AuditEntry = Database["public"]["Tables"]["audit_log"]["Row"];
+
+export interface AuditChange {
+  old?: Json;
+  new?: Json;
+}
+
+// Entity names as written by the audit_row_change triggers and the edge functions
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  candidate: "Candidate",
+  application: "Application",
+  interview: "Interview",
+  offer: "Offer",
+  job: "Job",
+  email_template: "Email template",
+  email: "Email",
+  user: "User",
+};
+
+const ACTION_VERBS: Record<string, string> = {
+  created: "created",
+  updated: "updated",
+  deleted: "deleted",
+  sent: "sent",
+  send_failed: "send failed",
+  accepted: "accepted",
+  declined: "declined",
+  withdrawn: "withdrawn",
+  resume_updated: "resume updated",
+  invited: "invited",
+  role_changed: "role changed",
+  exported: "data exported",
+  erasure_requested: "erasure requested",
+  erased: "data erased",
+  merged: "merged with a duplicate",
+};
+
+export const describeAuditAction = (action: string) => {
+  const [entity, verb = ""] = action.split(".");
+  const label = AUDIT_ENTITY_LABELS[entity] ?? entity;
+  return `${label} ${ACTION_VERBS[verb] ?? verb.replace(/_/g, " ")}`;
+};
+
+export const parseAuditChanges = (changes: Json): Record<string, AuditChange> =>
+  changes && typeof changes === "object" && !Array.isArray(changes)
+    ? (changes as Record<string, AuditChange>)
+    : {};
+
+export const formatAuditField = (field: string) => field.replace(/_/g, " ");
+
+const MAX_VALUE_LENGTH = 80;
+
+export const formatAuditValue = (value: Json | undefined): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// Trigger entries from the service role have no actor; candidate entries come from their own links
+export const describeAuditActor = (
+  entry: Pick<AuditEntry, "actor_id" | "actor_type">,
+  names: Record<string, string>
+) => {
+  if (entry.actor_type === "candidate") return "Candidate";
+  if (!entry.actor_id) return "System";
+  return names[entry.actor_id] ?? "Unknown user";
+};
+
+export const fetchActorNames = async (
+  entries: Pick<AuditEntry, "actor_id" | "actor_type">[]
+): Promise<Record<string, string>> => {
+  const ids = [
+    ...new Set(
+      entries
+        .filter((entry) => entry.actor_type === "user")
+        .map((entry) => entry.actor_id)
+        .filter((id): id is string => !!id)
+    ),
+  ];
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase.from("profiles").select("id, email, full_name").in("id", ids);
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((profile) => [profile.id, profile.full_name || profile.email]));
+};
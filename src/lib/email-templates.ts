@@ -0,0 +1,219 @@
+// Email template engine. Templates are plain text with tags:
+//   {{candidateName}}                          a variable
+//   {{#if meetingUrl}}…{{else}}…{{/if}}        a conditional; {{#unless name}} inverts it
+//   {{#each interviews}}{{date}} {{/each}}     a loop over a list, whose item fields are in scope inside
+// Each email_type has its own variable catalog, and a template may only use variables from it.
+// Keep in sync with supabase/functions/_shared/email-templates.ts, which renders for send-email;
+// email-templates.test.ts there fails when the two drift apart.
+import { invokeFunction } from "@/lib/functions";
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  // Item fields of a list, which {{#each}} loops over
+  fields?: TemplateVariable[];
+}
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateContext[];
+
+export interface TemplateContext {
+  [name: string]: TemplateValue;
+}
+
+type BlockKeyword = "if" | "unless" | "each";
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; name: string }
+  | { kind: "block"; keyword: BlockKeyword; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+const CANDIDATE_VARIABLES: TemplateVariable[] = [
+  { name: "candidateName", description: "Candidate's full name" },
+  { name: "candidateFirstName", description: "Candidate's first name" },
+  { name: "candidateEmail", description: "Candidate's email address" },
+  { name: "position", description: "Job title" },
+  { name: "department", description: "Job department" },
+  { name: "location", description: "Job location" },
+  { name: "company", description: "Company name" },
+  { name: "date", description: "Today's date" },
+];
+
+const INTERVIEW_FIELDS: TemplateVariable[] = [
+  { name: "date", description: "Interview date" },
+  { name: "time", description: "Interview start time" },
+  { name: "interviewType", description: "Interview type, e.g. video or onsite" },
+  { name: "duration", description: "Length in minutes" },
+  { name: "meetingUrl", description: "Meeting link; empty for onsite interviews" },
+  { name: "interviewerName", description: "Interviewers' names" },
+];
+
+const INTERVIEW_VARIABLES: TemplateVariable[] = [
+  { name: "interviewDate", description: "Date of the next scheduled interview" },
+  { name: "interviewTime", description: "Start time of the next scheduled interview" },
+  { name: "interviewType", description: "Type of the next scheduled interview" },
+  { name: "interviewDuration", description: "Length of the next scheduled interview in minutes" },
+  { name: "meetingUrl", description: "Meeting link of the next scheduled interview" },
+  { name: "interviewerName", description: "Interviewers of the next scheduled interview" },
+  { name: "interviews", description: "Every upcoming scheduled interview", fields: INTERVIEW_FIELDS },
+];
+
+const OFFER_VARIABLES: TemplateVariable[] = [
+  { name: "salary", description: "Offered salary with currency and frequency" },
+  { name: "startDate", description: "Proposed start date" },
+  { name: "offerExpiryDate", description: "Date the offer expires; empty if it does not" },
+  { name: "employmentType", description: "Employment type, e.g. full-time" },
+  { name: "workLocation", description: "Work location" },
+  { name: "reportingManager", description: "Reporting manager" },
+];
+
+export const EMAIL_TEMPLATE_VARIABLES: Record<string, TemplateVariable[]> = {
+  interview_invite: [...CANDIDATE_VARIABLES, ...INTERVIEW_VARIABLES],
+  rejection: CANDIDATE_VARIABLES,
+  offer: [...CANDIDATE_VARIABLES, ...OFFER_VARIABLES],
+  follow_up: [...CANDIDATE_VARIABLES, ...INTERVIEW_VARIABLES],
+  welcome: [...CANDIDATE_VARIABLES, ...OFFER_VARIABLES],
+  custom: [...CANDIDATE_VARIABLES, ...INTERVIEW_VARIABLES, ...OFFER_VARIABLES],
+};
+
+// Email types without a catalog of their own get the full one
+export const getTemplateVariables = (emailType: string) =>
+  EMAIL_TEMPLATE_VARIABLES[emailType] ?? EMAIL_TEMPLATE_VARIABLES.custom;
+
+const TAG = /\{\{(.*?)\}\}/gs;
+const NAME = /^[A-Za-z_]\w*$/;
+
+function parse(source: string): { nodes: TemplateNode[]; problems: string[] } {
+  const problems: string[] = [];
+  const root: TemplateNode[] = [];
+  const open: { node: Extract<TemplateNode, { kind: "block" }>; inElse: boolean }[] = [];
+  let current = root;
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    if (match.index! > last) current.push({ kind: "text", text: source.slice(last, match.index) });
+    last = match.index! + match[0].length;
+
+    const tag = match[1].trim();
+    const block = /^#(if|unless|each)\s+(\S+)$/.exec(tag);
+    const close = /^\/(if|unless|each)$/.exec(tag);
+    const top = open[open.length - 1];
+
+    if (block) {
+      if (!NAME.test(block[2])) {
+        problems.push(`Invalid variable name in {{${tag}}}`);
+      }
+      const node: TemplateNode = { kind: "block", keyword: block[1] as BlockKeyword, name: block[2], body: [], otherwise: [] };
+      current.push(node);
+      open.push({ node, inElse: false });
+      current = node.body;
+    } else if (tag === "else") {
+      if (!top || top.node.keyword === "each" || top.inElse) {
+        problems.push("{{else}} must be inside {{#if}} or {{#unless}}");
+        continue;
+      }
+      top.inElse = true;
+      current = top.node.otherwise;
+    } else if (close) {
+      if (!top || top.node.keyword !== close[1]) {
+        problems.push(`{{/${close[1]}}} has no matching {{#${close[1]}}}`);
+        continue;
+      }
+      open.pop();
+      const parent = open[open.length - 1];
+      current = parent ? (parent.inElse ? parent.node.otherwise : parent.node.body) : root;
+    } else if (NAME.test(tag)) {
+      current.push({ kind: "variable", name: tag });
+    } else {
+      problems.push(`Unrecognized tag {{${tag}}}`);
+    }
+  }
+
+  if (last < source.length) current.push({ kind: "text", text: source.slice(last) });
+  for (const { node } of open) {
+    problems.push(`{{#${node.keyword} ${node.name}}} is never closed with {{/${node.keyword}}}`);
+  }
+  return { nodes: root, problems };
+}
+
+function checkNodes(nodes: TemplateNode[], scopes: TemplateVariable[][], problems: string[]) {
+  const lookup = (name: string) => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const variable = scopes[i].find((v) => v.name === name);
+      if (variable) return variable;
+    }
+    return null;
+  };
+
+  const unknown = (name: string) => {
+    const similar = scopes.flat().find((v) => v.name.toLowerCase() === name.toLowerCase());
+    problems.push(`Unknown variable {{${name}}}${similar ? `; did you mean {{${similar.name}}}?` : ""}`);
+  };
+
+  for (const node of nodes) {
+    if (node.kind === "variable") {
+      const variable = lookup(node.name);
+      if (!variable) unknown(node.name);
+      else if (variable.fields) problems.push(`{{${node.name}}} is a list; loop over it with {{#each ${node.name}}}`);
+    } else if (node.kind === "block") {
+      const variable = lookup(node.name);
+      if (!variable) {
+        unknown(node.name);
+      } else if (node.keyword === "each" && !variable.fields) {
+        problems.push(`{{#each ${node.name}}} needs a list, but {{${node.name}}} is a single value`);
+      }
+      const inner = node.keyword === "each" && variable?.fields ? [...scopes, variable.fields] : scopes;
+      checkNodes(node.body, inner, problems);
+      checkNodes(node.otherwise, scopes, problems);
+    }
+  }
+}
+
+// Everything wrong with a template for the given email type; empty when it can be saved
+export function validateTemplate(source: string, emailType: string): string[] {
+  const { nodes, problems } = parse(source);
+  checkNodes(nodes, [getTemplateVariables(emailType)], problems);
+  return [...new Set(problems)];
+}
+
+const isTruthy = (value: TemplateValue) =>
+  Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== "" && value !== false && value !== 0;
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  const lookup = (name: string): TemplateValue => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (name in scopes[i]) return scopes[i][name];
+    }
+    return undefined;
+  };
+
+  return nodes
+    .map((node) => {
+      if (node.kind === "text") return node.text;
+      const value = lookup(node.name);
+      if (node.kind === "variable") {
+        return value === null || value === undefined || Array.isArray(value) ? "" : String(value);
+      }
+      if (node.keyword === "each") {
+        return Array.isArray(value) ? value.map((item) => renderNodes(node.body, [...scopes, item])).join("") : "";
+      }
+      const show = isTruthy(value) !== (node.keyword === "unless");
+      return renderNodes(show ? node.body : node.otherwise, scopes);
+    })
+    .join("");
+}
+
+// Renders as plain text. Variables missing from the context render empty; a template with broken tags
+// throws, so check it with validateTemplate first.
+export function renderTemplate(source: string, context: TemplateContext): string {
+  const { nodes, problems } = parse(source);
+  if (problems.length > 0) throw new Error(problems[0]);
+  return renderNodes(nodes, [context]);
+}
+
+// Variable values for the given applications, built by the same server code send-email renders with
+export async function fetchTemplateContexts(applicationIds: string[]): Promise<Record<string, TemplateContext>> {
+  const { contexts } = await invokeFunction<{ contexts: Record<string, TemplateContext> }>("email-template-context", {
+    applicationIds,
+  });
+  return contexts;
+}
@@ -0,0 +1,17 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Invoke an edge function, surfacing the JSON error body it returns on non-2xx responses
+export async function invokeFunction<T = unknown>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    let message = error.message;
+    try {
+      const payload = await (error as { context?: Response }).context?.json();
+      if (payload?.error) message = payload.error;
+    } catch {
+      // Body was not JSON; keep the generic message
+    }
+    throw new Error(message);
+  }
+  return data as T;
+}
@@ -0,0 +1,124 @@
+import type { Database } from "@/integrations/supabase/types";
+import { invokeFunction } from "@/lib/functions";
+
+export type SchedulingLink = Database["public"]["Tables"]["scheduling_links"]["Row"];
+export type InterviewReschedule = Database["public"]["Tables"]["interview_reschedules"]["Row"];
+
+// Keep in sync with the interview_interviewers.role check constraint and supabase/functions/_shared/availability.ts
+export type PanelRole = "lead" | "interviewer" | "shadow";
+
+export const PANEL_ROLE_LABELS: Record<PanelRole, string> = {
+  lead: "Lead",
+  interviewer: "Interviewer",
+  shadow: "Shadow",
+};
+
+// Keep in sync with the meeting_settings and interviews.meeting_provider check constraints and
+// supabase/functions/_shared/meeting-providers.ts
+export type MeetingProviderName = "google_meet" | "teams" | "zoom" | "jitsi";
+
+// What schedule-interview creates: a provider, or no video link
+export type MeetingChoice = MeetingProviderName | "none";
+
+export const MEETING_PROVIDER_LABELS: Record<MeetingProviderName, string> = {
+  google_meet: "Google Meet",
+  teams: "Microsoft Teams",
+  zoom: "Zoom",
+  jitsi: "Jitsi",
+};
+
+export interface PanelMember {
+  userId: string;
+  role: PanelRole;
+}
+
+export interface BusySlot {
+  start: string;
+  end: string;
+}
+
+export interface SlotSuggestion {
+  start: string;
+  end: string;
+  score: number;
+  notes: string[];
+}
+
+export interface PanelAvailability {
+  busy: Record<string, BusySlot[]>;
+  // Panel members whose calendar is not connected or could not be read
+  unknown: string[];
+  suggestions: SlotSuggestion[];
+}
+
+// Busy times of every panel member and the best slots for the whole panel, in the browser's time zone
+export function fetchPanelAvailability(panel: PanelMember[], timeMin: Date, timeMax: Date, durationMinutes: number) {
+  return invokeFunction<PanelAvailability>("google-calendar", {
+    action: "panel-availability",
+    panel,
+    timeMin: timeMin.toISOString(),
+    timeMax: timeMax.toISOString(),
+    durationMinutes,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+}
+
+// Panel members busy at some point between start and end. Shadows do not block a slot, so they are
+// reported separately.
+export function busyMembers(panel: PanelMember[], busy: Record<string, BusySlot[]>, start: Date, end: Date) {
+  const overlapping = panel.filter((member) =>
+    (busy[member.userId] ?? []).some((slot) => new Date(slot.start) < end && new Date(slot.end) > start),
+  );
+  return {
+    required: overlapping.filter((member) => member.role !== "shadow"),
+    shadows: overlapping.filter((member) => member.role === "shadow"),
+  };
+}
+
+// Where a candidate books or moves their interview
+export const schedulingLinkUrl = (token: string) => `${window.location.origin}/schedule/${token}`;
+
+// A staff member's interviews as an iCal feed; calendar clients subscribe to it with the webcal scheme
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/interview-feed?token=${token}`;
+
+// Interviews picked by hand fit in the working day, 9:00 to 18:00 in the browser's time zone
+export const WORKDAY_END_MINUTES = 18 * 60;
+
+// Start times every half hour of the working day
+export const ALL_TIME_SLOTS = Array.from({ length: 18 }, (_, i) => {
+  const minutes = 9 * 60 + i * 30;
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+});
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const atTime = (date: Date, time: string) => {
+  const result = new Date(date);
+  result.setHours(0, toMinutes(time), 0, 0);
+  return result;
+};
+
+export type InterviewChange = "reschedule" | "cancel";
+
+export interface InterviewChangeInput {
+  interviewId: string;
+  reason: string;
+  scheduledAt?: string;
+  durationMinutes?: number;
+  notifyCandidate?: boolean;
+}
+
+export interface InterviewChangeResult {
+  // null when the interview has no calendar event or Teams meeting to update
+  calendarSynced: boolean | null;
+  meetingSynced: boolean | null;
+}
+
+// Reschedules or cancels an interview, keeping calendars, the video meeting and everyone involved up to date
+export function changeInterview(action: InterviewChange, input: InterviewChangeInput) {
+  return invokeFunction<InterviewChangeResult>("manage-interview", { action, ...input });
+}
@@ -0,0 +1,58 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export const OFFER_LETTER_BUCKET = "offer-letters";
+
+// Fields captured in each offer letter version, in the order they appear on the letter
+export const OFFER_VERSION_FIELDS: { key: string; label: string }[] = [
+  { key: "position_title", label: "Position Title" },
+  { key: "department", label: "Department" },
+  { key: "employment_type", label: "Employment Type" },
+  { key: "work_location", label: "Work Location" },
+  { key: "remote_policy", label: "Remote Policy" },
+  { key: "reporting_manager", label: "Reporting To" },
+  { key: "proposed_start_date", label: "Start Date" },
+  { key: "offer_expiry_date", label: "Offer Expiry" },
+  { key: "salary_amount", label: "Salary" },
+  { key: "salary_currency", label: "Currency" },
+  { key: "salary_frequency", label: "Pay Frequency" },
+  { key: "bonus_structure", label: "Bonus Structure" },
+  { key: "equity_details", label: "Equity" },
+  { key: "benefits_package", label: "Benefits" },
+  { key: "vacation_days", label: "Vacation Days" },
+  { key: "sick_leave_days", label: "Sick Leave Days" },
+  { key: "probation_period_months", label: "Probation (months)" },
+  { key: "notice_period_days", label: "Notice Period (days)" },
+  { key: "additional_notes", label: "Additional Notes" },
+];
+
+export interface OfferVersionChange {
+  key: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+function asContent(value: Json | null | undefined): Record<string, Json> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, Json>) : {};
+}
+
+function formatValue(value: Json | undefined): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  return String(value);
+}
+
+// Field-level diff between two version snapshots; pass null as `before` to list the initial terms
+export function diffOfferVersions(before: Json | null, after: Json): OfferVersionChange[] {
+  const previous = asContent(before);
+  const next = asContent(after);
+
+  return OFFER_VERSION_FIELDS.flatMap(({ key, label }) => {
+    const beforeValue = before === null ? null : formatValue(previous[key]);
+    const afterValue = formatValue(next[key]);
+    // Numeric columns round-trip through JSON as numbers, so "85000" and 85000.00 compare equal
+    const same = beforeValue === afterValue || (beforeValue !== null && afterValue !== null && Number(beforeValue) === Number(afterValue));
+    if (before !== null && same) return [];
+    if (before === null && afterValue === null) return [];
+    return [{ key, label, before: beforeValue, after: afterValue }];
+  });
+}
@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type ApplicationStatus = Database["public"]["Enums"]["application_status"];
+
+// SQLSTATE raised by enforce_stage_transition when a move is only possible with an override
+export const STAGE_OVERRIDE_REQUIRED = "HR001";
+
+export const needsStageOverride = (error: unknown) =>
+  typeof error === "object" && error !== null && (error as { code?: string }).code === STAGE_OVERRIDE_REQUIRED;
+
+// Status changes go through change_application_status so the stage history records why they happened
+export async function changeApplicationStatus(
+  applicationId: string,
+  status: ApplicationStatus,
+  options: { reason?: string; override?: boolean } = {}
+) {
+  const { error } = await supabase.rpc("change_application_status", {
+    _application_id: applicationId,
+    _status: status,
+    _reason: options.reason,
+    _override: options.override ?? false,
+  });
+  if (error) throw error;
+}
+
+// Stages a job can cap on the pipeline board; terminal stages are never limited
+export const WIP_LIMITED_STAGES = ["screening", "interview", "offer"] as const;
+
+export type WipLimitedStage = (typeof WIP_LIMITED_STAGES)[number];
+
+export type WipLimits = Partial<Record<WipLimitedStage, number>>;
+
+export function parseWipLimits(value: Json | null | undefined): WipLimits {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const limits: WipLimits = {};
+  for (const stage of WIP_LIMITED_STAGES) {
+    const limit = value[stage];
+    if (typeof limit === "number" && limit > 0) limits[stage] = limit;
+  }
+  return limits;
+}
@@ -0,0 +1,38 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type RetentionPolicy = Database["public"]["Tables"]["retention_policies"]["Row"];
+export type ErasureRequest = Database["public"]["Tables"]["data_erasure_requests"]["Row"];
+
+// Outcomes a retention window can be set for; candidates with any open application are never purged
+export const RETENTION_OUTCOME_LABELS: Record<string, string> = {
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  hired: "Hired",
+};
+
+export const ERASURE_SOURCE_LABELS: Record<string, string> = {
+  candidate: "Candidate request",
+  staff: "HR",
+  retention: "Retention policy",
+};
+
+// Mirrors ErasureReport in supabase/functions/_shared/candidate-data.ts
+export interface ErasureReport {
+  candidateId: string;
+  erasedAt: string;
+  records: Record<string, number>;
+  storage: { resumesDeleted: number; offerPdfsDeleted: number; failed: string[] };
+}
+
+export const parseErasureReport = (report: Json | null): ErasureReport | null =>
+  report && typeof report === "object" && !Array.isArray(report) ? (report as unknown as ErasureReport) : null;
+
+export const downloadJson = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
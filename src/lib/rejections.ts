@@ -0,0 +1,28 @@
+import type { Database } from "@/integrations/supabase/types";
+import { escapeHtml } from "@/lib/utils";
+
+export type RejectionSettings = Database["public"]["Tables"]["rejection_settings"]["Row"];
+export type ScheduledEmail = Database["public"]["Tables"]["scheduled_emails"]["Row"];
+
+// Keep in sync with the applications.rejection_reason check constraint
+export const REJECTION_REASON_LABELS: Record<string, string> = {
+  skills_mismatch: "Skills don't match the role",
+  insufficient_experience: "Not enough experience",
+  failed_assessment: "Did not pass the assessment",
+  interview_performance: "Interview performance",
+  compensation_mismatch: "Compensation expectations",
+  location_or_authorization: "Location or work authorization",
+  position_filled: "Position filled",
+  unresponsive: "Candidate unresponsive",
+  other: "Other",
+};
+
+export const formatCoolOff = (minutes: number) => {
+  if (minutes === 0) return "right away";
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? "" : "s"}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? "" : "s"}`;
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+export const plainTextToHtml = (text: string) =>
+  `<div style="font-family: Arial, sans-serif; white-space: pre-wrap;">${escapeHtml(text)}</div>`;
@@ -0,0 +1,65 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Highest first; a user with several roles is treated as their highest one
+export const APP_ROLES: AppRole[] = ["admin", "hr_manager", "recruiter"];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  hr_manager: "HR Manager",
+  recruiter: "Recruiter",
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  admin: "Everything, plus users, roles and integrations",
+  hr_manager: "All jobs and candidates; approves and sends offers",
+  recruiter: "Only jobs they are assigned to as hiring manager",
+};
+
+// Keep in sync with has_full_access / enforce_offer_letter_approval in the database
+// and supabase/functions/_shared/roles.ts
+export type Permission =
+  | "viewAllJobs"
+  | "manageJobs"
+  | "approveOffers"
+  | "manageUsers"
+  | "manageIntegrations"
+  | "viewAuditLog"
+  | "manageDataPrivacy"
+  | "overrideStageRules"
+  | "manageAptitudeQuestions"
+  | "manageRejectionSettings"
+  | "manageMeetingSettings";
+
+const PERMISSIONS: Record<Permission, AppRole[]> = {
+  viewAllJobs: ["admin", "hr_manager"],
+  manageJobs: ["admin", "hr_manager"],
+  approveOffers: ["admin", "hr_manager"],
+  manageUsers: ["admin"],
+  manageIntegrations: ["admin"],
+  // Mirrors the "Admins can view the audit log" policy; other staff only see candidate timelines
+  viewAuditLog: ["admin"],
+  // Retention windows, candidate data exports and erasure
+  manageDataPrivacy: ["admin", "hr_manager"],
+  // Mirrors enforce_stage_transition: moves outside application_stage_transitions
+  overrideStageRules: ["admin", "hr_manager"],
+  // Mirrors the aptitude_questions policy: the question bank holds the answer key
+  manageAptitudeQuestions: ["admin", "hr_manager"],
+  // Cool-off before rejection emails go out
+  manageRejectionSettings: ["admin", "hr_manager"],
+  // Default video meeting provider for interviews
+  manageMeetingSettings: ["admin", "hr_manager"],
+};
+
+export const hasPermission = (roles: AppRole[], permission: Permission) =>
+  roles.some((role) => PERMISSIONS[permission].includes(role));
+
+export const primaryRole = (roles: AppRole[]): AppRole | null =>
+  APP_ROLES.find((role) => roles.includes(role)) ?? null;
+
+// Dashboard routes limited to some roles; every other dashboard route is open to all staff
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  "/dashboard/users": "manageUsers",
+  "/dashboard/aptitude": "manageAptitudeQuestions",
+};
@@ -0,0 +1,134 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export interface RubricDimension {
+  key: string;
+  label: string;
+  // Maximum points for the dimension; a rubric's weights add up to 100
+  weight: number;
+  description: string;
+}
+
+export interface ScoringRubric {
+  dimensions: RubricDimension[];
+  // Must-have requirements; a candidate missing any of them is flagged as knocked out
+  knockouts: string[];
+  notes: string;
+}
+
+export interface KnockoutResult {
+  requirement: string;
+  met: boolean;
+  evidence: string | null;
+}
+
+export const RUBRIC_TOTAL_WEIGHT = 100;
+
+// Used for jobs without their own rubric; keys match the original fixed breakdown
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  dimensions: [
+    {
+      key: "technical_skills",
+      label: "Technical Skills",
+      weight: 30,
+      description: "Depth, breadth and hands-on use of relevant tools, frameworks and technologies",
+    },
+    {
+      key: "experience_quality",
+      label: "Experience Quality",
+      weight: 25,
+      description: "Career progression, responsibilities held and quantified impact",
+    },
+    {
+      key: "education_certifications",
+      label: "Education & Certs",
+      weight: 15,
+      description: "Formal education, bootcamps, courses and certifications",
+    },
+    {
+      key: "communication_presentation",
+      label: "Communication",
+      weight: 10,
+      description: "Clarity, organisation and professionalism of the resume",
+    },
+    {
+      key: "cultural_fit",
+      label: "Cultural Fit",
+      weight: 10,
+      description: "Teamwork, leadership, mentoring, adaptability and initiative",
+    },
+    {
+      key: "job_match",
+      label: "Job Match",
+      weight: 10,
+      description: "Fit against the job requirements, or general employability without them",
+    },
+  ],
+  knockouts: [],
+  notes: "",
+};
+
+// Stable snake_case key from a dimension label, e.g. "Quota Attainment" -> "quota_attainment"
+export const toDimensionKey = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Jobs store null for the default rubric; malformed entries are dropped rather than trusted
+export function parseRubric(value: Json | null | undefined): ScoringRubric {
+  if (!isRecord(value)) return DEFAULT_RUBRIC;
+
+  const dimensions = (Array.isArray(value.dimensions) ? value.dimensions : []).flatMap((item) => {
+    if (!isRecord(item) || typeof item.label !== "string" || typeof item.weight !== "number") return [];
+    const key = typeof item.key === "string" && item.key ? item.key : toDimensionKey(item.label);
+    return [{
+      key,
+      label: item.label,
+      weight: item.weight,
+      description: typeof item.description === "string" ? item.description : "",
+    }];
+  });
+
+  if (dimensions.length === 0) return DEFAULT_RUBRIC;
+
+  return {
+    dimensions,
+    knockouts: (Array.isArray(value.knockouts) ? value.knockouts : []).filter(
+      (item): item is string => typeof item === "string" && item.trim() !== ""
+    ),
+    notes: typeof value.notes === "string" ? value.notes : "",
+  };
+}
+
+// Returns a message describing the first problem, or null when the rubric can be saved
+export function validateRubric(rubric: ScoringRubric): string | null {
+  if (rubric.dimensions.length === 0) return "Add at least one scoring dimension";
+
+  const keys = new Set<string>();
+  for (const dimension of rubric.dimensions) {
+    if (!dimension.label.trim()) return "Every dimension needs a name";
+    if (!dimension.key) return `"${dimension.label}" needs a name with letters or numbers`;
+    if (keys.has(dimension.key)) return `Two dimensions are both named "${dimension.label}"`;
+    if (!Number.isInteger(dimension.weight) || dimension.weight <= 0) {
+      return `"${dimension.label}" needs a whole-number weight above zero`;
+    }
+    keys.add(dimension.key);
+  }
+
+  const total = rubric.dimensions.reduce((sum, dimension) => sum + dimension.weight, 0);
+  if (total !== RUBRIC_TOTAL_WEIGHT) return `Weights add up to ${total}; they must total ${RUBRIC_TOTAL_WEIGHT}`;
+
+  return null;
+}
+
+export function parseKnockouts(value: unknown): KnockoutResult[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) =>
+    isRecord(item) && typeof item.requirement === "string" && typeof item.met === "boolean"
+      ? [{ requirement: item.requirement, met: item.met, evidence: typeof item.evidence === "string" ? item.evidence : null }]
+      : []
+  );
+}
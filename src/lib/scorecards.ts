@@ -0,0 +1,49 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type Recommendation = "strong_no_hire" | "no_hire" | "hire" | "strong_hire";
+
+export const RECOMMENDATIONS: { value: Recommendation; label: string; color: string }[] = [
+  { value: "strong_no_hire", label: "Strong No Hire", color: "bg-destructive/20 text-destructive border-destructive/30" },
+  { value: "no_hire", label: "No Hire", color: "bg-orange-500/20 text-orange-500 border-orange-500/30" },
+  { value: "hire", label: "Hire", color: "bg-primary/20 text-primary border-primary/30" },
+  { value: "strong_hire", label: "Strong Hire", color: "bg-emerald-500/20 text-emerald-500 border-emerald-500/30" },
+];
+
+export const RATING_SCALE = [1, 2, 3, 4, 5] as const;
+
+export const RATING_LABELS: Record<number, string> = {
+  1: "Poor",
+  2: "Below bar",
+  3: "Meets bar",
+  4: "Above bar",
+  5: "Exceptional",
+};
+
+export interface Competency {
+  id: string;
+  name: string;
+  description: string | null;
+  ai_breakdown_key: string | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+// Ratings are stored as { "<competency id>": 1..5 }; anything else is dropped
+export function parseRatings(value: Json | null | undefined): Record<string, number> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const ratings: Record<string, number> = {};
+  for (const [id, rating] of Object.entries(value)) {
+    if (typeof rating === "number" && rating >= 1 && rating <= 5) ratings[id] = rating;
+  }
+  return ratings;
+}
+
+// Categories of the AI resume score_breakdown a competency can be compared against
+export const AI_BREAKDOWN_CATEGORIES = [
+  { key: "technical_skills", label: "Technical Skills" },
+  { key: "experience_quality", label: "Experience Quality" },
+  { key: "education_certifications", label: "Education & Certs" },
+  { key: "communication_presentation", label: "Communication" },
+  { key: "cultural_fit", label: "Cultural Fit" },
+  { key: "job_match", label: "Job Match" },
+] as const;
@@ -0,0 +1,497 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { motion } from "framer-motion";
+import {
+  ClipboardCheck,
+  Plus,
+  Edit,
+  Trash2,
+  Search,
+  Loader2,
+  Save,
+  X,
+  CheckCircle,
+} from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface AptitudeQuestion {
+  id: string;
+  question_text: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  correct_option: string;
+  category: string;
+  difficulty: string;
+  is_active: boolean;
+  created_at: string;
+}
+
+const categories = [
+  { value: "general", label: "General" },
+  { value: "logical", label: "Logical Reasoning" },
+  { value: "quantitative", label: "Quantitative" },
+  { value: "verbal", label: "Verbal" },
+  { value: "technical", label: "Technical" },
+];
+
+const difficulties = [
+  { value: "easy", label: "Easy", color: "bg-green-500/10 text-green-600 border-green-500/20" },
+  { value: "medium", label: "Medium", color: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  { value: "hard", label: "Hard", color: "bg-red-500/10 text-red-600 border-red-500/20" },
+];
+
+const OPTIONS = ["A", "B", "C", "D"] as const;
+
+const emptyForm = {
+  question_text: "",
+  option_a: "",
+  option_b: "",
+  option_c: "",
+  option_d: "",
+  correct_option: "A",
+  category: "general",
+  difficulty: "medium",
+  is_active: true,
+};
+
+const AptitudeQuestions = () => {
+  const { loading: authLoading } = useAuth(true);
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<AptitudeQuestion | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: questions, isLoading } = useQuery({
+    queryKey: ["aptitude-questions", categoryFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("aptitude_questions")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (categoryFilter !== "all") {
+        query = query.eq("category", categoryFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as AptitudeQuestion[];
+    },
+    enabled: !authLoading,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData & { id?: string }) => {
+      const { id, ...payload } = data;
+      if (id) {
+        const { error } = await supabase.from("aptitude_questions").update(payload).eq("id", id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("aptitude_questions").insert(payload);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["aptitude-questions"] });
+      toast.success(editingQuestion ? "Question updated" : "Question added");
+      setIsDialogOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save question");
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("aptitude_questions").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["aptitude-questions"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update question");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("aptitude_questions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["aptitude-questions"] });
+      toast.success("Question deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete question");
+    },
+  });
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingQuestion(null);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (question: AptitudeQuestion) => {
+    setEditingQuestion(question);
+    setFormData({
+      question_text: question.question_text,
+      option_a: question.option_a,
+      option_b: question.option_b,
+      option_c: question.option_c,
+      option_d: question.option_d,
+      correct_option: question.correct_option,
+      category: question.category,
+      difficulty: question.difficulty,
+      is_active: question.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      ...formData,
+      id: editingQuestion?.id,
+    });
+  };
+
+  const filteredQuestions = questions?.filter((question) =>
+    question.question_text.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const activeCount = questions?.filter((q) => q.is_active).length || 0;
+
+  const getCategoryLabel = (value: string) => categories.find((c) => c.value === value)?.label || value;
+  const getDifficulty = (value: string) => difficulties.find((d) => d.value === value) || difficulties[1];
+  const getOptionText = (question: AptitudeQuestion | typeof formData, option: string) =>
+    question[`option_${option.toLowerCase()}` as "option_a"];
+
+  if (authLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex h-[50vh] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+                <ClipboardCheck className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-display font-bold text-foreground tracking-tight">
+                  Aptitude Tests
+                </h1>
+                <p className="text-muted-foreground text-sm">
+                  {activeCount} active question{activeCount === 1 ? "" : "s"} in the bank · each test draws a random set
+                </p>
+              </div>
+            </div>
+          </div>
+          <Button onClick={openCreateDialog}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Question
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search questions..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue placeholder="Filter by category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.value} value={category.value}>
+                  {category.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Questions List */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : filteredQuestions?.length === 0 ? (
+          <Card className="bg-card border-border">
+            <CardContent className="py-12 text-center">
+              <ClipboardCheck className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">
+                No questions found
+              </h3>
+              <p className="text-muted-foreground mb-4">
+                {searchQuery || categoryFilter !== "all"
+                  ? "Try adjusting your filters"
+                  : "Add questions to the bank before sending aptitude tests"}
+              </p>
+              <Button onClick={openCreateDialog}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Question
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {filteredQuestions?.map((question, index) => {
+              const difficulty = getDifficulty(question.difficulty);
+              return (
+                <motion.div
+                  key={question.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.03 }}
+                >
+                  <Card className={cn("bg-card border-border hover:border-primary/30 transition-colors", !question.is_active && "opacity-60")}>
+                    <CardContent className="p-6">
+                      <div className="flex items-start justify-between gap-4 mb-3">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant="secondary">{getCategoryLabel(question.category)}</Badge>
+                          <Badge variant="secondary" className={difficulty.color}>
+                            {difficulty.label}
+                          </Badge>
+                          {!question.is_active && (
+                            <Badge variant="outline">Inactive</Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            checked={question.is_active}
+                            onCheckedChange={(checked) => toggleActiveMutation.mutate({ id: question.id, is_active: checked })}
+                            title={question.is_active ? "Deactivate" : "Activate"}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openEditDialog(question)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => deleteMutation.mutate(question.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      <p className="font-medium text-foreground mb-3">{question.question_text}</p>
+                      <div className="grid sm:grid-cols-2 gap-2">
+                        {OPTIONS.map((option) => (
+                          <div
+                            key={option}
+                            className={cn(
+                              "flex items-center gap-2 px-3 py-2 rounded-lg border text-sm",
+                              question.correct_option === option
+                                ? "border-green-500/30 bg-green-500/10 text-green-700"
+                                : "border-border text-muted-foreground"
+                            )}
+                          >
+                            <span className="font-semibold">{option}.</span>
+                            <span className="flex-1">{getOptionText(question, option)}</span>
+                            {question.correct_option === option && <CheckCircle className="w-4 h-4" />}
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingQuestion ? "Edit Question" : "New Question"}
+            </DialogTitle>
+            <DialogDescription>
+              Multiple choice with four options and one correct answer
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="question_text">Question</Label>
+              <Textarea
+                id="question_text"
+                value={formData.question_text}
+                onChange={(e) => setFormData({ ...formData, question_text: e.target.value })}
+                rows={3}
+                required
+              />
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              {OPTIONS.map((option) => {
+                const key = `option_${option.toLowerCase()}` as "option_a";
+                return (
+                  <div key={option} className="space-y-2">
+                    <Label htmlFor={key}>Option {option}</Label>
+                    <Input
+                      id={key}
+                      value={formData[key]}
+                      onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                      required
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Correct Answer</Label>
+                <Select
+                  value={formData.correct_option}
+                  onValueChange={(value) => setFormData({ ...formData, correct_option: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPTIONS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        Option {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => setFormData({ ...formData, category: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Difficulty</Label>
+                <Select
+                  value={formData.difficulty}
+                  onValueChange={(value) => setFormData({ ...formData, difficulty: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {difficulties.map((difficulty) => (
+                      <SelectItem key={difficulty.value} value={difficulty.value}>
+                        {difficulty.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="is_active">Include in new tests</Label>
+            </div>
+            <div className="flex justify-end gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                {editingQuestion ? "Update" : "Add"} Question
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default AptitudeQuestions;
@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Sparkles, Clock, CheckCircle, Loader2, AlertCircle, ChevronLeft, ChevronRight, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { invokeFunction } from "@/lib/functions";
+import { cn } from "@/lib/utils";
+
+interface TestQuestion {
+  id: string;
+  question_text: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  category: string;
+}
+
+interface TestSession {
+  candidateName: string;
+  jobTitle: string;
+  timeLimitMinutes: number;
+  deadline: string;
+  questions: TestQuestion[];
+}
+
+const OPTIONS = ["A", "B", "C", "D"] as const;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const AptitudeTest = () => {
+  const { token } = useParams<{ token: string }>();
+  const storageKey = `aptitude_answers_${token}`;
+  const [session, setSession] = useState<TestSession | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [started, setStarted] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) || "{}");
+    } catch {
+      return {};
+    }
+  });
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const submittedRef = useRef(false);
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(answers));
+  }, [answers, storageKey]);
+
+  const startTest = async () => {
+    setStarting(true);
+    setLoadError(null);
+    try {
+      const data = await invokeFunction<TestSession>("aptitude-test", { action: "start", token });
+      setSession(data);
+      setStarted(true);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load test");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const submitTest = useCallback(async () => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+    setSubmitting(true);
+    try {
+      await invokeFunction("aptitude-test", { action: "submit", token, answers });
+      localStorage.removeItem(storageKey);
+      setSubmitted(true);
+    } catch (error) {
+      submittedRef.current = false;
+      setLoadError(error instanceof Error ? error.message : "Failed to submit test");
+    } finally {
+      setSubmitting(false);
+    }
+  }, [answers, token, storageKey]);
+
+  // Countdown; auto-submit when time runs out
+  useEffect(() => {
+    if (!session || submitted) return;
+    const deadline = new Date(session.deadline).getTime();
+    const tick = () => {
+      const remaining = deadline - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) submitTest();
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [session, submitted, submitTest]);
+
+  const header = (
+    <div className="flex items-center justify-center space-x-2 mb-8">
+      <div className="w-8 h-8 bg-gradient-to-tr from-primary to-accent rounded-lg flex items-center justify-center">
+        <Sparkles className="w-5 h-5 text-primary-foreground" />
+      </div>
+      <span className="font-display font-bold text-lg tracking-tight text-foreground">
+        Cortex<span className="text-primary">HR</span>
+      </span>
+    </div>
+  );
+
+  if (submitted) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center space-y-6"
+        >
+          <div className="w-20 h-20 mx-auto bg-emerald-500/20 rounded-full flex items-center justify-center">
+            <CheckCircle className="w-10 h-10 text-emerald-500" />
+          </div>
+          <h1 className="text-3xl font-display font-bold text-foreground">Test Submitted</h1>
+          <p className="text-muted-foreground max-w-md">
+            Thank you for completing the aptitude test. The hiring team will be in touch about next steps.
+          </p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (!started) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Card className="w-full max-w-lg">
+          <CardHeader>
+            {header}
+            <CardTitle className="text-center">Aptitude Test</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ul className="text-sm text-muted-foreground space-y-2 list-disc list-inside">
+              <li>The test is timed and the clock starts as soon as you begin.</li>
+              <li>Questions are multiple choice with a single correct answer.</li>
+              <li>Your answers are submitted automatically when time runs out.</li>
+              <li>You can only submit once.</li>
+            </ul>
+            {loadError && (
+              <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 rounded-lg p-3">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {loadError}
+              </div>
+            )}
+            <Button className="w-full" size="lg" onClick={startTest} disabled={starting}>
+              {starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Clock className="w-4 h-4 mr-2" />}
+              Begin Test
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const question = session.questions[currentIndex];
+  const answeredCount = session.questions.filter((q) => answers[q.id]).length;
+  const lowTime = remainingMs < 60000;
+
+  return (
+    <div className="min-h-screen bg-background p-4 sm:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {header}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-display font-bold text-foreground">{session.jobTitle}</h1>
+            <p className="text-sm text-muted-foreground">{session.candidateName}</p>
+          </div>
+          <div
+            className={cn(
+              "flex items-center gap-2 px-4 py-2 rounded-lg border font-mono text-lg",
+              lowTime ? "border-destructive/50 text-destructive bg-destructive/10" : "border-border text-foreground"
+            )}
+          >
+            <Clock className="w-5 h-5" />
+            {formatRemaining(remainingMs)}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Question {currentIndex + 1} of {session.questions.length}</span>
+            <span>{answeredCount} answered</span>
+          </div>
+          <Progress value={(answeredCount / session.questions.length) * 100} />
+        </div>
+
+        {loadError && (
+          <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 rounded-lg p-3">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {loadError}
+          </div>
+        )}
+
+        {question && (
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <p className="text-lg font-medium text-foreground">{question.question_text}</p>
+              <RadioGroup
+                value={answers[question.id] || ""}
+                onValueChange={(value) => setAnswers((prev) => ({ ...prev, [question.id]: value }))}
+                className="space-y-3"
+              >
+                {OPTIONS.map((option) => (
+                  <Label
+                    key={option}
+                    htmlFor={`${question.id}-${option}`}
+                    className={cn(
+                      "flex items-center gap-3 p-4 rounded-lg border cursor-pointer transition-colors",
+                      answers[question.id] === option ? "border-primary bg-primary/5" : "border-border hover:bg-secondary/50"
+                    )}
+                  >
+                    <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                    <span className="font-semibold">{option}.</span>
+                    <span className="font-normal">{question[`option_${option.toLowerCase()}` as "option_a"]}</span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setCurrentIndex((i) => i - 1)}
+            disabled={currentIndex === 0}
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+          {currentIndex < session.questions.length - 1 ? (
+            <Button variant="outline" onClick={() => setCurrentIndex((i) => i + 1)}>
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          ) : (
+            <Button onClick={submitTest} disabled={submitting}>
+              {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Submit Test
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 justify-center">
+          {session.questions.map((q, index) => (
+            <button
+              key={q.id}
+              onClick={() => setCurrentIndex(index)}
+              className={cn(
+                "w-9 h-9 rounded-lg text-sm font-medium border transition-colors",
+                index === currentIndex
+                  ? "border-primary text-primary"
+                  : answers[q.id]
+                    ? "bg-primary/10 border-primary/30 text-foreground"
+                    : "border-border text-muted-foreground"
+              )}
+            >
+              {index + 1}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AptitudeTest;
@@ -30,6 +30,7 @@ const AuthCallback = () => {
           .from('user_roles')
           .select('role')
           .eq('user_id', session.user.id)
+          .limit(1)
           .maybeSingle();
 
         if (roleError) {
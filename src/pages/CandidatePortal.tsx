@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/lib/functions";
 
 interface Job {
   id: string;
@@ -66,91 +67,26 @@ const CandidatePortal = () => {
     setLoading(true);
 
     try {
-      // Create or get candidate
-      let candidateId: string;
-      const { data: existingCandidate } = await supabase
-        .from("candidates")
-        .select("id")
-        .eq("email", formData.email)
-        .single();
-
-      if (existingCandidate) {
-        candidateId = existingCandidate.id;
-      } else {
-        const { data: newCandidate, error: candidateError } = await supabase
-          .from("candidates")
-          .insert({
-            full_name: formData.fullName,
-            email: formData.email,
-            phone: formData.phone,
-          })
-          .select()
-          .single();
-
-        if (candidateError) throw candidateError;
-        candidateId = newCandidate.id;
-      }
-
-      // Upload resume
+      // Upload first; the portal function files the application and emails the status link
       const fileExt = resumeFile.name.split(".").pop();
-      const fileName = `${candidateId}/${Date.now()}.${fileExt}`;
-      
+      const fileName = `${crypto.randomUUID()}.${fileExt}`;
+
       const { error: uploadError } = await supabase.storage
         .from("resumes")
         .upload(fileName, resumeFile);
 
       if (uploadError) {
         console.error("Upload error:", uploadError);
+        throw new Error("Failed to upload resume");
       }
 
-      // Store the file path (not URL) so backend can download from storage
-      await supabase
-        .from("candidates")
-        .update({ resume_url: fileName }) // Store path, not public URL
-        .eq("id", candidateId);
-
-      // Create application
-      const { data: application, error: appError } = await supabase
-        .from("applications")
-        .insert({
-          candidate_id: candidateId,
-          job_id: selectedJob.id,
-          status: "applied",
-        })
-        .select()
-        .single();
-
-      if (appError) throw appError;
-
-      // Read resume file as text for AI parsing (for PDFs, we'd need a different approach)
-      const resumeText = await resumeFile.text();
-
-      // Trigger AI parsing
-      await supabase.functions.invoke("parse-resume", {
-        body: {
-          resumeText,
-          applicationId: application.id,
-          jobRequirements: selectedJob.requirements,
-        },
-      });
-
-      // Send confirmation email
-      await supabase.functions.invoke("send-email", {
-        body: {
-          to: formData.email,
-          subject: `Application Received: ${selectedJob.title}`,
-          html: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <h2 style="color: #3b82f6;">Thank You for Applying!</h2>
-              <p>Dear ${formData.fullName},</p>
-              <p>We have received your application for the <strong>${selectedJob.title}</strong> position.</p>
-              <p>Our team will review your resume and get back to you soon.</p>
-              <p>Best regards,<br/>The CortexHR Team</p>
-            </div>
-          `,
-          emailType: "application_received",
-          candidateId,
-        },
+      await invokeFunction("candidate-portal", {
+        action: "apply",
+        fullName: formData.fullName,
+        email: formData.email,
+        phone: formData.phone,
+        jobId: selectedJob.id,
+        resumePath: fileName,
       });
 
       setSubmitted(true);
@@ -187,7 +123,7 @@ const CandidatePortal = () => {
           </h1>
           <p className="text-muted-foreground max-w-md">
             Thank you for applying. We've received your application and will review it shortly.
-            You'll receive an email confirmation soon.
+            You'll receive an email confirmation soon with a link to track your application.
           </p>
           <Button onClick={() => { setSubmitted(false); setSelectedJob(null); }}>
             Apply for Another Position
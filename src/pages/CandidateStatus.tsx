@@ -0,0 +1,503 @@
+import { useRef } from "react";
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Sparkles,
+  Loader2,
+  AlertCircle,
+  Briefcase,
+  MapPin,
+  Calendar,
+  Clock,
+  Video,
+  ExternalLink,
+  FileText,
+  Upload,
+  Gift,
+  Check,
+  Download,
+  ShieldCheck,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/lib/functions";
+import { downloadJson } from "@/lib/privacy";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface PortalInterview {
+  id: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  interview_type: string;
+  meeting_url: string | null;
+}
+
+interface PortalOffer {
+  id: string;
+  position_title: string;
+  salary_amount: number;
+  salary_currency: string;
+  salary_frequency: string;
+  proposed_start_date: string;
+  offer_expiry_date: string | null;
+  sent_at: string | null;
+}
+
+interface PortalApplication {
+  id: string;
+  status: string;
+  appliedAt: string;
+  updatedAt: string;
+  withdrawnAt: string | null;
+  job: { title: string; department: string; location: string };
+  interviews: PortalInterview[];
+  offers: PortalOffer[];
+}
+
+interface PortalData {
+  candidate: {
+    fullName: string;
+    email: string;
+    hasResume: boolean;
+    resumeUpdatedAt: string;
+    erasureRequestedAt: string | null;
+  };
+  resumeFolder: string;
+  applications: PortalApplication[];
+}
+
+// Candidate-facing wording for each stage of the pipeline
+const STAGES = [
+  { status: "applied", label: "Received" },
+  { status: "screening", label: "In Review" },
+  { status: "interview", label: "Interviewing" },
+  { status: "offer", label: "Offer" },
+  { status: "hired", label: "Hired" },
+];
+
+const CLOSED_STATUSES: Record<string, { label: string; color: string }> = {
+  rejected: { label: "Not Selected", color: "bg-muted text-muted-foreground border-border" },
+  withdrawn: { label: "Withdrawn", color: "bg-muted text-muted-foreground border-border" },
+  hired: { label: "Hired", color: "bg-emerald-500/10 text-emerald-600 border-emerald-500/20" },
+};
+
+const CandidateStatus = () => {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["candidate-portal", token],
+    queryFn: () => invokeFunction<PortalData>("candidate-portal", { action: "get", token }),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const withdraw = useMutation({
+    mutationFn: (applicationId: string) =>
+      invokeFunction("candidate-portal", { action: "withdraw", token, applicationId }),
+    onSuccess: () => {
+      toast.success("Your application has been withdrawn");
+      queryClient.invalidateQueries({ queryKey: ["candidate-portal", token] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to withdraw application");
+    },
+  });
+
+  const uploadResume = useMutation({
+    mutationFn: async (file: File) => {
+      if (!data) throw new Error("Portal not loaded");
+
+      const fileExt = file.name.split(".").pop();
+      const resumePath = `${data.resumeFolder}/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage.from("resumes").upload(resumePath, file);
+      if (uploadError) throw uploadError;
+
+      return invokeFunction("candidate-portal", { action: "update-resume", token, resumePath });
+    },
+    onSuccess: () => {
+      toast.success("Resume updated");
+      queryClient.invalidateQueries({ queryKey: ["candidate-portal", token] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to upload resume");
+    },
+  });
+
+  const exportData = useMutation({
+    mutationFn: () => invokeFunction("candidate-portal", { action: "export-data", token }),
+    onSuccess: (exported) => {
+      downloadJson(`my-application-data-${format(new Date(), "yyyy-MM-dd")}.json`, exported);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to export your data");
+    },
+  });
+
+  const requestErasure = useMutation({
+    mutationFn: () => invokeFunction("candidate-portal", { action: "request-erasure", token }),
+    onSuccess: () => {
+      toast.success("Your erasure request has been sent");
+      queryClient.invalidateQueries({ queryKey: ["candidate-portal", token] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to request erasure");
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error("Resume must be under 10MB");
+      return;
+    }
+    uploadResume.mutate(file);
+    e.target.value = "";
+  };
+
+  const header = (
+    <div className="flex items-center justify-center space-x-2 mb-8">
+      <div className="w-8 h-8 bg-gradient-to-tr from-primary to-accent rounded-lg flex items-center justify-center">
+        <Sparkles className="w-5 h-5 text-primary-foreground" />
+      </div>
+      <span className="font-display font-bold text-lg tracking-tight text-foreground">
+        Cortex<span className="text-primary">HR</span>
+      </span>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center space-y-4">
+            {header}
+            <AlertCircle className="w-10 h-10 mx-auto text-destructive" />
+            <p className="text-muted-foreground">
+              {error instanceof Error ? error.message : "This status link is not valid."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 sm:p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-3xl mx-auto space-y-6"
+      >
+        {header}
+        <div>
+          <h1 className="text-3xl font-display font-bold text-foreground">Hi {data.candidate.fullName.split(" ")[0]},</h1>
+          <p className="text-muted-foreground mt-1">Here is where your applications stand.</p>
+        </div>
+
+        {/* Resume */}
+        <Card>
+          <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <FileText className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium text-foreground">Resume</p>
+                <p className="text-sm text-muted-foreground">
+                  {data.candidate.hasResume
+                    ? `On file · last updated ${format(new Date(data.candidate.resumeUpdatedAt), "MMM d, yyyy")}`
+                    : "No resume on file"}
+                </p>
+              </div>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,.doc,.docx"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadResume.isPending}
+            >
+              {uploadResume.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Upload New Resume
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Applications */}
+        {data.applications.map((application) => {
+          const closed = CLOSED_STATUSES[application.status];
+          const stageIndex = STAGES.findIndex((s) => s.status === application.status);
+          const canWithdraw = !closed;
+
+          return (
+            <Card key={application.id}>
+              <CardHeader className="pb-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-xl">{application.job.title}</CardTitle>
+                    <div className="flex flex-wrap gap-3 text-sm text-muted-foreground mt-1">
+                      <span className="flex items-center gap-1">
+                        <Briefcase className="w-4 h-4" />
+                        {application.job.department}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MapPin className="w-4 h-4" />
+                        {application.job.location}
+                      </span>
+                      <span>Applied {format(new Date(application.appliedAt), "MMM d, yyyy")}</span>
+                    </div>
+                  </div>
+                  {closed && (
+                    <Badge variant="outline" className={closed.color}>
+                      {closed.label}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Stage tracker */}
+                {!closed || application.status === "hired" ? (
+                  <div className="flex items-center">
+                    {STAGES.map((stage, index) => {
+                      const done = index < stageIndex;
+                      const current = index === stageIndex;
+                      return (
+                        <div key={stage.status} className="flex-1 flex flex-col items-center relative">
+                          {index > 0 && (
+                            <div
+                              className={cn(
+                                "absolute top-3 right-1/2 w-full h-0.5",
+                                index <= stageIndex ? "bg-primary" : "bg-border"
+                              )}
+                            />
+                          )}
+                          <div
+                            className={cn(
+                              "relative z-10 w-6 h-6 rounded-full flex items-center justify-center border-2",
+                              done && "bg-primary border-primary",
+                              current && "bg-background border-primary",
+                              !done && !current && "bg-background border-border"
+                            )}
+                          >
+                            {done && <Check className="w-3 h-3 text-primary-foreground" />}
+                            {current && <span className="w-2 h-2 rounded-full bg-primary" />}
+                          </div>
+                          <span
+                            className={cn(
+                              "text-xs mt-2",
+                              current ? "text-foreground font-medium" : "text-muted-foreground"
+                            )}
+                          >
+                            {stage.label}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {application.status === "withdrawn"
+                      ? `You withdrew this application${application.withdrawnAt ? ` on ${format(new Date(application.withdrawnAt), "MMM d, yyyy")}` : ""}.`
+                      : "Thank you for your interest. We have decided not to move forward with this application."}
+                  </p>
+                )}
+
+                {/* Upcoming interviews */}
+                {application.interviews.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-semibold text-foreground">Upcoming Interviews</p>
+                    {application.interviews.map((interview) => (
+                      <div
+                        key={interview.id}
+                        className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border border-border bg-secondary/30"
+                      >
+                        <div className="text-sm">
+                          <p className="font-medium text-foreground">{interview.interview_type} Interview</p>
+                          <p className="text-muted-foreground flex items-center gap-3">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="w-3.5 h-3.5" />
+                              {format(new Date(interview.scheduled_at), "EEE, MMM d, yyyy")}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <Clock className="w-3.5 h-3.5" />
+                              {format(new Date(interview.scheduled_at), "h:mm a")} · {interview.duration_minutes} min
+                            </span>
+                          </p>
+                        </div>
+                        {interview.meeting_url && (
+                          <Button size="sm" onClick={() => window.open(interview.meeting_url!, "_blank")}>
+                            <Video className="w-4 h-4 mr-2" />
+                            Join
+                            <ExternalLink className="w-3 h-3 ml-2" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Pending offers */}
+                {application.offers.map((offer) => (
+                  <div key={offer.id} className="p-4 rounded-lg border border-emerald-500/30 bg-emerald-500/5 space-y-1">
+                    <p className="text-sm font-semibold text-foreground flex items-center gap-2">
+                      <Gift className="w-4 h-4 text-emerald-500" />
+                      Offer: {offer.position_title}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {offer.salary_currency} {Number(offer.salary_amount).toLocaleString()} / {offer.salary_frequency} · Start{" "}
+                      {format(new Date(offer.proposed_start_date), "MMM d, yyyy")}
+                    </p>
+                    {offer.offer_expiry_date && (
+                      <p className="text-xs text-muted-foreground">
+                        Respond by {format(new Date(offer.offer_expiry_date), "MMM d, yyyy")}. The full letter was sent to {data.candidate.email}.
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                {canWithdraw && (
+                  <div className="flex justify-end">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                          Withdraw Application
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Withdraw your application?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            You will be removed from consideration for {application.job.title} and any scheduled
+                            interviews will be cancelled. This cannot be undone from this page.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep Application</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => withdraw.mutate(application.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Withdraw
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {data.applications.length === 0 && (
+          <div className="text-center py-12 text-muted-foreground bg-secondary/20 rounded-xl border border-dashed border-border">
+            You have no applications yet
+          </div>
+        )}
+
+        {/* Your data */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <ShieldCheck className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium text-foreground">Your Data</p>
+                <p className="text-sm text-muted-foreground">
+                  Download everything we hold about you, or ask us to erase it
+                </p>
+              </div>
+            </div>
+            {data.candidate.erasureRequestedAt && (
+              <p className="text-sm text-muted-foreground bg-secondary/30 rounded-lg p-3">
+                You asked us to erase your data on{" "}
+                {format(new Date(data.candidate.erasureRequestedAt), "MMM d, yyyy")}. Our team will complete the
+                request and this page will stop working once it is done.
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => exportData.mutate()} disabled={exportData.isPending}>
+                {exportData.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                Download My Data
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="text-destructive hover:text-destructive"
+                    disabled={!!data.candidate.erasureRequestedAt || requestErasure.isPending}
+                  >
+                    Erase My Data
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Erase your data?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      We will remove your personal details, resume and correspondence from all of your
+                      applications. Any open applications will no longer be considered, and this link will stop
+                      working. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep My Data</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => requestErasure.mutate()}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Request Erasure
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default CandidateStatus;
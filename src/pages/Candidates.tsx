@@ -1,11 +1,13 @@
 import { useState } from 'react';
-import { Search, Filter, MoreHorizontal, Mail, Phone, FileText, Sparkles, Loader2, Brain, Copy, Check, Github } from 'lucide-react';
+import { Search, Filter, MoreHorizontal, Mail, Phone, FileText, Sparkles, Loader2, Brain, Copy, Check, Github, ClipboardCheck, LayoutList, Columns3, Video, Link2, AlertTriangle, Download, ShieldOff, Users, XCircle, Clock, MailX } from 'lucide-react';
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useProcessApplication } from "@/hooks/useProcessApplication";
+import { useSendAptitudeTest } from "@/hooks/useSendAptitudeTest";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 import {
@@ -19,6 +21,14 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -38,6 +48,20 @@ import {
 import AIInsightsDialog from "@/components/AIInsightsDialog";
 import ResumePreviewDialog from "@/components/ResumePreviewDialog";
 import PortfolioAnalysisDialog from "@/components/PortfolioAnalysisDialog";
+import { PipelineBoard } from "@/components/PipelineBoard";
+import { ScheduleInterviewDialog } from "@/components/ScheduleInterviewDialog";
+import { OfferLetterDialog } from "@/components/OfferLetterDialog";
+import { DuplicateCandidatesDialog } from "@/components/DuplicateCandidatesDialog";
+import { RejectApplicationsDialog, type RejectionTarget } from "@/components/RejectApplicationsDialog";
+import { invokeFunction } from "@/lib/functions";
+import { downloadJson } from "@/lib/privacy";
+import {
+  changeApplicationStatus,
+  needsStageOverride,
+  parseWipLimits,
+  type ApplicationStatus,
+  type WipLimits,
+} from "@/lib/pipeline";
 import type { Json } from "@/integrations/supabase/types";
 
 interface ParsedResume {
@@ -83,18 +107,29 @@ interface AISkillsData {
   current_company?: string;
   education_level?: string;
   interview_questions?: string[];
+  // Set when the job's rubric has must-haves the resume does not show
+  knocked_out?: boolean;
 }
 
 interface Application {
   id: string;
   candidateId: string;
+  candidateAccessToken: string | null;
   candidateName: string;
   email: string;
   phone: string | null;
+  jobId: string;
   jobTitle: string;
+  jobDepartment: string;
+  jobLocation: string;
+  jobWipLimits: WipLimits;
   aiScore: number | null;
   aiSummary: string | null;
   aiSkills: AISkillsData | null;
+  aiAnalysisStatus: string;
+  aiAnalysisError: string | null;
+  aptitudeScore: number | null;
+  aptitudeCompleted: boolean;
   status: string;
   appliedDate: string;
   hasResume: boolean;
@@ -113,6 +148,7 @@ const statusColors: Record<string, string> = {
   offer: 'bg-emerald-500/20 text-emerald-500 border border-emerald-500/30',
   hired: 'bg-green-600/20 text-green-600 border border-green-600/30',
   rejected: 'bg-destructive/20 text-destructive border border-destructive/30',
+  withdrawn: 'bg-muted text-muted-foreground/70 border border-border',
 };
 
 const APPLICATION_STATUSES = [
@@ -123,19 +159,43 @@ const APPLICATION_STATUSES = [
   { value: 'hired', label: 'Hired' },
 ] as const;
 
+// Weight of the AI resume score vs. the aptitude test in the combined ranking
+const RANKING_WEIGHTS = { ai: 0.7, aptitude: 0.3 };
+
+type SortOption = 'newest' | 'ranking' | 'ai_score' | 'aptitude';
+
+type ViewMode = 'table' | 'board';
+
+const getRankingScore = (app: Pick<Application, 'aiScore' | 'aptitudeScore'>): number | null => {
+  if (app.aiScore !== null && app.aptitudeScore !== null) {
+    return Math.round(app.aiScore * RANKING_WEIGHTS.ai + app.aptitudeScore * RANKING_WEIGHTS.aptitude);
+  }
+  return app.aiScore ?? app.aptitudeScore;
+};
+
 const Candidates = () => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState<SortOption>('newest');
+  const [viewMode, setViewMode] = useState<ViewMode>('table');
+  const [jobFilter, setJobFilter] = useState<string>('all');
+  const [scheduleTarget, setScheduleTarget] = useState<Application | null>(null);
+  const [offerTarget, setOfferTarget] = useState<Application | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
-  const [candidateToReject, setCandidateToReject] = useState<{ id: string; name: string } | null>(null);
+  const [rejectTargets, setRejectTargets] = useState<RejectionTarget[]>([]);
+  const [candidateToErase, setCandidateToErase] = useState<{ id: string; name: string } | null>(null);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  // A status change the stage rules blocked, waiting for an HR manager's reason
+  const [overrideRequest, setOverrideRequest] = useState<{ applicationId: string; status: ApplicationStatus; message: string } | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
   const [insightsDialogOpen, setInsightsDialogOpen] = useState(false);
   const [selectedInsights, setSelectedInsights] = useState<Application | null>(null);
   const [resumeDialogOpen, setResumeDialogOpen] = useState(false);
   const [selectedResume, setSelectedResume] = useState<Application | null>(null);
   const [portfolioDialogOpen, setPortfolioDialogOpen] = useState(false);
   const [selectedPortfolio, setSelectedPortfolio] = useState<Application | null>(null);
-  const { loading: authLoading } = useAuth(true);
+  const { loading: authLoading, user, can } = useAuth(true);
   const processApplication = useProcessApplication();
+  const sendAptitudeTest = useSendAptitudeTest();
   const queryClient = useQueryClient();
 
   const { data: applications, isLoading } = useQuery({
@@ -148,10 +208,14 @@ const Candidates = () => {
           ai_score,
           ai_summary,
           ai_skills,
+          ai_analysis_status,
+          ai_analysis_error,
+          aptitude_score,
+          aptitude_completed,
           status,
           created_at,
-          candidates!inner(id, full_name, email, phone, resume_text, resume_url, parsed_resume, github_url, portfolio_url, portfolio_analysis),
-          jobs!inner(title)
+          candidates!inner(id, access_token, full_name, email, phone, resume_text, resume_url, parsed_resume, github_url, portfolio_url, portfolio_analysis),
+          jobs!inner(id, title, department, location, wip_limits)
         `)
         .order('created_at', { ascending: false });
 
@@ -190,13 +254,22 @@ const Candidates = () => {
       return (data || []).map((app: any) => ({
         id: app.id,
         candidateId: app.candidates.id,
+        candidateAccessToken: app.candidates.access_token,
         candidateName: app.candidates.full_name,
         email: app.candidates.email,
         phone: app.candidates.phone,
+        jobId: app.jobs.id,
         jobTitle: app.jobs.title,
+        jobDepartment: app.jobs.department,
+        jobLocation: app.jobs.location,
+        jobWipLimits: parseWipLimits(app.jobs.wip_limits),
         aiScore: app.ai_score,
         aiSummary: app.ai_summary,
         aiSkills: parseAiSkills(app.ai_skills),
+        aiAnalysisStatus: app.ai_analysis_status,
+        aiAnalysisError: app.ai_analysis_error,
+        aptitudeScore: app.aptitude_score,
+        aptitudeCompleted: !!app.aptitude_completed,
         status: app.status,
         appliedDate: app.created_at,
         hasResume: !!app.candidates.resume_text || !!app.candidates.resume_url,
@@ -211,40 +284,144 @@ const Candidates = () => {
     enabled: !authLoading,
   });
 
-  // Update application status mutation
-  const updateStatus = useMutation({
-    mutationFn: async ({ applicationId, status }: { applicationId: string; status: 'applied' | 'screening' | 'interview' | 'offer' | 'hired' | 'rejected' }) => {
-      const { error } = await supabase
-        .from('applications')
-        .update({ status })
-        .eq('id', applicationId);
+  // Update application status mutation; applied optimistically so board moves feel instant
+  const { data: duplicateCount = 0 } = useQuery({
+    queryKey: ['candidate-duplicates-count'],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('candidate_duplicates')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending');
 
       if (error) throw error;
+      return count ?? 0;
+    },
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ applicationId, status, reason, override }: {
+      applicationId: string;
+      status: ApplicationStatus;
+      reason?: string;
+      override?: boolean;
+    }) => {
+      await changeApplicationStatus(applicationId, status, { reason, override });
       return status;
     },
+    onMutate: async ({ applicationId, status }) => {
+      await queryClient.cancelQueries({ queryKey: ['applications'] });
+      const previous = queryClient.getQueryData<Application[]>(['applications']);
+      queryClient.setQueryData<Application[]>(['applications'], (current) =>
+        current?.map((app) => (app.id === applicationId ? { ...app, status } : app))
+      );
+      return { previous };
+    },
     onSuccess: (status) => {
       const statusLabel = status === 'rejected' ? 'rejected' : `moved to ${status}`;
       toast.success(`Application ${statusLabel}`);
+    },
+    onError: (error: Error, variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['applications'], context.previous);
+      }
+      if (needsStageOverride(error) && !variables.override) {
+        if (can('overrideStageRules')) {
+          setOverrideReason('');
+          setOverrideRequest({ applicationId: variables.applicationId, status: variables.status, message: error.message });
+        } else {
+          toast.error(`${error.message}. Ask an HR manager to make this move.`);
+        }
+        return;
+      }
+      toast.error(`Failed to update status: ${error.message}`);
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['applications'] });
       queryClient.invalidateQueries({ queryKey: ['recent-applications'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['stage-history'] });
+    },
+  });
+
+  const toRejectionTarget = (candidate: Application): RejectionTarget => ({
+    applicationId: candidate.id,
+    candidateName: candidate.candidateName,
+    jobTitle: candidate.jobTitle,
+  });
+
+  const handleRejectClick = (candidate: Application) => {
+    setRejectTargets([toRejectionTarget(candidate)]);
+  };
+
+  // Rejection emails still inside their cool-off, by application
+  const { data: pendingRejections = {} } = useQuery({
+    queryKey: ['scheduled-rejections'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('scheduled_emails')
+        .select('id, application_id, send_at')
+        .eq('email_type', 'rejection')
+        .eq('status', 'pending');
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((email) => [email.application_id, email]));
+    },
+    enabled: !authLoading,
+  });
+
+  const cancelRejectionEmail = useMutation({
+    mutationFn: async (emailId: string) => {
+      const { data, error } = await supabase
+        .from('scheduled_emails')
+        .update({ status: 'cancelled', cancelled_by: user?.id, cancelled_at: new Date().toISOString() })
+        .eq('id', emailId)
+        .eq('status', 'pending')
+        .select('id');
+      if (error) throw error;
+      if (!data?.length) throw new Error('The email has already been sent');
+    },
+    onSuccess: () => {
+      toast.success('Rejection email cancelled');
     },
     onError: (error: Error) => {
-      toast.error(`Failed to update status: ${error.message}`);
+      toast.error(`Could not cancel the email: ${error.message}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-rejections'] });
     },
   });
 
-  const handleRejectClick = (candidateId: string, candidateName: string) => {
-    setCandidateToReject({ id: candidateId, name: candidateName });
-    setRejectDialogOpen(true);
-  };
+  const exportCandidate = useMutation({
+    mutationFn: async ({ candidateId }: { candidateId: string; candidateName: string }) =>
+      invokeFunction('data-privacy', { action: 'export', candidateId }),
+    onSuccess: (data, { candidateName }) => {
+      downloadJson(`${candidateName.replace(/\s+/g, '-').toLowerCase()}-data.json`, data);
+      toast.success('Candidate data exported');
+    },
+    onError: (error: Error) => {
+      toast.error(`Export failed: ${error.message}`);
+    },
+  });
 
-  const confirmReject = () => {
-    if (candidateToReject) {
-      updateStatus.mutate({ applicationId: candidateToReject.id, status: 'rejected' });
+  const eraseCandidate = useMutation({
+    mutationFn: async (candidateId: string) =>
+      invokeFunction('data-privacy', { action: 'erase', candidateId, reason: 'Erased from the candidate list' }),
+    onSuccess: () => {
+      toast.success('Candidate data erased');
+    },
+    onError: (error: Error) => {
+      toast.error(`Erasure failed: ${error.message}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
+      queryClient.invalidateQueries({ queryKey: ['erasure-requests'] });
+    },
+  });
+
+  const confirmErase = () => {
+    if (candidateToErase) {
+      eraseCandidate.mutate(candidateToErase.id);
     }
-    setRejectDialogOpen(false);
-    setCandidateToReject(null);
+    setCandidateToErase(null);
   };
 
   const handleViewInsights = (candidate: Application) => {
@@ -252,6 +429,22 @@ const Candidates = () => {
     setInsightsDialogOpen(true);
   };
 
+  // Board moves into interview/offer hand off to the matching dialog once the card has moved
+  const handleBoardMove = (candidate: Application, status: ApplicationStatus) => {
+    if (status === 'rejected') {
+      handleRejectClick(candidate);
+      return;
+    }
+
+    updateStatus.mutate({ applicationId: candidate.id, status });
+
+    if (status === 'interview') {
+      setScheduleTarget(candidate);
+    } else if (status === 'offer') {
+      setOfferTarget(candidate);
+    }
+  };
+
   // Bulk process mutation
   const bulkProcess = useMutation({
     mutationFn: async (applicationIds: string[]) => {
@@ -311,12 +504,29 @@ const Candidates = () => {
     },
   });
 
+  const jobOptions = Array.from(
+    new Map((applications || []).map(app => [app.jobId, app.jobTitle])).entries()
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
   const filteredCandidates = (applications || []).filter(c => 
-    c.candidateName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    c.jobTitle.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    c.email.toLowerCase().includes(searchQuery.toLowerCase())
+    (jobFilter === 'all' || c.jobId === jobFilter) && (
+      c.candidateName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      c.jobTitle.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      c.email.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
+  const selectedJobWipLimits = jobFilter === 'all'
+    ? null
+    : applications?.find(app => app.jobId === jobFilter)?.jobWipLimits ?? {};
+
+  if (sortBy !== 'newest') {
+    const scoreFor = (c: Application) =>
+      sortBy === 'ranking' ? getRankingScore(c) : sortBy === 'ai_score' ? c.aiScore : c.aptitudeScore;
+    // Unscored candidates sink to the bottom
+    filteredCandidates.sort((a, b) => (scoreFor(b) ?? -1) - (scoreFor(a) ?? -1));
+  }
+
   const formatStatus = (status: string) => {
     return status.charAt(0).toUpperCase() + status.slice(1);
   };
@@ -360,6 +570,10 @@ const Candidates = () => {
     c => selectedIds.has(c.id) && c.hasResume
   ).length;
 
+  const selectedRejectable = filteredCandidates.filter(
+    c => selectedIds.has(c.id) && !['rejected', 'withdrawn', 'hired'].includes(c.status)
+  );
+
   return (
     <DashboardLayout>
       <motion.div 
@@ -389,6 +603,22 @@ const Candidates = () => {
                 AI Process ({selectedWithResume})
               </Button>
             )}
+            {selectedRejectable.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => setRejectTargets(selectedRejectable.map(toRejectionTarget))}
+                className="flex items-center gap-2 text-destructive hover:text-destructive"
+              >
+                <XCircle className="w-4 h-4" />
+                Reject ({selectedRejectable.length})
+              </Button>
+            )}
+            {duplicateCount > 0 && (
+              <Button variant="outline" onClick={() => setDuplicatesOpen(true)} className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Review Duplicates ({duplicateCount})
+              </Button>
+            )}
             <Button>
               Add Candidate
             </Button>
@@ -407,13 +637,70 @@ const Candidates = () => {
               className="w-full pl-10 pr-4 py-2.5 rounded-lg bg-secondary border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all text-foreground placeholder-muted-foreground"
             />
           </div>
-          <Button variant="outline" className="flex items-center gap-2">
-            <Filter className="w-4 h-4" />
-            Filters
-          </Button>
+          <Select value={jobFilter} onValueChange={setJobFilter}>
+            <SelectTrigger className="w-full sm:w-56">
+              <SelectValue placeholder="All jobs" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All jobs</SelectItem>
+              {jobOptions.map(([id, title]) => (
+                <SelectItem key={id} value={id}>{title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
+            <SelectTrigger className="w-full sm:w-52">
+              <Filter className="w-4 h-4 mr-2" />
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="ranking">Overall ranking</SelectItem>
+              <SelectItem value="ai_score">AI score</SelectItem>
+              <SelectItem value="aptitude">Aptitude score</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex rounded-lg border border-border bg-secondary p-1">
+            <button
+              onClick={() => setViewMode('table')}
+              className={`p-1.5 rounded-md transition-colors ${viewMode === 'table' ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+              title="Table view"
+            >
+              <LayoutList className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setViewMode('board')}
+              className={`p-1.5 rounded-md transition-colors ${viewMode === 'board' ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+              title="Board view"
+            >
+              <Columns3 className="w-4 h-4" />
+            </button>
+          </div>
         </div>
 
-        {/* Candidates Table */}
+        {viewMode === 'board' ? (
+          isLoading ? (
+            <div className="flex items-center justify-center p-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              {jobFilter === 'all' && (
+                <p className="text-sm text-muted-foreground">
+                  Select a job to apply its pipeline WIP limits.
+                </p>
+              )}
+              <PipelineBoard
+                cards={filteredCandidates}
+                wipLimits={selectedJobWipLimits}
+                showJobTitle={jobFilter === 'all'}
+                onMove={handleBoardMove}
+                onOpenCard={handleViewInsights}
+              />
+            </>
+          )
+        ) : (
+        /* Candidates Table */
         <div className="bg-card rounded-xl border border-border overflow-hidden">
           <div className="overflow-x-auto">
             {isLoading ? (
@@ -433,6 +720,7 @@ const Candidates = () => {
                     <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Candidate</th>
                     <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Role</th>
                     <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">AI Score</th>
+                    <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Aptitude</th>
                     <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Status</th>
                     <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Applied</th>
                     <th className="px-6 py-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Actions</th>
@@ -475,15 +763,41 @@ const Candidates = () => {
                               />
                             </div>
                             <span className="text-sm font-medium text-foreground">{candidate.aiScore}%</span>
+                            {candidate.aiSkills?.knocked_out && (
+                              <span title="Missing a knockout requirement">
+                                <AlertTriangle className="w-3.5 h-3.5 text-destructive" />
+                              </span>
+                            )}
                           </div>
+                        ) : candidate.aiAnalysisStatus === 'analysis_failed' ? (
+                          <span
+                            className="inline-flex items-center gap-1 text-xs font-medium text-destructive"
+                            title={candidate.aiAnalysisError || 'AI analysis failed'}
+                          >
+                            <AlertTriangle className="w-3.5 h-3.5" />
+                            Analysis failed
+                          </span>
                         ) : (
                           <span className="text-xs text-muted-foreground">Pending</span>
                         )}
                       </td>
+                      <td className="px-6 py-4">
+                        {candidate.aptitudeCompleted && candidate.aptitudeScore !== null ? (
+                          <span className="text-sm font-medium text-foreground">{candidate.aptitudeScore}%</span>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Not taken</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4">
                         <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${statusColors[candidate.status] || statusColors.applied}`}>
                           {formatStatus(candidate.status)}
                         </span>
+                        {pendingRejections[candidate.id] && (
+                          <span className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                            <Clock className="w-3 h-3" />
+                            Email {formatDistanceToNow(new Date(pendingRejections[candidate.id].send_at), { addSuffix: true })}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-muted-foreground text-sm">
                         {new Date(candidate.appliedDate).toLocaleDateString()}
@@ -504,7 +818,7 @@ const Candidates = () => {
                               )}
                             </button>
                           )}
-                          {(candidate.aiScore !== null || candidate.aiSummary || candidate.aiSkills) && (
+                          {(candidate.aiScore !== null || candidate.aiSummary || candidate.aiSkills || candidate.aiAnalysisStatus === 'analysis_failed') && (
                             <button 
                               onClick={() => handleViewInsights(candidate)}
                               className="p-2 hover:bg-accent/20 rounded-lg transition-colors" 
@@ -598,7 +912,33 @@ const Candidates = () => {
                                 Re-process with AI
                               </DropdownMenuItem>
                               
-                              <DropdownMenuItem>Schedule Interview</DropdownMenuItem>
+                              <DropdownMenuItem
+                                disabled={sendAptitudeTest.isPending}
+                                onClick={() => sendAptitudeTest.mutate({
+                                  applicationId: candidate.id,
+                                  candidateId: candidate.candidateId,
+                                  candidateName: candidate.candidateName,
+                                  candidateEmail: candidate.email,
+                                  jobTitle: candidate.jobTitle,
+                                })}
+                              >
+                                <ClipboardCheck className="w-4 h-4 mr-2" />
+                                {candidate.aptitudeCompleted ? 'Resend Aptitude Test' : 'Send Aptitude Test'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                disabled={!candidate.candidateAccessToken}
+                                onClick={() => {
+                                  navigator.clipboard.writeText(`${window.location.origin}/status/${candidate.candidateAccessToken}`);
+                                  toast.success('Status portal link copied to clipboard');
+                                }}
+                              >
+                                <Link2 className="w-4 h-4 mr-2" />
+                                Copy Status Portal Link
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setScheduleTarget(candidate)}>
+                                <Video className="w-4 h-4 mr-2" />
+                                Schedule Interview
+                              </DropdownMenuItem>
                               <DropdownMenuSeparator />
                               <DropdownMenuSub>
                                 <DropdownMenuSubTrigger>Change Status</DropdownMenuSubTrigger>
@@ -615,12 +955,45 @@ const Candidates = () => {
                                 </DropdownMenuSubContent>
                               </DropdownMenuSub>
                               <DropdownMenuSeparator />
-                              <DropdownMenuItem 
-                                className="text-destructive focus:text-destructive"
-                                onClick={() => handleRejectClick(candidate.id, candidate.candidateName)}
-                              >
-                                Reject Application
-                              </DropdownMenuItem>
+                              {pendingRejections[candidate.id] ? (
+                                <DropdownMenuItem
+                                  disabled={cancelRejectionEmail.isPending}
+                                  onClick={() => cancelRejectionEmail.mutate(pendingRejections[candidate.id].id)}
+                                >
+                                  <MailX className="w-4 h-4 mr-2" />
+                                  Cancel Rejection Email
+                                </DropdownMenuItem>
+                              ) : candidate.status !== 'rejected' && (
+                                <DropdownMenuItem 
+                                  className="text-destructive focus:text-destructive"
+                                  onClick={() => handleRejectClick(candidate)}
+                                >
+                                  Reject Application
+                                </DropdownMenuItem>
+                              )}
+                              {can('manageDataPrivacy') && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    disabled={exportCandidate.isPending}
+                                    onClick={() => exportCandidate.mutate({
+                                      candidateId: candidate.candidateId,
+                                      candidateName: candidate.candidateName,
+                                    })}
+                                  >
+                                    <Download className="w-4 h-4 mr-2" />
+                                    Export Candidate Data
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    disabled={eraseCandidate.isPending}
+                                    onClick={() => setCandidateToErase({ id: candidate.candidateId, name: candidate.candidateName })}
+                                  >
+                                    <ShieldOff className="w-4 h-4 mr-2" />
+                                    Erase Candidate Data
+                                  </DropdownMenuItem>
+                                </>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </div>
@@ -629,7 +1002,7 @@ const Candidates = () => {
                   ))}
                   {filteredCandidates.length === 0 && !isLoading && (
                     <tr>
-                      <td colSpan={7} className="px-6 py-12 text-center text-muted-foreground">
+                      <td colSpan={8} className="px-6 py-12 text-center text-muted-foreground">
                         No candidates found
                       </td>
                     </tr>
@@ -639,29 +1012,76 @@ const Candidates = () => {
             )}
           </div>
         </div>
+        )}
       </motion.div>
 
-      {/* Reject Confirmation Dialog */}
-      <AlertDialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
+      <RejectApplicationsDialog
+        open={rejectTargets.length > 0}
+        onOpenChange={(open) => !open && setRejectTargets([])}
+        targets={rejectTargets}
+        onRejected={() => setSelectedIds(new Set())}
+      />
+
+      {/* Erase Confirmation Dialog */}
+      <AlertDialog open={!!candidateToErase} onOpenChange={(open) => !open && setCandidateToErase(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Reject Application</AlertDialogTitle>
+            <AlertDialogTitle>Erase Candidate Data</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to reject {candidateToReject?.name}'s application? This action can be undone by changing the status later.
+              This permanently anonymizes {candidateToErase?.name} across all of their applications, interviews, emails and files. Open applications are withdrawn. This cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction 
-              onClick={confirmReject}
+            <AlertDialogAction
+              onClick={confirmErase}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              Reject
+              Erase
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Stage Rule Override Dialog */}
+      <AlertDialog open={!!overrideRequest} onOpenChange={(open) => !open && setOverrideRequest(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Override Stage Rules</AlertDialogTitle>
+            <AlertDialogDescription>
+              {overrideRequest?.message}. The move will be recorded in the stage history with your reason.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="Why does this application skip the usual stages?"
+            rows={3}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!overrideReason.trim()}
+              onClick={() => {
+                if (overrideRequest) {
+                  updateStatus.mutate({
+                    applicationId: overrideRequest.applicationId,
+                    status: overrideRequest.status,
+                    reason: overrideReason.trim(),
+                    override: true,
+                  });
+                }
+                setOverrideRequest(null);
+              }}
+            >
+              Override and Move
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
 
+      <DuplicateCandidatesDialog open={duplicatesOpen} onOpenChange={setDuplicatesOpen} />
+
       {/* AI Insights Dialog */}
       <AIInsightsDialog
         open={insightsDialogOpen}
@@ -671,6 +1091,10 @@ const Candidates = () => {
         aiScore={selectedInsights?.aiScore ?? null}
         aiSummary={selectedInsights?.aiSummary ?? null}
         aiSkills={selectedInsights?.aiSkills ?? null}
+        analysisStatus={selectedInsights?.aiAnalysisStatus}
+        analysisError={selectedInsights?.aiAnalysisError}
+        applicationId={selectedInsights?.id}
+        candidateId={selectedInsights?.candidateId}
       />
 
       {/* Resume Preview Dialog */}
@@ -695,6 +1119,27 @@ const Candidates = () => {
         existingAnalysis={selectedPortfolio?.portfolioAnalysis}
         onAnalysisComplete={() => queryClient.invalidateQueries({ queryKey: ['applications'] })}
       />
+
+      {/* Schedule Interview Dialog */}
+      <ScheduleInterviewDialog
+        open={!!scheduleTarget}
+        onOpenChange={(open) => !open && setScheduleTarget(null)}
+        applicationId={scheduleTarget?.id}
+      />
+
+      {/* Offer Letter Dialog */}
+      {offerTarget && (
+        <OfferLetterDialog
+          open={!!offerTarget}
+          onOpenChange={(open) => !open && setOfferTarget(null)}
+          applicationId={offerTarget.id}
+          candidateName={offerTarget.candidateName}
+          jobTitle={offerTarget.jobTitle}
+          department={offerTarget.jobDepartment}
+          location={offerTarget.jobLocation}
+          canSend={can('approveOffers')}
+        />
+      )}
     </DashboardLayout>
   );
 };
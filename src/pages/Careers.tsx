@@ -6,6 +6,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { toast } from "sonner";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/lib/functions";
 
 interface Job {
   id: string;
@@ -64,61 +65,48 @@ const Careers = () => {
         throw new Error('Failed to upload resume');
       }
 
-      // Store the file path (not URL) so backend can download from storage
-      // Create candidate record
-      const { data: candidate, error: candidateError } = await supabase
+      // Candidates are not readable from the browser, so only ask whether this email is already on file
+      const { data: emailExists, error: existsError } = await supabase
+        .rpc('candidate_email_exists', { _email: formData.email });
+
+      if (existsError) throw existsError;
+
+      // Returning candidates are filed by the portal function, which never hands their record to the browser
+      if (emailExists) {
+        await invokeFunction('candidate-portal', {
+          action: 'apply',
+          fullName: formData.name,
+          email: formData.email,
+          phone: formData.phone,
+          jobId: selectedJob.id,
+          resumePath: fileName,
+          source: 'careers',
+        });
+        return { success: true };
+      }
+
+      // The id is generated here because the inserted row cannot be read back
+      const candidateId = crypto.randomUUID();
+      const { error: candidateError } = await supabase
         .from('candidates')
         .insert({
+          id: candidateId,
           full_name: formData.name,
           email: formData.email,
           phone: formData.phone || null,
           resume_url: fileName, // Store path, not public URL
-        })
-        .select()
-        .single();
-
-      if (candidateError) {
-        // Check if candidate already exists
-        if (candidateError.code === '23505') {
-          // Get existing candidate
-          const { data: existingCandidate, error: fetchError } = await supabase
-            .from('candidates')
-            .select('id')
-            .eq('email', formData.email)
-            .single();
-
-          if (fetchError || !existingCandidate) {
-            throw new Error('Failed to find existing candidate');
-          }
-
-          // Create application for existing candidate
-          const { error: appError } = await supabase
-            .from('applications')
-            .insert({
-              candidate_id: existingCandidate.id,
-              job_id: selectedJob.id,
-              status: 'applied',
-            });
-
-          if (appError) {
-            if (appError.code === '23505') {
-              throw new Error('You have already applied for this position');
-            }
-            throw appError;
-          }
+        });
 
-          return { success: true };
-        }
-        throw candidateError;
-      }
+      if (candidateError) throw candidateError;
 
       // Create application
       const { error: applicationError } = await supabase
         .from('applications')
         .insert({
-          candidate_id: candidate.id,
+          candidate_id: candidateId,
           job_id: selectedJob.id,
           status: 'applied',
+          source: 'careers',
         });
 
       if (applicationError) throw applicationError;
@@ -5,6 +5,8 @@ import { motion } from "framer-motion";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import RecruitingAnalytics from "@/components/analytics/RecruitingAnalytics";
+import { formatDays, median } from "@/lib/analytics";
 
 interface DashboardStats {
   totalCandidates: number;
@@ -19,6 +21,7 @@ interface RecentApplication {
   initials: string;
   jobTitle: string;
   aiScore: number | null;
+  aiAnalysisStatus: string;
   status: string;
 }
 
@@ -29,10 +32,11 @@ const Dashboard = () => {
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ['dashboard-stats'],
     queryFn: async (): Promise<DashboardStats> => {
-      const [candidatesRes, applicationsRes, interviewsRes] = await Promise.all([
+      const [candidatesRes, applicationsRes, interviewsRes, hiresRes] = await Promise.all([
         supabase.from('candidates').select('id', { count: 'exact', head: true }),
         supabase.from('applications').select('status'),
         supabase.from('interviews').select('scheduled_at').gte('scheduled_at', new Date().toISOString().split('T')[0]).lt('scheduled_at', new Date(Date.now() + 86400000).toISOString().split('T')[0]),
+        supabase.from('application_stage_history').select('changed_at, applications!inner(created_at)').eq('to_status', 'hired').gte('changed_at', new Date(Date.now() - 90 * 86400000).toISOString()),
       ]);
 
       const toScreen = applicationsRes.data?.filter(a => a.status === 'applied' || a.status === 'screening').length || 0;
@@ -41,7 +45,10 @@ const Dashboard = () => {
         totalCandidates: candidatesRes.count || 0,
         toScreen,
         interviewsToday: interviewsRes.data?.length || 0,
-        avgTimeToHire: '12d', // Would need hired_at date to calculate
+        // Median over hires in the last 90 days
+        avgTimeToHire: formatDays(median((hiresRes.data || []).map(h =>
+          (new Date(h.changed_at).getTime() - new Date(h.applications.created_at).getTime()) / 86400000
+        ))),
       };
     },
     enabled: !authLoading && isHrStaff,
@@ -56,6 +63,7 @@ const Dashboard = () => {
         .select(`
           id,
           ai_score,
+          ai_analysis_status,
           status,
           candidates!inner(full_name),
           jobs!inner(title)
@@ -71,6 +79,7 @@ const Dashboard = () => {
         initials: app.candidates.full_name.split(' ').map((n: string) => n[0]).join('').toUpperCase(),
         jobTitle: app.jobs.title,
         aiScore: app.ai_score,
+        aiAnalysisStatus: app.ai_analysis_status,
         status: app.status,
       }));
     },
@@ -129,7 +138,7 @@ const Dashboard = () => {
     { title: 'Total Candidates', value: statsLoading ? '...' : String(stats?.totalCandidates || 0), icon: Users, color: 'primary' },
     { title: 'To Screen', value: statsLoading ? '...' : String(stats?.toScreen || 0), icon: UserCheck, color: 'accent' },
     { title: 'Interviews Today', value: statsLoading ? '...' : String(stats?.interviewsToday || 0), icon: Calendar, color: 'pink' },
-    { title: 'Avg Time to Hire', value: stats?.avgTimeToHire || '12d', icon: Clock, color: 'orange' },
+    { title: 'Time to Hire', value: statsLoading ? '...' : stats?.avgTimeToHire || '—', icon: Clock, color: 'orange' },
   ];
 
   return (
@@ -232,6 +241,8 @@ const Dashboard = () => {
                             }`}>
                               {candidate.aiScore}%
                             </span>
+                          ) : candidate.aiAnalysisStatus === 'analysis_failed' ? (
+                            <span className="text-xs font-medium text-destructive">Analysis failed</span>
                           ) : (
                             <span className="text-xs text-muted-foreground">Pending</span>
                           )}
@@ -288,6 +299,9 @@ const Dashboard = () => {
             </div>
           </motion.div>
         </div>
+
+        {/* Analytics */}
+        <RecruitingAnalytics />
       </motion.div>
     </DashboardLayout>
   );
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/layout/DashboardLayout";
@@ -12,7 +12,8 @@ import {
   Search, 
   Loader2,
   Save,
-  X
+  X,
+  Eye
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -36,6 +37,12 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Switch } from "@/components/ui/switch";
+import {
+  fetchTemplateContexts,
+  getTemplateVariables,
+  renderTemplate,
+  validateTemplate,
+} from "@/lib/email-templates";
 
 interface EmailTemplate {
   id: string;
@@ -71,6 +78,20 @@ const EmailTemplates = () => {
     body: "",
     is_default: false,
   });
+  const [previewApplicationId, setPreviewApplicationId] = useState("");
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const variables = getTemplateVariables(formData.email_type);
+  const problems = useMemo(
+    () =>
+      formData.email_type
+        ? [
+            ...validateTemplate(formData.subject, formData.email_type),
+            ...validateTemplate(formData.body, formData.email_type),
+          ]
+        : [],
+    [formData.subject, formData.body, formData.email_type]
+  );
 
   const { data: templates, isLoading } = useQuery({
     queryKey: ["email-templates", typeFilter],
@@ -90,8 +111,57 @@ const EmailTemplates = () => {
     },
   });
 
+  // Recent applications to preview against
+  const { data: previewApplications } = useQuery({
+    queryKey: ["template-preview-applications"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("applications")
+        .select("id, candidates!inner(full_name), jobs!inner(title)")
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: isDialogOpen,
+  });
+
+  const selectedPreviewId = previewApplicationId || previewApplications?.[0]?.id || "";
+
+  const { data: previewContext, isLoading: previewLoading, error: previewError } = useQuery({
+    queryKey: ["template-context", selectedPreviewId],
+    queryFn: async () => (await fetchTemplateContexts([selectedPreviewId]))[selectedPreviewId],
+    enabled: isDialogOpen && !!selectedPreviewId,
+  });
+
+  const preview = previewContext && problems.length === 0
+    ? {
+        subject: renderTemplate(formData.subject, previewContext),
+        body: renderTemplate(formData.body, previewContext),
+      }
+    : null;
+
+  const insertVariable = (tag: string) => {
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? formData.body.length;
+    const end = textarea?.selectionEnd ?? formData.body.length;
+    setFormData({ ...formData, body: formData.body.slice(0, start) + tag + formData.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
   const saveMutation = useMutation({
     mutationFn: async (data: typeof formData & { id?: string }) => {
+      const templateProblems = [
+        ...validateTemplate(data.subject, data.email_type),
+        ...validateTemplate(data.body, data.email_type),
+      ];
+      if (templateProblems.length > 0) {
+        throw new Error(`Fix the template before saving: ${templateProblems[0]}`);
+      }
+
       if (data.id) {
         const { error } = await supabase
           .from("email_templates")
@@ -355,7 +425,7 @@ const EmailTemplates = () => {
 
       {/* Create/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingTemplate ? "Edit Template" : "Create Template"}
@@ -407,14 +477,12 @@ const EmailTemplates = () => {
                 placeholder="e.g., Interview Invitation - {{position}}"
                 required
               />
-              <p className="text-xs text-muted-foreground">
-                Use {`{{candidateName}}`}, {`{{position}}`}, {`{{company}}`} as placeholders
-              </p>
             </div>
             <div className="space-y-2">
               <Label htmlFor="body">Email Body</Label>
               <Textarea
                 id="body"
+                ref={bodyRef}
                 value={formData.body}
                 onChange={(e) => setFormData({ ...formData, body: e.target.value })}
                 placeholder="Write your email template here..."
@@ -422,9 +490,87 @@ const EmailTemplates = () => {
                 required
               />
               <p className="text-xs text-muted-foreground">
-                Available placeholders: {`{{candidateName}}`}, {`{{position}}`}, {`{{company}}`}, {`{{date}}`}, {`{{time}}`}, {`{{interviewerName}}`}
+                Use {`{{#if name}}…{{else}}…{{/if}}`} for optional text and {`{{#each list}}…{{/each}}`} to repeat text for each item of a list
               </p>
             </div>
+            {formData.email_type && (
+              <div className="space-y-2">
+                <Label>Variables</Label>
+                <div className="flex flex-wrap gap-2">
+                  {variables.map((variable) => (
+                    <Badge
+                      key={variable.name}
+                      variant="outline"
+                      className="cursor-pointer font-mono hover:border-primary/50"
+                      title={
+                        variable.fields
+                          ? `${variable.description}. Fields: ${variable.fields.map((f) => f.name).join(", ")}`
+                          : variable.description
+                      }
+                      onClick={() =>
+                        insertVariable(
+                          variable.fields
+                            ? `{{#each ${variable.name}}}{{${variable.fields[0].name}}}{{/each}}`
+                            : `{{${variable.name}}}`
+                        )
+                      }
+                    >
+                      {variable.fields ? `#each ${variable.name}` : variable.name}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Click a variable to insert it; hover for what it contains
+                </p>
+              </div>
+            )}
+            {problems.length > 0 && (
+              <ul className="text-sm text-destructive space-y-1 rounded-lg border border-destructive/30 bg-destructive/5 p-3">
+                {problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+            {formData.email_type && (
+              <div className="space-y-3 rounded-lg border border-border bg-secondary/30 p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="flex items-center gap-2">
+                    <Eye className="w-4 h-4" />
+                    Preview
+                  </Label>
+                  <Select value={selectedPreviewId} onValueChange={setPreviewApplicationId}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="No applications yet" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {previewApplications?.map((application) => (
+                        <SelectItem key={application.id} value={application.id}>
+                          {application.candidates.full_name} · {application.jobs.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {previewLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                  </div>
+                ) : previewError ? (
+                  <p className="text-sm text-destructive">
+                    Could not load the preview: {previewError instanceof Error ? previewError.message : "Unknown error"}
+                  </p>
+                ) : preview ? (
+                  <div className="space-y-2 text-sm">
+                    <p className="font-medium text-foreground">{preview.subject}</p>
+                    <p className="whitespace-pre-wrap text-muted-foreground">{preview.body}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {problems.length > 0 ? "Fix the problems above to see a preview" : "Choose an application to preview with"}
+                  </p>
+                )}
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <Switch
                 id="is_default"
@@ -442,7 +588,7 @@ const EmailTemplates = () => {
                 <X className="w-4 h-4 mr-2" />
                 Cancel
               </Button>
-              <Button type="submit" disabled={saveMutation.isPending}>
+              <Button type="submit" disabled={saveMutation.isPending || problems.length > 0}>
                 {saveMutation.isPending ? (
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                 ) : (
@@ -1,12 +1,16 @@
-import { Video, Calendar, Clock, ExternalLink, Loader2, MoreHorizontal, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Video, Calendar, Clock, ExternalLink, Loader2, MoreHorizontal, Trash2, ClipboardList, Users, CalendarClock } from 'lucide-react';
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
 import { format } from "date-fns";
 import { ScheduleInterviewDialog } from "@/components/ScheduleInterviewDialog";
-import { toast } from "sonner";
+import { ScorecardDialog } from "@/components/ScorecardDialog";
+import { ManageInterviewDialog, type ManagedInterview } from "@/components/ManageInterviewDialog";
+import { PANEL_ROLE_LABELS, type InterviewChange, type PanelRole } from "@/lib/interviews";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,6 +25,11 @@ interface Interview {
   interview_type: string;
   status: string;
   meeting_url: string | null;
+  panel: {
+    userId: string;
+    role: PanelRole;
+    name: string;
+  }[];
   application: {
     candidate: {
       full_name: string;
@@ -31,8 +40,22 @@ interface Interview {
   };
 }
 
+const toManaged = (interview: Interview): ManagedInterview => ({
+  id: interview.id,
+  scheduled_at: interview.scheduled_at,
+  duration_minutes: interview.duration_minutes,
+  candidateName: interview.application.candidate.full_name,
+  jobTitle: interview.application.job.title,
+  panel: interview.panel,
+});
+
 const Interviews = () => {
-  const queryClient = useQueryClient();
+  const [scorecardInterview, setScorecardInterview] = useState<Interview | null>(null);
+  const [change, setChange] = useState<{ interview: ManagedInterview; action: InterviewChange } | null>(null);
+  const { user } = useAuth();
+
+  // Only panel members write scorecards
+  const onPanel = (interview: Interview) => interview.panel.some((member) => member.userId === user?.id);
 
   const { data: interviews, isLoading } = useQuery({
     queryKey: ['interviews'],
@@ -47,6 +70,10 @@ const Interviews = () => {
           status,
           meeting_url,
           application_id,
+          interview_interviewers (
+            interviewer_id,
+            role
+          ),
           applications:application_id (
             candidate_id,
             job_id,
@@ -67,6 +94,18 @@ const Interviews = () => {
 
       console.log('Fetched interviews:', data);
 
+      const interviewerIds = [
+        ...new Set((data || []).flatMap((interview) => interview.interview_interviewers.map((m) => m.interviewer_id))),
+      ];
+      const { data: profiles } = interviewerIds.length
+        ? await supabase.from('profiles').select('id, email, full_name').in('id', interviewerIds)
+        : { data: [] };
+      const nameOf = (userId: string) => {
+        const profile = profiles?.find((p) => p.id === userId);
+        return profile?.full_name || profile?.email || 'Unknown user';
+      };
+      const roleOrder: PanelRole[] = ['lead', 'interviewer', 'shadow'];
+
       return (data || []).map((interview: any) => ({
         id: interview.id,
         scheduled_at: interview.scheduled_at,
@@ -74,6 +113,13 @@ const Interviews = () => {
         interview_type: interview.interview_type,
         status: interview.status,
         meeting_url: interview.meeting_url,
+        panel: interview.interview_interviewers
+          .map((member: { interviewer_id: string; role: PanelRole }) => ({
+            userId: member.interviewer_id,
+            role: member.role,
+            name: nameOf(member.interviewer_id),
+          }))
+          .sort((a: { role: PanelRole }, b: { role: PanelRole }) => roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role)),
         application: {
           candidate: {
             full_name: interview.applications?.candidates?.full_name || 'Unknown'
@@ -86,24 +132,6 @@ const Interviews = () => {
     },
   });
 
-  const cancelInterview = useMutation({
-    mutationFn: async (interviewId: string) => {
-      const { error } = await supabase
-        .from('interviews')
-        .update({ status: 'cancelled' })
-        .eq('id', interviewId);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      toast.success('Interview cancelled');
-      queryClient.invalidateQueries({ queryKey: ['interviews'] });
-    },
-    onError: (error: Error) => {
-      toast.error(error.message || 'Failed to cancel interview');
-    },
-  });
-
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const tomorrow = new Date(today);
@@ -188,8 +216,18 @@ const Interviews = () => {
                           </button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          {onPanel(interview) && (
+                            <DropdownMenuItem onClick={() => setScorecardInterview(interview)}>
+                              <ClipboardList className="w-4 h-4 mr-2" />
+                              Scorecard
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => setChange({ interview: toManaged(interview), action: 'reschedule' })}>
+                            <CalendarClock className="w-4 h-4 mr-2" />
+                            Reschedule
+                          </DropdownMenuItem>
                           <DropdownMenuItem 
-                            onClick={() => cancelInterview.mutate(interview.id)}
+                            onClick={() => setChange({ interview: toManaged(interview), action: 'cancel' })}
                             className="text-destructive"
                           >
                             <Trash2 className="w-4 h-4 mr-2" />
@@ -209,6 +247,14 @@ const Interviews = () => {
                       <Calendar className="w-4 h-4" />
                       {interview.duration_minutes} min
                     </span>
+                    {interview.panel.length > 0 && (
+                      <span className="flex items-center gap-1.5">
+                        <Users className="w-4 h-4" />
+                        {interview.panel
+                          .map((member) => (member.role === 'interviewer' ? member.name : `${member.name} (${PANEL_ROLE_LABELS[member.role].toLowerCase()})`))
+                          .join(', ')}
+                      </span>
+                    )}
                   </div>
 
                   <Button 
@@ -278,8 +324,18 @@ const Interviews = () => {
                               Join Meeting
                             </DropdownMenuItem>
                           )}
+                          {onPanel(interview) && (
+                            <DropdownMenuItem onClick={() => setScorecardInterview(interview)}>
+                              <ClipboardList className="w-4 h-4 mr-2" />
+                              Scorecard
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => setChange({ interview: toManaged(interview), action: 'reschedule' })}>
+                            <CalendarClock className="w-4 h-4 mr-2" />
+                            Reschedule
+                          </DropdownMenuItem>
                           <DropdownMenuItem 
-                            onClick={() => cancelInterview.mutate(interview.id)}
+                            onClick={() => setChange({ interview: toManaged(interview), action: 'cancel' })}
                             className="text-destructive"
                           >
                             <Trash2 className="w-4 h-4 mr-2" />
@@ -321,9 +377,17 @@ const Interviews = () => {
                         <p className="text-sm text-muted-foreground">{interview.application.job.title}</p>
                       </div>
                     </div>
-                    <p className="text-sm text-muted-foreground">
-                      {format(new Date(interview.scheduled_at), 'MMM d, yyyy')}
-                    </p>
+                    <div className="flex items-center gap-4">
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(interview.scheduled_at), 'MMM d, yyyy')}
+                      </p>
+                      {onPanel(interview) && (
+                        <Button variant="outline" size="sm" onClick={() => setScorecardInterview(interview)}>
+                          <ClipboardList className="w-4 h-4 mr-2" />
+                          Scorecard
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -331,6 +395,26 @@ const Interviews = () => {
           </div>
         )}
       </motion.div>
+
+      {scorecardInterview && (
+        <ScorecardDialog
+          open={!!scorecardInterview}
+          onOpenChange={(open) => !open && setScorecardInterview(null)}
+          interviewId={scorecardInterview.id}
+          candidateName={scorecardInterview.application.candidate.full_name}
+          jobTitle={scorecardInterview.application.job.title}
+          interviewType={scorecardInterview.interview_type}
+        />
+      )}
+
+      {change && (
+        <ManageInterviewDialog
+          open={!!change}
+          onOpenChange={(open) => !open && setChange(null)}
+          interview={change.interview}
+          action={change.action}
+        />
+      )}
     </DashboardLayout>
   );
 };
@@ -0,0 +1,751 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { motion } from "framer-motion";
+import {
+  Briefcase,
+  Plus,
+  Edit,
+  Copy,
+  Search,
+  Loader2,
+  Save,
+  X,
+  MapPin,
+  Users,
+  UserCheck,
+  MoreHorizontal,
+  Play,
+  Pause,
+  Archive,
+  Trash2,
+} from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { WIP_LIMITED_STAGES, parseWipLimits, type WipLimitedStage } from "@/lib/pipeline";
+import { parseRubric, validateRubric, type ScoringRubric } from "@/lib/rubric";
+import { JobRubricEditor } from "@/components/JobRubricEditor";
+
+type JobStatus = Database["public"]["Enums"]["job_status"];
+
+interface Job {
+  id: string;
+  title: string;
+  department: string;
+  location: string;
+  job_type: string;
+  description: string | null;
+  requirements: string | null;
+  status: JobStatus;
+  headcount: number;
+  assigned_hr_id: string | null;
+  wip_limits: Json;
+  scoring_rubric: Json | null;
+  created_at: string;
+  applications: { status: string }[];
+}
+
+interface HrMember {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+const jobTypes = ["Full-time", "Part-time", "Contract", "Internship"];
+
+const statusConfig: Record<JobStatus, { label: string; color: string }> = {
+  draft: { label: "Draft", color: "bg-muted text-muted-foreground border-border" },
+  open: { label: "Open", color: "bg-green-500/10 text-green-600 border-green-500/20" },
+  on_hold: { label: "On Hold", color: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  closed: { label: "Closed", color: "bg-red-500/10 text-red-600 border-red-500/20" },
+};
+
+// Allowed lifecycle moves from each status
+const statusTransitions: Record<JobStatus, { to: JobStatus; label: string; icon: typeof Play }[]> = {
+  draft: [
+    { to: "open", label: "Publish", icon: Play },
+    { to: "closed", label: "Close", icon: Archive },
+  ],
+  open: [
+    { to: "on_hold", label: "Put on Hold", icon: Pause },
+    { to: "closed", label: "Close", icon: Archive },
+  ],
+  on_hold: [
+    { to: "open", label: "Reopen", icon: Play },
+    { to: "closed", label: "Close", icon: Archive },
+  ],
+  closed: [{ to: "open", label: "Reopen", icon: Play }],
+};
+
+const emptyForm = {
+  title: "",
+  department: "",
+  location: "",
+  job_type: "Full-time",
+  description: "",
+  requirements: "",
+  headcount: 1,
+  assigned_hr_id: "unassigned",
+  wip_limits: { screening: "", interview: "", offer: "" } as Record<WipLimitedStage, string>,
+  scoring_rubric: null as ScoringRubric | null,
+};
+
+// Blank or zero means the stage is uncapped
+const toWipLimits = (form: Record<WipLimitedStage, string>) =>
+  Object.fromEntries(
+    WIP_LIMITED_STAGES.filter((stage) => Number(form[stage]) > 0).map((stage) => [stage, Number(form[stage])])
+  );
+
+const toWipForm = (value: Json) => {
+  const limits = parseWipLimits(value);
+  return Object.fromEntries(
+    WIP_LIMITED_STAGES.map((stage) => [stage, limits[stage]?.toString() ?? ""])
+  ) as Record<WipLimitedStage, string>;
+};
+
+// Blank knockout lines are kept while editing and dropped on save
+const toRubricPayload = (rubric: ScoringRubric | null) =>
+  rubric && {
+    ...rubric,
+    knockouts: rubric.knockouts.map((knockout) => knockout.trim()).filter(Boolean),
+    notes: rubric.notes.trim(),
+  };
+
+const Jobs = () => {
+  const { user, loading: authLoading, can } = useAuth(true);
+  const canManageJobs = can("manageJobs");
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingJob, setEditingJob] = useState<Job | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: jobs, isLoading } = useQuery({
+    queryKey: ["jobs", statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("jobs")
+        .select("*, applications(status)")
+        .order("created_at", { ascending: false });
+
+      // Open jobs are publicly readable, so recruiters are narrowed to their own requisitions here
+      if (!can("viewAllJobs") && user) {
+        query = query.eq("assigned_hr_id", user.id);
+      }
+
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter as JobStatus);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as Job[];
+    },
+    enabled: !authLoading,
+  });
+
+  const { data: hrMembers } = useQuery({
+    queryKey: ["hr-members"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, email, full_name")
+        .order("full_name", { ascending: true });
+      if (error) throw error;
+      return data as HrMember[];
+    },
+    enabled: !authLoading,
+  });
+
+  // Every signed-up account has a profile; only those holding a staff role can be assigned a job
+  const { data: staffIds } = useQuery({
+    queryKey: ["staff-user-ids"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("user_roles").select("user_id");
+      if (error) throw error;
+      return new Set(data.map((row) => row.user_id));
+    },
+    enabled: !authLoading && canManageJobs,
+  });
+
+  // The current assignee stays listed so the select can still show them
+  const hiringManagers = hrMembers?.filter(
+    (member) => staffIds?.has(member.id) || member.id === formData.assigned_hr_id,
+  );
+
+  const invalidateJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["public-jobs"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData & { id?: string }) => {
+      const payload = {
+        title: data.title,
+        department: data.department,
+        location: data.location,
+        job_type: data.job_type,
+        description: data.description || null,
+        requirements: data.requirements || null,
+        headcount: data.headcount,
+        assigned_hr_id: data.assigned_hr_id === "unassigned" ? null : data.assigned_hr_id,
+        wip_limits: toWipLimits(data.wip_limits),
+        scoring_rubric: toRubricPayload(data.scoring_rubric) as unknown as Json,
+      };
+
+      if (data.id) {
+        const { error } = await supabase.from("jobs").update(payload).eq("id", data.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("jobs")
+          .insert({ ...payload, status: "draft", created_by: user?.id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      toast.success(editingJob ? "Job updated" : "Job created as draft");
+      setIsDialogOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save job");
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: JobStatus }) => {
+      const { error } = await supabase.from("jobs").update({ status }).eq("id", id);
+      if (error) throw error;
+      return status;
+    },
+    onSuccess: (status) => {
+      invalidateJobs();
+      toast.success(`Job ${statusConfig[status].label.toLowerCase()}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update job status");
+    },
+  });
+
+  const cloneMutation = useMutation({
+    mutationFn: async (job: Job) => {
+      const { error } = await supabase.from("jobs").insert({
+        title: `${job.title} (Copy)`,
+        department: job.department,
+        location: job.location,
+        job_type: job.job_type,
+        description: job.description,
+        requirements: job.requirements,
+        headcount: job.headcount,
+        assigned_hr_id: job.assigned_hr_id,
+        wip_limits: job.wip_limits,
+        scoring_rubric: job.scoring_rubric,
+        status: "draft",
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      toast.success("Job cloned as draft");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to clone job");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("jobs").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      toast.success("Draft deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete job");
+    },
+  });
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingJob(null);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (job: Job) => {
+    setEditingJob(job);
+    setFormData({
+      title: job.title,
+      department: job.department,
+      location: job.location,
+      job_type: job.job_type,
+      description: job.description || "",
+      requirements: job.requirements || "",
+      headcount: job.headcount,
+      assigned_hr_id: job.assigned_hr_id || "unassigned",
+      wip_limits: toWipForm(job.wip_limits),
+      scoring_rubric: job.scoring_rubric ? parseRubric(job.scoring_rubric) : null,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.scoring_rubric) {
+      const rubricError = validateRubric(formData.scoring_rubric);
+      if (rubricError) {
+        toast.error(rubricError);
+        return;
+      }
+    }
+    saveMutation.mutate({
+      ...formData,
+      id: editingJob?.id,
+    });
+  };
+
+  const filteredJobs = jobs?.filter((job) => {
+    const searchLower = searchQuery.toLowerCase();
+    return (
+      job.title.toLowerCase().includes(searchLower) ||
+      job.department.toLowerCase().includes(searchLower) ||
+      job.location.toLowerCase().includes(searchLower)
+    );
+  });
+
+  const getHrName = (id: string | null) => {
+    if (!id) return "Unassigned";
+    const member = hrMembers?.find((m) => m.id === id);
+    return member?.full_name || member?.email || "Unknown";
+  };
+
+  const getApplicantCounts = (job: Job) => {
+    const total = job.applications?.length || 0;
+    const active = job.applications?.filter((a) => !["rejected", "hired", "withdrawn"].includes(a.status)).length || 0;
+    const hired = job.applications?.filter((a) => a.status === "hired").length || 0;
+    return { total, active, hired };
+  };
+
+  if (authLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex h-[50vh] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+                <Briefcase className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-display font-bold text-foreground tracking-tight">
+                  Jobs
+                </h1>
+                <p className="text-muted-foreground text-sm">
+                  Create and manage job requisitions
+                </p>
+              </div>
+            </div>
+          </div>
+          {canManageJobs && (
+            <Button onClick={openCreateDialog}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Job
+            </Button>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by title, department, or location..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {(Object.keys(statusConfig) as JobStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {statusConfig[status].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Jobs List */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : filteredJobs?.length === 0 ? (
+          <Card className="bg-card border-border">
+            <CardContent className="py-12 text-center">
+              <Briefcase className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">
+                No jobs found
+              </h3>
+              <p className="text-muted-foreground mb-4">
+                {searchQuery || statusFilter !== "all"
+                  ? "Try adjusting your filters"
+                  : canManageJobs
+                    ? "Create your first job requisition to get started"
+                    : "No jobs have been assigned to you yet"}
+              </p>
+              {canManageJobs && (
+                <Button onClick={openCreateDialog}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Job
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {filteredJobs?.map((job, index) => {
+              const status = statusConfig[job.status] || statusConfig.draft;
+              const counts = getApplicantCounts(job);
+
+              return (
+                <motion.div
+                  key={job.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                >
+                  <Card className="bg-card border-border hover:border-primary/30 transition-colors">
+                    <CardContent className="p-6">
+                      <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap mb-1">
+                            <h3 className="font-semibold text-foreground truncate">{job.title}</h3>
+                            <Badge variant="secondary" className={status.color}>
+                              {status.label}
+                            </Badge>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                            <span className="flex items-center">
+                              <Briefcase className="w-4 h-4 mr-1.5" /> {job.department}
+                            </span>
+                            <span className="flex items-center">
+                              <MapPin className="w-4 h-4 mr-1.5" /> {job.location}
+                            </span>
+                            <span>{job.job_type}</span>
+                          </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4 lg:gap-6">
+                          <div>
+                            <p className="text-xs text-muted-foreground">Applicants</p>
+                            <p className="text-sm font-medium text-foreground">
+                              {counts.active} active / {counts.total}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-muted-foreground">Headcount</p>
+                            <p className="text-sm font-medium text-foreground flex items-center gap-1">
+                              <Users className="w-4 h-4 text-muted-foreground" />
+                              {counts.hired} / {job.headcount} filled
+                            </p>
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-xs text-muted-foreground">Hiring Manager</p>
+                            <p className="text-sm font-medium text-foreground flex items-center gap-1 truncate">
+                              <UserCheck className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                              <span className="truncate">{getHrName(job.assigned_hr_id)}</span>
+                            </p>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-2 lg:ml-4">
+                          {canManageJobs && (
+                            <>
+                              <Button size="sm" variant="outline" onClick={() => openEditDialog(job)}>
+                                <Edit className="w-4 h-4 mr-1" />
+                                Edit
+                              </Button>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0">
+                                    <MoreHorizontal className="w-4 h-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end" className="bg-popover">
+                                  {statusTransitions[job.status].map((transition) => {
+                                    const Icon = transition.icon;
+                                    return (
+                                      <DropdownMenuItem
+                                        key={transition.to}
+                                        onClick={() => statusMutation.mutate({ id: job.id, status: transition.to })}
+                                      >
+                                        <Icon className="w-4 h-4 mr-2" />
+                                        {transition.label}
+                                      </DropdownMenuItem>
+                                    );
+                                  })}
+                                  <DropdownMenuItem onClick={() => cloneMutation.mutate(job)}>
+                                    <Copy className="w-4 h-4 mr-2" />
+                                    Clone
+                                  </DropdownMenuItem>
+                                  {job.status === "draft" && counts.total === 0 && (
+                                    <>
+                                      <DropdownMenuSeparator />
+                                      <DropdownMenuItem
+                                        className="text-destructive focus:text-destructive"
+                                        onClick={() => deleteMutation.mutate(job.id)}
+                                      >
+                                        <Trash2 className="w-4 h-4 mr-2" />
+                                        Delete Draft
+                                      </DropdownMenuItem>
+                                    </>
+                                  )}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingJob ? "Edit Job" : "Create Job"}
+            </DialogTitle>
+            <DialogDescription>
+              {editingJob
+                ? "Update this job requisition"
+                : "New jobs start as drafts and are only listed on the careers page once published"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="title">Job Title</Label>
+              <Input
+                id="title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="e.g., Senior Full Stack Engineer"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="department">Department</Label>
+                <Input
+                  id="department"
+                  value={formData.department}
+                  onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                  placeholder="e.g., Engineering"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location">Location</Label>
+                <Input
+                  id="location"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  placeholder="e.g., Remote"
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="job_type">Job Type</Label>
+                <Select
+                  value={formData.job_type}
+                  onValueChange={(value) => setFormData({ ...formData, job_type: value })}
+                >
+                  <SelectTrigger id="job_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {jobTypes.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="headcount">Headcount</Label>
+                <Input
+                  id="headcount"
+                  type="number"
+                  min={1}
+                  value={formData.headcount}
+                  onChange={(e) => setFormData({ ...formData, headcount: Math.max(1, Number(e.target.value) || 1) })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assigned_hr_id">Hiring Manager</Label>
+                <Select
+                  value={formData.assigned_hr_id}
+                  onValueChange={(value) => setFormData({ ...formData, assigned_hr_id: value })}
+                  disabled={!canManageJobs}
+                >
+                  <SelectTrigger id="assigned_hr_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {hiringManagers?.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.full_name || member.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="What will this person do?"
+                rows={4}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requirements">Requirements</Label>
+              <Textarea
+                id="requirements"
+                value={formData.requirements}
+                onChange={(e) => setFormData({ ...formData, requirements: e.target.value })}
+                placeholder="Skills and experience the AI screening should match against"
+                rows={6}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Pipeline WIP Limits</Label>
+              <div className="grid grid-cols-3 gap-4">
+                {WIP_LIMITED_STAGES.map((stage) => (
+                  <div key={stage} className="space-y-1">
+                    <Label htmlFor={`wip-${stage}`} className="text-xs text-muted-foreground capitalize">
+                      {stage}
+                    </Label>
+                    <Input
+                      id={`wip-${stage}`}
+                      type="number"
+                      min={0}
+                      value={formData.wip_limits[stage]}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          wip_limits: { ...formData.wip_limits, [stage]: e.target.value },
+                        })
+                      }
+                      placeholder="No limit"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Caps how many candidates can sit in each stage on the pipeline board.
+              </p>
+            </div>
+            <JobRubricEditor
+              value={formData.scoring_rubric}
+              onChange={(scoring_rubric) => setFormData({ ...formData, scoring_rubric })}
+            />
+            <div className="flex justify-end gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                {editingJob ? "Update" : "Create"} Job
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default Jobs;
@@ -17,7 +17,9 @@ import {
   Calendar,
   DollarSign,
   Building,
-  User
+  User,
+  History,
+  ShieldCheck
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -33,6 +35,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { format } from "date-fns";
 import { toast } from "sonner";
 import { OfferLetterDialog } from "@/components/OfferLetterDialog";
+import { OfferVersionsDialog } from "@/components/OfferVersionsDialog";
 
 interface OfferLetter {
   id: string;
@@ -45,6 +48,10 @@ interface OfferLetter {
   status: string;
   created_at: string;
   sent_at: string | null;
+  responded_at: string | null;
+  signature_name: string | null;
+  signature_ip: string | null;
+  decline_reason: string | null;
   application_id: string;
   applications: {
     candidates: {
@@ -59,18 +66,21 @@ interface OfferLetter {
 
 const statusConfig: Record<string, { icon: React.ReactNode; color: string; label: string }> = {
   draft: { icon: <Clock className="w-4 h-4" />, color: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20", label: "Draft" },
+  approved: { icon: <ShieldCheck className="w-4 h-4" />, color: "bg-purple-500/10 text-purple-600 border-purple-500/20", label: "Approved" },
   sent: { icon: <Send className="w-4 h-4" />, color: "bg-blue-500/10 text-blue-600 border-blue-500/20", label: "Sent" },
   accepted: { icon: <CheckCircle className="w-4 h-4" />, color: "bg-green-500/10 text-green-600 border-green-500/20", label: "Accepted" },
-  rejected: { icon: <XCircle className="w-4 h-4" />, color: "bg-red-500/10 text-red-600 border-red-500/20", label: "Rejected" },
+  declined: { icon: <XCircle className="w-4 h-4" />, color: "bg-red-500/10 text-red-600 border-red-500/20", label: "Declined" },
   expired: { icon: <Clock className="w-4 h-4" />, color: "bg-muted text-muted-foreground border-border", label: "Expired" },
 };
 
 const OfferLetters = () => {
-  const { loading: authLoading } = useAuth(true);
+  const { loading: authLoading, can } = useAuth(true);
+  const canApprove = can("approveOffers");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [selectedOffer, setSelectedOffer] = useState<OfferLetter | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyOffer, setHistoryOffer] = useState<OfferLetter | null>(null);
 
   const { data: offers, isLoading, refetch } = useQuery({
     queryKey: ["offer-letters", statusFilter],
@@ -113,6 +123,20 @@ const OfferLetters = () => {
     accepted: offers?.filter((o) => o.status === "accepted").length || 0,
   };
 
+  const handleApproveOffer = async (offerId: string) => {
+    const { error } = await supabase
+      .from("offer_letters")
+      .update({ status: "approved" })
+      .eq("id", offerId);
+
+    if (error) {
+      toast.error(error.message || "Failed to approve offer letter");
+      return;
+    }
+    toast.success("Offer letter approved");
+    refetch();
+  };
+
   const handleSendOffer = async (offerId: string) => {
     try {
       const { error } = await supabase.functions.invoke("send-offer-letter", {
@@ -240,9 +264,10 @@ const OfferLetters = () => {
             <SelectContent>
               <SelectItem value="all">All Statuses</SelectItem>
               <SelectItem value="draft">Drafts</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
               <SelectItem value="sent">Sent</SelectItem>
               <SelectItem value="accepted">Accepted</SelectItem>
-              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="declined">Declined</SelectItem>
               <SelectItem value="expired">Expired</SelectItem>
             </SelectContent>
           </Select>
@@ -301,6 +326,18 @@ const OfferLetters = () => {
                                   <span className="ml-1">{status.label}</span>
                                 </Badge>
                               </div>
+                              {offer.status === "accepted" && offer.signature_name && (
+                                <p className="text-xs text-muted-foreground mt-2">
+                                  Signed by {offer.signature_name}
+                                  {offer.responded_at && ` on ${format(new Date(offer.responded_at), "MMM d, yyyy h:mm a")}`}
+                                  {offer.signature_ip && ` from ${offer.signature_ip}`}
+                                </p>
+                              )}
+                              {offer.status === "declined" && offer.decline_reason && (
+                                <p className="text-xs text-muted-foreground mt-2 line-clamp-2">
+                                  Reason: {offer.decline_reason}
+                                </p>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -352,7 +389,18 @@ const OfferLetters = () => {
 
                         {/* Actions */}
                         <div className="flex items-center gap-2 lg:ml-4">
-                          {offer.status === "draft" && (
+                          {/* Recruiters draft offers; HR managers and admins approve and send them */}
+                          {canApprove && offer.status === "draft" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleApproveOffer(offer.id)}
+                            >
+                              <ShieldCheck className="w-4 h-4 mr-1" />
+                              Approve
+                            </Button>
+                          )}
+                          {canApprove && (offer.status === "draft" || offer.status === "approved") && (
                             <Button
                               size="sm"
                               onClick={() => handleSendOffer(offer.id)}
@@ -361,6 +409,9 @@ const OfferLetters = () => {
                               Send
                             </Button>
                           )}
+                          {!canApprove && offer.status === "draft" && (
+                            <span className="text-xs text-muted-foreground">Awaiting approval</span>
+                          )}
                           <Button
                             size="sm"
                             variant="outline"
@@ -371,6 +422,14 @@ const OfferLetters = () => {
                           >
                             View
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryOffer(offer)}
+                          >
+                            <History className="w-4 h-4 mr-1" />
+                            History
+                          </Button>
                         </div>
                       </div>
                     </CardContent>
@@ -393,6 +452,7 @@ const OfferLetters = () => {
           applicationId={selectedOffer.application_id}
           candidateName={selectedOffer.applications.candidates.full_name}
           jobTitle={selectedOffer.applications.jobs.title}
+          canSend={canApprove}
           onSuccess={() => {
             refetch();
             setIsDialogOpen(false);
@@ -400,6 +460,18 @@ const OfferLetters = () => {
           }}
         />
       )}
+
+      {/* Version History Dialog */}
+      {historyOffer && (
+        <OfferVersionsDialog
+          open={!!historyOffer}
+          onOpenChange={(open) => {
+            if (!open) setHistoryOffer(null);
+          }}
+          offerLetterId={historyOffer.id}
+          candidateName={historyOffer.applications.candidates.full_name}
+        />
+      )}
     </DashboardLayout>
   );
 };
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sparkles, Loader2, AlertCircle, PenLine, CheckCircle, XCircle, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { invokeFunction } from "@/lib/functions";
+import { toast } from "sonner";
+
+interface OfferResponseData {
+  candidateName: string;
+  positionTitle: string;
+  status: string;
+  offerExpiryDate: string | null;
+  respondedAt: string | null;
+  signatureName: string | null;
+  letterHtml: string;
+}
+
+type Mode = "review" | "accept" | "decline";
+
+const OfferResponse = () => {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<Mode>("review");
+  const [signatureName, setSignatureName] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["offer-response", token],
+    queryFn: () => invokeFunction<OfferResponseData>("offer-response", { action: "get", token }),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respond = useMutation({
+    mutationFn: (action: "accept" | "decline") =>
+      invokeFunction("offer-response", {
+        action,
+        token,
+        signatureName: action === "accept" ? signatureName : undefined,
+        declineReason: action === "decline" ? declineReason : undefined,
+      }),
+    onSuccess: (_, action) => {
+      toast.success(action === "accept" ? "Offer accepted. Welcome aboard!" : "Your response has been recorded");
+      queryClient.invalidateQueries({ queryKey: ["offer-response", token] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to submit your response");
+      queryClient.invalidateQueries({ queryKey: ["offer-response", token] });
+    },
+  });
+
+  const header = (
+    <div className="flex items-center justify-center space-x-2 mb-8">
+      <div className="w-8 h-8 bg-gradient-to-tr from-primary to-accent rounded-lg flex items-center justify-center">
+        <Sparkles className="w-5 h-5 text-primary-foreground" />
+      </div>
+      <span className="font-display font-bold text-lg tracking-tight text-foreground">
+        Cortex<span className="text-primary">HR</span>
+      </span>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center space-y-4">
+            {header}
+            <AlertCircle className="w-10 h-10 mx-auto text-destructive" />
+            <p className="text-muted-foreground">
+              {error instanceof Error ? error.message : "This offer link is not valid."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOpen = data.status === "sent";
+
+  return (
+    <div className="min-h-screen bg-background p-4 sm:p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-3xl mx-auto space-y-6"
+      >
+        {header}
+        <div>
+          <h1 className="text-3xl font-display font-bold text-foreground">{data.positionTitle}</h1>
+          <p className="text-muted-foreground mt-1">
+            Offer for {data.candidateName}
+            {isOpen && data.offerExpiryDate && (
+              <> · respond by {format(new Date(data.offerExpiryDate), "MMM d, yyyy")}</>
+            )}
+          </p>
+        </div>
+
+        {data.status === "accepted" && (
+          <Card className="border-emerald-500/30 bg-emerald-500/5">
+            <CardContent className="p-6 flex items-center gap-3">
+              <CheckCircle className="w-6 h-6 text-emerald-500 shrink-0" />
+              <p className="text-foreground">
+                You accepted this offer
+                {data.respondedAt && <> on {format(new Date(data.respondedAt), "MMM d, yyyy 'at' h:mm a")}</>}
+                {data.signatureName && <>, signed as <span className="font-medium">{data.signatureName}</span></>}.
+                The team will be in touch about next steps.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {data.status === "declined" && (
+          <Card>
+            <CardContent className="p-6 flex items-center gap-3">
+              <XCircle className="w-6 h-6 text-muted-foreground shrink-0" />
+              <p className="text-muted-foreground">
+                You declined this offer
+                {data.respondedAt && <> on {format(new Date(data.respondedAt), "MMM d, yyyy")}</>}. Thank you for letting us know.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {data.status === "expired" && (
+          <Card>
+            <CardContent className="p-6 flex items-center gap-3">
+              <Clock className="w-6 h-6 text-muted-foreground shrink-0" />
+              <p className="text-muted-foreground">
+                This offer expired
+                {data.offerExpiryDate && <> on {format(new Date(data.offerExpiryDate), "MMM d, yyyy")}</>}. Please contact the
+                hiring team if you are still interested.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Letter is server-rendered HTML, so keep it in a sandbox with no script access */}
+        <Card className="overflow-hidden">
+          <iframe
+            title="Offer letter"
+            srcDoc={data.letterHtml}
+            sandbox=""
+            className="w-full h-[600px] bg-white"
+          />
+        </Card>
+
+        {isOpen && mode === "review" && (
+          <div className="flex flex-col sm:flex-row justify-end gap-3">
+            <Button variant="outline" onClick={() => setMode("decline")}>
+              Decline Offer
+            </Button>
+            <Button onClick={() => setMode("accept")}>
+              <PenLine className="w-4 h-4 mr-2" />
+              Accept & Sign
+            </Button>
+          </div>
+        )}
+
+        {isOpen && mode === "accept" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Sign to accept</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="signature">Type your full name as your signature</Label>
+                <Input
+                  id="signature"
+                  value={signatureName}
+                  onChange={(e) => setSignatureName(e.target.value)}
+                  placeholder={data.candidateName}
+                  className="font-serif italic text-lg"
+                />
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox id="agree" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+                <Label htmlFor="agree" className="text-sm font-normal leading-snug text-muted-foreground">
+                  I accept this offer and agree that typing my name above is my electronic signature. The date, time and
+                  IP address of this signature will be recorded.
+                </Label>
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button variant="ghost" onClick={() => setMode("review")}>
+                  Back
+                </Button>
+                <Button
+                  onClick={() => respond.mutate("accept")}
+                  disabled={!signatureName.trim() || !agreed || respond.isPending}
+                >
+                  {respond.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Accept Offer
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {isOpen && mode === "decline" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Decline this offer</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="decline-reason">Reason</Label>
+                <Textarea
+                  id="decline-reason"
+                  value={declineReason}
+                  onChange={(e) => setDeclineReason(e.target.value)}
+                  placeholder="Let the team know why you are declining"
+                  rows={4}
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button variant="ghost" onClick={() => setMode("review")}>
+                  Back
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => respond.mutate("decline")}
+                  disabled={!declineReason.trim() || respond.isPending}
+                >
+                  {respond.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Decline Offer
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default OfferResponse;
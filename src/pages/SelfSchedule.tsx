@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sparkles, Loader2, AlertCircle, CalendarCheck, Clock, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { invokeFunction } from "@/lib/functions";
+import { toast } from "sonner";
+
+interface Booking {
+  scheduledAt: string;
+  durationMinutes: number;
+  meetingUrl: string | null;
+}
+
+interface SelfScheduleData {
+  candidateName: string;
+  jobTitle: string;
+  interviewType: string;
+  durationMinutes: number;
+  expiresAt: string;
+  booking: Booking | null;
+  canBook: boolean;
+  slots: { start: string; end: string }[];
+}
+
+// Slots are offered and shown in the candidate's own time zone
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const SelfSchedule = () => {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedStart, setSelectedStart] = useState<string | null>(null);
+  const [changing, setChanging] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["self-schedule", token],
+    queryFn: () => invokeFunction<SelfScheduleData>("self-schedule", { action: "get", token, timeZone }),
+    enabled: !!token,
+    retry: false,
+  });
+
+  // Slots grouped by local day, in order
+  const days = useMemo(() => {
+    const groups = new Map<string, Date[]>();
+    for (const slot of data?.slots ?? []) {
+      const start = new Date(slot.start);
+      const key = format(start, "yyyy-MM-dd");
+      groups.set(key, [...(groups.get(key) ?? []), start]);
+    }
+    return [...groups.entries()];
+  }, [data?.slots]);
+
+  const activeDay = days.find(([key]) => key === selectedDay) ?? days[0];
+
+  const book = useMutation({
+    mutationFn: (start: string) =>
+      invokeFunction<{ booking: Booking }>("self-schedule", { action: "book", token, timeZone, start }),
+    onSuccess: () => {
+      toast.success(data?.booking ? "Your interview has been moved" : "Your interview is booked");
+      setSelectedStart(null);
+      setChanging(false);
+      queryClient.invalidateQueries({ queryKey: ["self-schedule", token] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Could not book this time");
+      setSelectedStart(null);
+      queryClient.invalidateQueries({ queryKey: ["self-schedule", token] });
+    },
+  });
+
+  const header = (
+    <div className="flex items-center justify-center space-x-2 mb-8">
+      <div className="w-8 h-8 bg-gradient-to-tr from-primary to-accent rounded-lg flex items-center justify-center">
+        <Sparkles className="w-5 h-5 text-primary-foreground" />
+      </div>
+      <span className="font-display font-bold text-lg tracking-tight text-foreground">
+        Cortex<span className="text-primary">HR</span>
+      </span>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center space-y-4">
+            {header}
+            <AlertCircle className="w-10 h-10 mx-auto text-destructive" />
+            <p className="text-muted-foreground">
+              {error instanceof Error ? error.message : "This scheduling link is not valid."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const picking = data.canBook && (!data.booking || changing);
+
+  return (
+    <div className="min-h-screen bg-background p-4 sm:p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-2xl mx-auto space-y-6"
+      >
+        {header}
+        <div>
+          <h1 className="text-3xl font-display font-bold text-foreground">{data.jobTitle}</h1>
+          <p className="text-muted-foreground mt-1">
+            {data.durationMinutes}-minute {data.interviewType} interview for {data.candidateName}
+          </p>
+        </div>
+
+        {data.booking && (
+          <Card className="border-emerald-500/30 bg-emerald-500/5">
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-center gap-3">
+                <CalendarCheck className="w-6 h-6 text-emerald-500 shrink-0" />
+                <p className="text-foreground">
+                  Your interview is on{" "}
+                  <span className="font-medium">
+                    {format(new Date(data.booking.scheduledAt), "EEEE, MMMM d 'at' h:mm a")}
+                  </span>
+                  . A confirmation has been sent to your email.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {data.booking.meetingUrl && (
+                  <Button variant="outline" size="sm" onClick={() => window.open(data.booking!.meetingUrl!, "_blank")}>
+                    <Video className="w-4 h-4 mr-2" />
+                    Meeting link
+                  </Button>
+                )}
+                {data.canBook && !changing && (
+                  <Button variant="ghost" size="sm" onClick={() => setChanging(true)}>
+                    Choose a different time
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!data.canBook && !data.booking && (
+          <Card>
+            <CardContent className="p-6 flex items-center gap-3">
+              <Clock className="w-6 h-6 text-muted-foreground shrink-0" />
+              <p className="text-muted-foreground">
+                This link can no longer be used to book. Please contact the hiring team.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {picking && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{data.booking ? "Pick a new time" : "Pick a time"}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Times are shown in {timeZone.replace(/_/g, " ")}. Please book by{" "}
+                {format(new Date(data.expiresAt), "MMMM d")}.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {days.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  There are no open times right now. Please check back later or contact the hiring team.
+                </p>
+              ) : (
+                <>
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {days.map(([key, starts]) => (
+                      <Button
+                        key={key}
+                        variant={activeDay?.[0] === key ? "default" : "outline"}
+                        size="sm"
+                        className="shrink-0"
+                        onClick={() => {
+                          setSelectedDay(key);
+                          setSelectedStart(null);
+                        }}
+                      >
+                        {format(starts[0], "EEE, MMM d")}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {activeDay?.[1].map((start) => (
+                      <button
+                        key={start.toISOString()}
+                        type="button"
+                        // The current booking is offered again, but moving to it would change nothing
+                        disabled={!!data.booking && start.getTime() === Date.parse(data.booking.scheduledAt)}
+                        onClick={() => setSelectedStart(start.toISOString())}
+                        className={cn(
+                          "rounded-lg border p-2 text-sm transition-colors hover:bg-secondary/50 disabled:opacity-50 disabled:pointer-events-none",
+                          selectedStart === start.toISOString() ? "border-primary bg-primary/5 font-medium" : "border-border"
+                        )}
+                      >
+                        {format(start, "h:mm a")}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    {changing && (
+                      <Button variant="ghost" onClick={() => setChanging(false)}>
+                        Keep current time
+                      </Button>
+                    )}
+                    <Button onClick={() => selectedStart && book.mutate(selectedStart)} disabled={!selectedStart || book.isPending}>
+                      {book.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {selectedStart
+                        ? `${data.booking ? "Move to" : "Book"} ${format(new Date(selectedStart), "MMM d, h:mm a")}`
+                        : "Select a time"}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default SelfSchedule;
@@ -9,6 +9,13 @@ import { motion } from "framer-motion";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/lib/functions";
+import ScorecardCompetenciesSettings from "@/components/settings/ScorecardCompetenciesSettings";
+import CalendarFeedSettings from "@/components/settings/CalendarFeedSettings";
+import MeetingSettings from "@/components/settings/MeetingSettings";
+import AuditLogSettings from "@/components/settings/AuditLogSettings";
+import RejectionSettings from "@/components/settings/RejectionSettings";
+import DataPrivacySettings from "@/components/settings/DataPrivacySettings";
 import {
   Dialog,
   DialogContent,
@@ -26,7 +33,9 @@ import {
 } from "@/components/ui/select";
 
 const Settings = () => {
-  const { user } = useAuth(true);
+  const { user, can } = useAuth(true);
+  // Calendar connections are personal; shared integrations are admin-only
+  const canManageIntegrations = can('manageIntegrations');
   const [notifications, setNotifications] = useState({
     emailNewApplications: true,
     emailInterviewReminders: true,
@@ -122,13 +131,22 @@ const Settings = () => {
     const redirectUri = `${supabaseUrl}/functions/v1/google-auth-callback`;
     const scope = encodeURIComponent('https://www.googleapis.com/auth/calendar https://www.googleapis.com/auth/calendar.events https://www.googleapis.com/auth/gmail.readonly');
 
-    const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${scope}&access_type=offline&prompt=consent&state=${user.id}`;
-
-    const popup = window.open(authUrl, 'Google Auth', 'width=500,height=600,menubar=no,toolbar=no');
+    // Opened before the state request so the browser still treats it as a response to the click
+    const popup = window.open('', 'Google Auth', 'width=500,height=600,menubar=no,toolbar=no');
 
     if (!popup) {
       toast.error('Popup blocked. Please allow popups for this site.');
       setConnectingGoogle(false);
+      return;
+    }
+
+    try {
+      const { state } = await invokeFunction<{ state: string }>('google-calendar', { action: 'oauth-state' });
+      popup.location.href = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${scope}&access_type=offline&prompt=consent&state=${encodeURIComponent(state)}`;
+    } catch (error) {
+      popup.close();
+      toast.error(error instanceof Error ? error.message : 'Could not start Google sign-in');
+      setConnectingGoogle(false);
     }
   };
 
@@ -410,7 +428,7 @@ const Settings = () => {
             </div>
 
             {/* Gmail Resume Ingestion */}
-            {googleConnected && (
+            {canManageIntegrations && googleConnected && (
               <div className="flex items-center justify-between py-3 border-b border-border bg-secondary/30 rounded-lg px-4 -mx-4">
                 <div className="flex items-center gap-3">
                   <div className="w-10 h-10 rounded-lg bg-red-500/10 flex items-center justify-center">
@@ -441,120 +459,125 @@ const Settings = () => {
               </div>
             )}
 
+            {!canManageIntegrations && (
+              <p className="text-sm text-muted-foreground">
+                Resume import, Slack and other shared integrations are managed by an admin.
+              </p>
+            )}
+
             {/* Slack */}
-            <div className="flex items-center justify-between py-3 border-b border-border">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-lg bg-purple-500/10 flex items-center justify-center">
-                  <MessageSquare className="w-5 h-5 text-purple-500" />
-                </div>
-                <div>
-                  <div className="flex items-center gap-2">
-                    <p className="font-medium text-foreground">Slack</p>
-                    {slackConnected && (
-                      <span className="flex items-center text-xs text-green-600">
-                        <CheckCircle className="w-3 h-3 mr-1" />
-                        Connected
-                      </span>
-                    )}
+            {canManageIntegrations && (
+              <div className="flex items-center justify-between py-3 border-b border-border">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-purple-500/10 flex items-center justify-center">
+                    <MessageSquare className="w-5 h-5 text-purple-500" />
+                  </div>
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground">Slack</p>
+                      {slackConnected && (
+                        <span className="flex items-center text-xs text-green-600">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Connected
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Get instant notifications in your Slack workspace
+                    </p>
                   </div>
-                  <p className="text-sm text-muted-foreground">
-                    Get instant notifications in your Slack workspace
-                  </p>
-                </div>
-              </div>
-              {slackConnected ? (
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleTestSlack}
-                    disabled={testingSlack}
-                  >
-                    {testingSlack ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Test'}
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={handleDisconnectSlack}
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <XCircle className="w-4 h-4 mr-2" />
-                    Disconnect
-                  </Button>
                 </div>
-              ) : (
-                <Dialog open={showSlackDialog} onOpenChange={setShowSlackDialog}>
-                  <DialogTrigger asChild>
-                    <Button variant="outline">
-                      <ExternalLink className="w-4 h-4 mr-2" />
-                      Connect
+                {slackConnected ? (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleTestSlack}
+                      disabled={testingSlack}
+                    >
+                      {testingSlack ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Test'}
                     </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>Connect Slack</DialogTitle>
-                      <DialogDescription>
-                        Enter your Slack webhook URL to receive notifications about new applications, interviews, and more.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4 py-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="webhook-url">Webhook URL</Label>
-                        <Input
-                          id="webhook-url"
-                          placeholder="https://hooks.slack.com/services/..."
-                          value={slackWebhookUrl}
-                          onChange={(e) => setSlackWebhookUrl(e.target.value)}
-                        />
-                      </div>
-                      <div className="bg-secondary/50 rounded-lg p-4 text-sm space-y-2">
-                        <p className="font-medium text-foreground">How to get your webhook URL:</p>
-                        <ol className="list-decimal list-inside text-muted-foreground space-y-1">
-                          <li>Go to api.slack.com/apps</li>
-                          <li>Create a new app or select existing</li>
-                          <li>Enable "Incoming Webhooks"</li>
-                          <li>Add a new webhook to your workspace</li>
-                          <li>Copy the webhook URL</li>
-                        </ol>
-                      </div>
-                    </div>
-                    <div className="flex justify-end gap-2">
-                      <Button variant="outline" onClick={() => setShowSlackDialog(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={handleConnectSlack} disabled={savingSlack || !slackWebhookUrl}>
-                        {savingSlack ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                    <Button
+                      variant="outline"
+                      onClick={handleDisconnectSlack}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Disconnect
+                    </Button>
+                  </div>
+                ) : (
+                  <Dialog open={showSlackDialog} onOpenChange={setShowSlackDialog}>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <ExternalLink className="w-4 h-4 mr-2" />
                         Connect
                       </Button>
-                    </div>
-                  </DialogContent>
-                </Dialog>
-              )}
-            </div>
-
-            {/* Microsoft Teams (Coming Soon) */}
-            <div className="flex items-center justify-between py-3 opacity-60">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-lg bg-blue-600/10 flex items-center justify-center">
-                  <span className="text-lg">📹</span>
-                </div>
-                <div>
-                  <div className="flex items-center gap-2">
-                    <p className="font-medium text-foreground">Microsoft Teams</p>
-                    <span className="text-xs bg-secondary text-muted-foreground px-2 py-0.5 rounded-full">Coming Soon</span>
-                  </div>
-                  <p className="text-sm text-muted-foreground">
-                    Create Teams meetings for interviews
-                  </p>
-                </div>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Connect Slack</DialogTitle>
+                        <DialogDescription>
+                          Enter your Slack webhook URL to receive notifications about new applications, interviews, and more.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="webhook-url">Webhook URL</Label>
+                          <Input
+                            id="webhook-url"
+                            placeholder="https://hooks.slack.com/services/..."
+                            value={slackWebhookUrl}
+                            onChange={(e) => setSlackWebhookUrl(e.target.value)}
+                          />
+                        </div>
+                        <div className="bg-secondary/50 rounded-lg p-4 text-sm space-y-2">
+                          <p className="font-medium text-foreground">How to get your webhook URL:</p>
+                          <ol className="list-decimal list-inside text-muted-foreground space-y-1">
+                            <li>Go to api.slack.com/apps</li>
+                            <li>Create a new app or select existing</li>
+                            <li>Enable "Incoming Webhooks"</li>
+                            <li>Add a new webhook to your workspace</li>
+                            <li>Copy the webhook URL</li>
+                          </ol>
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={() => setShowSlackDialog(false)}>
+                          Cancel
+                        </Button>
+                        <Button onClick={handleConnectSlack} disabled={savingSlack || !slackWebhookUrl}>
+                          {savingSlack ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                          Connect
+                        </Button>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                )}
               </div>
-              <Button variant="outline" disabled>
-                <ExternalLink className="w-4 h-4 mr-2" />
-                Connect
-              </Button>
-            </div>
+
+            )}
           </div>
         </div>
 
+        {/* Video Meetings */}
+        {can('manageMeetingSettings') && <MeetingSettings />}
+
+        {/* Interview Calendar Feed */}
+        <CalendarFeedSettings />
+
+        {/* Interview Scorecards */}
+        <ScorecardCompetenciesSettings />
+
+        {/* Rejection Emails */}
+        {can('manageRejectionSettings') && <RejectionSettings />}
+
+        {/* Data Retention & Privacy */}
+        {can('manageDataPrivacy') && <DataPrivacySettings />}
+
+        {/* Audit Log */}
+        {can('viewAuditLog') && <AuditLogSettings />}
+
         {/* Danger Zone */}
         <div className="pt-8 border-t border-border">
           <h2 className="text-lg font-display font-semibold text-foreground mb-4">Danger Zone</h2>
@@ -80,7 +80,7 @@ const Signup = () => {
 
       toast({
         title: "Account created!",
-        description: "Welcome to CortexHR. You can now sign in.",
+        description: "An admin needs to give you access before you can sign in.",
       });
 
       navigate("/login");
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { motion } from "framer-motion";
+import { UserCog, UserPlus, Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { invokeFunction } from "@/lib/functions";
+import { APP_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, primaryRole, type AppRole } from "@/lib/roles";
+
+interface StaffUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+  created_at: string;
+  roles: AppRole[];
+}
+
+// Select value for staff without any role; they can sign in but not use the dashboard
+const NO_ACCESS = "none";
+
+const emptyInvite = { email: "", fullName: "", role: "recruiter" as AppRole };
+
+const Users = () => {
+  const { user, loading: authLoading, can } = useAuth(true);
+  const queryClient = useQueryClient();
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState(emptyInvite);
+
+  const { data: users, isLoading } = useQuery({
+    queryKey: ["staff-users"],
+    queryFn: async () => {
+      const { users } = await invokeFunction<{ users: StaffUser[] }>("manage-users", { action: "list" });
+      return users;
+    },
+    enabled: !authLoading && can("manageUsers"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: (data: typeof emptyInvite) =>
+      invokeFunction("manage-users", {
+        action: "invite",
+        email: data.email,
+        fullName: data.fullName,
+        role: data.role,
+        redirectTo: `${window.location.origin}/auth/callback`,
+      }),
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["staff-users"] });
+      queryClient.invalidateQueries({ queryKey: ["hr-members"] });
+      toast.success(`Invitation sent to ${data.email}`);
+      setInviteOpen(false);
+      setInvite(emptyInvite);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to invite: ${error.message}`);
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: AppRole | null }) =>
+      invokeFunction("manage-users", { action: "set_role", userId, role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff-users"] });
+      toast.success("Role updated");
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update role: ${error.message}`);
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite.email.trim()) {
+      toast.error("Email is required");
+      return;
+    }
+    inviteMutation.mutate(invite);
+  };
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+              <UserCog className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-display font-bold text-foreground tracking-tight">
+                Users
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Invite team members and manage what they can access
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => setInviteOpen(true)}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite User
+          </Button>
+        </div>
+
+        {/* Role summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {APP_ROLES.map((role) => (
+            <Card key={role} className="bg-card border-border">
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-foreground">{ROLE_LABELS[role]}</p>
+                  <span className="text-2xl font-bold text-foreground">
+                    {users?.filter((u) => primaryRole(u.roles) === role).length ?? 0}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{ROLE_DESCRIPTIONS[role]}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Users List */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card className="bg-card border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="w-56">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users?.map((member) => {
+                  const role = primaryRole(member.roles);
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium text-foreground">
+                        {member.full_name || member.email}
+                        {member.id === user?.id && (
+                          <Badge variant="secondary" className="ml-2">You</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{member.email}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(member.created_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={role ?? NO_ACCESS}
+                          onValueChange={(value) =>
+                            roleMutation.mutate({
+                              userId: member.id,
+                              role: value === NO_ACCESS ? null : (value as AppRole),
+                            })
+                          }
+                          disabled={roleMutation.isPending}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {APP_ROLES.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {ROLE_LABELS[option]}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value={NO_ACCESS}>No access</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </motion.div>
+
+      {/* Invite Dialog */}
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              They'll receive an email with a link to set up their account.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email *</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                placeholder="name@company.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-name">Full Name</Label>
+              <Input
+                id="invite-name"
+                value={invite.fullName}
+                onChange={(e) => setInvite({ ...invite, fullName: e.target.value })}
+                placeholder="Jane Smith"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select
+                value={invite.role}
+                onValueChange={(value) => setInvite({ ...invite, role: value as AppRole })}
+              >
+                <SelectTrigger id="invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APP_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[invite.role]}</p>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setInviteOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                Send Invite
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default Users;
@@ -1,94 +1,273 @@
 // AI Provider Abstraction Layer
 // Supports: Aiapi AI (default), OpenAI, HuggingFace
+//
+// Every edge function talks to models through createCompletion, createStructuredCompletion or
+// createJSONCompletion.
+// Providers are tried in order (AI_PROVIDER_CHAIN, e.g. "openai,aiapi"); a provider that is
+// rate limited, erroring (5xx) or timing out is retried with backoff, then the next one is used.
+// Structured outputs are validated against a schema and get one repair round-trip before failing.
 
 export type AIProvider = 'aiapi' | 'openai' | 'huggingface';
 
+export type AIContentPart =
+  | { type: 'text'; text: string }
+  // Base64 encoded file (PDF, image) sent to vision-capable models
+  | { type: 'document'; mimeType: string; data: string };
+
+export interface AIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
 export interface AIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | AIContentPart[] | null;
+  tool_calls?: AIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
 }
 
 export interface AICompletionRequest {
   messages: AIMessage[];
-  model?: string;
   temperature?: number;
   maxTokens?: number;
+  tools?: AIToolDefinition[];
+  toolChoice?: 'auto' | 'none' | { name: string };
+  // Per-attempt timeout; document extraction needs more than chat
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Restrict the chain, e.g. to continue a tool-calling conversation on the same provider
+  providers?: AIProvider[];
 }
 
 export interface AICompletionResponse {
   content: string;
+  toolCalls: AIToolCall[];
+  // Assistant message to append when continuing the conversation (tool calling)
+  message: AIMessage;
   provider: AIProvider;
   model: string;
 }
 
+export type AIErrorCode =
+  | 'not_configured'
+  | 'unsupported'
+  | 'rate_limited'
+  | 'credits_exhausted'
+  | 'timeout'
+  | 'provider_error'
+  | 'invalid_response'
+  // The model answered, but even after a repair attempt the output did not match the schema
+  | 'invalid_output';
+
+export class AIError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AIErrorCode,
+    public readonly provider?: AIProvider,
+    public readonly status?: number,
+    // Retry-After header from the provider, honoured by the backoff
+    public readonly retryAfter: string | null = null,
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+
+  // Transient failures are retried and then handed to the next provider in the chain
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'timeout' || this.code === 'provider_error';
+  }
+
+  // Status code an edge function should answer with when surfacing this error
+  get httpStatus(): number {
+    switch (this.code) {
+      case 'rate_limited': return 429;
+      case 'credits_exhausted': return 402;
+      case 'timeout': return 504;
+      case 'not_configured': return 500;
+      case 'invalid_output': return 422;
+      default: return 502;
+    }
+  }
+}
+
+// Structural match for zod schemas (see ai-schemas.ts) so callers pick the validator
+export interface AISchema<T> {
+  safeParse(data: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: { path: (string | number)[]; message: string }[] } };
+}
+
+interface ProviderConfig {
+  baseUrl: string;
+  apiKeyEnv: string;
+  defaultModel: string;
+  modelEnv: string;
+  supportsTools: boolean;
+  supportsDocuments: boolean;
+}
+
 // Provider configurations
-const PROVIDER_CONFIGS = {
+const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
   aiapi: {
     baseUrl: 'https://ai.gateway.aiapi.dev/v1/chat/completions',
+    apiKeyEnv: 'AIAPI_API_KEY',
     defaultModel: 'google/gemini-2.5-flash',
-    getHeaders: () => ({
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${Deno.env.get('AIAPI_API_KEY')}`,
-    }),
+    modelEnv: 'AIAPI_MODEL',
+    supportsTools: true,
+    supportsDocuments: true,
   },
   openai: {
     baseUrl: 'https://api.openai.com/v1/chat/completions',
+    apiKeyEnv: 'OPENAI_API_KEY',
     defaultModel: 'gpt-4o-mini',
-    getHeaders: () => ({
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-    }),
+    modelEnv: 'OPENAI_MODEL',
+    supportsTools: true,
+    supportsDocuments: true,
   },
   huggingface: {
     baseUrl: 'https://api-inference.huggingface.co/models',
+    apiKeyEnv: 'HUGGINGFACE_API_KEY',
     defaultModel: 'mistralai/Mixtral-8x7B-Instruct-v0.1',
-    getHeaders: () => ({
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${Deno.env.get('HUGGINGFACE_API_KEY')}`,
-    }),
+    modelEnv: 'HUGGINGFACE_MODEL',
+    supportsTools: false,
+    supportsDocuments: false,
   },
 };
 
+const DEFAULT_CHAIN: AIProvider[] = ['aiapi', 'openai', 'huggingface'];
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+
+const isProvider = (value: string): value is AIProvider => value in PROVIDER_CONFIGS;
+
+const isConfigured = (provider: AIProvider) => !!Deno.env.get(PROVIDER_CONFIGS[provider].apiKeyEnv);
+
+const getModel = (provider: AIProvider) =>
+  Deno.env.get(PROVIDER_CONFIGS[provider].modelEnv) || PROVIDER_CONFIGS[provider].defaultModel;
+
+// Ordered providers to try: AI_PROVIDER_CHAIN if set, otherwise every provider with an API key
+export function getProviderChain(): AIProvider[] {
+  const configured = Deno.env.get('AI_PROVIDER_CHAIN');
+  const chain = configured
+    ? configured.split(',').map((p) => p.trim().toLowerCase()).filter(isProvider)
+    : DEFAULT_CHAIN;
+
+  return chain.filter(isConfigured);
+}
+
 // Detect available provider based on configured API keys
 export function getAvailableProvider(): AIProvider {
-  // Priority: OpenAI > HuggingFace > Aiapi (fallback)
-  if (Deno.env.get('OPENAI_API_KEY')) {
-    console.log('Using OpenAI provider');
-    return 'openai';
+  const [provider] = getProviderChain();
+  if (!provider) {
+    throw new AIError(
+      'No AI provider configured. Set AIAPI_API_KEY, OPENAI_API_KEY, or HUGGINGFACE_API_KEY.',
+      'not_configured',
+    );
   }
-  if (Deno.env.get('HUGGINGFACE_API_KEY')) {
-    console.log('Using HuggingFace provider');
-    return 'huggingface';
+  return provider;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
   }
-  if (Deno.env.get('AIAPI_API_KEY')) {
-    console.log('Using Aiapi AI provider');
-    return 'aiapi';
+  return btoa(binary);
+};
+
+// Build a multimodal content part from raw file bytes
+export function documentPart(bytes: Uint8Array, mimeType: string): AIContentPart {
+  return { type: 'document', mimeType, data: toBase64(bytes) };
+}
+
+const hasDocuments = (messages: AIMessage[]) =>
+  messages.some((m) => Array.isArray(m.content) && m.content.some((part) => part.type === 'document'));
+
+const textOf = (content: AIMessage['content']) =>
+  typeof content === 'string'
+    ? content
+    : (content || []).map((part) => (part.type === 'text' ? part.text : '')).join('\n');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
   }
-  throw new Error('No AI provider configured. Set AIAPI_API_KEY, OPENAI_API_KEY, or HUGGINGFACE_API_KEY.');
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
 }
 
-// Make completion request to the selected provider
-export async function createCompletion(
-  request: AICompletionRequest,
-  provider?: AIProvider
-): Promise<AICompletionResponse> {
-  const selectedProvider = provider || getAvailableProvider();
-  const config = PROVIDER_CONFIGS[selectedProvider];
+// OpenAI-compatible wire format; documents become image_url data URLs (images, or any file for
+// the gateway) or OpenAI file inputs for PDFs
+function toOpenAIContent(provider: AIProvider, content: AIMessage['content']) {
+  if (!Array.isArray(content)) return content;
+
+  return content.map((part) => {
+    if (part.type === 'text') return part;
+    const dataUrl = `data:${part.mimeType};base64,${part.data}`;
+    if (provider === 'openai' && !part.mimeType.startsWith('image/')) {
+      return { type: 'file', file: { filename: 'document.pdf', file_data: dataUrl } };
+    }
+    return { type: 'image_url', image_url: { url: dataUrl } };
+  });
+}
 
-  if (!config) {
-    throw new Error(`Unknown AI provider: ${selectedProvider}`);
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, provider: AIProvider) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new AIError(`${provider} request timed out after ${timeoutMs}ms`, 'timeout', provider);
+    }
+    // Network failures are treated like a 5xx so the chain moves on
+    throw new AIError(`${provider} request failed: ${error instanceof Error ? error.message : error}`, 'provider_error', provider);
+  } finally {
+    clearTimeout(timer);
   }
+}
 
-  const model = request.model || config.defaultModel;
+async function errorFromResponse(provider: AIProvider, response: Response): Promise<AIError> {
+  const errorText = await response.text();
+  const retryAfter = response.headers.get('retry-after');
+  console.error(`${provider} API error:`, response.status, errorText);
 
-  if (selectedProvider === 'huggingface') {
-    return await createHuggingFaceCompletion(request, model);
+  if (response.status === 429) {
+    return new AIError('Rate limit exceeded. Please try again later.', 'rate_limited', provider, 429, retryAfter);
+  }
+  if (response.status === 402) {
+    return new AIError('AI credits exhausted. Please add funds.', 'credits_exhausted', provider, 402);
   }
+  if (response.status >= 500) {
+    return new AIError(`${provider} API failed (${response.status}): ${errorText}`, 'provider_error', provider, response.status, retryAfter);
+  }
+  return new AIError(`${provider} API rejected the request (${response.status}): ${errorText}`, 'invalid_response', provider, response.status);
+}
+
+async function callOpenAICompatible(
+  provider: AIProvider,
+  request: AICompletionRequest,
+  timeoutMs: number,
+): Promise<AICompletionResponse> {
+  const config = PROVIDER_CONFIGS[provider];
+  const model = getModel(provider);
 
-  // OpenAI-compatible API (Aiapi AI and OpenAI)
   const body: Record<string, unknown> = {
     model,
-    messages: request.messages,
+    messages: request.messages.map((m) => ({ ...m, content: toOpenAIContent(provider, m.content) })),
   };
 
   if (request.temperature !== undefined) {
@@ -97,91 +276,262 @@ export async function createCompletion(
   if (request.maxTokens !== undefined) {
     body.max_tokens = request.maxTokens;
   }
+  if (request.tools?.length) {
+    body.tools = request.tools.map((tool) => ({ type: 'function', function: tool }));
+    if (request.toolChoice) {
+      body.tool_choice = typeof request.toolChoice === 'string'
+        ? request.toolChoice
+        : { type: 'function', function: { name: request.toolChoice.name } };
+    }
+  }
 
-  const response = await fetch(config.baseUrl, {
+  const response = await fetchWithTimeout(config.baseUrl, {
     method: 'POST',
-    headers: config.getHeaders(),
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get(config.apiKeyEnv)}`,
+    },
     body: JSON.stringify(body),
-  });
+  }, timeoutMs, provider);
 
   if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`${selectedProvider} API error:`, errorText);
-
-    // Handle rate limits
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    if (response.status === 402) {
-      throw new Error('AI credits exhausted. Please add funds.');
-    }
-
-    throw new Error(`${selectedProvider} API failed: ${errorText}`);
+    throw await errorFromResponse(provider, response);
   }
 
   const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
+  const message = data.choices?.[0]?.message;
+  const content: string = message?.content || '';
+  const toolCalls: AIToolCall[] = message?.tool_calls || [];
 
-  if (!content) {
-    throw new Error('No content received from AI provider');
+  if (!content && toolCalls.length === 0) {
+    throw new AIError('No content received from AI provider', 'invalid_response', provider);
   }
 
   return {
     content,
-    provider: selectedProvider,
+    toolCalls,
+    message: { role: 'assistant', content: message.content ?? null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) },
+    provider,
     model,
   };
 }
 
-// HuggingFace Inference API has a different format
-async function createHuggingFaceCompletion(
-  request: AICompletionRequest,
-  model: string
-): Promise<AICompletionResponse> {
+// HuggingFace Inference API has a different format and is text only
+async function callHuggingFace(request: AICompletionRequest, timeoutMs: number): Promise<AICompletionResponse> {
   const config = PROVIDER_CONFIGS.huggingface;
+  const model = getModel('huggingface');
 
   // Format messages for HuggingFace chat format
   const formattedPrompt = request.messages
     .map(m => {
-      if (m.role === 'system') return `<s>[INST] <<SYS>>\n${m.content}\n<</SYS>>\n\n`;
-      if (m.role === 'user') return `${m.content} [/INST]`;
-      return `${m.content} </s><s>[INST] `;
+      const text = textOf(m.content);
+      if (m.role === 'system') return `<s>[INST] <<SYS>>\n${text}\n<</SYS>>\n\n`;
+      if (m.role === 'user') return `${text} [/INST]`;
+      return `${text} </s><s>[INST] `;
     })
     .join('');
 
-  const response = await fetch(`${config.baseUrl}/${model}`, {
+  const response = await fetchWithTimeout(`${config.baseUrl}/${model}`, {
     method: 'POST',
-    headers: config.getHeaders(),
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get(config.apiKeyEnv)}`,
+    },
     body: JSON.stringify({
       inputs: formattedPrompt,
       parameters: {
         max_new_tokens: request.maxTokens || 4096,
-        temperature: request.temperature || 0.7,
+        temperature: request.temperature ?? 0.7,
         return_full_text: false,
       },
     }),
-  });
+  }, timeoutMs, 'huggingface');
 
   if (!response.ok) {
-    const errorText = await response.text();
-    console.error('HuggingFace API error:', errorText);
-    throw new Error(`HuggingFace API failed: ${errorText}`);
+    throw await errorFromResponse('huggingface', response);
   }
 
   const data = await response.json();
   const content = Array.isArray(data) ? data[0]?.generated_text : data.generated_text;
 
   if (!content) {
-    throw new Error('No content received from HuggingFace');
+    throw new AIError('No content received from HuggingFace', 'invalid_response', 'huggingface');
   }
 
   return {
     content,
+    toolCalls: [],
+    message: { role: 'assistant', content },
     provider: 'huggingface',
     model,
   };
 }
 
+// Make a completion request, retrying and falling back across the provider chain
+export async function createCompletion(request: AICompletionRequest): Promise<AICompletionResponse> {
+  const needsTools = !!request.tools?.length;
+  const needsDocuments = hasDocuments(request.messages);
+
+  const chain = (request.providers || getProviderChain())
+    .filter(isConfigured)
+    .filter((p) => (!needsTools || PROVIDER_CONFIGS[p].supportsTools) && (!needsDocuments || PROVIDER_CONFIGS[p].supportsDocuments));
+
+  if (chain.length === 0) {
+    throw new AIError(
+      needsTools || needsDocuments
+        ? 'No configured AI provider supports this request (tools or document input).'
+        : 'No AI provider configured. Set AIAPI_API_KEY, OPENAI_API_KEY, or HUGGINGFACE_API_KEY.',
+      needsTools || needsDocuments ? 'unsupported' : 'not_configured',
+    );
+  }
+
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let lastError: AIError | null = null;
+
+  for (const provider of chain) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        const response = provider === 'huggingface'
+          ? await callHuggingFace(request, timeoutMs)
+          : await callOpenAICompatible(provider, request, timeoutMs);
+
+        if (lastError) {
+          console.log(`AI request succeeded on ${provider} after earlier failure: ${lastError.message}`);
+        }
+        return response;
+      } catch (error) {
+        const aiError = error instanceof AIError
+          ? error
+          : new AIError(error instanceof Error ? error.message : 'Unknown AI error', 'provider_error', provider);
+        lastError = aiError;
+
+        // Bad requests and billing problems will not improve by retrying or switching provider
+        if (!aiError.retryable) throw aiError;
+
+        if (attempt < maxRetries) {
+          const delay = backoffDelay(attempt, aiError.retryAfter);
+          console.warn(`${provider} attempt ${attempt + 1} failed (${aiError.code}), retrying in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        }
+      }
+    }
+    console.warn(`${provider} exhausted retries, falling back to next provider`);
+  }
+
+  throw lastError!;
+}
+
+type ValidationResult<T> = { success: true; data: T } | { success: false; issues: string };
+
+function validateOutput<T>(raw: string, schema: AISchema<T>): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = parseAIJSON<unknown>(raw);
+  } catch {
+    return { success: false, issues: 'output is not valid JSON' };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) return { success: true, data: result.data };
+
+  const issues = result.error.issues
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+  return { success: false, issues };
+}
+
+export interface AIStructuredResponse<T> {
+  data: T;
+  provider: AIProvider;
+  model: string;
+  // True when the first answer failed validation and the repaired one was used
+  repaired: boolean;
+}
+
+// Validate the model output; on failure send it back once with the validation errors, on the
+// same provider, and validate the corrected answer
+async function completeWithRepair<T>(
+  request: AICompletionRequest,
+  schema: AISchema<T>,
+  label: string,
+  extract: (response: AICompletionResponse) => string,
+  repairMessages: (response: AICompletionResponse, issues: string) => AIMessage[],
+): Promise<AIStructuredResponse<T>> {
+  const response = await createCompletion(request);
+  const first = validateOutput(extract(response), schema);
+  if (first.success) {
+    return { data: first.data, provider: response.provider, model: response.model, repaired: false };
+  }
+
+  console.warn(`${response.provider} returned invalid ${label} output, requesting repair: ${first.issues}`);
+
+  const repair = await createCompletion({
+    ...request,
+    messages: [...request.messages, ...repairMessages(response, first.issues)],
+    providers: [response.provider],
+  });
+  const second = validateOutput(extract(repair), schema);
+  if (second.success) {
+    return { data: second.data, provider: repair.provider, model: repair.model, repaired: true };
+  }
+
+  throw new AIError(`AI returned invalid ${label} output: ${second.issues}`, 'invalid_output', repair.provider);
+}
+
+// Force a single tool call and return its arguments validated against the schema
+export async function createStructuredCompletion<T>(
+  request: Omit<AICompletionRequest, 'tools' | 'toolChoice'>,
+  tool: AIToolDefinition,
+  schema: AISchema<T>,
+): Promise<AIStructuredResponse<T>> {
+  const toolCallOf = (response: AICompletionResponse) =>
+    response.toolCalls.find((call) => call.function.name === tool.name);
+
+  return completeWithRepair(
+    { ...request, tools: [tool], toolChoice: { name: tool.name } },
+    schema,
+    tool.name,
+    (response) => toolCallOf(response)?.function.arguments || response.content,
+    (response, issues) => {
+      const instruction = `The ${tool.name} output was invalid: ${issues}. Call ${tool.name} again with corrected arguments that satisfy the schema.`;
+      const toolCall = toolCallOf(response);
+      if (!toolCall) return [response.message, { role: 'user', content: instruction }];
+      // Every tool call in the assistant message needs a matching tool result
+      return [
+        response.message,
+        ...response.toolCalls.map((call): AIMessage => ({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: call.id === toolCall.id ? instruction : 'Ignored.',
+        })),
+      ];
+    },
+  );
+}
+
+// Plain completion whose message body must be JSON matching the schema (for providers or
+// prompts that do not use tool calling)
+export async function createJSONCompletion<T>(
+  request: Omit<AICompletionRequest, 'tools' | 'toolChoice'>,
+  schema: AISchema<T>,
+  label: string,
+): Promise<AIStructuredResponse<T>> {
+  return completeWithRepair(
+    request,
+    schema,
+    label,
+    (response) => response.content,
+    (response, issues) => [
+      response.message,
+      {
+        role: 'user',
+        content: `That response was not valid: ${issues}. Reply again with ONLY the corrected JSON object, no markdown or commentary.`,
+      },
+    ],
+  );
+}
+
 // Parse JSON from AI response (handles markdown code blocks)
 export function parseAIJSON<T>(content: string): T {
   const cleanedText = content.replace(/```json\n?|\n?```/g, '').trim();
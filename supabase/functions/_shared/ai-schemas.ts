@@ -0,0 +1,128 @@
+// Runtime schemas for every structured AI output. Model responses are validated against these
+// before anything is stored; see createStructuredCompletion / createJSONCompletion.
+import { z } from "https://esm.sh/zod@3.23.8";
+import type { ScoringRubric } from "./rubric.ts";
+
+// Models often send null for "not found"; treat it like a missing optional field
+const optionalString = z.string().nullish();
+const stringList = z.array(z.string()).default([]);
+
+const scoreComponent = (max: number) =>
+  z.object({
+    points: z.number().min(0).max(max),
+    justification: z.string().min(1),
+  });
+
+// The breakdown follows the job's rubric: one component per dimension, capped at its weight, and
+// one verdict per knockout requirement. The overall score is derived from the breakdown.
+export const resumeAnalysisSchema = (rubric: ScoringRubric) => z.object({
+  score: z.number().nullish(),
+  score_breakdown: z.object(
+    Object.fromEntries(rubric.dimensions.map((d) => [d.key, scoreComponent(d.weight)])),
+  ),
+  knockouts: z
+    .array(z.object({ requirement: z.string(), met: z.boolean(), evidence: optionalString }))
+    .length(rubric.knockouts.length)
+    .default([]),
+  score_justification: z.string().min(1),
+  summary: z.string().min(1),
+  skills: z
+    .array(
+      z.object({
+        name: z.string(),
+        level: optionalString,
+        years: z.number().nullish(),
+      }),
+    )
+    .default([]),
+  experience_years: z.number().nullish(),
+  current_role: optionalString,
+  current_company: optionalString,
+  education_level: optionalString,
+  education_field: optionalString,
+  certifications: stringList,
+  languages: z
+    .array(z.object({ language: z.string(), proficiency: optionalString }))
+    .default([]),
+  strengths: stringList,
+  concerns: stringList,
+  red_flags: stringList,
+  recommendations: stringList,
+  contact_info: z
+    .object({ email: optionalString, phone: optionalString, location: optionalString })
+    .nullish(),
+  github_url: optionalString,
+  linkedin_url: optionalString,
+  portfolio_url: optionalString,
+  salary_expectation: optionalString,
+  availability: optionalString,
+  interview_questions: stringList,
+});
+
+export type ResumeAnalysis = z.infer<ReturnType<typeof resumeAnalysisSchema>>;
+
+export const ParsedResumeSchema = z.object({
+  name: z.string().min(1),
+  email: optionalString,
+  phone: optionalString,
+  location: optionalString,
+  summary: optionalString,
+  experience: z.array(
+    z.object({
+      title: z.string(),
+      company: z.string(),
+      duration: optionalString,
+      description: optionalString,
+    }),
+  ),
+  education: z.array(
+    z.object({
+      degree: z.string(),
+      institution: z.string(),
+      year: optionalString,
+    }),
+  ),
+  skills: z.array(z.string()),
+  certifications: stringList,
+  languages: stringList,
+  github_url: optionalString,
+  linkedin_url: optionalString,
+  portfolio_url: optionalString,
+});
+
+export type ParsedResume = z.infer<typeof ParsedResumeSchema>;
+
+export const InterviewQuestionSchema = z.object({
+  question: z.string().min(1),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  category: z.string().min(1),
+  followUp: optionalString,
+  expectedInsights: optionalString,
+});
+
+export const InterviewQuestionsSchema = z.object({
+  questions: z.array(InterviewQuestionSchema).min(1),
+});
+
+export type InterviewQuestion = z.infer<typeof InterviewQuestionSchema>;
+
+export const PortfolioAnalysisSchema = z.object({
+  skill_level: z.enum(["beginner", "intermediate", "advanced", "expert"]),
+  primary_languages: z.array(z.string()),
+  technologies: z.array(z.string()),
+  strengths: z.array(z.string()),
+  concerns: stringList,
+  project_highlights: stringList,
+  recommendation: z.enum(["strongly_recommend", "recommend", "consider", "not_recommended"]),
+  summary: z.string().min(1),
+});
+
+export type PortfolioAnalysis = z.infer<typeof PortfolioAnalysisSchema>;
+
+export const EmailDraftSchema = z.object({
+  subject: z.string().min(1),
+  body: z.string().min(1),
+  htmlBody: z.string().min(1),
+});
+
+export type EmailDraft = z.infer<typeof EmailDraftSchema>;
@@ -0,0 +1,40 @@
+// Audit entries for actions taken inside edge functions. Row changes made with the service role are
+// also captured by the audit_row_change triggers, but only as 'system'; these entries name the actor.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AuthContext } from "./auth.ts";
+
+export interface AuditEvent {
+  // Namespaced like the trigger actions, e.g. 'offer.sent' or 'user.role_changed'
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  candidateId?: string | null;
+  changes?: Record<string, { old?: unknown; new?: unknown }>;
+  metadata?: Record<string, unknown>;
+}
+
+export type AuditActor =
+  | { type: 'user'; id: string }
+  | { type: 'candidate'; id: string }
+  | { type: 'system' };
+
+export const actorFromAuth = (auth: AuthContext): AuditActor =>
+  auth.mode === 'staff' ? { type: 'user', id: auth.user.id } : { type: 'system' };
+
+// Never throws: a failed audit write is logged but does not undo the action it describes
+export async function recordAudit(supabase: SupabaseClient, actor: AuditActor, event: AuditEvent): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert({
+    actor_id: actor.type === 'system' ? null : actor.id,
+    actor_type: actor.type,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId ?? null,
+    candidate_id: event.candidateId ?? null,
+    changes: event.changes ?? {},
+    metadata: event.metadata ?? {},
+  });
+
+  if (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error);
+  }
+}
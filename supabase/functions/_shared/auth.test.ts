@@ -0,0 +1,246 @@
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AccessError, BadRequestError, authorize, createOAuthState, verifyOAuthState, type AuthPolicy } from "./auth.ts";
+
+const SECRET = 'test-internal-secret';
+const ANON_KEY = 'anon-key';
+
+// JWT -> user id, user id -> roles, as the service client would resolve them
+const { sessions, userRoles } = vi.hoisted(() => ({
+  sessions: new Map<string, string>(),
+  userRoles: new Map<string, string[]>(),
+}));
+
+vi.mock("https://esm.sh/@supabase/supabase-js@2", () => ({
+  createClient: () => ({
+    auth: {
+      getUser: async (jwt: string) => {
+        const id = sessions.get(jwt);
+        return id
+          ? { data: { user: { id } }, error: null }
+          : { data: { user: null }, error: new Error('invalid JWT') };
+      },
+    },
+    from: () => ({
+      select: () => ({
+        eq: async (_column: string, userId: string) => ({
+          data: (userRoles.get(userId) ?? []).map((role) => ({ role })),
+          error: null,
+        }),
+      }),
+    }),
+  }),
+}));
+
+const STAFF_POLICY: AuthPolicy = { modes: ['staff'] };
+const ADMIN_POLICY: AuthPolicy = { modes: ['staff'], roles: ['admin'] };
+const INTERNAL_POLICY: AuthPolicy = { modes: ['internal'] };
+const CANDIDATE_POLICY: AuthPolicy = { modes: ['candidate'] };
+const PORTAL_POLICY: AuthPolicy = { modes: ['candidate', 'public'] };
+
+const request = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/functions/v1/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+const bearer = (jwt: string) => ({ authorization: `Bearer ${jwt}` });
+
+// Signs the way invokeInternal and the pg_net trigger do
+function signed(body: unknown, { secret = SECRET, timestamp = Math.floor(Date.now() / 1000) } = {}) {
+  const rawBody = JSON.stringify(body);
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  return { 'x-internal-timestamp': String(timestamp), 'x-internal-signature': signature };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<AccessError> {
+  const error = await promise.then(() => null, (thrown: unknown) => thrown);
+  expect(error).toBeInstanceOf(AccessError);
+  return error as AccessError;
+}
+
+beforeEach(() => {
+  vi.stubEnv('INTERNAL_TRIGGER_SECRET', SECRET);
+  vi.stubEnv('SUPABASE_ANON_KEY', ANON_KEY);
+  vi.stubEnv('SUPABASE_URL', 'http://localhost');
+  vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key');
+
+  sessions.set('recruiter-jwt', 'recruiter-id');
+  sessions.set('admin-jwt', 'admin-id');
+  sessions.set('no-role-jwt', 'no-role-id');
+  userRoles.set('recruiter-id', ['recruiter']);
+  userRoles.set('admin-id', ['admin']);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('authorize', () => {
+  it('rejects a body that is not JSON as a bad request', async () => {
+    const req = new Request('http://localhost/functions/v1/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...bearer('recruiter-jwt') },
+      body: '{"id": 1',
+    });
+    const error = await authorize(req, STAFF_POLICY).then(() => null, (thrown: unknown) => thrown);
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect((error as BadRequestError).status).toBe(400);
+  });
+
+  it('treats an empty body as an empty object', async () => {
+    const req = new Request('http://localhost/functions/v1/test', { method: 'POST', headers: bearer('recruiter-jwt') });
+    const { body } = await authorize(req, STAFF_POLICY);
+    expect(body).toEqual({});
+  });
+});
+
+describe('authorize in staff mode', () => {
+  it('accepts a staff user', async () => {
+    const { auth, body } = await authorize(request({ id: 1 }, bearer('recruiter-jwt')), STAFF_POLICY);
+    expect(auth).toMatchObject({ mode: 'staff', user: { id: 'recruiter-id' }, roles: ['recruiter'] });
+    expect(body).toEqual({ id: 1 });
+  });
+
+  it('rejects anonymous calls', async () => {
+    expect((await rejection(authorize(request({}), STAFF_POLICY))).status).toBe(401);
+  });
+
+  it('rejects the anon key as a bearer', async () => {
+    expect((await rejection(authorize(request({}, bearer(ANON_KEY)), STAFF_POLICY))).status).toBe(401);
+  });
+
+  it('rejects an unknown JWT', async () => {
+    expect((await rejection(authorize(request({}, bearer('forged-jwt')), STAFF_POLICY))).status).toBe(401);
+  });
+
+  it('rejects users without a staff role', async () => {
+    expect((await rejection(authorize(request({}, bearer('no-role-jwt')), STAFF_POLICY))).status).toBe(403);
+  });
+
+  it('rejects roles outside the policy', async () => {
+    expect((await rejection(authorize(request({}, bearer('recruiter-jwt')), ADMIN_POLICY))).status).toBe(403);
+    await expect(authorize(request({}, bearer('admin-jwt')), ADMIN_POLICY)).resolves.toBeTruthy();
+  });
+
+  it('rejects signed internal calls', async () => {
+    const body = { id: 1 };
+    expect((await rejection(authorize(request(body, signed(body)), STAFF_POLICY))).status).toBe(403);
+  });
+});
+
+describe('authorize in internal mode', () => {
+  it('accepts a correctly signed call', async () => {
+    const body = { applicationId: 'app-1' };
+    const { auth } = await authorize(request(body, signed(body)), INTERNAL_POLICY);
+    expect(auth).toEqual({ mode: 'internal' });
+  });
+
+  it('rejects anonymous calls', async () => {
+    expect((await rejection(authorize(request({}), INTERNAL_POLICY))).status).toBe(401);
+  });
+
+  it('rejects staff users', async () => {
+    expect((await rejection(authorize(request({}, bearer('admin-jwt')), INTERNAL_POLICY))).status).toBe(401);
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const body = { applicationId: 'app-1' };
+    const headers = signed(body, { secret: 'wrong-secret' });
+    expect((await rejection(authorize(request(body, headers), INTERNAL_POLICY))).status).toBe(401);
+  });
+
+  it('rejects a signature for a different body', async () => {
+    const headers = signed({ applicationId: 'app-1' });
+    expect((await rejection(authorize(request({ applicationId: 'app-2' }, headers), INTERNAL_POLICY))).status).toBe(401);
+  });
+
+  it('rejects a stale signature', async () => {
+    const body = { applicationId: 'app-1' };
+    const headers = signed(body, { timestamp: Math.floor(Date.now() / 1000) - 600 });
+    expect((await rejection(authorize(request(body, headers), INTERNAL_POLICY))).status).toBe(401);
+  });
+
+  it('rejects a signature without a timestamp', async () => {
+    const body = { applicationId: 'app-1' };
+    const { 'x-internal-signature': signature } = signed(body);
+    const headers = { 'x-internal-signature': signature };
+    expect((await rejection(authorize(request(body, headers), INTERNAL_POLICY))).status).toBe(401);
+  });
+});
+
+describe('authorize in candidate mode', () => {
+  it('accepts a link token', async () => {
+    const { auth } = await authorize(request({ token: 'link-token' }), CANDIDATE_POLICY);
+    expect(auth).toEqual({ mode: 'candidate', token: 'link-token' });
+  });
+
+  it('rejects anonymous calls without a token', async () => {
+    expect((await rejection(authorize(request({}), CANDIDATE_POLICY))).status).toBe(401);
+  });
+
+  it('rejects blank and non-string tokens', async () => {
+    expect((await rejection(authorize(request({ token: '  ' }), CANDIDATE_POLICY))).status).toBe(401);
+    expect((await rejection(authorize(request({ token: { id: 1 } }), CANDIDATE_POLICY))).status).toBe(401);
+  });
+
+  it('does not let a staff JWT stand in for a token', async () => {
+    expect((await rejection(authorize(request({}, bearer('admin-jwt')), CANDIDATE_POLICY))).status).toBe(401);
+  });
+
+  it('rejects signed internal calls', async () => {
+    const body = { token: 'link-token' };
+    expect((await rejection(authorize(request(body, signed(body)), CANDIDATE_POLICY))).status).toBe(403);
+  });
+});
+
+describe('authorize in public mode', () => {
+  it('accepts anonymous calls', async () => {
+    const { auth, body } = await authorize(request({ action: 'apply' }), PORTAL_POLICY);
+    expect(auth).toEqual({ mode: 'public' });
+    expect(body).toEqual({ action: 'apply' });
+  });
+
+  it('still resolves a link token when one is sent', async () => {
+    const { auth } = await authorize(request({ token: 'link-token' }), PORTAL_POLICY);
+    expect(auth).toEqual({ mode: 'candidate', token: 'link-token' });
+  });
+
+  it('rejects signed internal calls', async () => {
+    const body = { action: 'apply' };
+    expect((await rejection(authorize(request(body, signed(body)), PORTAL_POLICY))).status).toBe(403);
+  });
+});
+
+describe('OAuth state', () => {
+  it('round-trips the user id', async () => {
+    expect(await verifyOAuthState(await createOAuthState('user-1'))).toBe('user-1');
+  });
+
+  it('rejects a bare user id', async () => {
+    expect(await verifyOAuthState('user-1')).toBeNull();
+  });
+
+  it('rejects a payload swapped for another user', async () => {
+    const [, signature] = (await createOAuthState('user-1')).split('.');
+    const [payload] = (await createOAuthState('user-2')).split('.');
+    const forged = Buffer.from(JSON.stringify({ userId: 'user-2', nonce: 'x', expiresAt: 9999999999 })).toString('base64url');
+    expect(await verifyOAuthState(`${payload}.${signature}`)).toBeNull();
+    expect(await verifyOAuthState(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a state signed with another secret', async () => {
+    const state = await createOAuthState('user-1');
+    vi.stubEnv('INTERNAL_TRIGGER_SECRET', 'rotated-secret');
+    expect(await verifyOAuthState(state)).toBeNull();
+  });
+
+  it('expires', async () => {
+    const state = await createOAuthState('user-1');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+    expect(await verifyOAuthState(state)).toBeNull();
+  });
+});
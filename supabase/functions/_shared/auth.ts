@@ -0,0 +1,249 @@
+// Authentication for edge functions. Every function declares an AuthPolicy naming the modes it accepts
+// and calls authorize() before doing any work; a request that matches none of them is rejected.
+//   staff      an HR user's JWT; the user must hold one of policy.roles (any staff role by default)
+//   internal   a request signed with INTERNAL_TRIGGER_SECRET, sent by the pg_net trigger or by another
+//              function through invokeInternal()
+//   candidate  a link token in the request body (status portal, aptitude test, offer response); the
+//              function resolves it and only touches the records that token grants
+//   public     no credentials at all (the application form); the function must trust nothing in the body
+//              and never return data that a link token would protect
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+import { FULL_ACCESS_ROLES, STAFF_ROLES, hasAnyRole, type AppRole } from "./roles.ts";
+
+export type AuthMode = 'staff' | 'internal' | 'candidate' | 'public';
+
+export interface AuthPolicy {
+  modes: AuthMode[];
+  // Roles accepted in staff mode; defaults to every staff role
+  roles?: AppRole[];
+}
+
+export type AuthContext =
+  | { mode: 'staff'; user: User; roles: AppRole[] }
+  | { mode: 'internal' }
+  | { mode: 'candidate'; token: string }
+  | { mode: 'public' };
+
+export class AccessError extends Error {
+  constructor(message: string, public readonly status: 401 | 403) {
+    super(message);
+    this.name = 'AccessError';
+  }
+}
+
+// A body that is not JSON; functions answer 400 for it, as they do for a missing field
+export class BadRequestError extends Error {
+  public readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+// Signature format: hex(HMAC-SHA256(secret, "<timestamp>.<raw body>")) with the timestamp in epoch seconds.
+// The pg_net trigger (trigger_auto_process_application) computes the same value in SQL.
+const SIGNATURE_HEADER = 'x-internal-signature';
+const TIMESTAMP_HEADER = 'x-internal-timestamp';
+
+// Older signatures are treated as replays
+const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function getInternalSecret(): string {
+  const secret = Deno.env.get('INTERNAL_TRIGGER_SECRET');
+  if (!secret) throw new Error('INTERNAL_TRIGGER_SECRET is not configured');
+  return secret;
+}
+
+async function sign(message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getInternalSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function verifyInternalSignature(req: Request, rawBody: string): Promise<boolean> {
+  const provided = req.headers.get(SIGNATURE_HEADER) || '';
+  const timestamp = req.headers.get(TIMESTAMP_HEADER) || '';
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!timestamp || Number.isNaN(age) || age > MAX_SIGNATURE_AGE_SECONDS) return false;
+
+  return signaturesMatch(provided, await sign(`${timestamp}.${rawBody}`));
+}
+
+// Constant-time comparison so a signature cannot be probed byte by byte
+function signaturesMatch(provided: string, expected: string): boolean {
+  if (provided.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ provided.charCodeAt(i);
+  return diff === 0;
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+function getServiceClient(): SupabaseClient {
+  serviceClient ??= createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  return serviceClient;
+}
+
+async function resolveStaff(jwt: string): Promise<{ user: User; roles: AppRole[] } | null> {
+  const supabase = getServiceClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser(jwt);
+  if (userError || !user) return null;
+
+  const { data, error } = await supabase.from('user_roles').select('role').eq('user_id', user.id);
+  if (error) throw error;
+
+  return { user, roles: (data ?? []).map((row: { role: AppRole }) => row.role) };
+}
+
+// Reads and parses the JSON body (the internal signature covers the raw bytes) and resolves the caller
+export async function authorize<T = Record<string, unknown>>(
+  req: Request,
+  policy: AuthPolicy,
+): Promise<{ auth: AuthContext; body: T }> {
+  const rawBody = await req.text();
+  let body: T;
+  try {
+    body = (rawBody ? JSON.parse(rawBody) : {}) as T;
+  } catch {
+    throw new BadRequestError('Request body must be valid JSON');
+  }
+
+  if (req.headers.has(SIGNATURE_HEADER)) {
+    if (!policy.modes.includes('internal')) {
+      throw new AccessError('Internal calls are not accepted by this function', 403);
+    }
+    if (!(await verifyInternalSignature(req, rawBody))) {
+      throw new AccessError('Invalid internal signature', 401);
+    }
+    return { auth: { mode: 'internal' }, body };
+  }
+
+  if (policy.modes.includes('staff')) {
+    const authHeader = req.headers.get('authorization') || '';
+    const jwt = authHeader.startsWith('Bearer ') ? authHeader.replace('Bearer ', '').trim() : '';
+
+    // supabase-js sends the anon key as the bearer for signed-out callers
+    if (jwt && jwt !== Deno.env.get('SUPABASE_ANON_KEY')) {
+      const staff = await resolveStaff(jwt);
+      if (staff) {
+        const allowed = policy.roles ?? STAFF_ROLES;
+        if (!hasAnyRole(staff.roles, allowed)) {
+          throw new AccessError(`Requires one of: ${allowed.join(', ')}`, 403);
+        }
+        return { auth: { mode: 'staff', ...staff }, body };
+      }
+    }
+  }
+
+  if (policy.modes.includes('candidate')) {
+    const token = (body as { token?: unknown } | null)?.token;
+    if (typeof token === 'string' && token.trim()) {
+      return { auth: { mode: 'candidate', token }, body };
+    }
+  }
+
+  if (policy.modes.includes('public')) {
+    return { auth: { mode: 'public' }, body };
+  }
+
+  throw new AccessError('Authentication required', 401);
+}
+
+// For functions whose work is tied to the signed-in HR user (their Google tokens, their chat)
+export function requireStaffUser(auth: AuthContext): User {
+  if (auth.mode !== 'staff') {
+    throw new AccessError('Requires a signed-in HR user', 403);
+  }
+  return auth.user;
+}
+
+// Recruiters may only act on applications for jobs assigned to them; internal calls are trusted
+export async function requireApplicationAccess(auth: AuthContext, applicationId: string): Promise<void> {
+  if (auth.mode === 'internal') return;
+  if (auth.mode !== 'staff') {
+    throw new AccessError('Forbidden', 403);
+  }
+  if (hasAnyRole(auth.roles, FULL_ACCESS_ROLES)) return;
+
+  const { data, error } = await getServiceClient().rpc('can_access_application', {
+    _user_id: auth.user.id,
+    _application_id: applicationId,
+  });
+  if (error) throw error;
+  if (!data) {
+    throw new AccessError('This application belongs to a job you are not assigned to', 403);
+  }
+}
+
+export async function requireCandidateAccess(auth: AuthContext, candidateId: string): Promise<void> {
+  if (auth.mode === 'internal') return;
+  if (auth.mode !== 'staff') {
+    throw new AccessError('Forbidden', 403);
+  }
+  if (hasAnyRole(auth.roles, FULL_ACCESS_ROLES)) return;
+
+  const { data, error } = await getServiceClient().rpc('can_access_candidate', {
+    _user_id: auth.user.id,
+    _candidate_id: candidateId,
+  });
+  if (error) throw error;
+  if (!data) {
+    throw new AccessError('This candidate has no applications for jobs you are assigned to', 403);
+  }
+}
+
+// Calls another edge function as a signed internal request
+export async function invokeInternal(functionName: string, body: unknown): Promise<Response> {
+  const rawBody = JSON.stringify(body);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  return await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: await sign(`${timestamp}.${rawBody}`),
+    },
+    body: rawBody,
+  });
+}
+
+// The Google OAuth callback has no Supabase session, so the state parameter carries the user who
+// started the flow, signed, with a nonce and an expiry
+const OAUTH_STATE_PREFIX = 'oauth-state';
+const OAUTH_STATE_TTL_SECONDS = 600;
+
+export async function createOAuthState(userId: string): Promise<string> {
+  const payload = btoa(JSON.stringify({
+    userId,
+    nonce: crypto.randomUUID(),
+    expiresAt: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS,
+  })).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${payload}.${await sign(`${OAUTH_STATE_PREFIX}.${payload}`)}`;
+}
+
+// The user id from a state issued by createOAuthState, or null when it is forged or expired
+export async function verifyOAuthState(state: string): Promise<string | null> {
+  const [payload, signature, ...rest] = state.split('.');
+  if (!payload || !signature || rest.length) return null;
+  if (!signaturesMatch(signature, await sign(`${OAUTH_STATE_PREFIX}.${payload}`))) return null;
+
+  try {
+    const { userId, expiresAt } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof userId !== 'string' || typeof expiresAt !== 'number') return null;
+    return expiresAt >= Date.now() / 1000 ? userId : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,294 @@
+// Availability of an interview panel, and the slots in which it can meet, ranked by how well they fit.
+// Leads and interviewers must be free for a slot to be offered; shadows only lower its score.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchBusySlots, getGoogleAccessToken, type BusySlot } from './google-calendar.ts';
+
+// Keep in sync with the interview_interviewers.role check constraint and src/lib/interviews.ts
+export type PanelRole = 'lead' | 'interviewer' | 'shadow';
+
+export const PANEL_ROLES: PanelRole[] = ['lead', 'interviewer', 'shadow'];
+
+export interface PanelMember {
+  userId: string;
+  role: PanelRole;
+}
+
+export interface PanelAvailability {
+  busy: Record<string, BusySlot[]>;
+  // Members whose calendar could not be read: not connected, or the token was revoked
+  unknown: string[];
+}
+
+export interface FreeSlot {
+  start: string;
+  end: string;
+}
+
+export interface SlotSuggestion extends FreeSlot {
+  score: number;
+  notes: string[];
+}
+
+export interface SlotOptions {
+  timeMin: string;
+  timeMax: string;
+  durationMinutes: number;
+  // IANA time zone the working day is in, e.g. Europe/Berlin
+  timeZone: string;
+  workdayStartHour?: number;
+  workdayEndHour?: number;
+  stepMinutes?: number;
+  // Free time the leads and interviewers keep before and after other meetings
+  bufferMinutes?: number;
+  // Leave out slots at night for a candidate in this time zone
+  candidateTimeZone?: string;
+}
+
+export interface SuggestOptions extends SlotOptions {
+  limit?: number;
+  perDay?: number;
+}
+
+// Waking hours in the candidate's time zone that slots are kept within
+const CANDIDATE_DAY_START_HOUR = 7;
+const CANDIDATE_DAY_END_HOUR = 21;
+
+// Problems with a requested panel; empty when it can be scheduled
+export function validatePanel(panel: PanelMember[]): string[] {
+  const problems: string[] = [];
+  if (panel.length === 0) problems.push('An interview needs at least one interviewer');
+  if (panel.some((member) => !member.userId || !PANEL_ROLES.includes(member.role))) {
+    problems.push(`Every interviewer needs a user and one of the roles ${PANEL_ROLES.join(', ')}`);
+  }
+  if (new Set(panel.map((member) => member.userId)).size !== panel.length) {
+    problems.push('Each interviewer can only be on the panel once');
+  }
+  if (panel.filter((member) => member.role === 'lead').length > 1) {
+    problems.push('A panel can only have one lead');
+  }
+  if (panel.length > 0 && panel.every((member) => member.role === 'shadow')) {
+    problems.push('A panel needs a lead or interviewer besides shadows');
+  }
+  return problems;
+}
+
+// Busy times from each member's Google Calendar, plus the interviews they are already on here, which
+// also covers members who have not connected a calendar
+export async function fetchPanelAvailability(
+  supabase: SupabaseClient,
+  panel: PanelMember[],
+  timeMin: string,
+  timeMax: string,
+): Promise<PanelAvailability> {
+  const availability: PanelAvailability = { busy: {}, unknown: [] };
+  for (const { userId } of panel) availability.busy[userId] = [];
+
+  await Promise.all(panel.map(async ({ userId }) => {
+    const token = await getGoogleAccessToken(supabase, userId);
+    if ('error' in token) {
+      availability.unknown.push(userId);
+      return;
+    }
+    try {
+      availability.busy[userId].push(...await fetchBusySlots(token.accessToken, timeMin, timeMax));
+    } catch (error) {
+      console.error(`Could not read the calendar of ${userId}:`, error);
+      availability.unknown.push(userId);
+    }
+  }));
+
+  // Interviews start at most a day before the range and still overlap it
+  const { data: booked, error } = await supabase
+    .from('interview_interviewers')
+    .select('interviewer_id, interviews!inner(scheduled_at, duration_minutes, status)')
+    .in('interviewer_id', panel.map((member) => member.userId))
+    .eq('interviews.status', 'scheduled')
+    .gte('interviews.scheduled_at', new Date(Date.parse(timeMin) - 86400000).toISOString())
+    .lt('interviews.scheduled_at', timeMax);
+  if (error) throw error;
+
+  for (const row of (booked || []) as unknown as {
+    interviewer_id: string;
+    interviews: { scheduled_at: string; duration_minutes: number };
+  }[]) {
+    const start = Date.parse(row.interviews.scheduled_at);
+    availability.busy[row.interviewer_id].push({
+      start: new Date(start).toISOString(),
+      end: new Date(start + row.interviews.duration_minutes * 60000).toISOString(),
+    });
+  }
+
+  return availability;
+}
+
+interface LocalTime {
+  day: string;
+  weekday: string;
+  minutes: number;
+}
+
+function localTimeFormatter(timeZone: string) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (date: Date): LocalTime => {
+    const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+    return {
+      day: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: parts.weekday,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  };
+}
+
+const overlaps = (start: number, end: number, slot: BusySlot) =>
+  Date.parse(slot.start) < end && Date.parse(slot.end) > start;
+
+const BACK_TO_BACK_MINUTES = 15;
+
+interface CandidateSlot {
+  start: number;
+  end: number;
+  local: LocalTime;
+}
+
+// Every slot within working hours on weekdays in which all leads and interviewers are free, in order
+function freeSlots(
+  panel: PanelMember[],
+  availability: PanelAvailability,
+  {
+    timeMin,
+    timeMax,
+    durationMinutes,
+    timeZone,
+    workdayStartHour = 9,
+    workdayEndHour = 18,
+    stepMinutes = 30,
+    bufferMinutes = 0,
+    candidateTimeZone,
+  }: SlotOptions,
+): CandidateSlot[] {
+  const localTime = localTimeFormatter(timeZone);
+  const candidateTime = candidateTimeZone ? localTimeFormatter(candidateTimeZone) : null;
+  const step = stepMinutes * 60000;
+  const duration = durationMinutes * 60000;
+  const buffer = bufferMinutes * 60000;
+  const required = panel.filter((member) => member.role !== 'shadow');
+
+  const slots: CandidateSlot[] = [];
+  const first = Math.ceil(Math.max(Date.parse(timeMin), Date.now()) / step) * step;
+  for (let start = first; start + duration <= Date.parse(timeMax); start += step) {
+    const end = start + duration;
+    const local = localTime(new Date(start));
+    if (local.weekday === 'Sat' || local.weekday === 'Sun') continue;
+    if (local.minutes < workdayStartHour * 60 || local.minutes + durationMinutes > workdayEndHour * 60) continue;
+    if (candidateTime) {
+      const candidateStart = candidateTime(new Date(start)).minutes;
+      if (candidateStart < CANDIDATE_DAY_START_HOUR * 60) continue;
+      if (candidateStart + durationMinutes > CANDIDATE_DAY_END_HOUR * 60) continue;
+    }
+    const blocked = required.some((member) =>
+      (availability.busy[member.userId] ?? []).some((slot) => overlaps(start - buffer, end + buffer, slot)),
+    );
+    if (!blocked) slots.push({ start, end, local });
+  }
+  return slots;
+}
+
+// The free slots as they are offered to a candidate
+export function listFreeSlots(panel: PanelMember[], availability: PanelAvailability, options: SlotOptions): FreeSlot[] {
+  return freeSlots(panel, availability, options).map(({ start, end }) => ({
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+  }));
+}
+
+// Free slots, best first and at most perDay a day so the list spans several days. Scores start at 100
+// and lose points for busy shadows, back-to-back meetings, busy days, lunchtime and the edges of the
+// day, and for being further out.
+export function suggestSlots(panel: PanelMember[], availability: PanelAvailability, options: SuggestOptions): SlotSuggestion[] {
+  const { timeZone, durationMinutes, workdayStartHour = 9, workdayEndHour = 18, limit = 8, perDay = 3 } = options;
+  const localTime = localTimeFormatter(timeZone);
+  const busyOf = (member: PanelMember) => availability.busy[member.userId] ?? [];
+  const required = panel.filter((member) => member.role !== 'shadow');
+  const shadows = panel.filter((member) => member.role === 'shadow');
+
+  // Busy minutes of the required members on each local day
+  const dayLoad = new Map<string, number>();
+  for (const member of required) {
+    for (const slot of busyOf(member)) {
+      const day = localTime(new Date(slot.start)).day;
+      const minutes = (Date.parse(slot.end) - Date.parse(slot.start)) / 60000;
+      dayLoad.set(day, (dayLoad.get(day) ?? 0) + minutes);
+    }
+  }
+
+  const slots = freeSlots(panel, availability, options);
+  const firstDay = slots[0]?.local.day;
+  const candidates = slots.map(({ start, end, local }) => {
+    let score = 100;
+    const notes: string[] = [];
+
+    const busyShadows = shadows.filter((member) => busyOf(member).some((slot) => overlaps(start, end, slot))).length;
+    if (busyShadows > 0) {
+      score -= 15 * busyShadows;
+      notes.push(`${busyShadows} shadow${busyShadows === 1 ? '' : 's'} busy`);
+    }
+
+    const margin = BACK_TO_BACK_MINUTES * 60000;
+    const backToBack = required.filter((member) =>
+      busyOf(member).some((slot) => overlaps(start - margin, end + margin, slot)),
+    ).length;
+    if (backToBack > 0) {
+      score -= 5 * backToBack;
+      notes.push(`Back-to-back for ${backToBack} interviewer${backToBack === 1 ? '' : 's'}`);
+    }
+
+    const loadHours = (dayLoad.get(local.day) ?? 0) / 60 / Math.max(required.length, 1);
+    if (loadHours >= 1) {
+      score -= Math.min(20, Math.round(loadHours * 3));
+      if (loadHours >= 4) notes.push('Busy day for the panel');
+    }
+
+    if (local.minutes < 13 * 60 && local.minutes + durationMinutes > 12 * 60) {
+      score -= 5;
+      notes.push('Over lunch');
+    }
+    if (local.minutes === workdayStartHour * 60 || local.minutes + durationMinutes === workdayEndHour * 60) {
+      score -= 5;
+      notes.push(local.minutes === workdayStartHour * 60 ? 'Start of the day' : 'End of the day');
+    }
+
+    const daysOut = Math.round((Date.parse(`${local.day}T00:00:00Z`) - Date.parse(`${firstDay}T00:00:00Z`)) / 86400000);
+    score -= 2 * daysOut;
+
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      score: Math.max(score, 0),
+      notes,
+      day: local.day,
+    };
+  });
+
+  candidates.sort((a, b) => b.score - a.score || a.start.localeCompare(b.start));
+
+  const perDayCount = new Map<string, number>();
+  const suggestions: SlotSuggestion[] = [];
+  for (const { day, ...suggestion } of candidates) {
+    if (suggestions.length >= limit) break;
+    const count = perDayCount.get(day) ?? 0;
+    if (count >= perDay) continue;
+    perDayCount.set(day, count + 1);
+    suggestions.push(suggestion);
+  }
+  return suggestions;
+}
@@ -0,0 +1,152 @@
+// Everything stored about a candidate, for data export and right-to-erasure.
+// Used by data-privacy (HR and the retention purge) and candidate-portal (self-service export).
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { recordAudit, type AuditActor } from "./audit.ts";
+import { STAFF_EMAIL_TYPES } from "./email-queue.ts";
+
+const RESUME_BUCKET = 'resumes';
+const OFFER_BUCKET = 'offer-letters';
+
+// Download links in an export stay valid long enough to fetch the files, not to share them
+const EXPORT_LINK_SECONDS = 60 * 60;
+
+async function listFolder(supabase: SupabaseClient, bucket: string, folder: string): Promise<string[]> {
+  const { data, error } = await supabase.storage.from(bucket).list(folder, { limit: 1000 });
+  if (error) throw error;
+  return (data || []).filter((file: { id: string | null }) => file.id).map((file: { name: string }) => `${folder}/${file.name}`);
+}
+
+async function candidateFiles(supabase: SupabaseClient, candidateId: string, resumeUrl: string | null) {
+  const { data: offers, error } = await supabase
+    .from('offer_letters')
+    .select('id, applications!inner(candidate_id)')
+    .eq('applications.candidate_id', candidateId);
+  if (error) throw error;
+
+  const resumes = await listFolder(supabase, RESUME_BUCKET, candidateId);
+  // Older rows may point outside the candidate's folder
+  if (resumeUrl && !resumeUrl.startsWith('http') && !resumes.includes(resumeUrl)) resumes.push(resumeUrl);
+
+  const offerPdfs = (
+    await Promise.all((offers || []).map((offer: { id: string }) => listFolder(supabase, OFFER_BUCKET, offer.id)))
+  ).flat();
+
+  return { resumes, offerPdfs };
+}
+
+async function signedLinks(supabase: SupabaseClient, bucket: string, paths: string[]) {
+  if (paths.length === 0) return [];
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, EXPORT_LINK_SECONDS);
+  if (error) throw error;
+  return (data || []).map((item: { path: string | null; signedUrl: string | null }) => ({ path: item.path, url: item.signedUrl }));
+}
+
+export async function exportCandidateData(supabase: SupabaseClient, candidateId: string) {
+  const { data: candidate, error: candidateError } = await supabase
+    .from('candidates')
+    .select('id, full_name, email, phone, linkedin_url, github_url, portfolio_url, resume_url, resume_text, parsed_resume, portfolio_analysis, created_at, updated_at, anonymized_at')
+    .eq('id', candidateId)
+    .maybeSingle();
+  if (candidateError) throw candidateError;
+  if (!candidate) return null;
+
+  const { data: applications, error: applicationsError } = await supabase
+    .from('applications')
+    .select(`
+      id, status, created_at, updated_at, withdrawn_at, notes,
+      ai_score, ai_summary, ai_skills, aptitude_score, aptitude_completed,
+      jobs(title, department, location),
+      interviews(id, scheduled_at, duration_minutes, interview_type, status, meeting_url, notes),
+      aptitude_test_sessions(id, started_at, submitted_at, score, question_count),
+      offer_letters(id, position_title, department, salary_amount, salary_currency, salary_frequency, proposed_start_date, status, sent_at, responded_at, signature_name, decline_reason)
+    `)
+    .eq('candidate_id', candidateId)
+    .order('created_at', { ascending: true });
+  if (applicationsError) throw applicationsError;
+
+  const { data: emails, error: emailsError } = await supabase
+    .from('email_logs')
+    .select('subject, email_type, status, sent_at')
+    .eq('candidate_id', candidateId)
+    .not('email_type', 'in', `(${STAFF_EMAIL_TYPES.join(',')})`)
+    .order('sent_at', { ascending: true });
+  if (emailsError) throw emailsError;
+
+  const files = await candidateFiles(supabase, candidateId, candidate.resume_url);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    candidate,
+    applications: applications || [],
+    emails: emails || [],
+    files: {
+      linksExpireInSeconds: EXPORT_LINK_SECONDS,
+      resumes: await signedLinks(supabase, RESUME_BUCKET, files.resumes),
+      offerLetters: await signedLinks(supabase, OFFER_BUCKET, files.offerPdfs),
+    },
+  };
+}
+
+export interface ErasureReport {
+  candidateId: string;
+  erasedAt: string;
+  records: Record<string, number>;
+  storage: { resumesDeleted: number; offerPdfsDeleted: number; failed: string[] };
+}
+
+// Anonymizes the database rows in one transaction, then removes the candidate's files. A storage
+// failure does not roll the anonymization back; the paths are listed in the report instead.
+export async function eraseCandidate(
+  supabase: SupabaseClient,
+  candidateId: string,
+  actor: AuditActor,
+): Promise<ErasureReport> {
+  const { data: candidate, error: candidateError } = await supabase
+    .from('candidates')
+    .select('id, resume_url')
+    .eq('id', candidateId)
+    .maybeSingle();
+  if (candidateError) throw candidateError;
+  if (!candidate) throw new Error('Candidate not found');
+
+  // Collected first: anonymization clears the paths that point at them
+  const files = await candidateFiles(supabase, candidateId, candidate.resume_url);
+
+  const { data: records, error: anonymizeError } = await supabase.rpc('anonymize_candidate', {
+    _candidate_id: candidateId,
+  });
+  if (anonymizeError) throw anonymizeError;
+
+  const failed: string[] = [];
+  const removeAll = async (bucket: string, paths: string[]) => {
+    if (paths.length === 0) return 0;
+    const { data, error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) {
+      console.error(`Failed to remove ${bucket} objects:`, error);
+      failed.push(...paths.map((path) => `${bucket}/${path}`));
+      return 0;
+    }
+    return (data || []).length;
+  };
+
+  const report: ErasureReport = {
+    candidateId,
+    erasedAt: new Date().toISOString(),
+    records: records as Record<string, number>,
+    storage: {
+      resumesDeleted: await removeAll(RESUME_BUCKET, files.resumes),
+      offerPdfsDeleted: await removeAll(OFFER_BUCKET, files.offerPdfs),
+      failed,
+    },
+  };
+
+  await recordAudit(supabase, actor, {
+    action: 'candidate.erased',
+    entityType: 'candidate',
+    entityId: candidateId,
+    candidateId,
+    metadata: { records: report.records, storage: { ...report.storage } },
+  });
+
+  return report;
+}
@@ -0,0 +1,256 @@
+// Outbound email queue. Every email goes through scheduled_emails: enqueueEmail stores it,
+// deliverClaimedEmail makes one attempt through the configured transport, and the send-scheduled-emails cron
+// job delivers whatever is due, including retries. The outcome of each email is kept in email_logs.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { TransportError, getTransport, type EmailAttachment } from "./email-transport.ts";
+
+// Emails to the hiring team about a candidate. They carry the candidate id so erasure removes them, and
+// are left out of the email history given to the candidate.
+export const STAFF_EMAIL_TYPES = ['interview_panel'];
+
+// Minutes before retry n (after attempt n failed); the last delay repeats if max_attempts is raised
+const RETRY_DELAYS_MINUTES = [5, 30, 120, 480];
+
+export interface StoredAttachment {
+  bucket: string;
+  path: string;
+  filename: string;
+  contentType: string;
+}
+
+// Small generated files, such as calendar invites, are kept in the queue row itself
+export type QueuedAttachment = StoredAttachment | EmailAttachment;
+
+export interface EnqueueEmailInput {
+  to: string;
+  subject: string;
+  html: string;
+  emailType: string;
+  candidateId?: string | null;
+  applicationId?: string | null;
+  // Defaults to now
+  sendAt?: string;
+  idempotencyKey?: string | null;
+  attachments?: QueuedAttachment[];
+  // 1 for emails whose caller reports the outcome and lets HR retry, such as offer letters
+  maxAttempts?: number;
+  createdBy?: string | null;
+}
+
+export interface QueuedEmail {
+  id: string;
+  application_id: string | null;
+  candidate_id: string | null;
+  email_type: string;
+  recipient_email: string;
+  subject: string;
+  html: string;
+  send_at: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  idempotency_key: string | null;
+  attachments: QueuedAttachment[];
+}
+
+// pending after a failed attempt means a retry is scheduled
+export type DeliveryStatus = 'sent' | 'pending' | 'failed' | 'cancelled' | 'sending';
+
+export interface DeliveryResult {
+  emailId: string;
+  status: DeliveryStatus;
+  error?: string;
+  // The idempotency key matched an email queued or sent earlier; this call sent nothing new
+  duplicate?: boolean;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+export async function enqueueEmail(supabase: SupabaseClient, input: EnqueueEmailInput): Promise<QueuedEmail> {
+  // Tie the email to its candidate so erasing the candidate also removes it
+  let candidateId = input.candidateId ?? null;
+  if (!candidateId && input.applicationId) {
+    const { data: application } = await supabase
+      .from('applications')
+      .select('candidate_id')
+      .eq('id', input.applicationId)
+      .maybeSingle();
+    candidateId = application?.candidate_id ?? null;
+  }
+
+  const row = {
+    application_id: input.applicationId ?? null,
+    candidate_id: candidateId,
+    email_type: input.emailType,
+    recipient_email: input.to,
+    subject: input.subject,
+    html: input.html,
+    send_at: input.sendAt ?? new Date().toISOString(),
+    idempotency_key: input.idempotencyKey ?? null,
+    attachments: input.attachments ?? [],
+    max_attempts: input.maxAttempts ?? 5,
+    created_by: input.createdBy ?? null,
+  };
+
+  const { data, error } = await supabase.from('scheduled_emails').insert(row).select().single();
+  if (!error) return data as QueuedEmail;
+  if (error.code !== UNIQUE_VIOLATION || !input.idempotencyKey) throw error;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('scheduled_emails')
+    .select()
+    .eq('idempotency_key', input.idempotencyKey)
+    .single();
+  if (existingError) throw existingError;
+
+  // Sent, queued or in flight: the key did its job. A failed or cancelled email is queued again.
+  if (existing.status !== 'failed' && existing.status !== 'cancelled') {
+    return existing as QueuedEmail;
+  }
+
+  const { data: requeued, error: requeueError } = await supabase
+    .from('scheduled_emails')
+    .update({
+      ...row,
+      status: 'pending',
+      attempts: 0,
+      error: null,
+      locked_at: null,
+      cancelled_by: null,
+      cancelled_at: null,
+    })
+    .eq('id', existing.id)
+    .eq('status', existing.status)
+    .select()
+    .single();
+  if (requeueError) throw requeueError;
+  return requeued as QueuedEmail;
+}
+
+async function loadAttachments(supabase: SupabaseClient, attachments: QueuedAttachment[]): Promise<EmailAttachment[]> {
+  return await Promise.all(attachments.map(async (attachment) => {
+    if ('content' in attachment) return attachment;
+    const { data, error } = await supabase.storage.from(attachment.bucket).download(attachment.path);
+    if (error || !data) {
+      throw new TransportError(`Attachment ${attachment.path} could not be read: ${error?.message ?? 'missing'}`, true);
+    }
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return { filename: attachment.filename, content: btoa(binary), contentType: attachment.contentType };
+  }));
+}
+
+async function writeLog(
+  supabase: SupabaseClient,
+  email: QueuedEmail,
+  fields: { status: 'sent' | 'failed'; transport: string | null; providerMessageId?: string | null; error?: string | null },
+) {
+  const { error } = await supabase.from('email_logs').upsert({
+    scheduled_email_id: email.id,
+    candidate_id: email.candidate_id,
+    email_type: email.email_type,
+    recipient_email: email.recipient_email,
+    subject: email.subject,
+    status: fields.status,
+    transport: fields.transport,
+    provider_message_id: fields.providerMessageId ?? null,
+    error: fields.error ?? null,
+    sent_at: new Date().toISOString(),
+  }, { onConflict: 'scheduled_email_id' });
+
+  if (error) {
+    console.error('Error logging email:', error);
+  }
+}
+
+// One attempt at an email already claimed with claim_scheduled_emails
+export async function deliverClaimedEmail(supabase: SupabaseClient, email: QueuedEmail): Promise<DeliveryResult> {
+  const transport = getTransport();
+
+  try {
+    if (!transport) {
+      throw new TransportError('No email transport is configured (RESEND_API_KEY, SMTP_HOST or EMAIL_TRANSPORT)', false);
+    }
+
+    const { messageId } = await transport.send({
+      to: email.recipient_email,
+      subject: email.subject,
+      html: email.html,
+      attachments: await loadAttachments(supabase, email.attachments),
+      idempotencyKey: email.idempotency_key,
+    });
+
+    await supabase
+      .from('scheduled_emails')
+      .update({
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+        transport: transport.name,
+        provider_message_id: messageId,
+        error: null,
+        locked_at: null,
+      })
+      .eq('id', email.id);
+    await writeLog(supabase, email, { status: 'sent', transport: transport.name, providerMessageId: messageId });
+
+    console.log(`Email ${email.id} (${email.email_type}) sent via ${transport.name}`);
+    return { emailId: email.id, status: 'sent' };
+  } catch (sendError) {
+    const message = sendError instanceof Error ? sendError.message : 'Unknown error';
+    const retryable = !(sendError instanceof TransportError) || sendError.retryable;
+    const retry = retryable && email.attempts < email.max_attempts;
+
+    if (retry) {
+      const delay = RETRY_DELAYS_MINUTES[Math.min(email.attempts, RETRY_DELAYS_MINUTES.length) - 1];
+      await supabase
+        .from('scheduled_emails')
+        .update({
+          status: 'pending',
+          send_at: new Date(Date.now() + delay * 60_000).toISOString(),
+          error: message,
+          locked_at: null,
+        })
+        .eq('id', email.id);
+      console.warn(`Email ${email.id} attempt ${email.attempts} failed, retrying in ${delay} minutes: ${message}`);
+      return { emailId: email.id, status: 'pending', error: message };
+    }
+
+    await supabase
+      .from('scheduled_emails')
+      .update({ status: 'failed', transport: transport?.name ?? null, error: message, locked_at: null })
+      .eq('id', email.id);
+    await writeLog(supabase, email, { status: 'failed', transport: transport?.name ?? null, error: message });
+
+    console.error(`Email ${email.id} failed after ${email.attempts} attempt(s): ${message}`);
+    return { emailId: email.id, status: 'failed', error: message };
+  }
+}
+
+export async function claimEmails(supabase: SupabaseClient, ids: string[] | null, limit = 50): Promise<QueuedEmail[]> {
+  const { data, error } = await supabase.rpc('claim_scheduled_emails', { _ids: ids, _limit: limit });
+  if (error) throw error;
+  return (data || []) as QueuedEmail[];
+}
+
+// Enqueue and, unless the email is scheduled for later, make the first attempt right away so the
+// caller can tell the user whether it went out. Failed transient attempts continue in the background.
+export async function sendEmail(supabase: SupabaseClient, input: EnqueueEmailInput): Promise<DeliveryResult> {
+  const email = await enqueueEmail(supabase, input);
+  // Only an earlier email with the same key can come back in any state but pending
+  if (email.status !== 'pending') {
+    return { emailId: email.id, status: email.status as DeliveryStatus, duplicate: true };
+  }
+  if (new Date(email.send_at).getTime() > Date.now()) {
+    return { emailId: email.id, status: 'pending' };
+  }
+
+  const [claimed] = await claimEmails(supabase, [email.id], 1);
+  if (!claimed) {
+    // Another worker got to it first
+    return { emailId: email.id, status: 'sending' };
+  }
+  return await deliverClaimedEmail(supabase, claimed);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import * as server from "./email-templates.ts";
+import * as editor from "../../../src/lib/email-templates.ts";
+
+// The editor module fetches previews through the Supabase client, which these tests never reach
+vi.mock("@/lib/functions", () => ({ invokeFunction: vi.fn() }));
+
+// The editor validates on save and renders the preview; send-email renders the real email. A template
+// must mean the same thing to both.
+const EMAIL_TYPES = [...Object.keys(server.EMAIL_TEMPLATE_VARIABLES), 'unlisted_type'];
+
+const TEMPLATES = [
+  'Hi {{candidateName}}, thanks for applying to {{position}} at {{company}}.',
+  '{{#if meetingUrl}}Join at {{meetingUrl}}{{else}}We will meet at the office{{/if}}',
+  '{{#unless offerExpiryDate}}This offer does not expire.{{/unless}}',
+  '{{#each interviews}}{{date}} {{time}} with {{interviewerName}}\n{{/each}}',
+  '{{#each interviews}}{{candidateFirstName}}: {{interviewType}} ({{duration}} min){{/each}}',
+  'Salary: {{salary}}, starting {{startDate}}',
+  '{{ candidateName }} and {{candidateNme}}',
+  '{{interviews}}',
+  '{{#each position}}{{date}}{{/each}}',
+  '{{#if candidateName}}unclosed',
+  '{{/if}}',
+  '{{else}}',
+  '{{#each interviews}}{{else}}{{/each}}',
+  '{{#if salary}}a{{else}}b{{else}}c{{/if}}',
+  '{{#if }}{{/if}}',
+  '{{}}',
+  'No tags at all',
+  '',
+];
+
+const CONTEXTS: server.TemplateContext[] = [
+  {},
+  {
+    candidateName: 'Jane Doe',
+    candidateFirstName: 'Jane',
+    position: 'Engineer',
+    company: 'CortexHR',
+    meetingUrl: '',
+    offerExpiryDate: null,
+    salary: 0,
+    interviews: [],
+  },
+  {
+    candidateName: 'Sam <Lee>',
+    candidateFirstName: 'Sam',
+    position: 'Designer',
+    company: 'CortexHR',
+    meetingUrl: 'https://meet.example.com/abc',
+    offerExpiryDate: '2026-03-01',
+    salary: 'USD 90,000 per year',
+    startDate: '2026-04-01',
+    interviews: [
+      { date: '2026-02-10', time: '10:00', interviewerName: 'Ana', interviewType: 'video', duration: 45 },
+      { date: '2026-02-12', time: '14:30', interviewerName: 'Ben, Cy', interviewType: 'onsite', duration: 60 },
+    ],
+  },
+];
+
+const outcome = (render: () => string) => {
+  try {
+    return { output: render() };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+describe('email template engines', () => {
+  it('share the variable catalog', () => {
+    expect(editor.EMAIL_TEMPLATE_VARIABLES).toEqual(server.EMAIL_TEMPLATE_VARIABLES);
+    expect(editor.getTemplateVariables('unlisted_type')).toEqual(server.getTemplateVariables('unlisted_type'));
+  });
+
+  it.each(EMAIL_TYPES)('validate %s templates alike', (emailType) => {
+    for (const template of TEMPLATES) {
+      expect(editor.validateTemplate(template, emailType), template).toEqual(server.validateTemplate(template, emailType));
+    }
+  });
+
+  it('render alike', () => {
+    for (const template of TEMPLATES) {
+      for (const context of CONTEXTS) {
+        expect(outcome(() => editor.renderTemplate(template, context)), template)
+          .toEqual(outcome(() => server.renderTemplate(template, context)));
+      }
+    }
+  });
+
+  // Comparing only valid or only broken templates would miss half of the engine
+  it('are compared on valid and broken templates', () => {
+    const valid = TEMPLATES.map((template) => server.validateTemplate(template, 'custom').length === 0);
+    expect(valid).toContain(true);
+    expect(valid).toContain(false);
+  });
+});
@@ -0,0 +1,159 @@
+// Email transport abstraction
+// Supports: Resend, SMTP, and a file sink that writes messages to disk for development and tests
+//
+// EMAIL_TRANSPORT picks one explicitly ("resend", "smtp" or "file"); otherwise Resend is used when
+// RESEND_API_KEY is set, then SMTP when SMTP_HOST is set. With neither, nothing is sent and the
+// queue records the email as failed rather than pretending it went out.
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type EmailTransportName = 'resend' | 'smtp' | 'file';
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64 encoded
+  content: string;
+  contentType: string;
+}
+
+export interface OutboundEmail {
+  to: string;
+  subject: string;
+  html: string;
+  attachments: EmailAttachment[];
+  // Passed to providers that deduplicate on their side
+  idempotencyKey: string | null;
+}
+
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    // Transient failures (rate limits, provider outages, network errors) are retried with backoff
+    public readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  // Resolves with the provider's message id, which delivery webhooks refer back to
+  send(email: OutboundEmail): Promise<{ messageId: string | null }>;
+}
+
+const fromAddress = () => Deno.env.get('EMAIL_FROM') || 'CortexHR <noreply@cortexhr.com>';
+
+function resendTransport(apiKey: string): EmailTransport {
+  return {
+    name: 'resend',
+    async send(email) {
+      let response: Response;
+      try {
+        response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+            ...(email.idempotencyKey ? { 'Idempotency-Key': email.idempotencyKey } : {}),
+          },
+          body: JSON.stringify({
+            from: fromAddress(),
+            to: [email.to],
+            subject: email.subject,
+            html: email.html,
+            attachments: email.attachments.map((a) => ({ filename: a.filename, content: a.content })),
+          }),
+        });
+      } catch (error) {
+        throw new TransportError(`Resend unreachable: ${error instanceof Error ? error.message : error}`, true);
+      }
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new TransportError(`Resend ${response.status}: ${body}`, response.status === 429 || response.status >= 500);
+      }
+
+      const data = await response.json().catch(() => ({}));
+      return { messageId: data.id ?? null };
+    },
+  };
+}
+
+function smtpTransport(hostname: string): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(email) {
+      const username = Deno.env.get('SMTP_USER');
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get('SMTP_PORT') || 587),
+          tls: Deno.env.get('SMTP_TLS') === 'true',
+          auth: username ? { username, password: Deno.env.get('SMTP_PASSWORD') ?? '' } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: fromAddress(),
+          to: email.to,
+          subject: email.subject,
+          html: email.html,
+          attachments: email.attachments.map((a) => ({
+            filename: a.filename,
+            content: a.content,
+            encoding: 'base64' as const,
+            contentType: a.contentType,
+          })),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // 5xx replies are permanent rejections (unknown mailbox, policy); anything else may clear up
+        throw new TransportError(`SMTP: ${message}`, !/\b5\d\d\b/.test(message));
+      } finally {
+        await client.close().catch(() => {});
+      }
+
+      // Bounces over SMTP arrive as mail, not webhooks, so there is nothing to track
+      return { messageId: null };
+    },
+  };
+}
+
+function fileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(email) {
+      const messageId = `${Date.now()}-${crypto.randomUUID()}`;
+      try {
+        await Deno.mkdir(directory, { recursive: true });
+        await Deno.writeTextFile(
+          `${directory}/${messageId}.json`,
+          JSON.stringify({ from: fromAddress(), ...email, writtenAt: new Date().toISOString() }, null, 2),
+        );
+      } catch (error) {
+        throw new TransportError(`File sink: ${error instanceof Error ? error.message : error}`, false);
+      }
+      return { messageId: `file:${messageId}` };
+    },
+  };
+}
+
+export function getTransport(): EmailTransport | null {
+  const configured = Deno.env.get('EMAIL_TRANSPORT')?.trim().toLowerCase();
+  const resendKey = Deno.env.get('RESEND_API_KEY');
+  const smtpHost = Deno.env.get('SMTP_HOST');
+
+  switch (configured) {
+    case 'resend':
+      return resendKey ? resendTransport(resendKey) : null;
+    case 'smtp':
+      return smtpHost ? smtpTransport(smtpHost) : null;
+    case 'file':
+      return fileTransport(Deno.env.get('EMAIL_SINK_DIR') || '/tmp/cortexhr-mail');
+  }
+
+  if (resendKey) return resendTransport(resendKey);
+  if (smtpHost) return smtpTransport(smtpHost);
+  return null;
+}
@@ -0,0 +1,219 @@
+// Google Calendar access on behalf of staff who connected their calendar in Settings (hr_google_tokens).
+// Used by the google-calendar function for the signed-in user, and by scheduling for whole panels.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface BusySlot {
+  start: string;
+  end: string;
+}
+
+export interface CalendarEventInput {
+  summary: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  attendees?: string[];
+  createMeet?: boolean;
+}
+
+export interface CreatedCalendarEvent {
+  eventId: string;
+  htmlLink: string | null;
+  meetLink: string | null;
+  // How attendees' calendars identify the event, and its revision, for invites sent alongside Google's
+  iCalUID: string | null;
+  sequence: number;
+}
+
+export interface CalendarEventChanges {
+  startTime: string;
+  endTime: string;
+  description?: string;
+}
+
+export type AccessTokenResult =
+  | { accessToken: string }
+  | { error: 'NOT_CONNECTED' | 'TOKEN_EXPIRED' | 'NOT_CONFIGURED' };
+
+async function refreshAccessToken(refreshToken: string, clientId: string, clientSecret: string): Promise<string | null> {
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token',
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Token refresh failed:', await response.text());
+    return null;
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+// A usable access token for the user, refreshed if it has expired. A refresh token Google no longer
+// accepts is deleted, so the user shows as disconnected and can reconnect.
+export async function getGoogleAccessToken(supabase: SupabaseClient, userId: string): Promise<AccessTokenResult> {
+  const { data: tokenData } = await supabase
+    .from('hr_google_tokens')
+    .select('access_token, refresh_token, token_expiry')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!tokenData) return { error: 'NOT_CONNECTED' };
+  if (new Date(tokenData.token_expiry) >= new Date()) return { accessToken: tokenData.access_token };
+
+  const clientId = Deno.env.get('GOOGLE_CLIENT_ID');
+  const clientSecret = Deno.env.get('GOOGLE_CLIENT_SECRET');
+  if (!clientId || !clientSecret) return { error: 'NOT_CONFIGURED' };
+
+  console.log(`Google token for ${userId} expired, refreshing...`);
+  const newToken = await refreshAccessToken(tokenData.refresh_token, clientId, clientSecret);
+  if (!newToken) {
+    await supabase.from('hr_google_tokens').delete().eq('user_id', userId);
+    return { error: 'TOKEN_EXPIRED' };
+  }
+
+  const newExpiry = new Date();
+  newExpiry.setHours(newExpiry.getHours() + 1);
+  await supabase.from('hr_google_tokens')
+    .update({ access_token: newToken, token_expiry: newExpiry.toISOString() })
+    .eq('user_id', userId);
+
+  return { accessToken: newToken };
+}
+
+// Busy periods across all of the user's calendars
+export async function fetchBusySlots(accessToken: string, timeMin: string, timeMax: string): Promise<BusySlot[]> {
+  const calendarsResponse = await fetch('https://www.googleapis.com/calendar/v3/users/me/calendarList', {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+  const calendars = await calendarsResponse.json();
+  const calendarIds = calendars.items?.map((c: { id: string }) => ({ id: c.id })) || [{ id: 'primary' }];
+
+  const freeBusyResponse = await fetch('https://www.googleapis.com/calendar/v3/freeBusy', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ timeMin, timeMax, items: calendarIds }),
+  });
+
+  if (!freeBusyResponse.ok) {
+    throw new Error(`Free/busy request failed: ${await freeBusyResponse.text()}`);
+  }
+
+  const freeBusyData = await freeBusyResponse.json();
+  const busySlots: BusySlot[] = [];
+  for (const calendar of Object.values(freeBusyData.calendars || {})) {
+    const calendarData = calendar as { busy?: BusySlot[] };
+    if (calendarData.busy) {
+      busySlots.push(...calendarData.busy);
+    }
+  }
+  return busySlots;
+}
+
+// Creates the event on the user's primary calendar. Google emails an invite to every attendee.
+export async function createCalendarEvent(accessToken: string, event: CalendarEventInput): Promise<CreatedCalendarEvent> {
+  const calendarEvent: Record<string, unknown> = {
+    summary: event.summary,
+    description: event.description || '',
+    start: { dateTime: event.startTime, timeZone: 'UTC' },
+    end: { dateTime: event.endTime, timeZone: 'UTC' },
+  };
+
+  if (event.attendees && event.attendees.length > 0) {
+    calendarEvent.attendees = event.attendees.map((email) => ({ email }));
+  }
+
+  if (event.createMeet) {
+    calendarEvent.conferenceData = {
+      createRequest: {
+        requestId: crypto.randomUUID(),
+        conferenceSolutionKey: { type: 'hangoutsMeet' },
+      },
+    };
+  }
+
+  const params = new URLSearchParams({ sendUpdates: 'all' });
+  if (event.createMeet) params.set('conferenceDataVersion', '1');
+
+  const createResponse = await fetch(
+    `https://www.googleapis.com/calendar/v3/calendars/primary/events?${params}`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(calendarEvent),
+    }
+  );
+
+  if (!createResponse.ok) {
+    throw new Error(`Event creation failed: ${await createResponse.text()}`);
+  }
+
+  const createdEvent = await createResponse.json();
+  return {
+    eventId: createdEvent.id,
+    htmlLink: createdEvent.htmlLink ?? null,
+    meetLink: createdEvent.conferenceData?.entryPoints?.find(
+      (entry: { entryPointType: string; uri: string }) => entry.entryPointType === 'video',
+    )?.uri ?? null,
+    iCalUID: createdEvent.iCalUID ?? null,
+    sequence: createdEvent.sequence ?? 0,
+  };
+}
+
+// Moves an event on the user's primary calendar; Google sends every attendee the updated invite.
+// Resolves with the event's new sequence.
+export async function updateCalendarEvent(accessToken: string, eventId: string, changes: CalendarEventChanges): Promise<number> {
+  const patch: Record<string, unknown> = {
+    start: { dateTime: changes.startTime, timeZone: 'UTC' },
+    end: { dateTime: changes.endTime, timeZone: 'UTC' },
+  };
+  if (changes.description !== undefined) patch.description = changes.description;
+
+  const response = await fetch(
+    `https://www.googleapis.com/calendar/v3/calendars/primary/events/${encodeURIComponent(eventId)}?sendUpdates=all`,
+    {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(patch),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Event update failed: ${await response.text()}`);
+  }
+
+  const updatedEvent = await response.json();
+  return updatedEvent.sequence ?? 0;
+}
+
+// Cancels an event on the user's primary calendar; Google tells every attendee. An event that is
+// already gone counts as deleted.
+export async function deleteCalendarEvent(accessToken: string, eventId: string): Promise<void> {
+  const response = await fetch(
+    `https://www.googleapis.com/calendar/v3/calendars/primary/events/${encodeURIComponent(eventId)}?sendUpdates=all`,
+    {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    }
+  );
+
+  if (!response.ok && response.status !== 404 && response.status !== 410) {
+    throw new Error(`Event deletion failed: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,150 @@
+// iCalendar (RFC 5545) invites and feeds for interviews. An interview keeps the same UID for its whole
+// life and every change raises its SEQUENCE, so calendar clients update or remove the event they already
+// have instead of adding another one.
+import type { EmailAttachment } from "./email-transport.ts";
+
+// REQUEST invites attendees or updates their copy, CANCEL removes it, PUBLISH is a read-only feed
+export type IcsMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export interface IcsPerson {
+  email: string;
+  name?: string | null;
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  start: string;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  // The video meeting link, if there is one
+  location?: string | null;
+  // Invites need both; feeds leave them out so clients do not treat their events as invitations
+  organizer?: IcsPerson;
+  attendees?: IcsPerson[];
+}
+
+export interface InterviewInvite {
+  interview: {
+    id: string;
+    ical_uid: string | null;
+    ical_sequence: number;
+    scheduled_at: string;
+    duration_minutes: number;
+    interview_type: string;
+    meeting_url: string | null;
+  };
+  candidateName: string;
+  jobTitle: string;
+  organizer?: IcsPerson;
+  attendees?: IcsPerson[];
+}
+
+// Organizer of invites for interviews with nobody on the panel to name: the address emails come from
+export function defaultOrganizer(): IcsPerson {
+  const from = Deno.env.get('EMAIL_FROM') || 'CortexHR <noreply@cortexhr.com>';
+  const match = from.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || null, email: match[2] } : { email: from.trim() };
+}
+
+// Interviews without a Google Calendar event are known to calendars by this UID
+export const interviewUid = (interview: { id: string; ical_uid: string | null }) =>
+  interview.ical_uid || `interview-${interview.id}@cortexhr`;
+
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const escapeParam = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+const encoder = new TextEncoder();
+
+// Content lines are folded at 75 octets, never inside a multi-byte character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+const person = (property: string, { email, name }: IcsPerson, params: string[] = []) =>
+  [property, ...(name ? [`CN=${escapeParam(name)}`] : []), ...params].join(';') + `:mailto:${email}`;
+
+function eventLines(event: IcsEvent, method: IcsMethod): string[] {
+  const start = new Date(event.start);
+  const end = new Date(start.getTime() + event.durationMinutes * 60000);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`, `URL:${event.location}`] : []),
+    ...(event.organizer ? [person('ORGANIZER', event.organizer)] : []),
+    ...(event.attendees ?? []).map((attendee) =>
+      person('ATTENDEE', attendee, ['ROLE=REQ-PARTICIPANT', 'PARTSTAT=NEEDS-ACTION', 'RSVP=TRUE']),
+    ),
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+// The event for an interview as it stands, under the UID and sequence its attendees already know
+export const interviewEvent = ({ interview, candidateName, jobTitle, organizer, attendees }: InterviewInvite): IcsEvent => ({
+  uid: interviewUid(interview),
+  sequence: interview.ical_sequence,
+  start: interview.scheduled_at,
+  durationMinutes: interview.duration_minutes,
+  summary: `Interview: ${candidateName} - ${jobTitle}`,
+  description: `${interview.interview_type} interview with ${candidateName} for the ${jobTitle} position.`,
+  location: interview.meeting_url,
+  organizer,
+  attendees,
+});
+
+// calendarName is shown by clients that subscribe to a feed
+export function buildIcs(method: IcsMethod, events: IcsEvent[], calendarName?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CortexHR//Interviews//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`] : []),
+    ...events.flatMap((event) => eventLines(event, method)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// An invite as an email attachment; mail clients offer to add, update or remove the event
+export function icsAttachment(method: Exclude<IcsMethod, 'PUBLISH'>, event: IcsEvent): EmailAttachment {
+  const bytes = encoder.encode(buildIcs(method, [event]));
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return {
+    filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+    content: btoa(binary),
+    contentType: `text/calendar; charset=UTF-8; method=${method}`,
+  };
+}
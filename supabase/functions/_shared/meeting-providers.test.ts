@@ -0,0 +1,271 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMeeting, deleteMeeting, updateMeeting } from "./meeting-providers.ts";
+
+// A local stand-in for the Microsoft and Zoom APIs. Each route answers with a status and JSON body that
+// a test may override, and every request is recorded.
+interface MockCall {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+type MockResponse = { status: number; body?: unknown };
+
+const DEFAULT_ROUTES: Record<string, MockResponse> = {
+  'POST /ms-login/tenant-1/oauth2/v2.0/token': { status: 200, body: { access_token: 'ms-token' } },
+  'POST /graph/users/me/onlineMeetings': { status: 201, body: { id: 'teams-1', joinWebUrl: 'https://teams.example.com/join/1' } },
+  'PATCH /graph/users/me/onlineMeetings/teams-1': { status: 200, body: {} },
+  'DELETE /graph/users/me/onlineMeetings/teams-1': { status: 204 },
+  'POST /zoom/oauth': { status: 200, body: { access_token: 'zoom-token' } },
+  'POST /zoom/api/users/me/meetings': { status: 201, body: { id: 123456789, join_url: 'https://zoom.example.com/j/123456789' } },
+  'PATCH /zoom/api/meetings/123456789': { status: 204 },
+  'DELETE /zoom/api/meetings/123456789': { status: 204 },
+};
+
+let server: Server;
+let baseUrl: string;
+let routes: Record<string, MockResponse>;
+let calls: MockCall[];
+
+const callsTo = (route: string) => calls.filter((call) => `${call.method} ${call.path}` === route);
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const path = new URL(req.url!, 'http://localhost').pathname;
+      calls.push({ method: req.method!, path, headers: req.headers, body });
+
+      const response = routes[`${req.method} ${path}`] ?? { status: 404, body: { error: 'Not found' } };
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const configureTeams = () => {
+  vi.stubEnv('MS_CLIENT_ID', 'ms-client');
+  vi.stubEnv('MS_CLIENT_SECRET', 'ms-secret');
+  vi.stubEnv('MS_TENANT_ID', 'tenant-1');
+};
+
+const configureZoom = () => {
+  vi.stubEnv('ZOOM_ACCOUNT_ID', 'zoom-account');
+  vi.stubEnv('ZOOM_CLIENT_ID', 'zoom-client');
+  vi.stubEnv('ZOOM_CLIENT_SECRET', 'zoom-secret');
+};
+
+const configureJitsi = () => {
+  vi.stubEnv('JITSI_BASE_URL', 'https://meet.example.org/');
+};
+
+const DETAILS = { scheduledAt: '2026-03-02T15:00:00.000Z', durationMinutes: 45, subject: 'Interview: Jane Doe - Engineer' };
+const MOVED = { scheduledAt: '2026-03-03T09:30:00.000Z', durationMinutes: 60 };
+
+beforeEach(() => {
+  routes = { ...DEFAULT_ROUTES };
+  calls = [];
+  vi.stubEnv('MS_LOGIN_URL', `${baseUrl}/ms-login`);
+  vi.stubEnv('MS_GRAPH_URL', `${baseUrl}/graph`);
+  vi.stubEnv('ZOOM_OAUTH_URL', `${baseUrl}/zoom/oauth`);
+  vi.stubEnv('ZOOM_API_URL', `${baseUrl}/zoom/api`);
+  for (const name of ['MS_CLIENT_ID', 'MS_CLIENT_SECRET', 'MS_TENANT_ID', 'ZOOM_ACCOUNT_ID', 'ZOOM_CLIENT_ID', 'ZOOM_CLIENT_SECRET', 'JITSI_BASE_URL']) {
+    vi.stubEnv(name, '');
+  }
+  // The helpers log each attempt and failure
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('Teams', () => {
+  beforeEach(configureTeams);
+
+  it('creates an online meeting with an app token', async () => {
+    expect(await createMeeting('teams', DETAILS)).toEqual({
+      provider: 'teams',
+      meetingUrl: 'https://teams.example.com/join/1',
+      meetingId: 'teams-1',
+    });
+
+    const [tokenCall] = callsTo('POST /ms-login/tenant-1/oauth2/v2.0/token');
+    expect(Object.fromEntries(new URLSearchParams(tokenCall.body))).toMatchObject({
+      client_id: 'ms-client',
+      client_secret: 'ms-secret',
+      grant_type: 'client_credentials',
+    });
+
+    const [createCall] = callsTo('POST /graph/users/me/onlineMeetings');
+    expect(createCall.headers.authorization).toBe('Bearer ms-token');
+    expect(JSON.parse(createCall.body)).toEqual({
+      startDateTime: '2026-03-02T15:00:00.000Z',
+      endDateTime: '2026-03-02T15:45:00.000Z',
+      subject: DETAILS.subject,
+    });
+  });
+
+  it('moves the meeting', async () => {
+    expect(await updateMeeting('teams', 'teams-1', MOVED)).toBe(true);
+    const [updateCall] = callsTo('PATCH /graph/users/me/onlineMeetings/teams-1');
+    expect(JSON.parse(updateCall.body)).toEqual({
+      startDateTime: '2026-03-03T09:30:00.000Z',
+      endDateTime: '2026-03-03T10:30:00.000Z',
+    });
+  });
+
+  it('reports a failed update', async () => {
+    routes['PATCH /graph/users/me/onlineMeetings/teams-1'] = { status: 404, body: { error: 'gone' } };
+    expect(await updateMeeting('teams', 'teams-1', MOVED)).toBe(false);
+  });
+
+  it('deletes the meeting', async () => {
+    expect(await deleteMeeting('teams', 'teams-1')).toBe(true);
+    expect(callsTo('DELETE /graph/users/me/onlineMeetings/teams-1')).toHaveLength(1);
+  });
+
+  it('treats a meeting that is already gone as deleted', async () => {
+    routes['DELETE /graph/users/me/onlineMeetings/teams-1'] = { status: 404, body: { error: 'not found' } };
+    expect(await deleteMeeting('teams', 'teams-1')).toBe(true);
+  });
+
+  it('reports other delete failures', async () => {
+    routes['DELETE /graph/users/me/onlineMeetings/teams-1'] = { status: 500, body: { error: 'boom' } };
+    expect(await deleteMeeting('teams', 'teams-1')).toBe(false);
+  });
+});
+
+describe('Zoom', () => {
+  beforeEach(configureZoom);
+
+  it('creates a scheduled meeting with an account token', async () => {
+    expect(await createMeeting('zoom', DETAILS)).toEqual({
+      provider: 'zoom',
+      meetingUrl: 'https://zoom.example.com/j/123456789',
+      meetingId: '123456789',
+    });
+
+    const [tokenCall] = callsTo('POST /zoom/oauth');
+    expect(tokenCall.headers.authorization).toBe(`Basic ${Buffer.from('zoom-client:zoom-secret').toString('base64')}`);
+
+    const [createCall] = callsTo('POST /zoom/api/users/me/meetings');
+    expect(createCall.headers.authorization).toBe('Bearer zoom-token');
+    expect(JSON.parse(createCall.body)).toMatchObject({
+      topic: DETAILS.subject,
+      type: 2,
+      start_time: '2026-03-02T15:00:00.000Z',
+      duration: 45,
+    });
+  });
+
+  it('moves the meeting', async () => {
+    expect(await updateMeeting('zoom', '123456789', MOVED)).toBe(true);
+    const [updateCall] = callsTo('PATCH /zoom/api/meetings/123456789');
+    expect(JSON.parse(updateCall.body)).toEqual({ start_time: '2026-03-03T09:30:00.000Z', duration: 60, timezone: 'UTC' });
+  });
+
+  it('deletes the meeting', async () => {
+    expect(await deleteMeeting('zoom', '123456789')).toBe(true);
+    expect(callsTo('DELETE /zoom/api/meetings/123456789')).toHaveLength(1);
+  });
+
+  it('treats a meeting that is already gone as deleted', async () => {
+    routes['DELETE /zoom/api/meetings/123456789'] = { status: 404, body: { code: 3001 } };
+    expect(await deleteMeeting('zoom', '123456789')).toBe(true);
+  });
+
+  it('reports a failed sign-in', async () => {
+    routes['POST /zoom/oauth'] = { status: 401, body: { reason: 'Invalid client' } };
+    expect(await deleteMeeting('zoom', '123456789')).toBe(false);
+    expect(callsTo('DELETE /zoom/api/meetings/123456789')).toHaveLength(0);
+  });
+});
+
+describe('Jitsi', () => {
+  beforeEach(configureJitsi);
+
+  it('creates a room under the base URL without calling a server', async () => {
+    const meeting = await createMeeting('jitsi', DETAILS);
+    expect(meeting?.provider).toBe('jitsi');
+    expect(meeting?.meetingId).toMatch(/^CortexHR-[0-9a-f]{32}$/);
+    expect(meeting?.meetingUrl).toBe(`https://meet.example.org/${meeting?.meetingId}`);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('gives every interview its own room', async () => {
+    const [first, second] = await Promise.all([createMeeting('jitsi', DETAILS), createMeeting('jitsi', DETAILS)]);
+    expect(first?.meetingId).not.toBe(second?.meetingId);
+  });
+
+  it('has nothing to update or delete', async () => {
+    expect(await updateMeeting('jitsi', 'CortexHR-room', MOVED)).toBe(true);
+    expect(await deleteMeeting('jitsi', 'CortexHR-room')).toBe(true);
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe('fallback', () => {
+  it('uses the preferred provider when it works', async () => {
+    configureTeams();
+    configureZoom();
+    configureJitsi();
+    expect((await createMeeting('zoom', DETAILS))?.provider).toBe('zoom');
+    expect(callsTo('POST /graph/users/me/onlineMeetings')).toHaveLength(0);
+  });
+
+  it('tries Teams, then Zoom, then Jitsi', async () => {
+    configureTeams();
+    configureZoom();
+    configureJitsi();
+    routes['POST /graph/users/me/onlineMeetings'] = { status: 403, body: { error: 'Forbidden' } };
+    expect((await createMeeting('jitsi', DETAILS))?.provider).toBe('jitsi');
+    expect((await createMeeting('google_meet', DETAILS))?.provider).toBe('zoom');
+
+    routes['POST /zoom/api/users/me/meetings'] = { status: 500, body: { message: 'Unavailable' } };
+    expect((await createMeeting('google_meet', DETAILS))?.provider).toBe('jitsi');
+  });
+
+  it('moves on when the preferred provider fails', async () => {
+    configureTeams();
+    configureZoom();
+    routes['POST /zoom/oauth'] = { status: 401, body: { reason: 'Invalid client' } };
+    expect((await createMeeting('zoom', DETAILS))?.provider).toBe('teams');
+  });
+
+  it('skips providers that are not configured', async () => {
+    configureJitsi();
+    expect((await createMeeting('teams', DETAILS))?.provider).toBe('jitsi');
+    expect(calls).toHaveLength(0);
+  });
+
+  it('gives up when no provider can create a meeting', async () => {
+    configureTeams();
+    routes['POST /graph/users/me/onlineMeetings'] = { status: 500, body: { error: 'boom' } };
+    expect(await createMeeting('teams', DETAILS)).toBeNull();
+  });
+
+  it('leaves Google Meet links to the calendar event', async () => {
+    expect(await updateMeeting('google_meet', 'event-1', MOVED)).toBe(true);
+    expect(await deleteMeeting('google_meet', 'event-1')).toBe(true);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('cannot update or delete with a provider that is not configured', async () => {
+    expect(await updateMeeting('zoom', '123456789', MOVED)).toBe(false);
+    expect(await deleteMeeting('teams', 'teams-1')).toBe(false);
+    expect(calls).toHaveLength(0);
+  });
+});
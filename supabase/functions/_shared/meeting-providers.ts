@@ -0,0 +1,236 @@
+// Video meeting provider abstraction
+// Supports: Google Meet, Microsoft Teams, Zoom and self-hosted Jitsi
+//
+// Google Meet links come with the Google Calendar event, so they are created, moved and deleted through
+// google-calendar.ts. The other providers have their own API here and are configured by environment:
+// Teams with MS_CLIENT_ID, MS_CLIENT_SECRET and MS_TENANT_ID, Zoom with a server-to-server OAuth app
+// (ZOOM_ACCOUNT_ID, ZOOM_CLIENT_ID, ZOOM_CLIENT_SECRET) and Jitsi with JITSI_BASE_URL. MS_LOGIN_URL,
+// MS_GRAPH_URL, ZOOM_OAUTH_URL and ZOOM_API_URL point the API calls at a local mock for development
+// and tests.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type MeetingProviderName = 'google_meet' | 'teams' | 'zoom' | 'jitsi';
+
+export const MEETING_PROVIDERS: MeetingProviderName[] = ['google_meet', 'teams', 'zoom', 'jitsi'];
+
+export interface MeetingDetails {
+  scheduledAt: string;
+  durationMinutes: number;
+  subject: string;
+}
+
+export interface CreatedMeeting {
+  provider: MeetingProviderName;
+  meetingUrl: string;
+  meetingId: string;
+}
+
+interface MeetingApi {
+  isConfigured(): boolean;
+  // Each call throws when the provider refuses; the exported helpers log and report failure instead
+  create(details: MeetingDetails): Promise<{ meetingUrl: string; meetingId: string }>;
+  // Moves the meeting; the join link stays the same
+  update(meetingId: string, details: Omit<MeetingDetails, 'subject'>): Promise<void>;
+  remove(meetingId: string): Promise<void>;
+}
+
+type ApiProvider = Exclude<MeetingProviderName, 'google_meet'>;
+
+export const isMeetingProvider = (value: unknown): value is MeetingProviderName =>
+  MEETING_PROVIDERS.includes(value as MeetingProviderName);
+
+const meetingTimes = (scheduledAt: string, durationMinutes: number) => {
+  const startTime = new Date(scheduledAt);
+  return {
+    startDateTime: startTime.toISOString(),
+    endDateTime: new Date(startTime.getTime() + durationMinutes * 60000).toISOString(),
+  };
+};
+
+const graphUrl = () => Deno.env.get('MS_GRAPH_URL') || 'https://graph.microsoft.com/v1.0';
+
+async function getGraphToken(): Promise<string> {
+  const loginUrl = Deno.env.get('MS_LOGIN_URL') || 'https://login.microsoftonline.com';
+  const tokenResponse = await fetch(`${loginUrl}/${Deno.env.get('MS_TENANT_ID')}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: Deno.env.get('MS_CLIENT_ID')!,
+      client_secret: Deno.env.get('MS_CLIENT_SECRET')!,
+      scope: 'https://graph.microsoft.com/.default',
+      grant_type: 'client_credentials',
+    }),
+  });
+
+  if (!tokenResponse.ok) throw new Error(`Microsoft sign-in failed: ${await tokenResponse.text()}`);
+
+  const tokenData = await tokenResponse.json();
+  return tokenData.access_token;
+}
+
+const teams: MeetingApi = {
+  isConfigured: () => !!(Deno.env.get('MS_CLIENT_ID') && Deno.env.get('MS_CLIENT_SECRET') && Deno.env.get('MS_TENANT_ID')),
+
+  async create({ scheduledAt, durationMinutes, subject }) {
+    const response = await fetch(`${graphUrl()}/users/me/onlineMeetings`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await getGraphToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...meetingTimes(scheduledAt, durationMinutes), subject }),
+    });
+    if (!response.ok) throw new Error(await response.text());
+
+    const meeting = await response.json();
+    return { meetingUrl: meeting.joinWebUrl as string, meetingId: meeting.id as string };
+  },
+
+  async update(meetingId, { scheduledAt, durationMinutes }) {
+    const response = await fetch(`${graphUrl()}/users/me/onlineMeetings/${encodeURIComponent(meetingId)}`, {
+      method: 'PATCH',
+      headers: { 'Authorization': `Bearer ${await getGraphToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(meetingTimes(scheduledAt, durationMinutes)),
+    });
+    if (!response.ok) throw new Error(await response.text());
+  },
+
+  async remove(meetingId) {
+    const response = await fetch(`${graphUrl()}/users/me/onlineMeetings/${encodeURIComponent(meetingId)}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${await getGraphToken()}` },
+    });
+    if (!response.ok && response.status !== 404) throw new Error(await response.text());
+  },
+};
+
+const zoomUrl = () => Deno.env.get('ZOOM_API_URL') || 'https://api.zoom.us/v2';
+
+async function getZoomToken(): Promise<string> {
+  const oauthUrl = Deno.env.get('ZOOM_OAUTH_URL') || 'https://zoom.us/oauth/token';
+  const params = new URLSearchParams({ grant_type: 'account_credentials', account_id: Deno.env.get('ZOOM_ACCOUNT_ID')! });
+  const tokenResponse = await fetch(`${oauthUrl}?${params}`, {
+    method: 'POST',
+    headers: { 'Authorization': `Basic ${btoa(`${Deno.env.get('ZOOM_CLIENT_ID')}:${Deno.env.get('ZOOM_CLIENT_SECRET')}`)}` },
+  });
+
+  if (!tokenResponse.ok) throw new Error(`Zoom sign-in failed: ${await tokenResponse.text()}`);
+
+  const tokenData = await tokenResponse.json();
+  return tokenData.access_token;
+}
+
+const zoom: MeetingApi = {
+  isConfigured: () => !!(Deno.env.get('ZOOM_ACCOUNT_ID') && Deno.env.get('ZOOM_CLIENT_ID') && Deno.env.get('ZOOM_CLIENT_SECRET')),
+
+  async create({ scheduledAt, durationMinutes, subject }) {
+    const response = await fetch(`${zoomUrl()}/users/me/meetings`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await getZoomToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        topic: subject,
+        // Scheduled meeting
+        type: 2,
+        start_time: new Date(scheduledAt).toISOString(),
+        duration: durationMinutes,
+        timezone: 'UTC',
+        settings: { join_before_host: false, waiting_room: true },
+      }),
+    });
+    if (!response.ok) throw new Error(await response.text());
+
+    const meeting = await response.json();
+    return { meetingUrl: meeting.join_url as string, meetingId: String(meeting.id) };
+  },
+
+  async update(meetingId, { scheduledAt, durationMinutes }) {
+    const response = await fetch(`${zoomUrl()}/meetings/${encodeURIComponent(meetingId)}`, {
+      method: 'PATCH',
+      headers: { 'Authorization': `Bearer ${await getZoomToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ start_time: new Date(scheduledAt).toISOString(), duration: durationMinutes, timezone: 'UTC' }),
+    });
+    if (!response.ok) throw new Error(await response.text());
+  },
+
+  async remove(meetingId) {
+    const response = await fetch(`${zoomUrl()}/meetings/${encodeURIComponent(meetingId)}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${await getZoomToken()}` },
+    });
+    if (!response.ok && response.status !== 404) throw new Error(await response.text());
+  },
+};
+
+// Jitsi rooms exist while someone is in them, so a hard-to-guess room name is the whole meeting.
+// Moving or cancelling the interview leaves nothing to change on the server.
+const jitsi: MeetingApi = {
+  isConfigured: () => !!Deno.env.get('JITSI_BASE_URL'),
+
+  create() {
+    const room = `CortexHR-${crypto.randomUUID().replace(/-/g, '')}`;
+    const baseUrl = Deno.env.get('JITSI_BASE_URL')!.replace(/\/+$/, '');
+    return Promise.resolve({ meetingUrl: `${baseUrl}/${room}`, meetingId: room });
+  },
+
+  update: () => Promise.resolve(),
+  remove: () => Promise.resolve(),
+};
+
+const MEETING_APIS: Record<ApiProvider, MeetingApi> = { teams, zoom, jitsi };
+
+// Fallback order when the chosen provider cannot create a meeting
+const FALLBACK_ORDER: ApiProvider[] = ['teams', 'zoom', 'jitsi'];
+
+// The organization's default from meeting_settings
+export async function getDefaultMeetingProvider(supabase: SupabaseClient): Promise<MeetingProviderName> {
+  const { data } = await supabase.from('meeting_settings').select('default_provider').maybeSingle();
+  return isMeetingProvider(data?.default_provider) ? data.default_provider : 'google_meet';
+}
+
+// Tries the preferred provider, then the other configured ones. Google Meet is never created here: a
+// preferred google_meet only reaches this when there is no calendar event to carry the link.
+export async function createMeeting(preferred: MeetingProviderName, details: MeetingDetails): Promise<CreatedMeeting | null> {
+  const order = FALLBACK_ORDER.filter((provider) => provider !== preferred);
+  if (preferred !== 'google_meet') order.unshift(preferred);
+
+  for (const provider of order) {
+    const api = MEETING_APIS[provider];
+    if (!api.isConfigured()) continue;
+    try {
+      console.log(`Creating ${provider} meeting...`);
+      return { provider, ...await api.create(details) };
+    } catch (meetingError) {
+      console.error(`Creating ${provider} meeting failed:`, meetingError);
+    }
+  }
+  return null;
+}
+
+// False when the provider is not configured or refused. Meet links follow the calendar event.
+export async function updateMeeting(
+  provider: MeetingProviderName,
+  meetingId: string,
+  details: Omit<MeetingDetails, 'subject'>,
+): Promise<boolean> {
+  if (provider === 'google_meet') return true;
+  const api = MEETING_APIS[provider];
+  if (!api.isConfigured()) return false;
+  try {
+    await api.update(meetingId, details);
+    return true;
+  } catch (meetingError) {
+    console.error(`Updating ${provider} meeting failed:`, meetingError);
+    return false;
+  }
+}
+
+// A meeting that is already gone counts as deleted
+export async function deleteMeeting(provider: MeetingProviderName, meetingId: string): Promise<boolean> {
+  if (provider === 'google_meet') return true;
+  const api = MEETING_APIS[provider];
+  if (!api.isConfigured()) return false;
+  try {
+    await api.remove(meetingId);
+    return true;
+  } catch (meetingError) {
+    console.error(`Deleting ${provider} meeting failed:`, meetingError);
+    return false;
+  }
+}
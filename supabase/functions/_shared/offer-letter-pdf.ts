@@ -0,0 +1,187 @@
+// PDF rendering of an offer letter version, stored alongside the email for legal records
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import { formatCurrency, type OfferLetterRecord } from "./offer-letter.ts";
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 60;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BRAND = rgb(0.39, 0.4, 0.95);
+const TEXT = rgb(0.2, 0.2, 0.2);
+const MUTED = rgb(0.42, 0.45, 0.5);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Standard PDF fonts only cover WinAnsi; swap anything else for a placeholder instead of failing the render
+const sanitize = (text: string) =>
+  text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/[–—]/g, '-').replace(/[^\x20-\x7E\xA0-\xFF\n]/g, '?');
+
+class PdfWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private doc: PDFDocument, private regular: PDFFont, private bold: PDFFont) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of sanitize(text).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) > width && line) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; align?: 'left' | 'center' | 'right'; gap?: number } = {}) {
+    const { size = 11, bold = false, color = TEXT, align = 'left', gap = 6 } = options;
+    const font = bold ? this.bold : this.regular;
+    const lineHeight = size * 1.4;
+
+    for (const line of this.wrap(text, font, size, CONTENT_WIDTH)) {
+      this.ensureSpace(lineHeight);
+      const width = font.widthOfTextAtSize(line, size);
+      const x = align === 'center' ? (PAGE_WIDTH - width) / 2 : align === 'right' ? PAGE_WIDTH - MARGIN - width : MARGIN;
+      this.page.drawText(line, { x, y: this.y - size, size, font, color });
+      this.y -= lineHeight;
+    }
+    this.y -= gap;
+  }
+
+  row(label: string, value: string) {
+    const size = 10.5;
+    const labelWidth = CONTENT_WIDTH * 0.38;
+    const valueLines = this.wrap(value, this.regular, size, CONTENT_WIDTH - labelWidth);
+    const lineHeight = size * 1.4;
+
+    this.ensureSpace(lineHeight * valueLines.length + 6);
+    this.page.drawText(sanitize(label), { x: MARGIN, y: this.y - size, size, font: this.bold, color: TEXT });
+    valueLines.forEach((line, index) => {
+      this.page.drawText(line, {
+        x: MARGIN + labelWidth,
+        y: this.y - size - index * lineHeight,
+        size,
+        font: this.regular,
+        color: TEXT,
+      });
+    });
+    this.y -= lineHeight * valueLines.length + 6;
+  }
+
+  rule(color = BRAND, thickness = 1.5) {
+    this.ensureSpace(12);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness,
+      color,
+    });
+    this.y -= 14;
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  section(title: string) {
+    this.space(8);
+    this.text(title, { size: 12, bold: true, color: BRAND, gap: 4 });
+  }
+
+  footer(text: string) {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const label = sanitize(`${text} · Page ${index + 1} of ${pages.length}`);
+      const width = this.regular.widthOfTextAtSize(label, 8);
+      page.drawText(label, { x: (PAGE_WIDTH - width) / 2, y: MARGIN / 2, size: 8, font: this.regular, color: MUTED });
+    });
+  }
+}
+
+export async function renderOfferLetterPDF(
+  offer: OfferLetterRecord,
+  candidate: { full_name: string },
+  versionNumber: number,
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Offer Letter - ${offer.position_title}`);
+  doc.setAuthor('CortexHR');
+  doc.setSubject(`Employment offer for ${candidate.full_name}, version ${versionNumber}`);
+
+  const regular = await doc.embedFont(StandardFonts.TimesRoman);
+  const bold = await doc.embedFont(StandardFonts.TimesRomanBold);
+  const pdf = new PdfWriter(doc, regular, bold);
+
+  pdf.text('CortexHR', { size: 24, bold: true, color: BRAND, align: 'center', gap: 2 });
+  pdf.text('Employment Offer Letter', { size: 16, align: 'center', gap: 10 });
+  pdf.rule();
+  pdf.text(formatDate(new Date().toISOString()), { color: MUTED, align: 'right', gap: 12 });
+
+  pdf.text(`Dear ${candidate.full_name},`);
+  pdf.text('We are thrilled to extend this offer of employment to you! After careful consideration, we believe you would be an excellent addition to our team.', { gap: 10 });
+
+  pdf.section('Position Details');
+  pdf.row('Position Title', offer.position_title);
+  pdf.row('Department', offer.department);
+  pdf.row('Employment Type', offer.employment_type);
+  pdf.row('Work Location', offer.work_location);
+  if (offer.remote_policy) pdf.row('Remote Policy', offer.remote_policy);
+  if (offer.reporting_manager) pdf.row('Reporting To', offer.reporting_manager);
+  pdf.row('Proposed Start Date', formatDate(offer.proposed_start_date));
+
+  pdf.section('Compensation Package');
+  pdf.row('Base Salary', `${formatCurrency(offer.salary_amount, offer.salary_currency)} ${offer.salary_frequency}`);
+  if (offer.bonus_structure) pdf.row('Bonus Structure', offer.bonus_structure);
+  if (offer.equity_details) pdf.row('Equity', offer.equity_details);
+
+  if (offer.benefits_package || offer.vacation_days || offer.sick_leave_days) {
+    pdf.section('Benefits');
+    if (offer.benefits_package) pdf.text(offer.benefits_package);
+    if (offer.vacation_days) pdf.row('Vacation Days', `${offer.vacation_days} days per year`);
+    if (offer.sick_leave_days) pdf.row('Sick Leave', `${offer.sick_leave_days} days per year`);
+  }
+
+  if (offer.probation_period_months || offer.notice_period_days) {
+    pdf.section('Employment Terms');
+    if (offer.probation_period_months) pdf.row('Probation Period', `${offer.probation_period_months} months`);
+    if (offer.notice_period_days) pdf.row('Notice Period', `${offer.notice_period_days} days`);
+  }
+
+  if (offer.additional_notes) {
+    pdf.section('Additional Information');
+    pdf.text(offer.additional_notes);
+  }
+
+  pdf.space(8);
+  pdf.text('This offer is contingent upon successful completion of background verification and any other pre-employment requirements.');
+  if (offer.offer_expiry_date) {
+    pdf.text(`Please respond to this offer by ${formatDate(offer.offer_expiry_date)}.`, { bold: true });
+  }
+  pdf.text('We are excited about the possibility of you joining our team!', { gap: 40 });
+
+  pdf.rule(TEXT, 0.75);
+  pdf.text(`Candidate: ${candidate.full_name}`, { size: 10, color: MUTED, gap: 2 });
+  pdf.text('Signature and date', { size: 10, color: MUTED });
+
+  pdf.footer(`Offer letter version ${versionNumber}`);
+
+  return await doc.save();
+}
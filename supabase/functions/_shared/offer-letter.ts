@@ -0,0 +1,224 @@
+// Offer letter rendering shared by send-offer-letter and offer-response
+
+export interface OfferLetterRecord {
+  position_title: string;
+  department: string;
+  employment_type: string;
+  work_location: string;
+  remote_policy: string | null;
+  reporting_manager: string | null;
+  proposed_start_date: string;
+  offer_expiry_date: string | null;
+  salary_amount: number;
+  salary_currency: string;
+  salary_frequency: string;
+  bonus_structure: string | null;
+  equity_details: string | null;
+  benefits_package: string | null;
+  vacation_days: number | null;
+  sick_leave_days: number | null;
+  probation_period_months: number | null;
+  notice_period_days: number | null;
+  additional_notes: string | null;
+}
+
+export function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency,
+  }).format(amount);
+}
+
+export function generateOfferLetterHTML(
+  offer: OfferLetterRecord,
+  candidate: { full_name: string },
+  responseUrl?: string,
+): string {
+  const today = new Date().toLocaleDateString('en-US', { 
+    year: 'numeric', 
+    month: 'long', 
+    day: 'numeric' 
+  });
+
+  const startDate = new Date(offer.proposed_start_date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  const expiryDate = offer.offer_expiry_date 
+    ? new Date(offer.offer_expiry_date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      })
+    : null;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 40px; }
+    .header { text-align: center; border-bottom: 2px solid #6366f1; padding-bottom: 20px; margin-bottom: 30px; }
+    .logo { font-size: 28px; font-weight: bold; color: #6366f1; }
+    .title { font-size: 24px; margin-top: 10px; color: #1f2937; }
+    .date { text-align: right; color: #6b7280; margin-bottom: 20px; }
+    .section { margin-bottom: 20px; }
+    .section-title { font-weight: bold; color: #6366f1; margin-bottom: 10px; }
+    .highlight { background-color: #f0f9ff; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .compensation-table { width: 100%; border-collapse: collapse; margin: 15px 0; }
+    .compensation-table td { padding: 10px; border-bottom: 1px solid #e5e7eb; }
+    .compensation-table td:first-child { font-weight: 600; width: 40%; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb; font-size: 14px; color: #6b7280; }
+    .signature-line { margin-top: 50px; }
+    .signature-box { display: inline-block; width: 45%; }
+    .signature-box .line { border-bottom: 1px solid #333; margin-bottom: 5px; height: 30px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="logo">CortexHR</div>
+    <div class="title">Employment Offer Letter</div>
+  </div>
+
+  <div class="date">${today}</div>
+
+  <div class="section">
+    <p>Dear <strong>${candidate.full_name}</strong>,</p>
+    <p>We are thrilled to extend this offer of employment to you! After careful consideration, we believe you would be an excellent addition to our team.</p>
+  </div>
+
+  <div class="highlight">
+    <div class="section-title">Position Details</div>
+    <table class="compensation-table">
+      <tr>
+        <td>Position Title</td>
+        <td>${offer.position_title}</td>
+      </tr>
+      <tr>
+        <td>Department</td>
+        <td>${offer.department}</td>
+      </tr>
+      <tr>
+        <td>Employment Type</td>
+        <td>${offer.employment_type}</td>
+      </tr>
+      <tr>
+        <td>Work Location</td>
+        <td>${offer.work_location}</td>
+      </tr>
+      ${offer.remote_policy ? `
+      <tr>
+        <td>Remote Policy</td>
+        <td>${offer.remote_policy}</td>
+      </tr>` : ''}
+      ${offer.reporting_manager ? `
+      <tr>
+        <td>Reporting To</td>
+        <td>${offer.reporting_manager}</td>
+      </tr>` : ''}
+      <tr>
+        <td>Proposed Start Date</td>
+        <td>${startDate}</td>
+      </tr>
+    </table>
+  </div>
+
+  <div class="highlight">
+    <div class="section-title">Compensation Package</div>
+    <table class="compensation-table">
+      <tr>
+        <td>Base Salary</td>
+        <td><strong>${formatCurrency(offer.salary_amount, offer.salary_currency)}</strong> ${offer.salary_frequency}</td>
+      </tr>
+      ${offer.bonus_structure ? `
+      <tr>
+        <td>Bonus Structure</td>
+        <td>${offer.bonus_structure}</td>
+      </tr>` : ''}
+      ${offer.equity_details ? `
+      <tr>
+        <td>Equity</td>
+        <td>${offer.equity_details}</td>
+      </tr>` : ''}
+    </table>
+  </div>
+
+  ${offer.benefits_package || offer.vacation_days || offer.sick_leave_days ? `
+  <div class="section">
+    <div class="section-title">Benefits</div>
+    ${offer.benefits_package ? `<p>${offer.benefits_package}</p>` : ''}
+    <table class="compensation-table">
+      ${offer.vacation_days ? `
+      <tr>
+        <td>Vacation Days</td>
+        <td>${offer.vacation_days} days per year</td>
+      </tr>` : ''}
+      ${offer.sick_leave_days ? `
+      <tr>
+        <td>Sick Leave</td>
+        <td>${offer.sick_leave_days} days per year</td>
+      </tr>` : ''}
+    </table>
+  </div>` : ''}
+
+  <div class="section">
+    <div class="section-title">Employment Terms</div>
+    <table class="compensation-table">
+      ${offer.probation_period_months ? `
+      <tr>
+        <td>Probation Period</td>
+        <td>${offer.probation_period_months} months</td>
+      </tr>` : ''}
+      ${offer.notice_period_days ? `
+      <tr>
+        <td>Notice Period</td>
+        <td>${offer.notice_period_days} days</td>
+      </tr>` : ''}
+    </table>
+  </div>
+
+  ${offer.additional_notes ? `
+  <div class="section">
+    <div class="section-title">Additional Information</div>
+    <p>${offer.additional_notes}</p>
+  </div>` : ''}
+
+  <div class="section">
+    <p>This offer is contingent upon successful completion of background verification and any other pre-employment requirements.</p>
+    ${expiryDate ? `<p><strong>Please respond to this offer by ${expiryDate}.</strong></p>` : ''}
+    ${responseUrl ? `
+    <p>To accept or decline this offer, please use the secure link below. Accepting asks you to sign electronically by typing your full name.</p>
+    <p style="text-align: center; margin: 30px 0;">
+      <a href="${responseUrl}" style="display: inline-block; background: #6366f1; color: #ffffff; padding: 14px 28px; text-decoration: none; border-radius: 6px; font-family: Arial, sans-serif;">Review &amp; Respond to Offer</a>
+    </p>` : `
+    <p>To accept this offer, please sign below and return a copy to us.</p>`}
+    <p>We are excited about the possibility of you joining our team!</p>
+  </div>
+
+  <div class="signature-line">
+    <div class="signature-box">
+      <div class="line"></div>
+      <div>Candidate Signature</div>
+      <div>${candidate.full_name}</div>
+    </div>
+    <div class="signature-box" style="float: right;">
+      <div class="line"></div>
+      <div>Authorized Signatory</div>
+      <div>CortexHR</div>
+    </div>
+  </div>
+
+  <div style="clear: both;"></div>
+
+  <div class="footer">
+    <p>This offer letter is subject to the terms and conditions outlined in the employee handbook and company policies.</p>
+    <p>If you have any questions, please don't hesitate to reach out to our HR team.</p>
+    <p style="text-align: center; margin-top: 20px;">
+      <strong>CortexHR</strong> | Where Talent Meets Technology
+    </p>
+  </div>
+</body>
+</html>`;
+}
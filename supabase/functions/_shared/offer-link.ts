@@ -0,0 +1,85 @@
+// Signed, expiring links for candidates to respond to an offer letter.
+// Token format: base64url("<offerLetterId>.<expiresAtEpochSeconds>").base64url(HMAC-SHA256)
+
+const encoder = new TextEncoder();
+
+// Links stay valid this long when the offer has no expiry date of its own
+const DEFAULT_LINK_TTL_DAYS = 14;
+
+function getSecret(): string {
+  const secret = Deno.env.get('OFFER_LINK_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!secret) throw new Error('OFFER_LINK_SECRET is not configured');
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function sign(payload: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+// The link expires at the end of the offer's expiry date, or after the default TTL
+export function getOfferLinkExpiry(offerExpiryDate: string | null): Date {
+  if (offerExpiryDate) {
+    return new Date(`${offerExpiryDate}T23:59:59Z`);
+  }
+  return new Date(Date.now() + DEFAULT_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export async function createOfferResponseToken(offerLetterId: string, expiresAt: Date): Promise<string> {
+  const payload = `${offerLetterId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  const signature = await sign(payload);
+  return `${toBase64Url(encoder.encode(payload))}.${toBase64Url(signature)}`;
+}
+
+export type OfferTokenResult =
+  | { valid: true; offerLetterId: string; expiresAt: Date }
+  | { valid: false; reason: 'malformed' | 'bad_signature' | 'expired' };
+
+export async function verifyOfferResponseToken(token: string): Promise<OfferTokenResult> {
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return { valid: false, reason: 'malformed' };
+
+  let payload: string;
+  let provided: Uint8Array;
+  try {
+    payload = new TextDecoder().decode(fromBase64Url(encodedPayload));
+    provided = fromBase64Url(encodedSignature);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [offerLetterId, expiresAtSeconds] = payload.split('.');
+  if (!offerLetterId || !expiresAtSeconds) return { valid: false, reason: 'malformed' };
+
+  // Constant-time comparison so the signature cannot be probed byte by byte
+  const expected = await sign(payload);
+  if (provided.length !== expected.length) return { valid: false, reason: 'bad_signature' };
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ provided[i];
+  if (diff !== 0) return { valid: false, reason: 'bad_signature' };
+
+  const expiresAt = new Date(Number(expiresAtSeconds) * 1000);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, offerLetterId, expiresAt };
+}
@@ -0,0 +1,13 @@
+// Staff roles for edge functions. Mirrors the database helpers has_full_access / can_access_application
+// so a function running with the service role enforces the same rules as RLS.
+export type AppRole = 'admin' | 'recruiter' | 'hr_manager';
+
+export const STAFF_ROLES: AppRole[] = ['admin', 'hr_manager', 'recruiter'];
+
+// Admins and HR managers see every requisition; recruiters only jobs assigned to them
+export const FULL_ACCESS_ROLES: AppRole[] = ['admin', 'hr_manager'];
+export const OFFER_APPROVER_ROLES: AppRole[] = ['admin', 'hr_manager'];
+export const ADMIN_ROLES: AppRole[] = ['admin'];
+
+export const hasAnyRole = (roles: AppRole[], allowed: AppRole[]) =>
+  roles.some((role) => allowed.includes(role));
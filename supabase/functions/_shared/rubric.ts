@@ -0,0 +1,106 @@
+// Per-job scoring rubric for resume analysis. Jobs without one (scoring_rubric is null) are scored
+// against DEFAULT_RUBRIC, the original fixed breakdown. Keep in sync with src/lib/rubric.ts.
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const RubricSchema = z.object({
+  dimensions: z
+    .array(
+      z.object({
+        key: z.string().regex(/^[a-z0-9_]+$/),
+        label: z.string().min(1),
+        weight: z.number().positive(),
+        description: z.string().default(''),
+      }),
+    )
+    .min(1),
+  knockouts: z.array(z.string().min(1)).default([]),
+  notes: z.string().default(''),
+});
+
+export type ScoringRubric = z.infer<typeof RubricSchema>;
+
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  dimensions: [
+    {
+      key: 'technical_skills',
+      label: 'Technical Skills',
+      weight: 30,
+      description: 'Assess depth, breadth, relevance, and hands-on experience with technologies. Look for specific projects, tools, frameworks mentioned.',
+    },
+    {
+      key: 'experience_quality',
+      label: 'Experience Quality',
+      weight: 25,
+      description: 'Evaluate career progression, impact achieved, responsibilities held, and relevance to typical roles. Look for quantified achievements.',
+    },
+    {
+      key: 'education_certifications',
+      label: 'Education & Certifications',
+      weight: 15,
+      description: 'Consider formal education, bootcamps, online courses, certifications. Non-traditional paths can still score high if relevant.',
+    },
+    {
+      key: 'communication_presentation',
+      label: 'Communication & Presentation',
+      weight: 10,
+      description: 'How well is the resume written? Is it clear, well-organized, professional? Are achievements articulated effectively?',
+    },
+    {
+      key: 'cultural_fit',
+      label: 'Cultural Fit Indicators',
+      weight: 10,
+      description: 'Look for teamwork, leadership, mentoring, community involvement, adaptability, initiative.',
+    },
+    {
+      key: 'job_match',
+      label: 'Job Match',
+      weight: 10,
+      description: 'If job requirements provided, how well does the candidate match? Otherwise, general employability.',
+    },
+  ],
+  knockouts: [],
+  notes: '',
+};
+
+// A malformed stored rubric falls back to the default instead of failing the analysis
+export function parseRubric(value: unknown): ScoringRubric {
+  if (!value) return DEFAULT_RUBRIC;
+  const result = RubricSchema.safeParse(value);
+  if (!result.success) {
+    console.warn('Invalid job scoring rubric, using default:', result.error.message);
+    return DEFAULT_RUBRIC;
+  }
+  return result.data;
+}
+
+export const rubricTotal = (rubric: ScoringRubric) =>
+  rubric.dimensions.reduce((sum, dimension) => sum + dimension.weight, 0);
+
+// Scoring instructions and the score_breakdown / knockouts part of the expected JSON
+export function rubricPrompt(rubric: ScoringRubric): { instructions: string; breakdownShape: string; knockoutShape: string } {
+  const total = rubricTotal(rubric);
+
+  const instructions = [
+    `## Scoring Breakdown (0-${total} total):`,
+    ...rubric.dimensions.map((d) => `- **${d.label} (${d.weight} points max)**: ${d.description || 'Score based on evidence in the resume.'}`),
+    ...(rubric.knockouts.length
+      ? [
+        '',
+        '## Knockout Requirements:',
+        'These are must-haves for the role. For each one, state whether the resume shows it is met and cite the evidence. Do not assume a requirement is met without evidence.',
+        ...rubric.knockouts.map((k) => `- ${k}`),
+      ]
+      : []),
+    ...(rubric.notes ? ['', '## Hiring Team Notes:', rubric.notes] : []),
+  ].join('\n');
+
+  const breakdownShape = `{\n${rubric.dimensions
+    .map((d) => `    "${d.key}": {\n      "points": <0-${d.weight}>,\n      "justification": "<2-3 sentences citing specific evidence from resume>"\n    }`)
+    .join(',\n')}\n  }`;
+
+  const knockoutShape = rubric.knockouts.length
+    ? `[${rubric.knockouts.map((k) => `\n    {"requirement": ${JSON.stringify(k)}, "met": <true|false>, "evidence": "<quote or null>"}`).join(',')}\n  ]`
+    : '[]';
+
+  return { instructions, breakdownShape, knockoutShape };
+}
@@ -1,10 +1,15 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError, createStructuredCompletion } from "../_shared/ai-provider.ts";
+import { PortfolioAnalysisSchema } from "../_shared/ai-schemas.ts";
+import { AccessError, BadRequestError, authorize, requireCandidateAccess, type AuthPolicy } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
 interface GitHubUser {
   login: string;
   name: string;
@@ -72,7 +77,11 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { candidateId, githubUrl, portfolioUrl } = await req.json();
+    const { auth, body } = await authorize<{ candidateId?: string; githubUrl?: string; portfolioUrl?: string }>(
+      req,
+      AUTH_POLICY,
+    );
+    const { candidateId, githubUrl, portfolioUrl } = body;
 
     if (!candidateId) {
       return new Response(
@@ -81,13 +90,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const AIAPI_API_KEY = Deno.env.get('AIAPI_API_KEY');
-    if (!AIAPI_API_KEY) {
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    await requireCandidateAccess(auth, candidateId);
 
     console.log('Analyzing portfolio for candidate:', candidateId);
 
@@ -132,14 +135,8 @@ Deno.serve(async (req) => {
 
     // Analyze with AI
     console.log('Sending to AI for analysis...');
-    const aiResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${AIAPI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
+    const { data } = await createStructuredCompletion(
+      {
         messages: [
           {
             role: 'system',
@@ -160,112 +157,72 @@ Be concise but thorough. Focus on actionable insights.`
             content: `Analyze this developer's portfolio/GitHub profile and provide hiring insights:\n${portfolioContent}`
           }
         ],
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'portfolio_analysis',
-              description: 'Structured analysis of a developer portfolio',
-              parameters: {
-                type: 'object',
-                properties: {
-                  skill_level: {
-                    type: 'string',
-                    enum: ['beginner', 'intermediate', 'advanced', 'expert'],
-                    description: 'Overall technical skill level'
-                  },
-                  primary_languages: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Primary programming languages used'
-                  },
-                  technologies: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Key technologies and frameworks'
-                  },
-                  strengths: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Key strengths identified'
-                  },
-                  concerns: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Potential concerns or red flags'
-                  },
-                  project_highlights: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Notable projects'
-                  },
-                  recommendation: {
-                    type: 'string',
-                    enum: ['strongly_recommend', 'recommend', 'consider', 'not_recommended'],
-                    description: 'Hiring recommendation'
-                  },
-                  summary: {
-                    type: 'string',
-                    description: 'Brief summary of the candidate'
-                  }
-                },
-                required: ['skill_level', 'primary_languages', 'technologies', 'strengths', 'recommendation', 'summary']
-              }
+      },
+      {
+        name: 'portfolio_analysis',
+        description: 'Structured analysis of a developer portfolio',
+        parameters: {
+          type: 'object',
+          properties: {
+            skill_level: {
+              type: 'string',
+              enum: ['beginner', 'intermediate', 'advanced', 'expert'],
+              description: 'Overall technical skill level'
+            },
+            primary_languages: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Primary programming languages used'
+            },
+            technologies: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Key technologies and frameworks'
+            },
+            strengths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Key strengths identified'
+            },
+            concerns: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Potential concerns or red flags'
+            },
+            project_highlights: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Notable projects'
+            },
+            recommendation: {
+              type: 'string',
+              enum: ['strongly_recommend', 'recommend', 'consider', 'not_recommended'],
+              description: 'Hiring recommendation'
+            },
+            summary: {
+              type: 'string',
+              description: 'Brief summary of the candidate'
             }
-          }
-        ],
-        tool_choice: { type: 'function', function: { name: 'portfolio_analysis' } }
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', aiResponse.status, errorText);
-
-      if (aiResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      return new Response(
-        JSON.stringify({ error: 'AI analysis failed' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiData = await aiResponse.json();
-    console.log('AI response received');
-
-    let analysis = null;
-    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
-    if (toolCall?.function?.arguments) {
-      try {
-        analysis = JSON.parse(toolCall.function.arguments);
-      } catch (e) {
-        console.error('Failed to parse AI response:', e);
-      }
-    }
-
-    if (!analysis) {
-      return new Response(
-        JSON.stringify({ error: 'Failed to parse AI analysis' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+          },
+          required: ['skill_level', 'primary_languages', 'technologies', 'strengths', 'recommendation', 'summary']
+        }
+      },
+      PortfolioAnalysisSchema
+    );
 
     // Add GitHub stats to analysis
-    if (githubData?.user) {
-      analysis.github_stats = {
-        username: githubData.user.login,
-        public_repos: githubData.user.public_repos,
-        followers: githubData.user.followers,
-        profile_url: githubData.user.html_url
-      };
-    }
-
-    analysis.analyzed_at = new Date().toISOString();
+    const analysis = {
+      ...data,
+      ...(githubData?.user ? {
+        github_stats: {
+          username: githubData.user.login,
+          public_repos: githubData.user.public_repos,
+          followers: githubData.user.followers,
+          profile_url: githubData.user.html_url
+        }
+      } : {}),
+      analyzed_at: new Date().toISOString(),
+    };
 
     // Update candidate with analysis
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -295,7 +252,10 @@ Be concise but thorough. Focus on actionable insights.`
     console.error('Error analyzing portfolio:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Analysis failed' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      {
+        status: error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof AIError ? error.httpStatus : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
     );
   }
 });
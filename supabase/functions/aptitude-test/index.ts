@@ -0,0 +1,253 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, type AuthPolicy } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Candidates reach this function through their emailed test link; the session token is the only credential
+const AUTH_POLICY: AuthPolicy = { modes: ['candidate'] };
+
+// Extra seconds accepted after the deadline to absorb network latency on auto-submit
+const SUBMIT_GRACE_SECONDS = 30;
+
+const VALID_OPTIONS = ['A', 'B', 'C', 'D'];
+
+interface AptitudeRequest {
+  action: 'start' | 'submit';
+  token: string;
+  answers?: Record<string, string>;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { body: { action, token, answers } } = await authorize<AptitudeRequest>(req, AUTH_POLICY);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: session, error: sessionError } = await supabase
+      .from('aptitude_test_sessions')
+      .select(`
+        *,
+        applications!inner(
+          id,
+          candidates!inner(full_name),
+          jobs!inner(title)
+        )
+      `)
+      .eq('token', token)
+      .maybeSingle();
+
+    if (sessionError) {
+      console.error('Session lookup error:', sessionError);
+      throw sessionError;
+    }
+
+    if (!session) {
+      return jsonResponse({ error: 'Invalid test link', code: 'NOT_FOUND' }, 404);
+    }
+
+    if (session.submitted_at) {
+      return jsonResponse({ error: 'This test has already been submitted', code: 'ALREADY_SUBMITTED' }, 409);
+    }
+
+    const application = session.applications;
+
+    switch (action) {
+      case 'start': {
+        if (!session.started_at && new Date(session.link_expires_at) < new Date()) {
+          return jsonResponse({ error: 'This test link has expired', code: 'LINK_EXPIRED' }, 410);
+        }
+
+        let questionIds: string[] = session.question_ids || [];
+        let startedAt: string = session.started_at;
+
+        // First open: draw a random set from the active bank and start the clock
+        if (!startedAt) {
+          const { data: pool, error: poolError } = await supabase
+            .from('aptitude_questions')
+            .select('id')
+            .eq('is_active', true);
+
+          if (poolError) throw poolError;
+
+          if (!pool || pool.length === 0) {
+            return jsonResponse({ error: 'No aptitude questions are available', code: 'NO_QUESTIONS' }, 503);
+          }
+
+          questionIds = shuffle(pool.map((q: { id: string }) => q.id)).slice(0, session.question_count);
+          startedAt = new Date().toISOString();
+
+          const { data: started, error: startError } = await supabase
+            .from('aptitude_test_sessions')
+            .update({ question_ids: questionIds, started_at: startedAt })
+            .eq('id', session.id)
+            .is('started_at', null)
+            .select('id');
+
+          if (startError) throw startError;
+
+          // Another tab started the test first; serve the set it drew
+          if (!started || started.length === 0) {
+            const { data: current, error: currentError } = await supabase
+              .from('aptitude_test_sessions')
+              .select('question_ids, started_at')
+              .eq('id', session.id)
+              .single();
+
+            if (currentError) throw currentError;
+            questionIds = current.question_ids;
+            startedAt = current.started_at;
+          }
+
+          console.log(`Aptitude test started for application ${application.id} with ${questionIds.length} questions`);
+        }
+
+        const deadline = new Date(new Date(startedAt).getTime() + session.time_limit_minutes * 60000);
+
+        // Never send correct_option to the candidate
+        const { data: questions, error: questionsError } = await supabase
+          .from('aptitude_questions')
+          .select('id, question_text, option_a, option_b, option_c, option_d, category')
+          .in('id', questionIds);
+
+        if (questionsError) throw questionsError;
+
+        const ordered = questionIds
+          .map((id) => questions?.find((q: { id: string }) => q.id === id))
+          .filter(Boolean);
+
+        return jsonResponse({
+          candidateName: application.candidates.full_name,
+          jobTitle: application.jobs.title,
+          timeLimitMinutes: session.time_limit_minutes,
+          startedAt,
+          deadline: deadline.toISOString(),
+          questions: ordered,
+        });
+      }
+
+      case 'submit': {
+        if (!session.started_at || !session.question_ids) {
+          return jsonResponse({ error: 'Test has not been started', code: 'NOT_STARTED' }, 400);
+        }
+
+        const deadline = new Date(session.started_at).getTime() + session.time_limit_minutes * 60000;
+        if (Date.now() > deadline + SUBMIT_GRACE_SECONDS * 1000) {
+          return jsonResponse({ error: 'The time limit for this test has passed', code: 'TIME_EXPIRED' }, 410);
+        }
+
+        const { data: keyRows, error: keyError } = await supabase
+          .from('aptitude_questions')
+          .select('id, correct_option')
+          .in('id', session.question_ids);
+
+        if (keyError) throw keyError;
+
+        // Checked before grading so a malformed request is a 400 rather than a crash
+        const malformed = answers !== undefined && (
+          typeof answers !== 'object' || answers === null || Array.isArray(answers)
+          || Object.values(answers).some((answer) => typeof answer !== 'string')
+        );
+        if (malformed) {
+          return jsonResponse({ error: 'Answers must map question ids to an option letter', code: 'INVALID_ANSWERS' }, 400);
+        }
+
+        const submitted = answers || {};
+        let correct = 0;
+        const answerRows = [];
+
+        for (const question of keyRows || []) {
+          const selected = submitted[question.id]?.toUpperCase();
+          if (!selected || !VALID_OPTIONS.includes(selected)) continue;
+
+          const isCorrect = selected === question.correct_option;
+          if (isCorrect) correct++;
+
+          answerRows.push({
+            application_id: application.id,
+            question_id: question.id,
+            selected_option: selected,
+            is_correct: isCorrect,
+          });
+        }
+
+        const total = session.question_ids.length;
+        const score = total > 0 ? Math.round((correct / total) * 100) : 0;
+
+        // Claim the session first so a double submit cannot grade twice
+        const { data: claimed, error: claimError } = await supabase
+          .from('aptitude_test_sessions')
+          .update({ submitted_at: new Date().toISOString(), score })
+          .eq('id', session.id)
+          .is('submitted_at', null)
+          .select('id');
+
+        if (claimError) throw claimError;
+        if (!claimed || claimed.length === 0) {
+          return jsonResponse({ error: 'This test has already been submitted', code: 'ALREADY_SUBMITTED' }, 409);
+        }
+
+        // A retake replaces the previous answers for this application
+        await supabase.from('aptitude_answers').delete().eq('application_id', application.id);
+
+        if (answerRows.length > 0) {
+          const { error: answersError } = await supabase.from('aptitude_answers').insert(answerRows);
+          if (answersError) {
+            console.error('Error saving aptitude answers:', answersError);
+          }
+        }
+
+        const { error: updateError } = await supabase
+          .from('applications')
+          .update({ aptitude_score: score, aptitude_completed: true })
+          .eq('id', application.id);
+
+        if (updateError) {
+          console.error('Error updating application aptitude score:', updateError);
+          throw updateError;
+        }
+
+        console.log(`Aptitude test graded for application ${application.id}: ${correct}/${total}`);
+
+        return jsonResponse({
+          success: true,
+          answered: answerRows.length,
+          total,
+          message: 'Your answers have been submitted',
+        });
+      }
+
+      default:
+        return jsonResponse({ error: 'Invalid action' }, 400);
+    }
+  } catch (error: unknown) {
+    console.error('Error in aptitude-test function:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createCompletion, documentPart } from "../_shared/ai-provider.ts";
+import { AccessError, BadRequestError, authorize, invokeInternal, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Runs from the signed applications insert trigger, or when HR re-runs an analysis
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'] };
+
 const RESUME_BUCKET = 'resumes';
 
 const guessMimeType = (pathOrUrl: string) => {
@@ -17,15 +22,6 @@ const guessMimeType = (pathOrUrl: string) => {
   return 'application/pdf';
 };
 
-const toBase64 = (bytes: Uint8Array) => {
-  let binary = '';
-  const chunkSize = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
-  }
-  return btoa(binary);
-};
-
 const extractStoragePathFromUrl = (maybeUrl: string): string | null => {
   if (!maybeUrl.startsWith('http')) return null;
 
@@ -86,7 +82,8 @@ serve(async (req) => {
   }
 
   try {
-    const { applicationId } = await req.json();
+    const { auth, body } = await authorize<{ applicationId?: string }>(req, AUTH_POLICY);
+    const { applicationId } = body;
 
     if (!applicationId) {
       return new Response(
@@ -98,53 +95,13 @@ serve(async (req) => {
     console.log('Auto-processing application:', applicationId);
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Check if this is an authenticated HR user request or an internal trigger call
-    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
-    let isAuthenticated = false;
-
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Verify the user is HR staff for manual calls
-      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
-        global: { headers: { Authorization: authHeader } },
-      });
-
-      const {
-        data: { user },
-        error: userError,
-      } = await supabaseAuth.auth.getUser();
-
-      if (!userError && user) {
-        const { data: roles } = await supabaseAuth
-          .from('user_roles')
-          .select('role')
-          .eq('user_id', user.id)
-          .limit(1);
-
-        if (roles && roles.length > 0) {
-          isAuthenticated = true;
-        }
-      }
-    }
-
-    // For internal trigger calls (no auth header), we allow processing
-    // The trigger is only set up on our database, so this is safe
-    const isInternalTrigger = !authHeader;
-
-    if (!isAuthenticated && !isInternalTrigger) {
-      console.log('Unauthorized: not HR staff and not internal trigger');
-      return new Response(JSON.stringify({ error: 'Forbidden' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    console.log(`Processing request - authenticated: ${isAuthenticated}, internal: ${isInternalTrigger}`);
+    // Manual re-runs need staff access to the application's job
+    await requireApplicationAccess(auth, applicationId);
 
-    // Use service role for fetching details
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    console.log(`Processing request - mode: ${auth.mode}`);
 
     // Fetch application with candidate and job details
     const { data: application, error: fetchError } = await supabase
@@ -180,57 +137,30 @@ serve(async (req) => {
       console.log('No resume text available, extracting from document...');
 
       try {
-        const aiapiApiKey = Deno.env.get('AIAPI_API_KEY');
-        if (!aiapiApiKey) {
-          throw new Error('AIAPI_API_KEY not configured');
-        }
-
         const { bytes, mime, source } = await getResumeBytes(supabase, resumeUrl);
         console.log(`Fetched resume bytes via ${source}. Size:`, bytes.length, 'mime:', mime);
 
-        const docBase64 = toBase64(bytes);
-
         console.log('Document fetched, sending to AI for text extraction...');
 
-        const aiResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${aiapiApiKey}`,
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [
-              {
-                role: 'user',
-                content: [
-                  {
-                    type: 'text',
-                    text: `Please extract and return ALL text content from this resume/CV document.
+        const extraction = await createCompletion({
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: `Please extract and return ALL text content from this resume/CV document.
 Return the complete text as-is, preserving structure where possible.
 Include all sections: personal info, work experience, education, skills, etc.
 Just return the extracted text, no commentary.`,
-                  },
-                  {
-                    type: 'image_url',
-                    image_url: {
-                      url: `data:${mime};base64,${docBase64}`,
-                    },
-                  },
-                ],
-              },
-            ],
-          }),
+                },
+                documentPart(bytes, mime),
+              ],
+            },
+          ],
+          timeoutMs: 120_000,
         });
-
-        if (!aiResponse.ok) {
-          const errorText = await aiResponse.text();
-          console.error('AI API error:', errorText);
-          throw new Error(`Text extraction failed: ${errorText}`);
-        }
-
-        const aiData = await aiResponse.json();
-        resumeText = aiData.choices?.[0]?.message?.content;
+        resumeText = extraction.content;
 
         if (resumeText) {
           console.log('Text extracted successfully, length:', resumeText.length);
@@ -251,6 +181,11 @@ Just return the extracted text, no commentary.`,
 
     if (!resumeText) {
       console.log('No resume text available for application:', applicationId);
+      await supabase
+        .from('applications')
+        .update({ ai_analysis_status: 'analysis_failed', ai_analysis_error: 'No resume text could be extracted' })
+        .eq('id', applicationId);
+
       return new Response(
         JSON.stringify({
           success: false,
@@ -262,19 +197,23 @@ Just return the extracted text, no commentary.`,
 
     // Call the parse-resume function
     console.log('Invoking parse-resume function...');
-    const { data: parseData, error: parseError } = await supabase.functions.invoke('parse-resume', {
-      body: {
-        resumeText,
-        applicationId,
-        jobRequirements
-      }
+    const parseResponse = await invokeInternal('parse-resume', {
+      resumeText,
+      applicationId,
+      jobRequirements
     });
 
-    if (parseError) {
-      console.error('Error invoking parse-resume:', parseError);
-      throw parseError;
+    if (!parseResponse.ok) {
+      console.error('Error invoking parse-resume:', parseResponse.status);
+      // Pass through parse-resume's own status and body (e.g. 422 ANALYSIS_FAILED)
+      return new Response(await parseResponse.text(), {
+        status: parseResponse.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
+    const parseData = await parseResponse.json();
+
     console.log('Successfully processed application:', applicationId);
 
     return new Response(
@@ -287,7 +226,7 @@ Just return the extracted text, no commentary.`,
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, requireCandidateAccess, requireStaffUser, type AuthPolicy } from "../_shared/auth.ts";
+import { actorFromAuth, recordAudit } from "../_shared/audit.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Any staff member may merge a pair, provided they can see both candidates
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
+interface MergeRequest {
+  action: 'merge';
+  duplicateId: string;
+  // Which of the pair is kept; the other is folded into it and deleted
+  survivorId: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { auth, body } = await authorize<MergeRequest>(req, AUTH_POLICY);
+    const user = requireStaffUser(auth);
+
+    if (body.action !== 'merge') {
+      return json({ error: 'Unknown action' }, 400);
+    }
+    if (!body.duplicateId || !body.survivorId) {
+      return json({ error: 'duplicateId and survivorId are required' }, 400);
+    }
+
+    const { data: pair, error: pairError } = await supabase
+      .from('candidate_duplicates')
+      .select('id, candidate_a_id, candidate_b_id, status, score, reasons')
+      .eq('id', body.duplicateId)
+      .maybeSingle();
+    if (pairError) throw pairError;
+    if (!pair) {
+      return json({ error: 'This duplicate has already been resolved' }, 404);
+    }
+    if (pair.status !== 'pending') {
+      return json({ error: `This duplicate was already ${pair.status}` }, 409);
+    }
+    if (body.survivorId !== pair.candidate_a_id && body.survivorId !== pair.candidate_b_id) {
+      return json({ error: 'The surviving candidate must be one of the pair' }, 400);
+    }
+
+    const mergedId = body.survivorId === pair.candidate_a_id ? pair.candidate_b_id : pair.candidate_a_id;
+    await requireCandidateAccess(auth, body.survivorId);
+    await requireCandidateAccess(auth, mergedId);
+
+    // Captured before the merge deletes the row
+    const { data: merged, error: mergedError } = await supabase
+      .from('candidates')
+      .select('full_name, email')
+      .eq('id', mergedId)
+      .single();
+    if (mergedError) throw mergedError;
+
+    const { data: report, error: mergeError } = await supabase.rpc('merge_candidates', {
+      _survivor_id: body.survivorId,
+      _merged_id: mergedId,
+    });
+    if (mergeError) {
+      // Business rule violations raised by merge_candidates are safe to show
+      return json({ error: mergeError.message }, 409);
+    }
+
+    await recordAudit(supabase, actorFromAuth(auth), {
+      action: 'candidate.merged',
+      entityType: 'candidate',
+      entityId: body.survivorId,
+      candidateId: body.survivorId,
+      metadata: {
+        mergedCandidateId: mergedId,
+        mergedName: merged.full_name,
+        mergedEmail: merged.email,
+        score: pair.score,
+        reasons: pair.reasons,
+        report,
+      },
+    });
+
+    console.log(`Candidate ${mergedId} merged into ${body.survivorId} by ${user.id}`);
+    return json({ success: true, survivorId: body.survivorId, report });
+  } catch (error: unknown) {
+    console.error('Error in candidate-duplicates:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
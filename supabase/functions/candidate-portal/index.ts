@@ -0,0 +1,415 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, invokeInternal, type AuthPolicy } from "../_shared/auth.ts";
+import { recordAudit } from "../_shared/audit.ts";
+import { exportCandidateData } from "../_shared/candidate-data.ts";
+import { sendEmail } from "../_shared/email-queue.ts";
+import { escapeHtml } from "../_shared/email-templates.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// The portal is public; the candidate's access token scopes every action to their own applications.
+// Applying is the only action that works without one, and it never returns the token.
+const AUTH_POLICY: AuthPolicy = { modes: ['candidate', 'public'] };
+
+const RESUME_BUCKET = 'resumes';
+
+// Applications in these stages can no longer be withdrawn
+const CLOSED_STATUSES = ['hired', 'rejected', 'withdrawn'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface PortalRequest {
+  action: 'apply' | 'get' | 'withdraw' | 'update-resume' | 'export-data' | 'request-erasure';
+  reason?: string;
+  token?: string;
+  applicationId?: string;
+  resumePath?: string;
+  // Application form fields
+  fullName?: string;
+  email?: string;
+  phone?: string;
+  jobId?: string;
+  source?: 'portal' | 'careers';
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Finds or creates the candidate by email and files the application. The status link goes out only in
+// the confirmation email, so knowing an email address never gets anyone into that candidate's portal.
+async function apply(supabase: SupabaseClient, request: PortalRequest, siteUrl: string): Promise<Response> {
+  const fullName = request.fullName?.trim();
+  const email = request.email?.trim();
+  const phone = request.phone?.trim() || null;
+  const { jobId, resumePath } = request;
+  const source = request.source === 'careers' ? 'careers' : 'portal';
+
+  if (!fullName || !email || !EMAIL_PATTERN.test(email) || !jobId) {
+    return jsonResponse({ error: 'Name, a valid email and a position are required' }, 400);
+  }
+
+  // The form uploads to the bucket root; candidate folders are only written through update-resume
+  if (!resumePath || resumePath.includes('/') || resumePath.includes('..')) {
+    return jsonResponse({ error: 'Invalid resume path' }, 400);
+  }
+
+  const { data: files, error: listError } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .list('', { search: resumePath });
+
+  if (listError) throw listError;
+
+  if (!files?.some((file: { name: string }) => file.name === resumePath)) {
+    return jsonResponse({ error: 'Uploaded resume not found' }, 404);
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .select('id, title')
+    .eq('id', jobId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (jobError) throw jobError;
+
+  if (!job) {
+    return jsonResponse({ error: 'This position is no longer open', code: 'NOT_FOUND' }, 404);
+  }
+
+  const findCandidate = () => supabase
+    .from('candidates')
+    .select('id, full_name, email, access_token')
+    .eq('email', email)
+    .maybeSingle();
+
+  let { data: candidate, error: candidateError } = await findCandidate();
+  if (candidateError) throw candidateError;
+
+  if (candidate) {
+    // An email address alone must not replace a returning candidate's resume; they can do that from
+    // the status page the confirmation email links to
+    await supabase.storage.from(RESUME_BUCKET).remove([resumePath]);
+  } else {
+    const { data: created, error: insertError } = await supabase
+      .from('candidates')
+      .insert({ full_name: fullName, email, phone, resume_url: resumePath })
+      .select('id, full_name, email, access_token')
+      .single();
+
+    // A concurrent submission with the same email created the candidate first
+    if (insertError?.code === '23505') {
+      ({ data: candidate, error: candidateError } = await findCandidate());
+      if (candidateError || !candidate) throw candidateError ?? insertError;
+    } else if (insertError) {
+      throw insertError;
+    } else {
+      candidate = created;
+    }
+  }
+
+  // Resume parsing runs from the application insert trigger
+  const { data: application, error: applicationError } = await supabase
+    .from('applications')
+    .insert({ candidate_id: candidate.id, job_id: job.id, status: 'applied', source })
+    .select('id')
+    .single();
+
+  if (applicationError?.code === '23505') {
+    return jsonResponse({ error: 'You have already applied for this position', code: 'DUPLICATE' }, 409);
+  }
+  if (applicationError) throw applicationError;
+
+  console.log(`Candidate ${candidate.id} applied for job ${job.id} (${application.id})`);
+
+  const { status, error: emailError } = await sendEmail(supabase, {
+    to: candidate.email,
+    subject: `Application Received: ${job.title}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3b82f6;">Thank You for Applying!</h2>
+        <p>Dear ${escapeHtml(candidate.full_name)},</p>
+        <p>We have received your application for the <strong>${escapeHtml(job.title)}</strong> position.</p>
+        <p>Our team will review your resume and get back to you soon.</p>
+        <p>You can track your application, see interview details and update your resume at any time from your <a href="${siteUrl}/status/${candidate.access_token}">application status page</a>.</p>
+        <p>Best regards,<br/>The CortexHR Team</p>
+      </div>
+    `,
+    emailType: 'application_received',
+    candidateId: candidate.id,
+    applicationId: application.id,
+    idempotencyKey: `application-received:${application.id}`,
+  });
+
+  if (status === 'failed') {
+    console.error('Confirmation email failed:', emailError);
+  }
+
+  return jsonResponse({ success: true });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { auth, body } = await authorize<PortalRequest>(req, AUTH_POLICY);
+    const { action, applicationId, resumePath, reason } = body;
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const siteUrl = Deno.env.get('SITE_URL') || req.headers.get('origin') || '';
+
+    if (action === 'apply') {
+      return await apply(supabase, body, siteUrl);
+    }
+
+    if (auth.mode !== 'candidate') {
+      throw new AccessError('Authentication required', 401);
+    }
+    const token = auth.token;
+
+    const { data: candidate, error: candidateError } = await supabase
+      .from('candidates')
+      .select('id, full_name, email, resume_url, updated_at')
+      .eq('access_token', token)
+      .maybeSingle();
+
+    if (candidateError) {
+      console.error('Candidate lookup error:', candidateError);
+      throw candidateError;
+    }
+
+    if (!candidate) {
+      return jsonResponse({ error: 'Invalid or expired status link', code: 'NOT_FOUND' }, 404);
+    }
+
+    switch (action) {
+      case 'get': {
+        const { data: applications, error: applicationsError } = await supabase
+          .from('applications')
+          .select(`
+            id,
+            status,
+            created_at,
+            updated_at,
+            withdrawn_at,
+            jobs!inner(title, department, location),
+            interviews(id, scheduled_at, duration_minutes, interview_type, status, meeting_url),
+            offer_letters(id, position_title, salary_amount, salary_currency, salary_frequency, proposed_start_date, offer_expiry_date, status, sent_at)
+          `)
+          .eq('candidate_id', candidate.id)
+          .order('created_at', { ascending: false });
+
+        if (applicationsError) throw applicationsError;
+
+        const now = Date.now();
+
+        // Only expose what a candidate should see: upcoming scheduled interviews and offers that were actually sent
+        const result = (applications || []).map((app) => ({
+          id: app.id,
+          status: app.status,
+          appliedAt: app.created_at,
+          updatedAt: app.updated_at,
+          withdrawnAt: app.withdrawn_at,
+          job: app.jobs,
+          interviews: (app.interviews || [])
+            .filter((interview: { status: string; scheduled_at: string; duration_minutes: number }) =>
+              interview.status === 'scheduled' &&
+              new Date(interview.scheduled_at).getTime() + interview.duration_minutes * 60000 > now
+            )
+            .sort((a: { scheduled_at: string }, b: { scheduled_at: string }) =>
+              a.scheduled_at.localeCompare(b.scheduled_at)
+            ),
+          offers: (app.offer_letters || []).filter((offer: { status: string }) => offer.status === 'sent'),
+        }));
+
+        const { data: erasureRequest } = await supabase
+          .from('data_erasure_requests')
+          .select('created_at')
+          .eq('candidate_id', candidate.id)
+          .eq('status', 'pending')
+          .maybeSingle();
+
+        return jsonResponse({
+          candidate: {
+            fullName: candidate.full_name,
+            email: candidate.email,
+            hasResume: !!candidate.resume_url,
+            resumeUpdatedAt: candidate.updated_at,
+            erasureRequestedAt: erasureRequest?.created_at ?? null,
+          },
+          // The portal uploads straight to storage under this folder, then confirms with update-resume
+          resumeFolder: candidate.id,
+          applications: result,
+        });
+      }
+
+      case 'withdraw': {
+        if (!applicationId) {
+          return jsonResponse({ error: 'Application ID is required' }, 400);
+        }
+
+        const { data: application, error: applicationError } = await supabase
+          .from('applications')
+          .select('id, status')
+          .eq('id', applicationId)
+          .eq('candidate_id', candidate.id)
+          .maybeSingle();
+
+        if (applicationError) throw applicationError;
+
+        if (!application) {
+          return jsonResponse({ error: 'Application not found', code: 'NOT_FOUND' }, 404);
+        }
+
+        if (CLOSED_STATUSES.includes(application.status)) {
+          return jsonResponse({ error: `This application is already ${application.status}`, code: 'CLOSED' }, 409);
+        }
+
+        const { error: updateError } = await supabase.rpc('change_application_status', {
+          _application_id: application.id,
+          _status: 'withdrawn',
+          _reason: 'Withdrawn by the candidate',
+        });
+
+        if (updateError) throw updateError;
+
+        // Withdrawn candidates should not be waiting on interviews; the panel's calendars are cleared too
+        const { data: interviews } = await supabase
+          .from('interviews')
+          .select('id')
+          .eq('application_id', application.id)
+          .eq('status', 'scheduled');
+
+        for (const interview of interviews || []) {
+          const response = await invokeInternal('manage-interview', {
+            action: 'cancel',
+            interviewId: interview.id,
+            reason: 'The candidate withdrew their application',
+            notifyCandidate: false,
+            byCandidate: true,
+          });
+          if (!response.ok) {
+            console.error(`Failed to cancel interview ${interview.id}:`, await response.text());
+          }
+        }
+
+        console.log(`Application ${application.id} withdrawn by candidate ${candidate.id}`);
+
+        await recordAudit(supabase, { type: 'candidate', id: candidate.id }, {
+          action: 'application.withdrawn',
+          entityType: 'application',
+          entityId: application.id,
+          candidateId: candidate.id,
+          changes: { status: { old: application.status, new: 'withdrawn' } },
+        });
+
+        return jsonResponse({ success: true, message: 'Your application has been withdrawn' });
+      }
+
+      case 'update-resume': {
+        // Only accept files the portal uploaded into this candidate's own folder
+        if (!resumePath || !resumePath.startsWith(`${candidate.id}/`) || resumePath.includes('..')) {
+          return jsonResponse({ error: 'Invalid resume path' }, 400);
+        }
+
+        const fileName = resumePath.slice(candidate.id.length + 1);
+        const { data: files, error: listError } = await supabase.storage
+          .from(RESUME_BUCKET)
+          .list(candidate.id, { search: fileName });
+
+        if (listError) throw listError;
+
+        if (!files?.some((file: { name: string }) => file.name === fileName)) {
+          return jsonResponse({ error: 'Uploaded resume not found' }, 404);
+        }
+
+        // Clear derived data so HR re-runs AI processing against the new file
+        const { error: updateError } = await supabase
+          .from('candidates')
+          .update({ resume_url: resumePath, resume_text: null, parsed_resume: null })
+          .eq('id', candidate.id);
+
+        if (updateError) throw updateError;
+
+        console.log(`Candidate ${candidate.id} uploaded a new resume: ${resumePath}`);
+
+        await recordAudit(supabase, { type: 'candidate', id: candidate.id }, {
+          action: 'candidate.resume_updated',
+          entityType: 'candidate',
+          entityId: candidate.id,
+          candidateId: candidate.id,
+          changes: { resume_url: { old: candidate.resume_url, new: resumePath } },
+        });
+
+        return jsonResponse({ success: true, message: 'Your resume has been updated' });
+      }
+
+      case 'export-data': {
+        const data = await exportCandidateData(supabase, candidate.id);
+
+        await recordAudit(supabase, { type: 'candidate', id: candidate.id }, {
+          action: 'candidate.exported',
+          entityType: 'candidate',
+          entityId: candidate.id,
+          candidateId: candidate.id,
+        });
+
+        return jsonResponse(data);
+      }
+
+      // HR processes the request from Settings; erasure also ends access to this portal
+      case 'request-erasure': {
+        const { data: pending, error: pendingError } = await supabase
+          .from('data_erasure_requests')
+          .select('id, created_at')
+          .eq('candidate_id', candidate.id)
+          .eq('status', 'pending')
+          .maybeSingle();
+
+        if (pendingError) throw pendingError;
+
+        if (pending) {
+          return jsonResponse({ success: true, requestedAt: pending.created_at });
+        }
+
+        const { data: request, error: requestError } = await supabase
+          .from('data_erasure_requests')
+          .insert({ candidate_id: candidate.id, source: 'candidate', reason: reason?.trim() || null })
+          .select('id, created_at')
+          .single();
+
+        if (requestError) throw requestError;
+
+        await recordAudit(supabase, { type: 'candidate', id: candidate.id }, {
+          action: 'candidate.erasure_requested',
+          entityType: 'candidate',
+          entityId: candidate.id,
+          candidateId: candidate.id,
+          metadata: { requestId: request.id },
+        });
+
+        console.log(`Candidate ${candidate.id} requested erasure (${request.id})`);
+
+        return jsonResponse({ success: true, requestedAt: request.created_at });
+      }
+
+      default:
+        return jsonResponse({ error: 'Invalid action' }, 400);
+    }
+  } catch (error: unknown) {
+    console.error('Error in candidate-portal function:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, requireCandidateAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { actorFromAuth, type AuditActor } from "../_shared/audit.ts";
+import { eraseCandidate, exportCandidateData } from "../_shared/candidate-data.ts";
+import { FULL_ACCESS_ROLES } from "../_shared/roles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// HR managers handle exports and erasures; the nightly cron job runs the retention purge
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'], roles: FULL_ACCESS_ROLES };
+
+type PrivacyRequest =
+  | { action: 'export'; candidateId: string }
+  // Either processes a pending request (e.g. one a candidate filed) or erases directly
+  | { action: 'erase'; requestId?: string; candidateId?: string; reason?: string }
+  | { action: 'purge' };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+async function processRequest(supabase: SupabaseClient, requestId: string, candidateId: string, actor: AuditActor) {
+  try {
+    const report = await eraseCandidate(supabase, candidateId, actor);
+    await supabase
+      .from('data_erasure_requests')
+      .update({
+        status: 'completed',
+        report,
+        processed_by: actor.type === 'user' ? actor.id : null,
+        completed_at: report.erasedAt,
+      })
+      .eq('id', requestId);
+    return report;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await supabase
+      .from('data_erasure_requests')
+      .update({ status: 'failed', error: message, completed_at: new Date().toISOString() })
+      .eq('id', requestId);
+    throw error;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { auth, body } = await authorize<PrivacyRequest>(req, AUTH_POLICY);
+    const actor = actorFromAuth(auth);
+
+    if (body.action === 'export') {
+      if (!body.candidateId) {
+        return json({ error: 'candidateId is required' }, 400);
+      }
+      await requireCandidateAccess(auth, body.candidateId);
+
+      const data = await exportCandidateData(supabase, body.candidateId);
+      if (!data) {
+        return json({ error: 'Candidate not found' }, 404);
+      }
+      return json(data);
+    }
+
+    if (body.action === 'erase') {
+      let requestId = body.requestId;
+      let candidateId = body.candidateId;
+
+      if (requestId) {
+        const { data: request, error } = await supabase
+          .from('data_erasure_requests')
+          .select('id, candidate_id, status')
+          .eq('id', requestId)
+          .maybeSingle();
+        if (error) throw error;
+        if (!request || !request.candidate_id) {
+          return json({ error: 'Erasure request not found' }, 404);
+        }
+        if (request.status !== 'pending') {
+          return json({ error: `This request is already ${request.status}` }, 409);
+        }
+        candidateId = request.candidate_id;
+      } else {
+        if (!candidateId) {
+          return json({ error: 'candidateId or requestId is required' }, 400);
+        }
+
+        // Reuse a pending request for the same candidate rather than filing a second one
+        const { data: pending, error: pendingError } = await supabase
+          .from('data_erasure_requests')
+          .select('id')
+          .eq('candidate_id', candidateId)
+          .eq('status', 'pending')
+          .maybeSingle();
+        if (pendingError) throw pendingError;
+
+        if (pending) {
+          requestId = pending.id;
+        } else {
+          const { data: created, error: createError } = await supabase
+            .from('data_erasure_requests')
+            .insert({
+              candidate_id: candidateId,
+              source: 'staff',
+              requested_by: actor.type === 'user' ? actor.id : null,
+              reason: body.reason?.trim() || null,
+            })
+            .select('id')
+            .single();
+          if (createError) throw createError;
+          requestId = created.id;
+        }
+      }
+
+      const report = await processRequest(supabase, requestId!, candidateId!, actor);
+      console.log(`Candidate ${candidateId} erased (request ${requestId})`);
+      return json({ success: true, requestId, report });
+    }
+
+    if (body.action === 'purge') {
+      if (auth.mode !== 'internal') {
+        throw new AccessError('The retention purge only runs on schedule', 403);
+      }
+
+      const { data: due, error: dueError } = await supabase.rpc('candidates_due_for_purge');
+      if (dueError) throw dueError;
+
+      const candidateIds = (due || []) as string[];
+      let erased = 0;
+      const failures: { candidateId: string; error: string }[] = [];
+
+      for (const candidateId of candidateIds) {
+        const { data: request, error: requestError } = await supabase
+          .from('data_erasure_requests')
+          .insert({ candidate_id: candidateId, source: 'retention', reason: 'Retention window elapsed' })
+          .select('id')
+          .single();
+        if (requestError) {
+          // Usually a pending request already exists; HR will process that one
+          failures.push({ candidateId, error: requestError.message });
+          continue;
+        }
+
+        try {
+          await processRequest(supabase, request.id, candidateId, { type: 'system' });
+          erased++;
+        } catch (error) {
+          failures.push({ candidateId, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      console.log(`Retention purge erased ${erased} of ${candidateIds.length} candidates`);
+      return json({ success: true, due: candidateIds.length, erased, failures });
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (error: unknown) {
+    console.error('Error in data-privacy:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
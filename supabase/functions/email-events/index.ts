@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, svix-id, svix-timestamp, svix-signature',
+};
+
+// Signatures older than this are rejected so a captured request cannot be replayed later
+const TOLERANCE_SECONDS = 5 * 60;
+
+interface ResendEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    bounce?: { message?: string; type?: string };
+  };
+}
+
+// Resend event type → email_logs status and the timestamp column it sets
+const EVENT_STATUS: Record<string, { status: string; timestampColumn?: 'delivered_at' | 'bounced_at' }> = {
+  'email.delivered': { status: 'delivered', timestampColumn: 'delivered_at' },
+  'email.delivery_delayed': { status: 'delayed' },
+  'email.bounced': { status: 'bounced', timestampColumn: 'bounced_at' },
+  'email.complained': { status: 'complained' },
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Resend signs webhooks the Svix way: base64 HMAC-SHA256 of "<id>.<timestamp>.<body>" keyed with the
+// base64 part of the whsec_ secret. The header may list several space-separated "v1,<signature>" values.
+async function verifySignature(secret: string, headers: Headers, body: string): Promise<boolean> {
+  const id = headers.get('svix-id');
+  const timestamp = headers.get('svix-timestamp');
+  const signatures = headers.get('svix-signature');
+  if (!id || !timestamp || !signatures) return false;
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_SECONDS) return false;
+
+  const keyBytes = Uint8Array.from(atob(secret.replace(/^whsec_/, '')), (c) => c.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signed = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(signed)));
+
+  return signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature || signature.length !== expected.length) return false;
+    // Constant-time comparison
+    let diff = 0;
+    for (let i = 0; i < expected.length; i++) {
+      diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+    }
+    return diff === 0;
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The email provider calls this directly, so it is authenticated by the webhook signature rather
+    // than authorize(). It fails closed: an unset secret rejects every request.
+    const webhookSecret = Deno.env.get('RESEND_WEBHOOK_SECRET');
+    const body = await req.text();
+
+    if (!webhookSecret || !(await verifySignature(webhookSecret, req.headers, body))) {
+      console.error('Invalid email webhook signature');
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const event: ResendEvent = JSON.parse(body);
+    const mapping = EVENT_STATUS[event.type];
+    if (!mapping || !event.data?.email_id) {
+      // Sent, opened and clicked events are acknowledged but not tracked
+      return json({ success: true, ignored: event.type });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const occurredAt = event.created_at || new Date().toISOString();
+    const update: Record<string, string | null> = { status: mapping.status };
+    if (mapping.timestampColumn) {
+      update[mapping.timestampColumn] = occurredAt;
+    }
+    if (event.type === 'email.bounced') {
+      update.error = event.data.bounce?.message ?? 'Bounced';
+    }
+
+    let query = supabase
+      .from('email_logs')
+      .update(update)
+      .eq('provider_message_id', event.data.email_id);
+    // Events can arrive out of order; a late "delayed" must not overwrite a final outcome
+    if (event.type === 'email.delivery_delayed') {
+      query = query.in('status', ['sent', 'delayed']);
+    }
+
+    const { data: updated, error: updateError } = await query.select('id');
+    if (updateError) throw updateError;
+
+    console.log(`Email ${event.data.email_id}: ${event.type} (${updated?.length ?? 0} log rows updated)`);
+    return json({ success: true, updated: updated?.length ?? 0 });
+  } catch (error: unknown) {
+    console.error('Error in email-events:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, 500);
+  }
+});
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { TemplateContextError, buildTemplateContext, type TemplateContext } from "../_shared/email-templates.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// The template editor's preview and the dialogs that fill templates in the browser; values come from
+// the same builder send-email uses, so what staff see is what gets sent
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
+// A bulk rejection asks for every selected application at once
+const MAX_APPLICATIONS = 100;
+
+interface ContextRequest {
+  applicationIds: string[];
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { auth, body } = await authorize<ContextRequest>(req, AUTH_POLICY);
+    const applicationIds = [...new Set(body.applicationIds || [])];
+
+    if (applicationIds.length === 0) {
+      return json({ error: 'applicationIds is required' }, 400);
+    }
+    if (applicationIds.length > MAX_APPLICATIONS) {
+      return json({ error: `At most ${MAX_APPLICATIONS} applications per request` }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const contexts: Record<string, TemplateContext> = {};
+    for (const applicationId of applicationIds) {
+      await requireApplicationAccess(auth, applicationId);
+      contexts[applicationId] = await buildTemplateContext(supabase, applicationId);
+    }
+
+    return json({ contexts });
+  } catch (error: unknown) {
+    console.error('Error in email-template-context:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof TemplateContextError ? 404 : 500;
+    return json({ error: message }, status);
+  }
+});
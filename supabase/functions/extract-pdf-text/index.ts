@@ -1,18 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError, createCompletion, documentPart } from "../_shared/ai-provider.ts";
+import { AccessError, BadRequestError, authorize, requireCandidateAccess, type AuthPolicy } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { resumeUrl, candidateId } = await req.json();
+    const { auth, body: { resumeUrl, candidateId } } = await authorize<{ resumeUrl?: string; candidateId?: string }>(req, AUTH_POLICY);
 
     if (!resumeUrl || !candidateId) {
       return new Response(
@@ -21,6 +25,8 @@ serve(async (req) => {
       );
     }
 
+    await requireCandidateAccess(auth, candidateId);
+
     console.log('Extracting text from resume for candidate:', candidateId);
 
     // Fetch the PDF file
@@ -30,13 +36,6 @@ serve(async (req) => {
     }
 
     const pdfBuffer = await pdfResponse.arrayBuffer();
-    const pdfBase64 = btoa(String.fromCharCode(...new Uint8Array(pdfBuffer)));
-
-    // Use Aiapi AI with vision to extract text from the PDF
-    const aiapiApiKey = Deno.env.get('AIAPI_API_KEY');
-    if (!aiapiApiKey) {
-      throw new Error('AIAPI_API_KEY not configured');
-    }
 
     // For PDFs, we'll ask the AI to extract text by analyzing it
     // Since we can't directly parse PDFs in Deno easily, we'll use AI
@@ -45,47 +44,19 @@ Return the complete text as-is, preserving structure and formatting where possib
 Include all sections: personal info, work experience, education, skills, etc.
 Just return the extracted text, no commentary.`;
 
-    const aiResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${aiapiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:application/pdf;base64,${pdfBase64}`
-                }
-              }
-            ]
-          }
-        ],
-      }),
+    const { content: extractedText } = await createCompletion({
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            documentPart(new Uint8Array(pdfBuffer), 'application/pdf'),
+          ],
+        },
+      ],
+      timeoutMs: 120_000,
     });
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', errorText);
-      throw new Error(`Text extraction failed: ${errorText}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const extractedText = aiData.choices?.[0]?.message?.content;
-
-    if (!extractedText) {
-      throw new Error('No text extracted from document');
-    }
-
     console.log('Extracted text length:', extractedText.length);
 
     // Update the candidate with the extracted resume text
@@ -119,7 +90,7 @@ Just return the extracted text, no commentary.`;
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof AIError ? error.httpStatus : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
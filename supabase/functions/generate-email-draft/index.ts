@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError, createStructuredCompletion } from "../_shared/ai-provider.ts";
+import { AccessError, BadRequestError, authorize, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { EmailDraftSchema } from "../_shared/ai-schemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
 interface RequestBody {
   applicationId: string;
   emailType: 'interview_invite' | 'rejection' | 'offer' | 'follow_up' | 'custom';
@@ -19,7 +24,8 @@ serve(async (req) => {
   }
 
   try {
-    const { applicationId, emailType, customPrompt, additionalContext }: RequestBody = await req.json();
+    const { auth, body } = await authorize<RequestBody>(req, AUTH_POLICY);
+    const { applicationId, emailType, customPrompt, additionalContext } = body;
 
     if (!applicationId || !emailType) {
       return new Response(
@@ -32,6 +38,8 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    await requireApplicationAccess(auth, applicationId);
+
     // Fetch application details
     const { data: application, error: appError } = await supabase
       .from('applications')
@@ -65,11 +73,6 @@ serve(async (req) => {
 
     const upcomingInterview = interviews?.[0];
 
-    const aiapiApiKey = Deno.env.get('AIAPI_API_KEY');
-    if (!aiapiApiKey) {
-      throw new Error('AIAPI_API_KEY not configured');
-    }
-
     const emailTypePrompts: Record<string, string> = {
       interview_invite: `Generate a professional interview invitation email. Include:
 - Warm greeting
@@ -126,62 +129,28 @@ ${additionalContext ? `ADDITIONAL CONTEXT: ${additionalContext}` : ''}
 
 Generate the email subject and body.`;
 
-    const aiResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${aiapiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
+    const { data: result } = await createStructuredCompletion(
+      {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        tools: [
-          {
-            type: "function",
-            function: {
-              name: "email_draft",
-              description: "Return the email draft with subject and body",
-              parameters: {
-                type: "object",
-                properties: {
-                  subject: { type: "string", description: "Email subject line" },
-                  body: { type: "string", description: "Email body in plain text" },
-                  htmlBody: { type: "string", description: "Email body in HTML format" }
-                },
-                required: ["subject", "body", "htmlBody"]
-              }
-            }
-          }
-        ],
-        tool_choice: { type: "function", function: { name: "email_draft" } }
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', errorText);
-
-      if (aiResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      throw new Error(`AI request failed: ${errorText}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
-
-    if (!toolCall) {
-      throw new Error('No email generated');
-    }
-
-    const result = JSON.parse(toolCall.function.arguments);
+      },
+      {
+        name: "email_draft",
+        description: "Return the email draft with subject and body",
+        parameters: {
+          type: "object",
+          properties: {
+            subject: { type: "string", description: "Email subject line" },
+            body: { type: "string", description: "Email body in plain text" },
+            htmlBody: { type: "string", description: "Email body in HTML format" }
+          },
+          required: ["subject", "body", "htmlBody"]
+        }
+      },
+      EmailDraftSchema
+    );
 
     console.log(`Generated ${emailType} email draft for ${candidate.full_name}`);
 
@@ -203,7 +172,10 @@ Generate the email subject and body.`;
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      {
+        status: error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof AIError ? error.httpStatus : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
     );
   }
 });
@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError, createStructuredCompletion } from "../_shared/ai-provider.ts";
+import { AccessError, BadRequestError, authorize, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { InterviewQuestionsSchema } from "../_shared/ai-schemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
 interface RequestBody {
   applicationId: string;
   interviewType?: string;
@@ -18,7 +23,8 @@ serve(async (req) => {
   }
 
   try {
-    const { applicationId, interviewType = 'Technical', numberOfQuestions = 5 }: RequestBody = await req.json();
+    const { auth, body } = await authorize<RequestBody>(req, AUTH_POLICY);
+    const { applicationId, interviewType = 'Technical', numberOfQuestions = 5 } = body;
 
     if (!applicationId) {
       return new Response(
@@ -31,6 +37,8 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    await requireApplicationAccess(auth, applicationId);
+
     // Fetch application details with candidate and job info
     const { data: application, error: appError } = await supabase
       .from('applications')
@@ -55,11 +63,6 @@ serve(async (req) => {
     const candidate = (application as any).candidates;
     const job = (application as any).jobs;
 
-    const aiapiApiKey = Deno.env.get('AIAPI_API_KEY');
-    if (!aiapiApiKey) {
-      throw new Error('AIAPI_API_KEY not configured');
-    }
-
     const systemPrompt = `You are an expert HR interviewer. Generate interview questions based on the candidate's profile and job requirements.
 
 Interview Type: ${interviewType}
@@ -112,73 +115,39 @@ Generate questions that are:
 3. Mix of easy, medium, and challenging
 4. Include follow-up prompts where appropriate`;
 
-    const aiResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${aiapiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
+    const { data: result } = await createStructuredCompletion(
+      {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        tools: [
-          {
-            type: "function",
-            function: {
-              name: "interview_questions",
-              description: "Return structured interview questions",
-              parameters: {
+      },
+      {
+        name: "interview_questions",
+        description: "Return structured interview questions",
+        parameters: {
+          type: "object",
+          properties: {
+            questions: {
+              type: "array",
+              items: {
                 type: "object",
                 properties: {
-                  questions: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        question: { type: "string", description: "The interview question" },
-                        difficulty: { type: "string", enum: ["easy", "medium", "hard"] },
-                        category: { type: "string", description: "Question category" },
-                        followUp: { type: "string", description: "Optional follow-up question" },
-                        expectedInsights: { type: "string", description: "What to look for in the answer" }
-                      },
-                      required: ["question", "difficulty", "category"]
-                    }
-                  }
+                  question: { type: "string", description: "The interview question" },
+                  difficulty: { type: "string", enum: ["easy", "medium", "hard"] },
+                  category: { type: "string", description: "Question category" },
+                  followUp: { type: "string", description: "Optional follow-up question" },
+                  expectedInsights: { type: "string", description: "What to look for in the answer" }
                 },
-                required: ["questions"]
+                required: ["question", "difficulty", "category"]
               }
             }
-          }
-        ],
-        tool_choice: { type: "function", function: { name: "interview_questions" } }
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', errorText);
-
-      if (aiResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      throw new Error(`AI request failed: ${errorText}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
-
-    if (!toolCall) {
-      throw new Error('No questions generated');
-    }
-
-    const result = JSON.parse(toolCall.function.arguments);
+          },
+          required: ["questions"]
+        }
+      },
+      InterviewQuestionsSchema
+    );
 
     console.log(`Generated ${result.questions.length} interview questions for application ${applicationId}`);
 
@@ -198,7 +167,10 @@ Generate questions that are:
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      {
+        status: error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof AIError ? error.httpStatus : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
     );
   }
 });
@@ -1,11 +1,26 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyOAuthState } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Closes the popup and reports the failure to the Settings page. Query parameters end up in the
+// message, so it is serialized rather than pasted into the script.
+const errorPage = (message: string) => {
+  const escaped = message.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  const payload = JSON.stringify({ type: 'GOOGLE_AUTH_ERROR', error: message }).replace(/</g, '\\u003c');
+  return new Response(
+    `<html><body><script>window.close(); window.opener?.postMessage(${payload}, '*');</script>Error: ${escaped}</body></html>`,
+    { headers: { 'Content-Type': 'text/html' } }
+  );
+};
+
+// Google redirects the browser here without any Supabase credentials, so this function sits outside
+// authorize(). The state was signed by google-calendar's oauth-state action for the signed-in user who
+// started the flow, and the tokens are only stored for that user.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -14,21 +29,24 @@ serve(async (req) => {
   try {
     const url = new URL(req.url);
     const code = url.searchParams.get('code');
-    const state = url.searchParams.get('state'); // Contains user_id
+    const state = url.searchParams.get('state');
     const error = url.searchParams.get('error');
 
     if (error) {
       console.error('OAuth error:', error);
-      return new Response(
-        `<html><body><script>window.close(); window.opener?.postMessage({ type: 'GOOGLE_AUTH_ERROR', error: '${error}' }, '*');</script>Error: ${error}</body></html>`,
-        { headers: { 'Content-Type': 'text/html' } }
-      );
+      return errorPage(error);
     }
 
     if (!code || !state) {
       return new Response('Missing code or state', { status: 400, headers: corsHeaders });
     }
 
+    const userId = await verifyOAuthState(state);
+    if (!userId) {
+      console.error('Rejected OAuth callback with an invalid or expired state');
+      return errorPage('This sign-in link is invalid or has expired. Please try connecting again.');
+    }
+
     const clientId = Deno.env.get('GOOGLE_CLIENT_ID');
     const clientSecret = Deno.env.get('GOOGLE_CLIENT_SECRET');
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -36,10 +54,7 @@ serve(async (req) => {
 
     if (!clientId || !clientSecret) {
       console.error('Google OAuth credentials not configured');
-      return new Response(
-        `<html><body><script>window.close(); window.opener?.postMessage({ type: 'GOOGLE_AUTH_ERROR', error: 'OAuth not configured' }, '*');</script>Error: OAuth not configured</body></html>`,
-        { headers: { 'Content-Type': 'text/html' } }
-      );
+      return errorPage('OAuth not configured');
     }
 
     // Exchange code for tokens
@@ -58,10 +73,7 @@ serve(async (req) => {
     if (!tokenResponse.ok) {
       const errorText = await tokenResponse.text();
       console.error('Token exchange failed:', errorText);
-      return new Response(
-        `<html><body><script>window.close(); window.opener?.postMessage({ type: 'GOOGLE_AUTH_ERROR', error: 'Token exchange failed' }, '*');</script>Error: Token exchange failed</body></html>`,
-        { headers: { 'Content-Type': 'text/html' } }
-      );
+      return errorPage('Token exchange failed');
     }
 
     const tokens = await tokenResponse.json();
@@ -76,7 +88,7 @@ serve(async (req) => {
     const { error: dbError } = await supabase
       .from('hr_google_tokens')
       .upsert({
-        user_id: state,
+        user_id: userId,
         access_token: tokens.access_token,
         refresh_token: tokens.refresh_token || '',
         token_expiry: expiryDate.toISOString(),
@@ -84,10 +96,7 @@ serve(async (req) => {
 
     if (dbError) {
       console.error('Failed to store tokens:', dbError);
-      return new Response(
-        `<html><body><script>window.close(); window.opener?.postMessage({ type: 'GOOGLE_AUTH_ERROR', error: 'Failed to store tokens' }, '*');</script>Error: Failed to store tokens</body></html>`,
-        { headers: { 'Content-Type': 'text/html' } }
-      );
+      return errorPage('Failed to store tokens');
     }
 
     // Success - close popup and notify parent
@@ -107,9 +116,6 @@ serve(async (req) => {
   } catch (error: unknown) {
     console.error('Error in google-auth-callback:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      `<html><body><script>window.close(); window.opener?.postMessage({ type: 'GOOGLE_AUTH_ERROR', error: '${message}' }, '*');</script>Error: ${message}</body></html>`,
-      { headers: { 'Content-Type': 'text/html' } }
-    );
+    return errorPage(message);
   }
 });
@@ -1,72 +1,64 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError, createCompletion, type AIMessage, type AIToolDefinition } from "../_shared/ai-provider.ts";
+import { AccessError, BadRequestError, authorize, invokeInternal, requireStaffUser, type AuthPolicy } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const tools = [
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'] };
+
+const tools: AIToolDefinition[] = [
   {
-    type: "function",
-    function: {
-      name: "schedule_interview",
-      description: "Schedule an interview with a candidate. Use this when the user asks to schedule, book, or set up an interview.",
-      parameters: {
-        type: "object",
-        properties: {
-          candidateName: { type: "string", description: "Name of the candidate" },
-          dateTime: { type: "string", description: "Date and time for the interview in ISO format" },
-          duration: { type: "number", description: "Duration in minutes, default 60" },
-          interviewType: { type: "string", enum: ["Technical", "Behavioral", "HR Screen", "Final"], description: "Type of interview" }
-        },
-        required: ["candidateName", "dateTime"]
-      }
+    name: "schedule_interview",
+    description: "Schedule an interview with a candidate. Use this when the user asks to schedule, book, or set up an interview.",
+    parameters: {
+      type: "object",
+      properties: {
+        candidateName: { type: "string", description: "Name of the candidate" },
+        dateTime: { type: "string", description: "Date and time for the interview in ISO format" },
+        duration: { type: "number", description: "Duration in minutes, default 60" },
+        interviewType: { type: "string", enum: ["Technical", "Behavioral", "HR Screen", "Final"], description: "Type of interview" }
+      },
+      required: ["candidateName", "dateTime"]
     }
   },
   {
-    type: "function",
-    function: {
-      name: "get_candidates",
-      description: "Get a list of candidates, optionally filtered by status or job",
-      parameters: {
-        type: "object",
-        properties: {
-          status: { type: "string", enum: ["applied", "screening", "interview", "offer", "hired", "rejected"] },
-          limit: { type: "number", description: "Max number of candidates to return" }
-        }
+    name: "get_candidates",
+    description: "Get a list of candidates, optionally filtered by status or job",
+    parameters: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["applied", "screening", "interview", "offer", "hired", "rejected", "withdrawn"] },
+        limit: { type: "number", description: "Max number of candidates to return" }
       }
     }
   },
   {
-    type: "function",
-    function: {
-      name: "get_interviews",
-      description: "Get scheduled interviews, optionally filtered by date",
-      parameters: {
-        type: "object",
-        properties: {
-          upcoming: { type: "boolean", description: "Only get upcoming interviews" },
-          today: { type: "boolean", description: "Only get today's interviews" }
-        }
+    name: "get_interviews",
+    description: "Get scheduled interviews, optionally filtered by date",
+    parameters: {
+      type: "object",
+      properties: {
+        upcoming: { type: "boolean", description: "Only get upcoming interviews" },
+        today: { type: "boolean", description: "Only get today's interviews" }
       }
     }
   },
   {
-    type: "function",
-    function: {
-      name: "send_email",
-      description: "Send an email to a candidate",
-      parameters: {
-        type: "object",
-        properties: {
-          candidateEmail: { type: "string" },
-          subject: { type: "string" },
-          message: { type: "string" }
-        },
-        required: ["candidateEmail", "subject", "message"]
-      }
+    name: "send_email",
+    description: "Send an email to a candidate",
+    parameters: {
+      type: "object",
+      properties: {
+        candidateEmail: { type: "string" },
+        subject: { type: "string" },
+        message: { type: "string" }
+      },
+      required: ["candidateEmail", "subject", "message"]
     }
   }
 ];
@@ -77,7 +69,8 @@ serve(async (req) => {
   }
 
   try {
-    const { messages } = await req.json();
+    const { auth, body: { messages } } = await authorize<{ messages?: AIMessage[] }>(req, AUTH_POLICY);
+    const user = requireStaffUser(auth);
 
     if (!messages || !Array.isArray(messages)) {
       return new Response(
@@ -86,14 +79,12 @@ serve(async (req) => {
       );
     }
 
+    // Tools run as the signed-in user so RLS limits recruiters to the jobs assigned to them
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const aiapiApiKey = Deno.env.get('AIAPI_API_KEY');
-    if (!aiapiApiKey) {
-      throw new Error('AIAPI_API_KEY not configured');
-    }
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get('authorization')! } },
+    });
 
     const systemPrompt = `You are an AI HR assistant for CortexHR. You help HR staff with:
 - Scheduling and managing interviews
@@ -106,51 +97,23 @@ You have access to tools to perform these actions. When users ask to schedule in
 Be professional, helpful, and concise. When scheduling interviews, always confirm the details before proceeding.
 If you don't have enough information to complete an action, ask for clarification.`;
 
-    const aiResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${aiapiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...messages
-        ],
-        tools,
-        tool_choice: 'auto',
-      }),
-    });
+    const conversation: AIMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...messages
+    ];
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', errorText);
-
-      if (aiResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (aiResponse.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'Usage limit reached. Please check your account.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      throw new Error(`AI request failed: ${errorText}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const assistantMessage = aiData.choices?.[0]?.message;
+    const aiResponse = await createCompletion({
+      messages: conversation,
+      tools,
+      toolChoice: 'auto',
+    });
+    const assistantMessage = aiResponse.message;
 
     // Check if the AI wants to call tools
-    if (assistantMessage?.tool_calls && assistantMessage.tool_calls.length > 0) {
-      const toolResults = [];
+    if (aiResponse.toolCalls.length > 0) {
+      const toolResults: AIMessage[] = [];
 
-      for (const toolCall of assistantMessage.tool_calls) {
+      for (const toolCall of aiResponse.toolCalls) {
         const functionName = toolCall.function.name;
         const args = JSON.parse(toolCall.function.arguments);
         let result;
@@ -273,7 +236,8 @@ If you don't have enough information to complete an action, ask for clarificatio
                 scheduled_at: args.dateTime,
                 duration_minutes: args.duration || 60,
                 interview_type: args.interviewType || 'Technical',
-                status: 'scheduled'
+                status: 'scheduled',
+                created_by: user.id
               })
               .select()
               .single();
@@ -283,11 +247,18 @@ If you don't have enough information to complete an action, ask for clarificatio
               break;
             }
 
-            // Update application status
+            // Whoever asked leads the interview
             await supabase
-              .from('applications')
-              .update({ status: 'interview' })
-              .eq('id', application.id);
+              .from('interview_interviewers')
+              .insert({ interview_id: interview.id, interviewer_id: user.id, role: 'lead' });
+
+            // Scheduling advances new applications; later stages stay where they are
+            await supabase.rpc('change_application_status', {
+              _application_id: application.id,
+              _status: 'interview',
+              _reason: 'Interview scheduled from HR chat',
+              _only_from: ['applied', 'screening'],
+            });
 
             result = {
               success: true,
@@ -300,18 +271,34 @@ If you don't have enough information to complete an action, ask for clarificatio
           }
 
           case 'send_email': {
-            // Call the send-email function
-            const { error } = await supabase.functions.invoke('send-email', {
-              body: {
-                to: args.candidateEmail,
-                subject: args.subject,
-                html: `<div style="font-family: Arial, sans-serif;">${args.message.replace(/\n/g, '<br>')}</div>`,
-                emailType: 'manual'
-              }
+            // send-email trusts internal calls, so the recipient is checked here: RLS only finds
+            // candidates this user can access
+            const { data: recipient } = await supabase
+              .from('candidates')
+              .select('id, email')
+              .ilike('email', String(args.candidateEmail).trim().replace(/[%_\\]/g, '\\$&'))
+              .limit(1)
+              .maybeSingle();
+
+            if (!recipient) {
+              result = { error: `No candidate you have access to uses ${args.candidateEmail}` };
+              break;
+            }
+
+            // Goes through send-email and its queue; this client runs as the user and cannot send itself
+            const response = await invokeInternal('send-email', {
+              to: recipient.email,
+              subject: args.subject,
+              html: `<div style="font-family: Arial, sans-serif;">${args.message.replace(/\n/g, '<br>')}</div>`,
+              emailType: 'manual',
+              candidateId: recipient.id
             });
+            const sent = await response.json().catch(() => ({}));
 
-            if (error) {
-              result = { error: `Failed to send email: ${error.message}` };
+            if (!response.ok || sent.status === 'failed') {
+              result = { error: `Failed to send email: ${sent.error || response.statusText}` };
+            } else if (sent.status === 'pending') {
+              result = { success: true, message: `Email to ${args.candidateEmail} is queued and will be retried shortly` };
             } else {
               result = { success: true, message: `Email sent to ${args.candidateEmail}` };
             }
@@ -329,33 +316,20 @@ If you don't have enough information to complete an action, ask for clarificatio
         });
       }
 
-      // Make a second call with tool results
-      const followUpResponse = await fetch('https://ai.gateway.aiapi.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${aiapiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-2.5-flash',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            ...messages,
-            assistantMessage,
-            ...toolResults
-          ],
-        }),
+      // Make a second call with tool results on the provider that issued the tool calls
+      const followUp = await createCompletion({
+        messages: [
+          ...conversation,
+          assistantMessage,
+          ...toolResults
+        ],
+        providers: [aiResponse.provider],
       });
 
-      if (!followUpResponse.ok) {
-        throw new Error('Follow-up AI request failed');
-      }
-
-      const followUpData = await followUpResponse.json();
       return new Response(
         JSON.stringify({
-          content: followUpData.choices?.[0]?.message?.content || 'Action completed.',
-          toolsUsed: assistantMessage.tool_calls.map((tc: any) => tc.function.name)
+          content: followUp.content || 'Action completed.',
+          toolsUsed: aiResponse.toolCalls.map((tc) => tc.function.name)
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -364,17 +338,25 @@ If you don't have enough information to complete an action, ask for clarificatio
     // No tool calls, return the direct response
     return new Response(
       JSON.stringify({
-        content: assistantMessage?.content || 'I apologize, but I could not generate a response.'
+        content: aiResponse.content || 'I apologize, but I could not generate a response.'
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error: unknown) {
     console.error('Error in hr-chat function:', error);
+
+    if (error instanceof AIError && (error.code === 'rate_limited' || error.code === 'credits_exhausted')) {
+      return new Response(
+        JSON.stringify({ error: error.code === 'rate_limited' ? 'Rate limit exceeded. Please try again in a moment.' : 'Usage limit reached. Please check your account.' }),
+        { status: error.httpStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
@@ -25,11 +25,12 @@ serve(async (req) => {
   }
 
   try {
-    // Verify webhook secret for security
+    // Inbound mail providers cannot sign requests the way authorize() expects, so this webhook
+    // keeps its own shared secret. It fails closed: an unset secret rejects every request.
     const webhookSecret = Deno.env.get('EMAIL_WEBHOOK_SECRET');
     const providedSecret = req.headers.get('x-webhook-secret');
-    
-    if (webhookSecret && providedSecret !== webhookSecret) {
+
+    if (!webhookSecret || providedSecret !== webhookSecret) {
       console.error('Invalid webhook secret');
       return new Response(
         JSON.stringify({ error: 'Unauthorized' }),
@@ -214,6 +215,7 @@ serve(async (req) => {
         candidate_id: candidateId,
         job_id: jobId,
         status: 'applied',
+        source: 'email',
         notes: `Auto-ingested from email: ${payload.subject}`,
       })
       .select('id')
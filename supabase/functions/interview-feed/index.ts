@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildIcs, interviewEvent } from "../_shared/ics.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Calendar clients poll the feed URL with a plain GET and no Supabase credentials, so this function sits
+// outside authorize(); the secret token in the URL identifies the staff member.
+
+// Past interviews stay in the feed this long, so the week's schedule still shows them
+const PAST_DAYS = 30;
+
+interface FeedInterview {
+  id: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  interview_type: string;
+  meeting_url: string | null;
+  ical_uid: string | null;
+  ical_sequence: number;
+  applications: {
+    candidates: { full_name: string };
+    jobs: { title: string };
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return new Response('Missing token', { status: 400, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    // Someone who has left the hiring team keeps the URL but no longer sees interviews
+    const { data: role } = feed
+      ? await supabase.from('user_roles').select('user_id').eq('user_id', feed.user_id).limit(1).maybeSingle()
+      : { data: null };
+
+    if (!feed || !role) {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+    }
+
+    const { data, error } = await supabase
+      .from('interviews')
+      .select(`
+        id, scheduled_at, duration_minutes, interview_type, meeting_url, ical_uid, ical_sequence,
+        interview_interviewers!inner(interviewer_id),
+        applications!inner(candidates!inner(full_name), jobs!inner(title))
+      `)
+      .eq('interview_interviewers.interviewer_id', feed.user_id)
+      .eq('status', 'scheduled')
+      .gte('scheduled_at', new Date(Date.now() - PAST_DAYS * 86400000).toISOString())
+      .order('scheduled_at', { ascending: true })
+      .limit(500);
+
+    if (error) throw error;
+
+    // No organizer or attendees: the feed shows the schedule, invites come by email
+    const events = ((data || []) as unknown as FeedInterview[]).map((interview) => interviewEvent({
+      interview,
+      candidateName: interview.applications.candidates.full_name,
+      jobTitle: interview.applications.jobs.title,
+    }));
+
+    await supabase
+      .from('calendar_feed_tokens')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('user_id', feed.user_id);
+
+    return new Response(buildIcs('PUBLISH', events, 'CortexHR Interviews'), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="interviews.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error in interview-feed:', error);
+    return new Response('Calendar feed unavailable', { status: 500, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,329 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { actorFromAuth, recordAudit, type AuditActor } from "../_shared/audit.ts";
+import { sendEmail } from "../_shared/email-queue.ts";
+import { escapeHtml } from "../_shared/email-templates.ts";
+import { deleteCalendarEvent, getGoogleAccessToken, updateCalendarEvent } from "../_shared/google-calendar.ts";
+import { defaultOrganizer, icsAttachment, interviewEvent } from "../_shared/ics.ts";
+import { deleteMeeting, updateMeeting, type MeetingProviderName } from "../_shared/meeting-providers.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Internal calls move interviews candidates rebook through their self-scheduling link
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'] };
+
+interface ManageInterviewRequest {
+  action: 'reschedule' | 'cancel';
+  interviewId: string;
+  // Kept in the reschedule history or on the cancelled interview, and shown to the panel
+  reason: string;
+  // reschedule: the new start, and optionally a new length
+  scheduledAt?: string;
+  durationMinutes?: number;
+  // Defaults to true; the panel is always told
+  notifyCandidate?: boolean;
+  // Internal calls only: the candidate made the change through their scheduling link
+  byCandidate?: boolean;
+}
+
+interface InterviewRecord {
+  id: string;
+  application_id: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  interview_type: string;
+  status: string;
+  meeting_url: string | null;
+  meeting_id: string | null;
+  meeting_provider: MeetingProviderName | null;
+  calendar_event_id: string | null;
+  calendar_owner_id: string | null;
+  ical_uid: string | null;
+  ical_sequence: number;
+  interview_interviewers: { interviewer_id: string; role: string }[];
+  applications: {
+    candidate_id: string;
+    candidates: { full_name: string; email: string };
+    jobs: { title: string };
+  };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const formatWhen = (scheduledAt: string) => {
+  const date = new Date(scheduledAt);
+  const day = date.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZoneName: 'short' });
+  return { day, time };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      auth,
+      body: { action, interviewId, reason, scheduledAt, durationMinutes, notifyCandidate = true, byCandidate },
+    } = await authorize<ManageInterviewRequest>(req, AUTH_POLICY);
+
+    if (!interviewId || (action !== 'reschedule' && action !== 'cancel')) {
+      return json({ error: 'An interview and an action (reschedule or cancel) are required' }, 400);
+    }
+    if (!reason?.trim()) {
+      return json({ error: 'A reason is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error: interviewError } = await supabase
+      .from('interviews')
+      .select(`
+        *,
+        interview_interviewers(interviewer_id, role),
+        applications!inner(candidate_id, candidates!inner(full_name, email), jobs!inner(title))
+      `)
+      .eq('id', interviewId)
+      .maybeSingle();
+
+    if (interviewError) throw interviewError;
+    if (!data) {
+      return json({ error: 'Interview not found' }, 404);
+    }
+
+    const interview = data as unknown as InterviewRecord;
+    await requireApplicationAccess(auth, interview.application_id);
+
+    if (interview.status !== 'scheduled') {
+      return json({ error: `This interview is ${interview.status} and can no longer be changed` }, 409);
+    }
+
+    const changedBy = auth.mode === 'staff' ? auth.user.id : null;
+    const candidate = interview.applications.candidates;
+    const jobTitle = interview.applications.jobs.title;
+    const candidateId = interview.applications.candidate_id;
+    const actor: AuditActor = byCandidate && auth.mode === 'internal'
+      ? { type: 'candidate', id: candidateId }
+      : actorFromAuth(auth);
+
+    if (action === 'reschedule' && (!scheduledAt || Number.isNaN(Date.parse(scheduledAt)))) {
+      return json({ error: 'A new time is required' }, 400);
+    }
+
+    // scheduledAt parses by now, so toISOString cannot throw
+    const newStart = action === 'reschedule' ? new Date(scheduledAt!).toISOString() : interview.scheduled_at;
+    const newDuration = action === 'reschedule' ? durationMinutes || interview.duration_minutes : interview.duration_minutes;
+
+    if (action === 'reschedule') {
+      if (Date.parse(scheduledAt) <= Date.now()) {
+        return json({ error: 'The new time must be in the future' }, 400);
+      }
+      if (newDuration < 15 || newDuration > 480) {
+        return json({ error: 'Interviews last between 15 minutes and 8 hours' }, 400);
+      }
+      if (Date.parse(newStart) === Date.parse(interview.scheduled_at) && newDuration === interview.duration_minutes) {
+        return json({ error: 'The interview is already at this time' }, 400);
+      }
+    }
+
+    const panel = interview.interview_interviewers;
+    const profileIds = [...new Set([
+      ...panel.map((member) => member.interviewer_id),
+      ...(interview.calendar_owner_id ? [interview.calendar_owner_id] : []),
+    ])];
+    const { data: profiles } = await supabase.from('profiles').select('id, email, full_name').in('id', profileIds);
+    const profileById = new Map((profiles || []).map((profile) => [profile.id, profile]));
+
+    // Attendees' calendars follow the Google event when there is one; every change is a new revision
+    let sequence = interview.ical_sequence + 1;
+    let calendarSynced: boolean | null = null;
+    if (interview.calendar_event_id && interview.calendar_owner_id) {
+      calendarSynced = false;
+      const token = await getGoogleAccessToken(supabase, interview.calendar_owner_id);
+      if ('accessToken' in token) {
+        try {
+          if (action === 'reschedule') {
+            const googleSequence = await updateCalendarEvent(token.accessToken, interview.calendar_event_id, {
+              startTime: newStart,
+              endTime: new Date(Date.parse(newStart) + newDuration * 60000).toISOString(),
+            });
+            sequence = Math.max(sequence, googleSequence);
+          } else {
+            await deleteCalendarEvent(token.accessToken, interview.calendar_event_id);
+          }
+          calendarSynced = true;
+        } catch (calendarError) {
+          console.error(`Failed to ${action} the calendar event:`, calendarError);
+        }
+      } else {
+        console.error(`Calendar of ${interview.calendar_owner_id} is unavailable: ${token.error}`);
+      }
+    }
+
+    // Google Meet links live and die with the calendar event; other providers keep their own meeting
+    let meetingSynced: boolean | null = null;
+    if (interview.meeting_provider && interview.meeting_id) {
+      meetingSynced = action === 'reschedule'
+        ? await updateMeeting(interview.meeting_provider, interview.meeting_id, { scheduledAt: newStart, durationMinutes: newDuration })
+        : await deleteMeeting(interview.meeting_provider, interview.meeting_id);
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('interviews')
+      .update(action === 'reschedule'
+        ? { scheduled_at: newStart, duration_minutes: newDuration, ical_sequence: sequence }
+        : {
+          status: 'cancelled',
+          cancellation_reason: reason.trim(),
+          cancelled_at: new Date().toISOString(),
+          cancelled_by: changedBy,
+          ical_sequence: sequence,
+        })
+      .eq('id', interview.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    if (action === 'reschedule') {
+      const { error: historyError } = await supabase.from('interview_reschedules').insert({
+        interview_id: interview.id,
+        from_scheduled_at: interview.scheduled_at,
+        to_scheduled_at: newStart,
+        from_duration_minutes: interview.duration_minutes,
+        to_duration_minutes: newDuration,
+        reason: reason.trim(),
+        changed_by: changedBy,
+      });
+      if (historyError) console.error('Error recording reschedule:', historyError);
+    } else {
+      // A cancelled interview cannot be rebooked from the link that booked it
+      await supabase
+        .from('scheduling_links')
+        .update({ status: 'cancelled' })
+        .eq('interview_id', interview.id);
+    }
+
+    // Everyone gets an invite with the same UID and a higher sequence, which replaces or removes theirs
+    const lead = panel.find((member) => member.role === 'lead') ?? panel[0];
+    const organizerProfile = profileById.get(interview.calendar_owner_id ?? '') ?? profileById.get(lead?.interviewer_id ?? '');
+    const panelProfiles = panel
+      .map((member) => ({ member, profile: profileById.get(member.interviewer_id) }))
+      .filter((entry): entry is { member: typeof panel[number]; profile: NonNullable<typeof entry.profile> } => !!entry.profile?.email);
+
+    const subject = `Interview: ${candidate.full_name} - ${jobTitle}`;
+    const invite = icsAttachment(action === 'reschedule' ? 'REQUEST' : 'CANCEL', interviewEvent({
+      interview: { ...interview, scheduled_at: newStart, duration_minutes: newDuration, ical_sequence: sequence },
+      candidateName: candidate.full_name,
+      jobTitle,
+      organizer: organizerProfile?.email
+        ? { email: organizerProfile.email, name: organizerProfile.full_name }
+        : defaultOrganizer(),
+      attendees: [
+        { email: candidate.email, name: candidate.full_name },
+        ...panelProfiles.map(({ profile }) => ({ email: profile.email, name: profile.full_name })),
+      ],
+    }));
+
+    const previous = formatWhen(interview.scheduled_at);
+    const next = formatWhen(newStart);
+    const keyBase = action === 'reschedule' ? `interview-rescheduled:${interview.id}:${sequence}` : `interview-cancelled:${interview.id}`;
+
+    if (notifyCandidate) {
+      try {
+        const { status } = await sendEmail(supabase, {
+          to: candidate.email,
+          subject: action === 'reschedule'
+            ? `Interview Rescheduled: ${jobTitle} - ${next.day}`
+            : `Interview Cancelled: ${jobTitle}`,
+          html: action === 'reschedule' ? `
+<div style="font-family: Arial, sans-serif; line-height: 1.6; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #667eea;">Your interview has moved</h2>
+  <p>Dear ${escapeHtml(candidate.full_name)},</p>
+  <p>Your ${interview.interview_type} interview for the <strong>${escapeHtml(jobTitle)}</strong> position has a new time.</p>
+  <p style="color: #a0aec0; text-decoration: line-through;">📅 ${previous.day} at ${previous.time}</p>
+  <p><strong>📅 ${next.day} at ${next.time} (${newDuration} minutes)</strong></p>
+  ${interview.meeting_url ? `<p>🎥 <a href="${interview.meeting_url}">${interview.meeting_url}</a></p>` : ''}
+  <p>The attached invite updates the event in your calendar.</p>
+  <p>Best regards,<br/><strong>The CortexHR Team</strong></p>
+</div>` : `
+<div style="font-family: Arial, sans-serif; line-height: 1.6; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #667eea;">Your interview has been cancelled</h2>
+  <p>Dear ${escapeHtml(candidate.full_name)},</p>
+  <p>We are sorry, but your ${interview.interview_type} interview for the <strong>${escapeHtml(jobTitle)}</strong> position on ${previous.day} at ${previous.time} has been cancelled. The hiring team will be in touch about next steps.</p>
+  <p>The attached update removes the event from your calendar.</p>
+  <p>Best regards,<br/><strong>The CortexHR Team</strong></p>
+</div>`,
+          emailType: action === 'reschedule' ? 'interview_rescheduled' : 'interview_cancelled',
+          applicationId: interview.application_id,
+          attachments: [invite],
+          idempotencyKey: keyBase,
+          createdBy: changedBy,
+        });
+        console.log(`Candidate ${action} email ${status}`);
+      } catch (emailError) {
+        console.error('Failed to notify the candidate:', emailError);
+      }
+    }
+
+    for (const { member, profile } of panelProfiles) {
+      try {
+        await sendEmail(supabase, {
+          to: profile.email,
+          subject: `${action === 'reschedule' ? 'Rescheduled' : 'Cancelled'}: ${subject}`,
+          html: `
+<div style="font-family: Arial, sans-serif; line-height: 1.6;">
+  <p>Hi ${escapeHtml(profile.full_name || profile.email)},</p>
+  <p>The <strong>${interview.interview_type}</strong> interview with <strong>${escapeHtml(candidate.full_name)}</strong> for the <strong>${escapeHtml(jobTitle)}</strong> position, where you are ${member.role}, ${action === 'reschedule' ? 'has moved' : 'has been cancelled'}.</p>
+  ${action === 'reschedule'
+    ? `<p>📅 ${next.day} at ${next.time} (${newDuration} minutes), was ${previous.day} at ${previous.time}</p>`
+    : `<p>📅 Was ${previous.day} at ${previous.time}</p>`}
+  <p>Reason: ${escapeHtml(reason.trim())}</p>
+</div>`,
+          emailType: 'interview_panel',
+          candidateId,
+          attachments: [invite],
+          idempotencyKey: `${keyBase}:${member.interviewer_id}`,
+          createdBy: changedBy,
+        });
+      } catch (emailError) {
+        console.error(`Failed to notify interviewer ${member.interviewer_id}:`, emailError);
+      }
+    }
+
+    await recordAudit(supabase, actor, {
+      action: action === 'reschedule' ? 'interview.rescheduled' : 'interview.cancelled',
+      entityType: 'interview',
+      entityId: interview.id,
+      candidateId,
+      changes: action === 'reschedule'
+        ? {
+          scheduled_at: { old: interview.scheduled_at, new: newStart },
+          duration_minutes: { old: interview.duration_minutes, new: newDuration },
+        }
+        : { status: { old: interview.status, new: 'cancelled' } },
+      metadata: { reason: reason.trim(), calendar_synced: calendarSynced, meeting_synced: meetingSynced },
+    });
+
+    console.log(`Interview ${interview.id} ${action === 'reschedule' ? 'rescheduled' : 'cancelled'}`);
+
+    return json({ success: true, interview: updated, calendarSynced, meetingSynced });
+
+  } catch (error: unknown) {
+    console.error('Error in manage-interview:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
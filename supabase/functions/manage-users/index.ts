@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, type AuthPolicy } from "../_shared/auth.ts";
+import { actorFromAuth, recordAudit } from "../_shared/audit.ts";
+import { ADMIN_ROLES, STAFF_ROLES, type AppRole } from "../_shared/roles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const AUTH_POLICY: AuthPolicy = { modes: ['staff'], roles: ADMIN_ROLES };
+
+type ManageUsersRequest =
+  | { action: 'list' }
+  | { action: 'invite'; email: string; fullName?: string; role: AppRole; redirectTo?: string }
+  // role null revokes dashboard access entirely
+  | { action: 'set_role'; userId: string; role: AppRole | null };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Each staff member holds exactly one role in the admin screen
+async function replaceRole(supabase: SupabaseClient, userId: string, role: AppRole | null) {
+  const { error: deleteError } = await supabase.from('user_roles').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+
+  if (role) {
+    const { error: insertError } = await supabase.from('user_roles').insert({ user_id: userId, role });
+    if (insertError) throw insertError;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { auth, body } = await authorize<ManageUsersRequest>(req, AUTH_POLICY);
+    const actorId = auth.mode === 'staff' ? auth.user.id : null;
+
+    if (body.action === 'list') {
+      const [{ data: profiles, error: profilesError }, { data: roles, error: rolesError }] = await Promise.all([
+        supabase.from('profiles').select('id, email, full_name, created_at').order('created_at', { ascending: true }),
+        supabase.from('user_roles').select('user_id, role'),
+      ]);
+      if (profilesError) throw profilesError;
+      if (rolesError) throw rolesError;
+
+      const users = (profiles ?? []).map((profile) => ({
+        ...profile,
+        roles: (roles ?? []).filter((row) => row.user_id === profile.id).map((row) => row.role as AppRole),
+      }));
+
+      return json({ users });
+    }
+
+    if (body.action === 'invite') {
+      const email = body.email?.trim().toLowerCase();
+      if (!email || !STAFF_ROLES.includes(body.role)) {
+        return json({ error: 'email and a valid role are required' }, 400);
+      }
+
+      const { data, error } = await supabase.auth.admin.inviteUserByEmail(email, {
+        data: { full_name: body.fullName?.trim() || email },
+        redirectTo: body.redirectTo,
+      });
+      if (error || !data.user) {
+        return json({ error: error?.message || 'Failed to invite user' }, 400);
+      }
+
+      // New accounts start without a role; apply the one chosen here
+      await replaceRole(supabase, data.user.id, body.role);
+
+      console.log(`User ${email} invited as ${body.role} by ${actorId}`);
+
+      await recordAudit(supabase, actorFromAuth(auth), {
+        action: 'user.invited',
+        entityType: 'user',
+        entityId: data.user.id,
+        changes: { role: { old: null, new: body.role } },
+        metadata: { email },
+      });
+      return json({ success: true, userId: data.user.id });
+    }
+
+    if (body.action === 'set_role') {
+      if (!body.userId || (body.role !== null && !STAFF_ROLES.includes(body.role))) {
+        return json({ error: 'userId and a valid role are required' }, 400);
+      }
+
+      if (body.role !== 'admin') {
+        const { data: admins, error: adminsError } = await supabase
+          .from('user_roles')
+          .select('user_id')
+          .eq('role', 'admin');
+        if (adminsError) throw adminsError;
+
+        const remainingAdmins = (admins ?? []).filter((row) => row.user_id !== body.userId);
+        if (remainingAdmins.length === 0) {
+          return json({ error: 'At least one admin must remain' }, 409);
+        }
+      }
+
+      const { data: previous, error: previousError } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', body.userId);
+      if (previousError) throw previousError;
+
+      await replaceRole(supabase, body.userId, body.role);
+
+      console.log(`Role for ${body.userId} set to ${body.role ?? 'none'} by ${actorId}`);
+
+      await recordAudit(supabase, actorFromAuth(auth), {
+        action: 'user.role_changed',
+        entityType: 'user',
+        entityId: body.userId,
+        changes: { roles: { old: (previous ?? []).map((row) => row.role), new: body.role ? [body.role] : [] } },
+      });
+      return json({ success: true });
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (error: unknown) {
+    console.error('Error in manage-users:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
@@ -0,0 +1,225 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateOfferLetterHTML } from "../_shared/offer-letter.ts";
+import { verifyOfferResponseToken } from "../_shared/offer-link.ts";
+import { AccessError, BadRequestError, authorize, invokeInternal, type AuthPolicy } from "../_shared/auth.ts";
+import { recordAudit } from "../_shared/audit.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Offer links carry a signed token that is verified before the offer is loaded
+const AUTH_POLICY: AuthPolicy = { modes: ['candidate'] };
+
+interface OfferResponseRequest {
+  action: 'get' | 'accept' | 'decline';
+  token: string;
+  signatureName?: string;
+  declineReason?: string;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// First hop in x-forwarded-for is the client as seen by the edge proxy
+function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return req.headers.get('x-real-ip') || req.headers.get('cf-connecting-ip');
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { body: { action, token, signatureName, declineReason } } = await authorize<OfferResponseRequest>(req, AUTH_POLICY);
+
+    const verified = await verifyOfferResponseToken(token);
+    if (!verified.valid) {
+      if (verified.reason === 'expired') {
+        return jsonResponse({ error: 'This offer link has expired', code: 'LINK_EXPIRED' }, 410);
+      }
+      return jsonResponse({ error: 'Invalid offer link', code: 'NOT_FOUND' }, 404);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: offer, error: offerError } = await supabase
+      .from('offer_letters')
+      .select(`
+        *,
+        applications!inner(
+          id,
+          candidates!inner(id, full_name, email),
+          jobs!inner(title)
+        )
+      `)
+      .eq('id', verified.offerLetterId)
+      .maybeSingle();
+
+    if (offerError) {
+      console.error('Offer lookup error:', offerError);
+      throw offerError;
+    }
+
+    if (!offer) {
+      return jsonResponse({ error: 'Invalid offer link', code: 'NOT_FOUND' }, 404);
+    }
+
+    const candidate = offer.applications.candidates;
+
+    // Catch offers the nightly expiry job has not reached yet
+    if (offer.status === 'sent' && offer.offer_expiry_date && new Date(`${offer.offer_expiry_date}T23:59:59Z`) < new Date()) {
+      await supabase.from('offer_letters').update({ status: 'expired' }).eq('id', offer.id).eq('status', 'sent');
+      offer.status = 'expired';
+    }
+
+    const summary = {
+      candidateName: candidate.full_name,
+      positionTitle: offer.position_title,
+      status: offer.status,
+      offerExpiryDate: offer.offer_expiry_date,
+      respondedAt: offer.responded_at,
+      signatureName: offer.signature_name,
+    };
+
+    if (action === 'get') {
+      return jsonResponse({ ...summary, letterHtml: generateOfferLetterHTML(offer, candidate) });
+    }
+
+    if (offer.status !== 'sent') {
+      const messages: Record<string, string> = {
+        accepted: 'This offer has already been accepted',
+        declined: 'This offer has already been declined',
+        expired: 'This offer has expired',
+      };
+      return jsonResponse({ error: messages[offer.status] || 'This offer is no longer open', code: 'NOT_OPEN', ...summary }, 409);
+    }
+
+    const respondedAt = new Date().toISOString();
+
+    switch (action) {
+      case 'accept': {
+        if (!signatureName || normalizeName(signatureName) !== normalizeName(candidate.full_name)) {
+          return jsonResponse({ error: `Type your full name exactly as "${candidate.full_name}" to sign`, code: 'SIGNATURE_MISMATCH' }, 400);
+        }
+
+        // Claim on status so a double submit (or a decline in another tab) cannot both win
+        const { data: claimed, error: claimError } = await supabase
+          .from('offer_letters')
+          .update({
+            status: 'accepted',
+            responded_at: respondedAt,
+            signature_name: signatureName.trim(),
+            signature_ip: getClientIp(req),
+            signature_user_agent: req.headers.get('user-agent'),
+          })
+          .eq('id', offer.id)
+          .eq('status', 'sent')
+          .select('id');
+
+        if (claimError) throw claimError;
+        if (!claimed || claimed.length === 0) {
+          return jsonResponse({ error: 'This offer is no longer open', code: 'NOT_OPEN' }, 409);
+        }
+
+        // A signed acceptance is final even if the application never reached the offer stage
+        const { error: applicationError } = await supabase.rpc('change_application_status', {
+          _application_id: offer.application_id,
+          _status: 'hired',
+          _reason: 'Offer accepted by the candidate',
+          _override: true,
+        });
+
+        if (applicationError) {
+          console.error('Error moving application to hired:', applicationError);
+        }
+
+        console.log(`Offer ${offer.id} accepted by ${candidate.email}`);
+
+        await recordAudit(supabase, { type: 'candidate', id: candidate.id }, {
+          action: 'offer.accepted',
+          entityType: 'offer',
+          entityId: offer.id,
+          candidateId: candidate.id,
+          metadata: { signatureName: signatureName.trim(), ip: getClientIp(req) },
+        });
+
+        try {
+          await invokeInternal('slack-notify', {
+            type: 'candidate_status',
+            candidateName: candidate.full_name,
+            jobTitle: offer.applications.jobs.title,
+            details: { status: 'hired' },
+          });
+        } catch (slackError) {
+          console.error('Slack notification failed:', slackError);
+        }
+
+        return jsonResponse({ success: true, status: 'accepted', respondedAt });
+      }
+
+      case 'decline': {
+        if (!declineReason?.trim()) {
+          return jsonResponse({ error: 'Please tell us why you are declining' }, 400);
+        }
+
+        const { data: claimed, error: claimError } = await supabase
+          .from('offer_letters')
+          .update({
+            status: 'declined',
+            responded_at: respondedAt,
+            decline_reason: declineReason.trim(),
+          })
+          .eq('id', offer.id)
+          .eq('status', 'sent')
+          .select('id');
+
+        if (claimError) throw claimError;
+        if (!claimed || claimed.length === 0) {
+          return jsonResponse({ error: 'This offer is no longer open', code: 'NOT_OPEN' }, 409);
+        }
+
+        console.log(`Offer ${offer.id} declined by ${candidate.email}`);
+
+        await recordAudit(supabase, { type: 'candidate', id: candidate.id }, {
+          action: 'offer.declined',
+          entityType: 'offer',
+          entityId: offer.id,
+          candidateId: candidate.id,
+          metadata: { reason: declineReason.trim() },
+        });
+
+        try {
+          await invokeInternal('slack-notify', {
+            type: 'custom',
+            customMessage: `❌ *${candidate.full_name}* declined the offer for *${offer.applications.jobs.title}*\n>${declineReason.trim()}`,
+          });
+        } catch (slackError) {
+          console.error('Slack notification failed:', slackError);
+        }
+
+        return jsonResponse({ success: true, status: 'declined', respondedAt });
+      }
+
+      default:
+        return jsonResponse({ error: 'Invalid action' }, 400);
+    }
+  } catch (error: unknown) {
+    console.error('Error in offer-response function:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
@@ -1,105 +1,18 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError, createJSONCompletion, type AIMessage } from "../_shared/ai-provider.ts";
+import { resumeAnalysisSchema, type ResumeAnalysis } from "../_shared/ai-schemas.ts";
+import { parseRubric, rubricPrompt, rubricTotal } from "../_shared/rubric.ts";
+import { AccessError, BadRequestError, authorize, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// AI Provider types
-type AIProvider = 'aiapi' | 'openai' | 'huggingface';
-
-interface AIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-// Detect available provider
-function getAvailableProvider(): AIProvider {
-  if (Deno.env.get('OPENAI_API_KEY')) return 'openai';
-  if (Deno.env.get('HUGGINGFACE_API_KEY')) return 'huggingface';
-  if (Deno.env.get('AIAPI_API_KEY')) return 'aiapi';
-  throw new Error('No AI provider configured');
-}
-
-// Get provider config
-function getProviderConfig(provider: AIProvider) {
-  const configs = {
-    aiapi: {
-      baseUrl: 'https://ai.gateway.aiapi.dev/v1/chat/completions',
-      model: 'google/gemini-2.5-flash',
-      getHeaders: () => ({
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${Deno.env.get('AIAPI_API_KEY')}`,
-      }),
-    },
-    openai: {
-      baseUrl: 'https://api.openai.com/v1/chat/completions',
-      model: 'gpt-4o-mini',
-      getHeaders: () => ({
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-      }),
-    },
-    huggingface: {
-      baseUrl: 'https://api-inference.huggingface.co/models/mistralai/Mixtral-8x7B-Instruct-v0.1',
-      model: 'Mixtral-8x7B',
-      getHeaders: () => ({
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${Deno.env.get('HUGGINGFACE_API_KEY')}`,
-      }),
-    },
-  };
-  return configs[provider];
-}
-
-// Make AI completion request
-async function createAICompletion(messages: AIMessage[], provider: AIProvider): Promise<string> {
-  const config = getProviderConfig(provider);
-
-  if (provider === 'huggingface') {
-    // HuggingFace has different format
-    const prompt = messages.map(m => {
-      if (m.role === 'system') return `<s>[INST] <<SYS>>\n${m.content}\n<</SYS>>\n\n`;
-      if (m.role === 'user') return `${m.content} [/INST]`;
-      return `${m.content} </s><s>[INST] `;
-    }).join('');
-
-    const response = await fetch(config.baseUrl, {
-      method: 'POST',
-      headers: config.getHeaders(),
-      body: JSON.stringify({
-        inputs: prompt,
-        parameters: { max_new_tokens: 4096, temperature: 0.3, return_full_text: false },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HuggingFace API failed: ${await response.text()}`);
-    }
-
-    const data = await response.json();
-    return Array.isArray(data) ? data[0]?.generated_text : data.generated_text;
-  }
-
-  // OpenAI-compatible (Aiapi AI and OpenAI)
-  const response = await fetch(config.baseUrl, {
-    method: 'POST',
-    headers: config.getHeaders(),
-    body: JSON.stringify({ model: config.model, messages }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    if (response.status === 429) throw new Error('Rate limit exceeded. Please try again later.');
-    if (response.status === 402) throw new Error('AI credits exhausted. Please add funds.');
-    throw new Error(`AI API failed: ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || '';
-}
+// Called by auto-process-application as a signed internal request, or directly by HR
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'] };
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -107,7 +20,11 @@ serve(async (req) => {
   }
 
   try {
-    const { resumeText, applicationId, jobRequirements } = await req.json();
+    const { auth, body: { resumeText, applicationId, jobRequirements } } = await authorize<{
+      resumeText?: string;
+      applicationId?: string;
+      jobRequirements?: string;
+    }>(req, AUTH_POLICY);
 
     if (!resumeText || !applicationId) {
       return new Response(
@@ -116,10 +33,29 @@ serve(async (req) => {
       );
     }
 
+    await requireApplicationAccess(auth, applicationId);
+
     console.log('Parsing resume for application:', applicationId);
 
-    const provider = getAvailableProvider();
-    console.log('Using AI provider:', provider);
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: appData, error: appError } = await supabase
+      .from('applications')
+      .select('candidate_id, jobs(requirements, scoring_rubric)')
+      .eq('id', applicationId)
+      .single();
+
+    if (appError) {
+      console.error('Error fetching application:', appError);
+      throw appError;
+    }
+
+    const job = appData.jobs as { requirements: string | null; scoring_rubric: unknown } | null;
+    const requirements = jobRequirements || job?.requirements;
+    const rubric = parseRubric(job?.scoring_rubric);
+    const { instructions, breakdownShape, knockoutShape } = rubricPrompt(rubric);
 
     const systemPrompt = `You are an expert senior HR recruiter with 25+ years of experience in technical and executive hiring across Fortune 500 companies. You analyze resumes with precision, objectivity, and deep industry knowledge.
 
@@ -146,43 +82,12 @@ Return only valid JSON without any markdown formatting.`;
 - Consider the overall picture, not just keywords
 - A candidate doesn't need to be perfect to score well
 
-## Scoring Breakdown (0-100 total):
-- **Technical Skills (30 points max)**: Assess depth, breadth, relevance, and hands-on experience with technologies. Look for specific projects, tools, frameworks mentioned.
-- **Experience Quality (25 points max)**: Evaluate career progression, impact achieved, responsibilities held, and relevance to typical roles. Look for quantified achievements.
-- **Education & Certifications (15 points max)**: Consider formal education, bootcamps, online courses, certifications. Non-traditional paths can still score high if relevant.
-- **Communication & Presentation (10 points max)**: How well is the resume written? Is it clear, well-organized, professional? Are achievements articulated effectively?
-- **Cultural Fit Indicators (10 points max)**: Look for teamwork, leadership, mentoring, community involvement, adaptability, initiative.
-- **Job Match (10 points max)**: If job requirements provided, how well does the candidate match? Otherwise, general employability.
+${instructions}
 
 ## Required JSON Response Structure:
 {
-  "score": <0-100 overall score - sum of all breakdown points>,
-  "score_breakdown": {
-    "technical_skills": {
-      "points": <0-30>,
-      "justification": "<2-3 sentences citing specific skills, tools, or projects from resume>"
-    },
-    "experience_quality": {
-      "points": <0-25>,
-      "justification": "<2-3 sentences citing specific roles, achievements, or progression from resume>"
-    },
-    "education_certifications": {
-      "points": <0-15>,
-      "justification": "<1-2 sentences about education, courses, or certifications found>"
-    },
-    "communication_presentation": {
-      "points": <0-10>,
-      "justification": "<1-2 sentences about resume quality and clarity>"
-    },
-    "cultural_fit": {
-      "points": <0-10>,
-      "justification": "<1-2 sentences about teamwork, leadership, or soft skills indicators>"
-    },
-    "job_match": {
-      "points": <0-10>,
-      "justification": "<1-2 sentences about fit for typical roles or specific job if provided>"
-    }
-  },
+  "score_breakdown": ${breakdownShape},
+  "knockouts": ${knockoutShape},
   "score_justification": "<3-4 sentence comprehensive summary explaining the overall score. Start with the candidate's strongest points, then any gaps, and end with a hiring recommendation. Be specific and cite resume content.>",
   "summary": "<2-3 sentence executive summary of who this candidate is, their experience level, and key strengths. Write it as if briefing a hiring manager.>",
   "skills": [{"name": "<skill>", "level": "beginner|intermediate|advanced|expert", "years": <estimated years>}],
@@ -214,7 +119,7 @@ Return only valid JSON without any markdown formatting.`;
   ]
 }
 
-${jobRequirements ? `## Job Requirements to Match Against:\n${jobRequirements}\n\nScore the job_match component based on how well this candidate fits these specific requirements.\n\n` : 'No specific job requirements provided - score job_match based on general employability and market fit.\n\n'}
+${requirements ? `## Job Requirements to Match Against:\n${requirements}\n\nScore the breakdown based on how well this candidate fits these specific requirements.\n\n` : 'No specific job requirements provided - score based on general employability and market fit.\n\n'}
 
 ## Resume Content:
 ${resumeText}
@@ -226,70 +131,36 @@ Analyze thoroughly and return ONLY valid JSON.`;
       { role: 'user', content: userPrompt }
     ];
 
-    const analysisText = await createAICompletion(messages, provider);
-
-    if (!analysisText) {
-      throw new Error('No analysis content received from AI');
-    }
-
-    console.log('AI response received, parsing...');
-
-    // Parse JSON response
-    let analysis;
+    let analysis: ResumeAnalysis;
+    let provider: string;
     try {
-      const cleanedText = analysisText.replace(/```json\n?|\n?```/g, '').trim();
-      analysis = JSON.parse(cleanedText);
-    } catch (parseError) {
-      console.error('JSON parse error:', parseError);
-      analysis = {
-        score: 55,
-        score_breakdown: {
-          technical_skills: { points: 15, justification: "Unable to fully assess - manual review needed" },
-          experience_quality: { points: 12, justification: "Unable to fully assess - manual review needed" },
-          education_certifications: { points: 8, justification: "Unable to fully assess - manual review needed" },
-          communication_presentation: { points: 5, justification: "Unable to fully assess - manual review needed" },
-          cultural_fit: { points: 5, justification: "Unable to fully assess - manual review needed" },
-          job_match: { points: 10, justification: "Unable to fully assess - manual review needed" }
-        },
-        score_justification: "The AI was unable to fully parse this resume. The score of 55 is a neutral starting point. A manual review is strongly recommended to properly assess this candidate's qualifications and potential fit.",
-        skills: [],
-        summary: 'Resume parsing encountered issues. Manual review is recommended to properly evaluate this candidate.',
-        experience_years: 0,
-        current_role: 'Unknown',
-        current_company: 'Unknown',
-        education_level: 'Unknown',
-        education_field: 'Unknown',
-        certifications: [],
-        languages: [],
-        strengths: [],
-        concerns: ['Automated parsing incomplete - requires human review'],
-        red_flags: [],
-        recommendations: ['Conduct manual resume review'],
-        contact_info: { email: null, phone: null, location: null },
-        github_url: null,
-        linkedin_url: null,
-        portfolio_url: null,
-        salary_expectation: null,
-        availability: null,
-        interview_questions: []
-      };
-    }
+      ({ data: analysis, provider } = await createJSONCompletion(
+        { messages, temperature: 0.3 },
+        resumeAnalysisSchema(rubric),
+        'resume analysis'
+      ));
+    } catch (aiError) {
+      // Record the failure instead of inventing a score, so rankings only contain real analyses
+      const reason = aiError instanceof Error ? aiError.message : 'Unknown error';
+      console.error('Resume analysis failed:', reason);
+
+      await supabase
+        .from('applications')
+        .update({ ai_analysis_status: 'analysis_failed', ai_analysis_error: reason })
+        .eq('id', applicationId);
 
-    // Update database
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+      return new Response(
+        JSON.stringify({ error: `Resume analysis failed: ${reason}`, code: 'ANALYSIS_FAILED' }),
+        { status: aiError instanceof AIError ? aiError.httpStatus : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    const { data: appData, error: appError } = await supabase
-      .from('applications')
-      .select('candidate_id')
-      .eq('id', applicationId)
-      .single();
+    console.log(`Validated resume analysis received from ${provider}`);
 
-    if (appError) {
-      console.error('Error fetching application:', appError);
-      throw appError;
-    }
+    // Score from the breakdown rather than the model's own total, scaled to 0-100 whatever the weights add up to
+    const points = Object.values(analysis.score_breakdown).reduce((sum, component) => sum + component.points, 0);
+    const score = Math.round((points / rubricTotal(rubric)) * 100);
+    const knockedOut = analysis.knockouts.some((knockout) => !knockout.met);
 
     // Build comprehensive summary with justification
     const fullSummary = `${analysis.summary}\n\n**AI Assessment:** ${analysis.score_justification}`;
@@ -297,6 +168,10 @@ Analyze thoroughly and return ONLY valid JSON.`;
     const aiSkillsData = {
       skills: analysis.skills,
       score_breakdown: analysis.score_breakdown,
+      // Snapshot of the rubric used, so the breakdown still renders if the job's rubric changes
+      rubric,
+      knockouts: analysis.knockouts,
+      knocked_out: knockedOut,
       strengths: analysis.strengths,
       concerns: analysis.concerns,
       red_flags: analysis.red_flags,
@@ -312,10 +187,11 @@ Analyze thoroughly and return ONLY valid JSON.`;
     const { error: updateError } = await supabase
       .from('applications')
       .update({
-        ai_score: analysis.score,
+        ai_score: score,
         ai_skills: aiSkillsData,
         ai_summary: fullSummary,
-        status: 'screening',
+        ai_analysis_status: 'completed',
+        ai_analysis_error: null,
       })
       .eq('id', applicationId);
 
@@ -324,6 +200,18 @@ Analyze thoroughly and return ONLY valid JSON.`;
       throw updateError;
     }
 
+    // A new application moves to screening once scored; re-scoring never moves one backwards
+    const { error: statusError } = await supabase.rpc('change_application_status', {
+      _application_id: applicationId,
+      _status: 'screening',
+      _reason: 'Resume scored by AI',
+      _only_from: ['applied'],
+    });
+
+    if (statusError) {
+      console.error('Error moving application to screening:', statusError);
+    }
+
     // Extract URLs with fallback regex
     let githubUrl = analysis.github_url || null;
     let linkedinUrl = analysis.linkedin_url || null;
@@ -357,7 +245,7 @@ Analyze thoroughly and return ONLY valid JSON.`;
     return new Response(
       JSON.stringify({
         success: true,
-        analysis,
+        analysis: { ...analysis, score },
         provider,
         extractedUrls: { github_url: githubUrl, linkedin_url: linkedinUrl, portfolio_url: portfolioUrl },
         message: 'Resume parsed and scored successfully'
@@ -370,7 +258,7 @@ Analyze thoroughly and return ONLY valid JSON.`;
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof AIError ? error.httpStatus : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, type AuthPolicy } from "../_shared/auth.ts";
+import { ADMIN_ROLES } from "../_shared/roles.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Admins import from their own inbox; a scheduled internal call may poll every connected account
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'], roles: ADMIN_ROLES };
+
 interface TokenData {
   user_id: string;
   access_token: string;
@@ -294,6 +299,7 @@ async function processEmail(
         candidate_id: candidate.id,
         job_id: jobs[0].id,
         status: 'applied',
+        source: 'gmail',
         notes: `Auto-imported from email: ${subject}`,
       });
 
@@ -311,6 +317,8 @@ serve(async (req) => {
   }
 
   try {
+    const { auth, body } = await authorize<{ userId?: string }>(req, AUTH_POLICY);
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const clientId = Deno.env.get('GOOGLE_CLIENT_ID');
@@ -325,9 +333,8 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Check if specific user ID was provided
-    const body = await req.json().catch(() => ({}));
-    const specificUserId = body.userId;
+    // Staff can only poll their own inbox
+    const specificUserId = auth.mode === 'staff' ? auth.user.id : body.userId;
 
     // Get all HR users with connected Gmail (or specific user)
     let query = supabase.from('hr_google_tokens').select('*');
@@ -391,7 +398,7 @@ serve(async (req) => {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, invokeInternal, requireApplicationAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { sendEmail } from "../_shared/email-queue.ts";
+import { createCalendarEvent, getGoogleAccessToken } from "../_shared/google-calendar.ts";
+import { defaultOrganizer, icsAttachment, interviewEvent } from "../_shared/ics.ts";
+import { createMeeting, getDefaultMeetingProvider, isMeetingProvider, type MeetingProviderName } from "../_shared/meeting-providers.ts";
+import { validatePanel, type PanelMember } from "../_shared/availability.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Internal calls book interviews candidates picked through a self-scheduling link
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'] };
+
 interface ScheduleRequest {
   applicationId: string;
   scheduledAt: string;
@@ -16,6 +25,15 @@ interface ScheduleRequest {
   jobTitle: string;
   meetingUrl?: string;
   meetingId?: string;
+  // Defaults to the caller as lead
+  interviewers?: PanelMember[];
+  // Put the interview on a panel member's Google Calendar with the candidate and panel as attendees
+  sendCalendarInvites?: boolean;
+  // Video meeting to create when no meetingUrl is given: a provider, 'none' for no link, or the
+  // organization's default when left out
+  meetingProvider?: MeetingProviderName | 'none';
+  // Internal calls only: the staff member the interview is recorded as scheduled by
+  createdBy?: string;
 }
 
 serve(async (req) => {
@@ -24,17 +42,24 @@ serve(async (req) => {
   }
 
   try {
-    const { 
-      applicationId, 
-      scheduledAt, 
-      durationMinutes, 
-      interviewType,
-      candidateEmail,
-      candidateName,
-      jobTitle,
-      meetingUrl: providedMeetingUrl,
-      meetingId: providedMeetingId
-    }: ScheduleRequest = await req.json();
+    const {
+      auth,
+      body: {
+        applicationId,
+        scheduledAt,
+        durationMinutes,
+        interviewType,
+        candidateEmail,
+        candidateName,
+        jobTitle,
+        meetingUrl: providedMeetingUrl,
+        meetingId: providedMeetingId,
+        interviewers,
+        sendCalendarInvites = true,
+        meetingProvider: requestedProvider,
+        createdBy,
+      },
+    } = await authorize<ScheduleRequest>(req, AUTH_POLICY);
 
     if (!applicationId || !scheduledAt) {
       return new Response(
@@ -43,68 +68,119 @@ serve(async (req) => {
       );
     }
 
+    if (requestedProvider !== undefined && requestedProvider !== 'none' && !isMeetingProvider(requestedProvider)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown meeting provider: ${requestedProvider}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await requireApplicationAccess(auth, applicationId);
+
     console.log('Scheduling interview for application:', applicationId);
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const callerId = auth.mode === 'staff' ? auth.user.id : createdBy ?? null;
+    const panel: PanelMember[] = interviewers?.length
+      ? interviewers
+      : callerId ? [{ userId: callerId, role: 'lead' }] : [];
+
+    const panelProblems = validatePanel(panel);
+    if (panelProblems.length > 0) {
+      return new Response(
+        JSON.stringify({ error: panelProblems[0] }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const panelIds = panel.map((member) => member.userId);
+    const [{ data: staffRoles }, { data: panelProfiles }] = await Promise.all([
+      supabase.from('user_roles').select('user_id').in('user_id', panelIds),
+      // The caller may organize the calendar event without being on the panel
+      supabase.from('profiles').select('id, email, full_name').in('id', callerId ? [...panelIds, callerId] : panelIds),
+    ]);
+
+    const staffIds = new Set((staffRoles || []).map((row) => row.user_id));
+    if (panelIds.some((id) => !staffIds.has(id))) {
+      return new Response(
+        JSON.stringify({ error: 'Interviewers must be members of the hiring team' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const profileById = new Map((panelProfiles || []).map((profile) => [profile.id, profile]));
+    const panelEmails = panelIds.map((id) => profileById.get(id)?.email).filter((email): email is string => !!email);
+    // The candidate is told who is interviewing; shadows only observe
+    const interviewerNames = panel
+      .filter((member) => member.role !== 'shadow')
+      .sort((a, b) => Number(b.role === 'lead') - Number(a.role === 'lead'))
+      .map((member) => profileById.get(member.userId)?.full_name || profileById.get(member.userId)?.email)
+      .filter(Boolean)
+      .join(', ');
+
+    const subject = `Interview: ${candidateName} - ${jobTitle}`;
     let meetingUrl = providedMeetingUrl || null;
     let meetingId = providedMeetingId || null;
+    let meetingProvider: MeetingProviderName | null = null;
+    const meetingChoice = meetingUrl ? 'none' : requestedProvider ?? await getDefaultMeetingProvider(supabase);
+    const meetingDetails = { scheduledAt, durationMinutes: durationMinutes || 60, subject };
 
-    // If no meeting URL provided, try Microsoft Teams
-    if (!meetingUrl) {
-      const msClientId = Deno.env.get('MS_CLIENT_ID');
-      const msClientSecret = Deno.env.get('MS_CLIENT_SECRET');
-      const msTenantId = Deno.env.get('MS_TENANT_ID');
+    // The event goes on the caller's calendar, else the lead's, else any panel member's that is connected
+    let organizer: { userId: string; accessToken: string } | null = null;
+    if (sendCalendarInvites) {
+      const lead = panel.find((member) => member.role === 'lead')?.userId;
+      const owners = [...new Set([callerId, lead, ...panelIds].filter((id): id is string => !!id))];
+      for (const userId of owners) {
+        const token = await getGoogleAccessToken(supabase, userId);
+        if ('accessToken' in token) {
+          organizer = { userId, accessToken: token.accessToken };
+          break;
+        }
+      }
+    }
 
-      if (msClientId && msClientSecret && msTenantId) {
-        console.log('Creating Microsoft Teams meeting...');
-        try {
-          const tokenResponse = await fetch(
-            `https://login.microsoftonline.com/${msTenantId}/oauth2/v2.0/token`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-              body: new URLSearchParams({
-                client_id: msClientId,
-                client_secret: msClientSecret,
-                scope: 'https://graph.microsoft.com/.default',
-                grant_type: 'client_credentials',
-              }),
-            }
-          );
-
-          if (tokenResponse.ok) {
-            const tokenData = await tokenResponse.json();
-            const startTime = new Date(scheduledAt);
-            const endTime = new Date(startTime.getTime() + durationMinutes * 60000);
-
-            const meetingResponse = await fetch(
-              'https://graph.microsoft.com/v1.0/users/me/onlineMeetings',
-              {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${tokenData.access_token}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  startDateTime: startTime.toISOString(),
-                  endDateTime: endTime.toISOString(),
-                  subject: `Interview: ${candidateName} - ${jobTitle}`,
-                }),
-              }
-            );
-
-            if (meetingResponse.ok) {
-              const meetingData = await meetingResponse.json();
-              meetingUrl = meetingData.joinWebUrl;
-              meetingId = meetingData.id;
-              console.log('Teams meeting created');
-            }
-          }
-        } catch (msError) {
-          console.error('Microsoft Teams error:', msError);
+    // Google Meet comes with the calendar event; other providers are created first so the event carries
+    // their link. Without a calendar, Meet falls back to the other configured providers.
+    const createMeet = meetingChoice === 'google_meet' && !!organizer;
+    if (meetingChoice !== 'none' && !createMeet) {
+      const meeting = await createMeeting(meetingChoice, meetingDetails);
+      if (meeting) ({ meetingUrl, meetingId, provider: meetingProvider } = meeting);
+    }
+
+    let calendarEventId: string | null = null;
+    let icalUid: string | null = null;
+    let icalSequence = 0;
+    if (organizer) {
+      try {
+        const startTime = new Date(scheduledAt);
+        const calendarEvent = await createCalendarEvent(organizer.accessToken, {
+          summary: subject,
+          description: [
+            `${interviewType} interview with ${candidateName} for the ${jobTitle} position.`,
+            interviewerNames && `Interviewers: ${interviewerNames}`,
+            meetingUrl && `Join: ${meetingUrl}`,
+          ].filter(Boolean).join('\n\n'),
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + (durationMinutes || 60) * 60000).toISOString(),
+          attendees: [candidateEmail, ...panelEmails].filter(Boolean),
+          createMeet,
+        });
+        calendarEventId = calendarEvent.eventId;
+        icalUid = calendarEvent.iCalUID;
+        icalSequence = calendarEvent.sequence;
+        if (createMeet && calendarEvent.meetLink) {
+          meetingUrl = calendarEvent.meetLink;
+          meetingProvider = 'google_meet';
+        }
+      } catch (calendarError) {
+        console.error('Calendar event creation failed:', calendarError);
+        organizer = null;
+        if (createMeet) {
+          const meeting = await createMeeting('google_meet', meetingDetails);
+          if (meeting) ({ meetingUrl, meetingId, provider: meetingProvider } = meeting);
         }
       }
     }
@@ -119,7 +195,13 @@ serve(async (req) => {
         interview_type: interviewType || 'Technical',
         meeting_url: meetingUrl,
         meeting_id: meetingId,
+        meeting_provider: meetingProvider,
+        calendar_event_id: calendarEventId,
+        calendar_owner_id: calendarEventId ? organizer?.userId : null,
+        ical_uid: icalUid,
+        ical_sequence: icalSequence,
         status: 'scheduled',
+        created_by: callerId,
       })
       .select()
       .single();
@@ -129,16 +211,52 @@ serve(async (req) => {
       throw interviewError;
     }
 
-    // Update application status
-    const { error: updateError } = await supabase
-      .from('applications')
-      .update({ status: 'interview' })
-      .eq('id', applicationId);
+    const { error: panelError } = await supabase
+      .from('interview_interviewers')
+      .insert(panel.map((member) => ({
+        interview_id: interview.id,
+        interviewer_id: member.userId,
+        role: member.role,
+      })));
+
+    if (panelError) {
+      console.error('Error adding interviewers:', panelError);
+      await supabase.from('interviews').delete().eq('id', interview.id);
+      throw panelError;
+    }
+
+    // Scheduling advances new applications; later stages stay where they are
+    const { error: updateError } = await supabase.rpc('change_application_status', {
+      _application_id: applicationId,
+      _status: 'interview',
+      _reason: 'Interview scheduled',
+      _only_from: ['applied', 'screening'],
+    });
 
     if (updateError) {
       console.error('Error updating application status:', updateError);
     }
 
+    // The same invite goes to everyone. With a calendar event it carries Google's UID, so it merges with
+    // the invite Google sends rather than adding a second event.
+    const organizerId = (calendarEventId && organizer?.userId) || panel.find((member) => member.role === 'lead')?.userId || panelIds[0];
+    const organizerProfile = profileById.get(organizerId);
+    const invite = icsAttachment('REQUEST', interviewEvent({
+      interview,
+      candidateName,
+      jobTitle,
+      organizer: organizerProfile?.email
+        ? { email: organizerProfile.email, name: organizerProfile.full_name }
+        : defaultOrganizer(),
+      attendees: [
+        { email: candidateEmail, name: candidateName },
+        ...panelIds.flatMap((id) => {
+          const profile = profileById.get(id);
+          return profile?.email ? [{ email: profile.email, name: profile.full_name }] : [];
+        }),
+      ],
+    }));
+
     // Format date for email
     const interviewDate = new Date(scheduledAt);
     const formattedDate = interviewDate.toLocaleDateString('en-US', {
@@ -189,6 +307,12 @@ serve(async (req) => {
           <td style="padding: 8px 0; color: #718096; font-size: 14px;">📋 Type</td>
           <td style="padding: 8px 0; color: #2d3748; font-weight: 600; text-align: right;">${interviewType}</td>
         </tr>
+        ${interviewerNames ? `
+        <tr>
+          <td style="padding: 8px 0; color: #718096; font-size: 14px;">👥 With</td>
+          <td style="padding: 8px 0; color: #2d3748; font-weight: 600; text-align: right;">${interviewerNames}</td>
+        </tr>
+        ` : ''}
       </table>
     </div>
     
@@ -226,35 +350,70 @@ serve(async (req) => {
 </html>
     `;
 
-    // Send email notification
+    // Send email notification; a transient failure is retried by the email queue
     try {
-      await supabase.functions.invoke('send-email', {
-        body: {
-          to: candidateEmail,
-          subject: `Interview Confirmed: ${jobTitle} - ${formattedDate}`,
-          html: emailHtml,
-          emailType: 'interview_scheduled',
-        },
+      const { status } = await sendEmail(supabase, {
+        to: candidateEmail,
+        subject: `Interview Confirmed: ${jobTitle} - ${formattedDate}`,
+        html: emailHtml,
+        emailType: 'interview_scheduled',
+        applicationId,
+        attachments: [invite],
+        idempotencyKey: `interview-scheduled:${interview.id}`,
+        createdBy: callerId,
       });
-      console.log('Interview confirmation email sent');
+      console.log(`Interview confirmation email ${status}`);
     } catch (emailError) {
       console.error('Failed to send email:', emailError);
     }
 
+    // A calendar event invites the panel itself; without one each member is told by email
+    if (!calendarEventId) {
+      const { data: application } = await supabase
+        .from('applications')
+        .select('candidate_id')
+        .eq('id', applicationId)
+        .maybeSingle();
+
+      for (const member of panel) {
+        const profile = profileById.get(member.userId);
+        if (!profile?.email) continue;
+        try {
+          await sendEmail(supabase, {
+            to: profile.email,
+            subject: `${subject} - ${formattedDate}`,
+            html: `
+<div style="font-family: Arial, sans-serif; line-height: 1.6;">
+  <p>Hi ${profile.full_name || profile.email},</p>
+  <p>You are on the panel, as ${member.role}, for a <strong>${interviewType}</strong> interview with <strong>${candidateName}</strong> for the <strong>${jobTitle}</strong> position.</p>
+  <p>📅 ${formattedDate} at ${formattedTime} (${durationMinutes} minutes)</p>
+  ${meetingUrl ? `<p>🎥 <a href="${meetingUrl}">${meetingUrl}</a></p>` : ''}
+  ${interviewerNames ? `<p>👥 Interviewers: ${interviewerNames}</p>` : ''}
+</div>`,
+            emailType: 'interview_panel',
+            candidateId: application?.candidate_id,
+            attachments: [invite],
+            idempotencyKey: `interview-panel:${interview.id}:${member.userId}`,
+            createdBy: callerId,
+          });
+        } catch (emailError) {
+          console.error(`Failed to notify interviewer ${member.userId}:`, emailError);
+        }
+      }
+    }
+
     // Send Slack notification if configured
     try {
-      await supabase.functions.invoke('slack-notify', {
-        body: {
-          type: 'interview_scheduled',
-          candidateName,
-          jobTitle,
-          details: {
-            date: formattedDate,
-            time: formattedTime,
-            duration: `${durationMinutes} min`,
-            type: interviewType,
-            meetingUrl: meetingUrl || 'TBD',
-          },
+      await invokeInternal('slack-notify', {
+        type: 'interview_scheduled',
+        candidateName,
+        jobTitle,
+        details: {
+          date: formattedDate,
+          time: formattedTime,
+          duration: `${durationMinutes} min`,
+          type: interviewType,
+          meetingUrl: meetingUrl || 'TBD',
         },
       });
       console.log('Slack notification sent');
@@ -269,6 +428,8 @@ serve(async (req) => {
         success: true, 
         interview,
         meetingUrl,
+        meetingProvider,
+        calendarEventId,
         message: meetingUrl 
           ? 'Interview scheduled with video meeting link' 
           : 'Interview scheduled (add meeting link manually)'
@@ -281,7 +442,7 @@ serve(async (req) => {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
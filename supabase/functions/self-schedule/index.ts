@@ -0,0 +1,295 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, invokeInternal, type AuthPolicy } from "../_shared/auth.ts";
+import { recordAudit } from "../_shared/audit.ts";
+import { fetchPanelAvailability, listFreeSlots, type FreeSlot, type PanelMember } from "../_shared/availability.ts";
+import type { MeetingProviderName } from "../_shared/meeting-providers.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Candidates reach this function through their emailed scheduling link; its token is the only credential
+const AUTH_POLICY: AuthPolicy = { modes: ['candidate'] };
+
+// Slots sooner than this are not offered, so the panel has time to prepare
+const MIN_NOTICE_HOURS = 12;
+
+// After this many reschedules the candidate has to contact the hiring team
+const MAX_RESCHEDULES = 3;
+
+// Applications in these states take no bookings; rejecting or withdrawing also cancels open links
+const CLOSED_APPLICATION_STATUSES = ['rejected', 'withdrawn', 'hired'];
+
+interface SelfScheduleRequest {
+  action: 'get' | 'book';
+  token: string;
+  // The candidate's IANA time zone; slots at night there are not offered
+  timeZone?: string;
+  // book: start of the chosen slot
+  start?: string;
+}
+
+interface SchedulingLink {
+  id: string;
+  application_id: string;
+  interviewers: PanelMember[];
+  interview_type: string;
+  duration_minutes: number;
+  buffer_minutes: number;
+  workday_start_hour: number;
+  workday_end_hour: number;
+  time_zone: string;
+  window_days: number;
+  // Null books with the organization's default provider
+  meeting_provider: MeetingProviderName | 'none' | null;
+  status: 'open' | 'booked' | 'cancelled';
+  interview_id: string | null;
+  reschedule_count: number;
+  expires_at: string;
+  created_by: string | null;
+  applications: {
+    candidate_id: string;
+    status: string;
+    candidates: { full_name: string; email: string };
+    jobs: { title: string };
+  };
+}
+
+interface BookedInterview {
+  id: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  meeting_url: string | null;
+  status: string;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { body: { action, token, timeZone, start } } = await authorize<SelfScheduleRequest>(req, AUTH_POLICY);
+    const candidateTimeZone = timeZone && isTimeZone(timeZone) ? timeZone : undefined;
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error: linkError } = await supabase
+      .from('scheduling_links')
+      .select('*, applications!inner(candidate_id, status, candidates!inner(full_name, email), jobs!inner(title))')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (linkError) throw linkError;
+    if (!data) {
+      return json({ error: 'Invalid scheduling link', code: 'NOT_FOUND' }, 404);
+    }
+
+    const link = data as unknown as SchedulingLink;
+    if (link.status === 'cancelled' || CLOSED_APPLICATION_STATUSES.includes(link.applications.status)) {
+      return json({ error: 'This scheduling link has been withdrawn. Please contact the hiring team.', code: 'CANCELLED' }, 410);
+    }
+    if (new Date(link.expires_at) < new Date() && link.status === 'open') {
+      return json({ error: 'This scheduling link has expired. Please contact the hiring team.', code: 'EXPIRED' }, 410);
+    }
+
+    let booked: BookedInterview | null = null;
+    if (link.interview_id) {
+      const { data: interview } = await supabase
+        .from('interviews')
+        .select('id, scheduled_at, duration_minutes, meeting_url, status')
+        .eq('id', link.interview_id)
+        .maybeSingle();
+      if (interview?.status === 'scheduled') booked = interview;
+    }
+
+    // A booking can be moved until it starts, a limited number of times, while the link is valid. A link
+    // whose interview has taken place, or is being booked right now, takes no new booking.
+    const canBook = new Date(link.expires_at) > new Date() &&
+      (booked
+        ? link.reschedule_count < MAX_RESCHEDULES && new Date(booked.scheduled_at) > new Date()
+        : link.status === 'open');
+
+    const offeredSlots = async (): Promise<FreeSlot[]> => {
+      const timeMin = new Date(Date.now() + MIN_NOTICE_HOURS * 3600000);
+      const timeMax = new Date(Date.now() + link.window_days * 86400000);
+
+      const availability = await fetchPanelAvailability(
+        supabase,
+        link.interviewers,
+        timeMin.toISOString(),
+        timeMax.toISOString(),
+      );
+
+      // The interview being moved does not block its own new time
+      if (booked) {
+        const bookedStart = Date.parse(booked.scheduled_at);
+        const bookedEnd = bookedStart + booked.duration_minutes * 60000;
+        for (const userId of Object.keys(availability.busy)) {
+          availability.busy[userId] = availability.busy[userId].filter(
+            (slot) => Date.parse(slot.start) !== bookedStart || Date.parse(slot.end) !== bookedEnd,
+          );
+        }
+      }
+
+      return listFreeSlots(link.interviewers, availability, {
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        durationMinutes: link.duration_minutes,
+        timeZone: link.time_zone,
+        workdayStartHour: link.workday_start_hour,
+        workdayEndHour: link.workday_end_hour,
+        bufferMinutes: link.buffer_minutes,
+        candidateTimeZone,
+      });
+    };
+
+    const booking = booked && {
+      scheduledAt: booked.scheduled_at,
+      durationMinutes: booked.duration_minutes,
+      meetingUrl: booked.meeting_url,
+    };
+
+    switch (action) {
+      case 'get': {
+        return json({
+          candidateName: link.applications.candidates.full_name,
+          jobTitle: link.applications.jobs.title,
+          interviewType: link.interview_type,
+          durationMinutes: link.duration_minutes,
+          expiresAt: link.expires_at,
+          booking,
+          canBook,
+          slots: canBook ? await offeredSlots() : [],
+        });
+      }
+
+      case 'book': {
+        if (!start || Number.isNaN(Date.parse(start))) {
+          return json({ error: 'A slot start time is required' }, 400);
+        }
+        if (!canBook) {
+          return json({ error: 'This interview can no longer be changed online. Please contact the hiring team.', code: 'LOCKED' }, 409);
+        }
+
+        const scheduledAt = new Date(start).toISOString();
+        const slots = await offeredSlots();
+        if (!slots.some((slot) => slot.start === scheduledAt)) {
+          return json({ error: 'That time is no longer available. Please pick another.', code: 'SLOT_TAKEN' }, 409);
+        }
+
+        // Claim the link before booking so two requests cannot both book or both spend the same
+        // reschedule: only the request whose update matches the state read above goes ahead
+        const claim = booked
+          ? { reschedule_count: link.reschedule_count + 1 }
+          : { status: 'booked', booked_at: new Date().toISOString() };
+        let claimQuery = supabase.from('scheduling_links').update(claim).eq('id', link.id);
+        claimQuery = booked
+          ? claimQuery.eq('status', 'booked').eq('reschedule_count', link.reschedule_count)
+          : claimQuery.eq('status', 'open');
+        const { data: claimed, error: claimError } = await claimQuery.select('id');
+        if (claimError) throw claimError;
+        if (!claimed?.length) {
+          return json({ error: 'This interview was just booked or moved. Please reload the page.', code: 'CONFLICT' }, 409);
+        }
+
+        const releaseClaim = () => booked
+          ? supabase.from('scheduling_links')
+            .update({ reschedule_count: link.reschedule_count })
+            .eq('id', link.id)
+            .eq('reschedule_count', link.reschedule_count + 1)
+          : supabase.from('scheduling_links')
+            .update({ status: 'open', booked_at: null })
+            .eq('id', link.id)
+            .eq('status', 'booked')
+            .is('interview_id', null);
+
+        // A first booking creates the interview; a reschedule moves it, calendar event, meeting and all
+        let response: Response;
+        try {
+          response = booked
+            ? await invokeInternal('manage-interview', {
+              action: 'reschedule',
+              interviewId: booked.id,
+              scheduledAt,
+              reason: 'Moved by the candidate through their scheduling link',
+              byCandidate: true,
+            })
+            : await invokeInternal('schedule-interview', {
+              applicationId: link.application_id,
+              scheduledAt,
+              durationMinutes: link.duration_minutes,
+              interviewType: link.interview_type,
+              candidateEmail: link.applications.candidates.email,
+              candidateName: link.applications.candidates.full_name,
+              jobTitle: link.applications.jobs.title,
+              interviewers: link.interviewers,
+              meetingProvider: link.meeting_provider ?? undefined,
+              createdBy: link.created_by,
+            });
+        } catch (invokeError) {
+          await releaseClaim();
+          throw invokeError;
+        }
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.interview) {
+          await releaseClaim();
+          throw new Error(result.error || 'Could not book the interview');
+        }
+
+        await supabase
+          .from('scheduling_links')
+          .update({ interview_id: result.interview.id })
+          .eq('id', link.id);
+
+        // manage-interview records reschedules itself
+        if (!booked) {
+          await recordAudit(supabase, { type: 'candidate', id: link.applications.candidate_id }, {
+            action: 'interview.self_scheduled',
+            entityType: 'interview',
+            entityId: result.interview.id,
+            candidateId: link.applications.candidate_id,
+            metadata: { scheduling_link_id: link.id, scheduled_at: scheduledAt },
+          });
+        }
+
+        return json({
+          success: true,
+          booking: {
+            scheduledAt,
+            durationMinutes: link.duration_minutes,
+            meetingUrl: result.interview.meeting_url ?? null,
+          },
+        });
+      }
+
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+
+  } catch (error: unknown) {
+    console.error('Error in self-schedule:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
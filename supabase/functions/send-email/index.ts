@@ -1,104 +1,168 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, requireApplicationAccess, requireCandidateAccess, type AuthPolicy } from "../_shared/auth.ts";
+import { sendEmail, type DeliveryStatus } from "../_shared/email-queue.ts";
+import {
+  TemplateContextError,
+  buildTemplateContext,
+  plainTextToHtml,
+  renderTemplate,
+  validateTemplate,
+} from "../_shared/email-templates.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// HR sends directly from the dashboard; other functions go through the shared email queue, or here via invokeInternal
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'] };
+
+// Either subject + html, or templateId + applicationId to render an email_templates row server-side.
+// Staff must name the candidate (candidateId or applicationId) and can only write to that candidate's address.
 interface EmailRequest {
-  to: string;
-  subject: string;
-  html: string;
-  emailType: string;
+  to?: string;
+  subject?: string;
+  html?: string;
+  emailType?: string;
+  templateId?: string;
   candidateId?: string;
+  applicationId?: string;
+  // ISO timestamp; sends right away when omitted
+  sendAt?: string;
+  // Repeating a request with the same key does not send the email twice
+  idempotencyKey?: string;
 }
 
+const STATUS_MESSAGES: Record<DeliveryStatus, string> = {
+  sent: 'Email sent successfully',
+  pending: 'Email queued; it will be retried shortly',
+  sending: 'Email is being sent',
+  failed: 'Email could not be sent',
+  cancelled: 'Email was cancelled',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { to, subject, html, emailType, candidateId }: EmailRequest = await req.json();
+    const { auth, body } = await authorize<EmailRequest>(req, AUTH_POLICY);
+    const { applicationId, sendAt, idempotencyKey } = body;
+    let { to, subject, html, emailType, candidateId } = body;
 
-    if (!to || !subject || !html) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: to, subject, html' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The email is about this candidate; internal callers have already checked their own access
+    let candidateEmail: string | null = null;
+    if (auth.mode === 'staff') {
+      if (!candidateId && !applicationId) {
+        return json({ error: 'candidateId or applicationId is required' }, 400);
+      }
+
+      if (applicationId) {
+        await requireApplicationAccess(auth, applicationId);
+        const { data: application, error: applicationError } = await supabase
+          .from('applications')
+          .select('candidate_id')
+          .eq('id', applicationId)
+          .maybeSingle();
+        if (applicationError) throw applicationError;
+        if (!application) {
+          return json({ error: 'Application not found' }, 404);
+        }
+        if (candidateId && candidateId !== application.candidate_id) {
+          return json({ error: 'The application belongs to a different candidate' }, 400);
+        }
+        candidateId = application.candidate_id;
+      }
+
+      await requireCandidateAccess(auth, candidateId!);
+      const { data: candidate, error: candidateError } = await supabase
+        .from('candidates')
+        .select('email')
+        .eq('id', candidateId)
+        .maybeSingle();
+      if (candidateError) throw candidateError;
+      if (!candidate) {
+        return json({ error: 'Candidate not found' }, 404);
+      }
+      candidateEmail = candidate.email;
     }
 
-    console.log(`Sending ${emailType} email to ${to}`);
+    if (body.templateId) {
+      if (!applicationId) {
+        return json({ error: 'applicationId is required with templateId' }, 400);
+      }
 
-    const resendApiKey = Deno.env.get('RESEND_API_KEY');
-    
-    let emailSent = false;
-    let emailError = null;
-
-    if (resendApiKey) {
-      // Send via Resend if API key is configured
-      const resendResponse = await fetch('https://api.resend.com/emails', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${resendApiKey}`,
-        },
-        body: JSON.stringify({
-          from: 'CortexHR <noreply@cortexhr.com>',
-          to: [to],
-          subject,
-          html,
-        }),
-      });
-
-      if (resendResponse.ok) {
-        emailSent = true;
-        console.log('Email sent successfully via Resend');
-      } else {
-        const errorData = await resendResponse.text();
-        emailError = errorData;
-        console.error('Resend error:', errorData);
+      const { data: template, error: templateError } = await supabase
+        .from('email_templates')
+        .select('email_type, subject, body')
+        .eq('id', body.templateId)
+        .maybeSingle();
+      if (templateError) throw templateError;
+      if (!template) {
+        return json({ error: 'Template not found' }, 404);
       }
-    } else {
-      console.log('RESEND_API_KEY not configured, logging email instead');
-      emailError = 'Email service not configured';
+
+      const problems = [
+        ...validateTemplate(template.subject, template.email_type),
+        ...validateTemplate(template.body, template.email_type),
+      ];
+      if (problems.length > 0) {
+        return json({ error: `Template cannot be rendered: ${problems.join('; ')}` }, 400);
+      }
+
+      const context = await buildTemplateContext(supabase, applicationId);
+      to = to || String(context.candidateEmail);
+      subject = renderTemplate(template.subject, context);
+      html = plainTextToHtml(renderTemplate(template.body, context));
+      emailType = emailType || template.email_type;
     }
 
-    // Log the email attempt in the database
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    if (!to || !subject || !html) {
+      return json({ error: 'Missing required fields: to, subject, html' }, 400);
+    }
 
-    const { error: logError } = await supabase
-      .from('email_logs')
-      .insert({
-        recipient_email: to,
-        subject,
-        email_type: emailType,
-        status: emailSent ? 'sent' : 'failed',
-        candidate_id: candidateId || null,
-      });
-
-    if (logError) {
-      console.error('Error logging email:', logError);
+    if (candidateEmail !== null && to.trim().toLowerCase() !== candidateEmail.toLowerCase()) {
+      throw new AccessError("Emails can only go to the candidate's own address", 403);
     }
 
-    return new Response(
-      JSON.stringify({ 
-        success: emailSent,
-        message: emailSent ? 'Email sent successfully' : 'Email logged (service not configured)',
-        logged: !logError,
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    console.log(`Sending ${emailType} email to ${to}`);
+
+    const result = await sendEmail(supabase, {
+      to,
+      subject,
+      html,
+      emailType: emailType || 'manual',
+      candidateId,
+      applicationId,
+      sendAt,
+      idempotencyKey,
+      createdBy: auth.mode === 'staff' ? auth.user.id : null,
+    });
 
+    // A failed send is an error for the caller; queued (pending) emails still succeed
+    return json({
+      success: result.status === 'sent',
+      emailId: result.emailId,
+      status: result.status,
+      message: STATUS_MESSAGES[result.status],
+      error: result.status === 'failed' ? result.error || STATUS_MESSAGES.failed : result.error,
+    }, result.status === 'failed' ? 502 : 200);
   } catch (error: unknown) {
     console.error('Error in send-email function:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    const status = error instanceof AccessError || error instanceof BadRequestError ? error.status : error instanceof TemplateContextError ? 404 : 500;
+    return json({ error: message }, status);
   }
 });
@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, type AuthPolicy } from "../_shared/auth.ts";
+import { recordAudit } from "../_shared/audit.ts";
+import { claimEmails, deliverClaimedEmail } from "../_shared/email-queue.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Runs every few minutes from the send-scheduled-emails cron job
+const AUTH_POLICY: AuthPolicy = { modes: ['internal'] };
+
+// Enough for a bulk rejection; anything left over goes out on the next run, a few minutes later
+const BATCH_SIZE = 50;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    await authorize(req, AUTH_POLICY);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Due emails, retries whose backoff has passed, and claims abandoned mid-send. A row cancelled
+    // in the meantime is no longer pending and is not claimed.
+    const claimed = await claimEmails(supabase, null, BATCH_SIZE);
+    if (!claimed.length) {
+      return json({ success: true, due: 0, sent: 0, retrying: 0, failures: [] });
+    }
+
+    let sent = 0;
+    let retrying = 0;
+    const failures: { id: string; error: string }[] = [];
+
+    for (const email of claimed) {
+      const result = await deliverClaimedEmail(supabase, email);
+
+      if (result.status === 'pending') {
+        retrying++;
+        continue;
+      }
+      if (result.status !== 'sent') {
+        failures.push({ id: email.id, error: result.error ?? 'Unknown error' });
+        continue;
+      }
+
+      sent++;
+      await recordAudit(supabase, { type: 'system' }, {
+        action: 'email.sent',
+        entityType: 'email',
+        entityId: email.id,
+        candidateId: email.candidate_id,
+        metadata: { emailType: email.email_type, subject: email.subject, applicationId: email.application_id },
+      });
+    }
+
+    console.log(`Sent ${sent} of ${claimed.length} queued emails, ${retrying} to retry`);
+    return json({ success: true, due: claimed.length, sent, retrying, failures });
+  } catch (error: unknown) {
+    console.error('Error in send-scheduled-emails:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, error instanceof AccessError || error instanceof BadRequestError ? error.status : 500);
+  }
+});
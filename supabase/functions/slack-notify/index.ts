@@ -1,11 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AccessError, BadRequestError, authorize, type AuthPolicy } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AUTH_POLICY: AuthPolicy = { modes: ['staff', 'internal'] };
+
 interface SlackMessage {
   type: 'new_application' | 'interview_scheduled' | 'candidate_status' | 'custom';
   candidateName?: string;
@@ -21,6 +24,8 @@ serve(async (req) => {
   }
 
   try {
+    const { body: payload } = await authorize<SlackMessage>(req, AUTH_POLICY);
+
     const webhookUrl = Deno.env.get('SLACK_WEBHOOK_URL');
     
     if (!webhookUrl) {
@@ -31,7 +36,6 @@ serve(async (req) => {
       );
     }
 
-    const payload: SlackMessage = await req.json();
     console.log('Sending Slack notification:', payload.type);
 
     let slackMessage: Record<string, unknown>;
@@ -207,7 +211,7 @@ serve(async (req) => {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof AccessError || error instanceof BadRequestError ? error.status : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
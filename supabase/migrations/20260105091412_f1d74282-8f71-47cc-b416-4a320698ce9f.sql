@@ -0,0 +1,50 @@
+-- Job requisition lifecycle: draft -> open -> on_hold -> closed
+CREATE TYPE public.job_status AS ENUM ('draft', 'open', 'on_hold', 'closed');
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS status job_status NOT NULL DEFAULT 'draft',
+ADD COLUMN IF NOT EXISTS headcount INTEGER NOT NULL DEFAULT 1 CHECK (headcount >= 1),
+ADD COLUMN IF NOT EXISTS opened_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS assigned_hr_id UUID REFERENCES auth.users(id);
+
+-- Backfill existing postings from the old is_active flag
+UPDATE public.jobs
+SET status = CASE WHEN is_active THEN 'open'::job_status ELSE 'closed'::job_status END,
+    opened_at = CASE WHEN is_active THEN created_at ELSE NULL END,
+    closed_at = CASE WHEN is_active THEN NULL ELSE updated_at END;
+
+-- Keep is_active (read by the public careers pages and RLS) in sync with status
+CREATE OR REPLACE FUNCTION public.sync_job_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_active := NEW.status = 'open';
+
+  IF NEW.status = 'open' AND (TG_OP = 'INSERT' OR OLD.status <> 'open') THEN
+    NEW.opened_at := COALESCE(NEW.opened_at, now());
+    NEW.closed_at := NULL;
+  END IF;
+
+  IF NEW.status = 'closed' AND (TG_OP = 'INSERT' OR OLD.status <> 'closed') THEN
+    NEW.closed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_job_status_before_write
+BEFORE INSERT OR UPDATE ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_job_status();
+
+-- Hiring manager lookups
+CREATE INDEX IF NOT EXISTS idx_jobs_assigned_hr_id ON public.jobs(assigned_hr_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON public.jobs(status);
+
+-- HR managers assign hiring managers, so they see which accounts hold a staff role (admins already can)
+CREATE POLICY "HR managers can view roles" ON public.user_roles
+  FOR SELECT USING (public.has_role(auth.uid(), 'hr_manager'));
@@ -0,0 +1,83 @@
+-- Aptitude question bank and answers (already present on hosted projects)
+CREATE TABLE IF NOT EXISTS public.aptitude_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_text TEXT NOT NULL,
+  option_a TEXT NOT NULL,
+  option_b TEXT NOT NULL,
+  option_c TEXT NOT NULL,
+  option_d TEXT NOT NULL,
+  correct_option TEXT NOT NULL CHECK (correct_option IN ('A', 'B', 'C', 'D')),
+  category TEXT NOT NULL DEFAULT 'general',
+  difficulty TEXT NOT NULL DEFAULT 'medium',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.aptitude_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.aptitude_questions(id) ON DELETE SET NULL,
+  selected_option TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Retiring a question from the bank must not erase the answers candidates were graded on. Hosted
+-- projects created the table with ON DELETE CASCADE, so the key is replaced there too.
+ALTER TABLE public.aptitude_answers
+  ALTER COLUMN question_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS aptitude_answers_question_id_fkey,
+  ADD CONSTRAINT aptitude_answers_question_id_fkey
+    FOREIGN KEY (question_id) REFERENCES public.aptitude_questions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.applications
+ADD COLUMN IF NOT EXISTS aptitude_score INTEGER CHECK (aptitude_score >= 0 AND aptitude_score <= 100),
+ADD COLUMN IF NOT EXISTS aptitude_completed BOOLEAN DEFAULT false;
+
+-- One test sitting per tokenized link
+CREATE TABLE public.aptitude_test_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(32), 'hex'),
+  question_count INTEGER NOT NULL DEFAULT 10 CHECK (question_count > 0),
+  time_limit_minutes INTEGER NOT NULL DEFAULT 20 CHECK (time_limit_minutes > 0),
+  question_ids UUID[],
+  started_at TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ,
+  score INTEGER,
+  link_expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '7 days',
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_aptitude_test_sessions_application_id ON public.aptitude_test_sessions(application_id);
+CREATE INDEX IF NOT EXISTS idx_aptitude_answers_application_id ON public.aptitude_answers(application_id);
+
+-- Enable RLS
+ALTER TABLE public.aptitude_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.aptitude_answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.aptitude_test_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Candidates never read these tables directly; the aptitude-test function
+-- serves questions without correct_option and grades server-side.
+CREATE POLICY "HR staff can manage aptitude questions"
+ON public.aptitude_questions
+FOR ALL
+USING (is_hr_staff(auth.uid()));
+
+CREATE POLICY "HR staff can view aptitude answers"
+ON public.aptitude_answers
+FOR SELECT
+USING (is_hr_staff(auth.uid()));
+
+CREATE POLICY "HR staff can manage aptitude test sessions"
+ON public.aptitude_test_sessions
+FOR ALL
+USING (is_hr_staff(auth.uid()));
+
+DROP TRIGGER IF EXISTS update_aptitude_questions_updated_at ON public.aptitude_questions;
+CREATE TRIGGER update_aptitude_questions_updated_at
+BEFORE UPDATE ON public.aptitude_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
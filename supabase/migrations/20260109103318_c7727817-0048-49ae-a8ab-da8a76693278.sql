@@ -0,0 +1,4 @@
+-- Per-job work-in-progress limits for the pipeline board, keyed by application_status
+-- e.g. {"screening": 20, "interview": 8, "offer": 3}; a missing key means no limit
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS wip_limits JSONB NOT NULL DEFAULT '{}'::jsonb;
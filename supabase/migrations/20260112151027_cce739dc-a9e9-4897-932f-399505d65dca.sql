@@ -0,0 +1,103 @@
+-- Structured interview feedback: configurable competencies and per-interviewer scorecards
+CREATE TABLE public.scorecard_competencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Optional ai_skills.score_breakdown key this competency is compared against
+  ai_breakdown_key TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.interview_scorecards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID NOT NULL REFERENCES public.interviews(id) ON DELETE CASCADE,
+  interviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- { "<competency id>": 1..5 }
+  ratings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  recommendation TEXT CHECK (recommendation IN ('strong_no_hire', 'no_hire', 'hire', 'strong_hire')),
+  comments TEXT,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (interview_id, interviewer_id),
+  CONSTRAINT submitted_scorecard_has_recommendation CHECK (submitted_at IS NULL OR recommendation IS NOT NULL)
+);
+
+CREATE INDEX idx_interview_scorecards_interview_id ON public.interview_scorecards(interview_id);
+
+INSERT INTO public.scorecard_competencies (name, description, ai_breakdown_key, sort_order) VALUES
+  ('Technical Skills', 'Depth and accuracy in the core skills for the role', 'technical_skills', 1),
+  ('Experience', 'Relevance and quality of past work', 'experience_quality', 2),
+  ('Problem Solving', 'Structures ambiguous problems and reasons clearly', NULL, 3),
+  ('Communication', 'Explains ideas clearly and listens well', 'communication_presentation', 4),
+  ('Culture Add', 'Values, collaboration and ownership', 'cultural_fit', 5);
+
+-- True while the user has an unsubmitted scorecard on the interview; used to keep
+-- other interviewers' feedback hidden until they have committed their own
+CREATE OR REPLACE FUNCTION public.has_pending_scorecard(_interview_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.interview_scorecards
+    WHERE interview_id = _interview_id
+      AND interviewer_id = _user_id
+      AND submitted_at IS NULL
+  )
+$$;
+
+ALTER TABLE public.scorecard_competencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interview_scorecards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "HR staff can manage scorecard competencies"
+ON public.scorecard_competencies
+FOR ALL
+USING (is_hr_staff(auth.uid()));
+
+CREATE POLICY "Interviewers can view own scorecards"
+ON public.interview_scorecards
+FOR SELECT
+USING (interviewer_id = auth.uid());
+
+CREATE POLICY "HR staff can view submitted scorecards once their own is in"
+ON public.interview_scorecards
+FOR SELECT
+USING (
+  is_hr_staff(auth.uid())
+  AND submitted_at IS NOT NULL
+  AND NOT public.has_pending_scorecard(interview_id, auth.uid())
+);
+
+CREATE POLICY "HR staff can create own scorecards"
+ON public.interview_scorecards
+FOR INSERT
+WITH CHECK (interviewer_id = auth.uid() AND is_hr_staff(auth.uid()));
+
+-- Submitted scorecards are locked
+CREATE POLICY "Interviewers can update own draft scorecards"
+ON public.interview_scorecards
+FOR UPDATE
+USING (interviewer_id = auth.uid() AND submitted_at IS NULL)
+WITH CHECK (interviewer_id = auth.uid());
+
+CREATE POLICY "Interviewers can delete own draft scorecards"
+ON public.interview_scorecards
+FOR DELETE
+USING (interviewer_id = auth.uid() AND submitted_at IS NULL);
+
+CREATE TRIGGER update_scorecard_competencies_updated_at
+BEFORE UPDATE ON public.scorecard_competencies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_interview_scorecards_updated_at
+BEFORE UPDATE ON public.interview_scorecards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
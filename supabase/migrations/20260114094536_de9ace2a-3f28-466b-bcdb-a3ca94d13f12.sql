@@ -0,0 +1,10 @@
+-- Candidates can withdraw an application from the self-service status portal
+ALTER TYPE public.application_status ADD VALUE IF NOT EXISTS 'withdrawn';
+
+ALTER TABLE public.applications
+ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMPTZ;
+
+-- Every candidate needs a portal token; older rows may predate the default
+UPDATE public.candidates
+SET access_token = encode(gen_random_bytes(32), 'hex')
+WHERE access_token IS NULL;
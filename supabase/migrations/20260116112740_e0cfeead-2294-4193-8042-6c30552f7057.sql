@@ -0,0 +1,36 @@
+-- Candidate responses to offer letters: typed-name e-signature on accept, reason on decline
+ALTER TABLE public.offer_letters
+ADD COLUMN IF NOT EXISTS responded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS signature_name TEXT,
+ADD COLUMN IF NOT EXISTS signature_ip TEXT,
+ADD COLUMN IF NOT EXISTS signature_user_agent TEXT,
+ADD COLUMN IF NOT EXISTS decline_reason TEXT;
+
+-- Offers nobody answered by their expiry date lapse automatically
+CREATE OR REPLACE FUNCTION public.expire_overdue_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.offer_letters
+  SET status = 'expired'
+  WHERE status = 'sent'
+    AND offer_expiry_date IS NOT NULL
+    AND offer_expiry_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-overdue-offers',
+  '5 0 * * *',
+  $$SELECT public.expire_overdue_offers()$$
+);
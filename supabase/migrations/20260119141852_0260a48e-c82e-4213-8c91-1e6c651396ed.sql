@@ -0,0 +1,125 @@
+-- Immutable snapshots of offer letter content; a new version is recorded whenever the terms change
+CREATE TABLE public.offer_letter_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_letter_id UUID NOT NULL REFERENCES public.offer_letters(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Set once when the version is rendered and emailed to the candidate
+  pdf_path TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (offer_letter_id, version_number)
+);
+
+CREATE INDEX idx_offer_letter_versions_offer ON public.offer_letter_versions(offer_letter_id, version_number DESC);
+
+ALTER TABLE public.offer_letter_versions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for HR; rows are written by the trigger below and the send-offer-letter function
+CREATE POLICY "HR staff can view offer letter versions"
+ON public.offer_letter_versions
+FOR SELECT
+USING (is_hr_staff(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.offer_letter_content(_offer public.offer_letters)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'position_title', _offer.position_title,
+    'department', _offer.department,
+    'employment_type', _offer.employment_type,
+    'work_location', _offer.work_location,
+    'remote_policy', _offer.remote_policy,
+    'reporting_manager', _offer.reporting_manager,
+    'proposed_start_date', _offer.proposed_start_date,
+    'offer_expiry_date', _offer.offer_expiry_date,
+    'salary_amount', _offer.salary_amount,
+    'salary_currency', _offer.salary_currency,
+    'salary_frequency', _offer.salary_frequency,
+    'bonus_structure', _offer.bonus_structure,
+    'equity_details', _offer.equity_details,
+    'benefits_package', _offer.benefits_package,
+    'vacation_days', _offer.vacation_days,
+    'sick_leave_days', _offer.sick_leave_days,
+    'probation_period_months', _offer.probation_period_months,
+    'notice_period_days', _offer.notice_period_days,
+    'additional_notes', _offer.additional_notes
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_offer_letter_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_content JSONB := public.offer_letter_content(NEW);
+  latest RECORD;
+BEGIN
+  SELECT version_number, content INTO latest
+  FROM public.offer_letter_versions
+  WHERE offer_letter_id = NEW.id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  -- Status and bookkeeping updates do not produce a new version
+  IF latest.content IS NOT NULL AND latest.content = new_content THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.offer_letter_versions (offer_letter_id, version_number, content, created_by)
+  VALUES (NEW.id, COALESCE(latest.version_number, 0) + 1, new_content, COALESCE(auth.uid(), NEW.created_by));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_offer_letter_version
+AFTER INSERT OR UPDATE ON public.offer_letters
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_offer_letter_version();
+
+-- Versions never change after the fact; only the send metadata may be filled in, once
+CREATE OR REPLACE FUNCTION public.prevent_offer_letter_version_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.offer_letter_id IS DISTINCT FROM OLD.offer_letter_id
+    OR NEW.version_number IS DISTINCT FROM OLD.version_number
+    OR NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (OLD.pdf_path IS NOT NULL AND NEW.pdf_path IS DISTINCT FROM OLD.pdf_path)
+    OR (OLD.sent_at IS NOT NULL AND NEW.sent_at IS DISTINCT FROM OLD.sent_at)
+  THEN
+    RAISE EXCEPTION 'Offer letter versions are immutable';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_offer_letter_version_changes
+BEFORE UPDATE ON public.offer_letter_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_offer_letter_version_changes();
+
+-- Existing offers start their history at version 1
+INSERT INTO public.offer_letter_versions (offer_letter_id, version_number, content, created_by, created_at, sent_at)
+SELECT o.id, 1, public.offer_letter_content(o), o.created_by, o.updated_at, o.sent_at
+FROM public.offer_letters o;
+
+-- Rendered offer letter PDFs, one file per sent version
+INSERT INTO storage.buckets (id, name, public) VALUES ('offer-letters', 'offer-letters', false);
+
+CREATE POLICY "HR staff can read offer letter PDFs"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'offer-letters' AND is_hr_staff(auth.uid()));
@@ -0,0 +1,16 @@
+-- Explicit outcome of the AI resume analysis, so a failed run is never mistaken for a score
+ALTER TABLE public.applications
+ADD COLUMN IF NOT EXISTS ai_analysis_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (ai_analysis_status IN ('pending', 'completed', 'analysis_failed')),
+ADD COLUMN IF NOT EXISTS ai_analysis_error TEXT;
+
+UPDATE public.applications
+SET ai_analysis_status = 'completed'
+WHERE ai_score IS NOT NULL;
+
+-- Analyses written by the old parse fallback carry a made-up score of 55; clear them
+UPDATE public.applications
+SET ai_score = NULL,
+    ai_analysis_status = 'analysis_failed',
+    ai_analysis_error = 'AI output could not be parsed'
+WHERE ai_summary LIKE 'Resume parsing encountered issues%';
@@ -0,0 +1,6 @@
+-- Per-job scoring rubric for AI resume analysis; NULL means the default rubric
+-- e.g. {"dimensions": [{"key": "quota_attainment", "label": "Quota Attainment", "weight": 40, "description": "..."}],
+--       "knockouts": ["Right to work in the UK"], "notes": "..."}; dimension weights add up to 100
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS scoring_rubric JSONB
+  CHECK (scoring_rubric IS NULL OR jsonb_typeof(scoring_rubric->'dimensions') = 'array');
@@ -0,0 +1,332 @@
+-- Role-based access control. Until now every role behaved like full HR staff:
+--   admin       everything, plus managing users, roles and integrations
+--   hr_manager  every job and candidate; the only role (with admin) that approves and sends offers
+--   recruiter   only jobs where they are assigned_hr_id, and the pipeline beneath them
+
+-- Everyone who signed up so far had full access as a recruiter. Keep that access by making them
+-- HR managers, and make the earliest account an admin so someone can manage users.
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'hr_manager'::app_role
+FROM public.user_roles
+WHERE role = 'recruiter'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+DELETE FROM public.user_roles
+WHERE role = 'recruiter'
+  AND user_id IN (SELECT user_id FROM public.user_roles WHERE role = 'hr_manager');
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT p.id, 'admin'::app_role
+FROM public.profiles p
+WHERE NOT EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'admin')
+  AND EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = p.id)
+ORDER BY p.created_at
+LIMIT 1;
+
+CREATE OR REPLACE FUNCTION public.has_full_access(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role IN ('admin', 'hr_manager')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_job(_user_id UUID, _job_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_full_access(_user_id)
+    OR (
+      public.has_role(_user_id, 'recruiter')
+      AND EXISTS (SELECT 1 FROM public.jobs WHERE id = _job_id AND assigned_hr_id = _user_id)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_application(_user_id UUID, _application_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_full_access(_user_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.applications a
+      WHERE a.id = _application_id
+        AND public.can_access_job(_user_id, a.job_id)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_candidate(_user_id UUID, _candidate_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_full_access(_user_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.applications a
+      WHERE a.candidate_id = _candidate_id
+        AND public.can_access_job(_user_id, a.job_id)
+    )
+$$;
+
+-- Jobs. Open jobs stay publicly readable for the careers page; recruiters can edit the jobs
+-- assigned to them but not create, delete or reassign them.
+DROP POLICY IF EXISTS "HR staff can view all jobs" ON public.jobs;
+DROP POLICY IF EXISTS "HR staff can manage jobs" ON public.jobs;
+
+CREATE POLICY "Staff can view accessible jobs" ON public.jobs
+  FOR SELECT USING (public.can_access_job(auth.uid(), id));
+
+CREATE POLICY "HR managers can manage jobs" ON public.jobs
+  FOR ALL USING (public.has_full_access(auth.uid()));
+
+CREATE POLICY "Recruiters can update assigned jobs" ON public.jobs
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'recruiter') AND assigned_hr_id = auth.uid())
+  WITH CHECK (assigned_hr_id = auth.uid());
+
+-- Candidates. Anyone may still insert (the careers form), but nobody outside staff may read them:
+-- the old public SELECT policies exposed every candidate and their portal access token. The careers
+-- form checks for an existing email through candidate_email_exists instead.
+DROP POLICY IF EXISTS "HR staff can view candidates" ON public.candidates;
+DROP POLICY IF EXISTS "HR staff can manage candidates" ON public.candidates;
+DROP POLICY IF EXISTS "Public can check own email" ON public.candidates;
+DROP POLICY IF EXISTS "Candidates can view own data via token" ON public.candidates;
+
+CREATE POLICY "Staff can manage accessible candidates" ON public.candidates
+  FOR ALL USING (public.can_access_candidate(auth.uid(), id));
+
+CREATE OR REPLACE FUNCTION public.candidate_email_exists(_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.candidates WHERE email = _email)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.candidate_email_exists(TEXT) TO anon, authenticated;
+
+-- Applications
+DROP POLICY IF EXISTS "HR staff can view applications" ON public.applications;
+DROP POLICY IF EXISTS "HR staff can manage applications" ON public.applications;
+
+CREATE POLICY "Staff can manage accessible applications" ON public.applications
+  FOR ALL
+  USING (public.can_access_job(auth.uid(), job_id))
+  WITH CHECK (public.can_access_job(auth.uid(), job_id));
+
+-- Interviews
+DROP POLICY IF EXISTS "HR staff can view interviews" ON public.interviews;
+DROP POLICY IF EXISTS "HR staff can manage interviews" ON public.interviews;
+
+CREATE POLICY "Staff can manage accessible interviews" ON public.interviews
+  FOR ALL
+  USING (public.can_access_application(auth.uid(), application_id))
+  WITH CHECK (public.can_access_application(auth.uid(), application_id));
+
+-- Scorecards: interviewers keep their own; everyone else's only for interviews they can access
+DROP POLICY IF EXISTS "HR staff can view submitted scorecards once their own is in" ON public.interview_scorecards;
+
+CREATE POLICY "HR staff can view submitted scorecards once their own is in"
+ON public.interview_scorecards
+FOR SELECT
+USING (
+  is_hr_staff(auth.uid())
+  AND submitted_at IS NOT NULL
+  AND NOT public.has_pending_scorecard(interview_id, auth.uid())
+  AND EXISTS (
+    SELECT 1
+    FROM public.interviews i
+    WHERE i.id = interview_id
+      AND public.can_access_application(auth.uid(), i.application_id)
+  )
+);
+
+-- Aptitude tests
+DROP POLICY IF EXISTS "HR staff can view aptitude answers" ON public.aptitude_answers;
+DROP POLICY IF EXISTS "HR staff can manage aptitude test sessions" ON public.aptitude_test_sessions;
+
+CREATE POLICY "Staff can view accessible aptitude answers"
+ON public.aptitude_answers
+FOR SELECT
+USING (public.can_access_application(auth.uid(), application_id));
+
+CREATE POLICY "Staff can manage accessible aptitude test sessions"
+ON public.aptitude_test_sessions
+FOR ALL
+USING (public.can_access_application(auth.uid(), application_id))
+WITH CHECK (public.can_access_application(auth.uid(), application_id));
+
+-- Offer letters
+DROP POLICY IF EXISTS "HR staff can manage offer letters" ON public.offer_letters;
+DROP POLICY IF EXISTS "HR staff can view offer letters" ON public.offer_letters;
+DROP POLICY IF EXISTS "HR staff can view offer letter versions" ON public.offer_letter_versions;
+DROP POLICY IF EXISTS "HR staff can read offer letter PDFs" ON storage.objects;
+
+CREATE POLICY "Staff can manage accessible offer letters"
+ON public.offer_letters
+FOR ALL
+USING (public.can_access_application(auth.uid(), application_id))
+WITH CHECK (public.can_access_application(auth.uid(), application_id));
+
+CREATE POLICY "Staff can view accessible offer letter versions"
+ON public.offer_letter_versions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.offer_letters o
+    WHERE o.id = offer_letter_id
+      AND public.can_access_application(auth.uid(), o.application_id)
+  )
+);
+
+CREATE POLICY "Staff can read accessible offer letter PDFs"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'offer-letters'
+  AND EXISTS (
+    SELECT 1
+    FROM public.offer_letters o
+    WHERE o.id::text = (storage.foldername(name))[1]
+      AND public.can_access_application(auth.uid(), o.application_id)
+  )
+);
+
+-- Offer approval. Recruiters draft offers; only HR managers and admins approve or send them.
+ALTER TABLE public.offer_letters
+  ADD COLUMN approved_by UUID REFERENCES auth.users(id),
+  ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.enforce_offer_letter_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Edge functions run as the service role (no auth.uid()) and check roles themselves
+  IF auth.uid() IS NOT NULL
+    AND NOT public.has_full_access(auth.uid())
+    AND NEW.status IN ('approved', 'sending', 'sent')
+    AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status)
+  THEN
+    RAISE EXCEPTION 'Only HR managers can approve or send offer letters'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Changing the terms of an approved offer needs a fresh approval
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'approved'
+    AND NEW.status = 'approved'
+    AND public.offer_letter_content(NEW) IS DISTINCT FROM public.offer_letter_content(OLD)
+  THEN
+    NEW.status := 'draft';
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+  ELSIF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'approved') THEN
+    NEW.approved_by := COALESCE(auth.uid(), NEW.approved_by);
+    NEW.approved_at := COALESCE(NEW.approved_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_offer_letter_approval
+BEFORE INSERT OR UPDATE ON public.offer_letters
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_offer_letter_approval();
+
+-- New accounts start without a role. Only admins grant access, through manage-users, which also
+-- sets the role of the accounts it invites; self-signups wait until an admin gives them one.
+DROP TRIGGER IF EXISTS on_auth_user_created_assign_role ON auth.users;
+DROP FUNCTION IF EXISTS public.handle_new_user_role();
+
+-- Email logs. Emails not tied to a candidate are only for full-access roles.
+DROP POLICY IF EXISTS "HR staff can view email logs" ON public.email_logs;
+DROP POLICY IF EXISTS "HR staff can create email logs" ON public.email_logs;
+
+CREATE POLICY "Staff can view email logs of accessible candidates" ON public.email_logs
+  FOR SELECT
+  USING (
+    CASE WHEN candidate_id IS NULL
+      THEN public.has_full_access(auth.uid())
+      ELSE public.can_access_candidate(auth.uid(), candidate_id)
+    END
+  );
+
+CREATE POLICY "Staff can create email logs for accessible candidates" ON public.email_logs
+  FOR INSERT
+  WITH CHECK (
+    CASE WHEN candidate_id IS NULL
+      THEN public.has_full_access(auth.uid())
+      ELSE public.can_access_candidate(auth.uid(), candidate_id)
+    END
+  );
+
+-- Resumes. Files live in the candidate's folder, or for older applications at the path in resume_url.
+-- Applicants still upload anonymously; reading, replacing and deleting files is for staff who can
+-- access the candidate (edge functions use the service role).
+DROP POLICY IF EXISTS "HR staff can view resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public resume reads" ON storage.objects;
+DROP POLICY IF EXISTS "Public can view resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Allow resume updates" ON storage.objects;
+DROP POLICY IF EXISTS "Allow resume deletes for authenticated users" ON storage.objects;
+
+CREATE OR REPLACE FUNCTION public.can_access_resume(_user_id UUID, _path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.candidates c
+    WHERE (c.id::text = split_part(_path, '/', 1) OR c.resume_url = _path)
+      AND public.can_access_candidate(_user_id, c.id)
+  )
+$$;
+
+CREATE POLICY "Staff can view resumes of accessible candidates"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'resumes' AND public.can_access_resume(auth.uid(), name));
+
+CREATE POLICY "Staff can delete resumes of accessible candidates"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'resumes' AND public.can_access_resume(auth.uid(), name));
+
+-- Aptitude question bank. It holds the answer key (correct_option), so only full-access roles read
+-- or edit it; recruiters send tests and see their candidates' results, which the aptitude-test
+-- function grades server-side.
+DROP POLICY IF EXISTS "HR staff can manage aptitude questions" ON public.aptitude_questions;
+
+CREATE POLICY "HR managers can manage aptitude questions"
+ON public.aptitude_questions
+FOR ALL
+USING (public.has_full_access(auth.uid()))
+WITH CHECK (public.has_full_access(auth.uid()));
@@ -0,0 +1,151 @@
+-- Append-only audit trail. Row changes are recorded by the triggers below; edge functions add
+-- entries for actions that happen outside a staff session (offer sent, candidate responses, role changes).
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- NULL for system activity; no foreign key so entries outlive deleted users
+  actor_id UUID,
+  actor_type TEXT NOT NULL DEFAULT 'user' CHECK (actor_type IN ('user', 'candidate', 'system')),
+  -- '<entity>.created' / '.updated' / '.deleted' from triggers, or a specific event such as 'offer.sent'
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  -- Set whenever the entry concerns a candidate so it can appear on their activity timeline
+  candidate_id UUID,
+  -- { column: { "old": ..., "new": ... } }
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX idx_audit_log_occurred_at ON public.audit_log(occurred_at DESC);
+CREATE INDEX idx_audit_log_entity ON public.audit_log(entity_type, entity_id, occurred_at DESC);
+CREATE INDEX idx_audit_log_candidate ON public.audit_log(candidate_id, occurred_at DESC) WHERE candidate_id IS NOT NULL;
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id, occurred_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Admins see everything; other staff see the history of candidates they can access.
+-- There are no write policies: entries come from SECURITY DEFINER triggers and the service role.
+CREATE POLICY "Admins can view the audit log"
+ON public.audit_log
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can view activity of accessible candidates"
+ON public.audit_log
+FOR SELECT
+USING (candidate_id IS NOT NULL AND can_access_candidate(auth.uid(), candidate_id));
+
+-- Not even the service role may rewrite history
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_changes
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Column-level diff of two row images. Bookkeeping columns are skipped; bulky or secret columns
+-- are recorded as changed without their contents.
+CREATE OR REPLACE FUNCTION public.audit_diff(_old JSONB, _new JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(
+    key,
+    CASE
+      WHEN key IN ('access_token', 'resume_text', 'parsed_resume', 'portfolio_analysis', 'ai_skills', 'signature_user_agent')
+        THEN jsonb_build_object('old', CASE WHEN _old ? key THEN '"[redacted]"'::jsonb END, 'new', CASE WHEN _new ? key THEN '"[redacted]"'::jsonb END)
+      ELSE jsonb_build_object('old', _old -> key, 'new', _new -> key)
+    END
+  ), '{}'::jsonb)
+  FROM (
+    SELECT key FROM jsonb_object_keys(COALESCE(_old, '{}'::jsonb)) AS key
+    UNION
+    SELECT key FROM jsonb_object_keys(COALESCE(_new, '{}'::jsonb)) AS key
+  ) keys
+  WHERE key NOT IN ('id', 'created_at', 'updated_at')
+    AND (_old -> key) IS DISTINCT FROM (_new -> key)
+    -- Empty columns of a created or deleted row are noise
+    AND (COALESCE(_old -> key, 'null'::jsonb) <> 'null'::jsonb OR COALESCE(_new -> key, 'null'::jsonb) <> 'null'::jsonb)
+$$;
+
+-- TG_ARGV[0] is the entity name used in actions ('application' -> 'application.updated')
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity TEXT := TG_ARGV[0];
+  _old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  _row JSONB := COALESCE(_new, _old);
+  _changes JSONB := public.audit_diff(_old, _new);
+  _candidate_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND _changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  _candidate_id := CASE
+    WHEN TG_TABLE_NAME = 'candidates' THEN (_row ->> 'id')::uuid
+    WHEN _row ? 'candidate_id' THEN (_row ->> 'candidate_id')::uuid
+    WHEN _row ? 'application_id' THEN (
+      SELECT a.candidate_id FROM public.applications a WHERE a.id = (_row ->> 'application_id')::uuid
+    )
+  END;
+
+  INSERT INTO public.audit_log (actor_id, actor_type, action, entity_type, entity_id, candidate_id, changes)
+  VALUES (
+    auth.uid(),
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END,
+    _entity || '.' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    _entity,
+    (_row ->> 'id')::uuid,
+    _candidate_id,
+    _changes
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_candidates
+AFTER INSERT OR UPDATE OR DELETE ON public.candidates
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('candidate');
+
+CREATE TRIGGER audit_applications
+AFTER INSERT OR UPDATE OR DELETE ON public.applications
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('application');
+
+CREATE TRIGGER audit_interviews
+AFTER INSERT OR UPDATE OR DELETE ON public.interviews
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('interview');
+
+CREATE TRIGGER audit_offer_letters
+AFTER INSERT OR UPDATE OR DELETE ON public.offer_letters
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('offer');
+
+CREATE TRIGGER audit_jobs
+AFTER INSERT OR UPDATE OR DELETE ON public.jobs
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('job');
+
+CREATE TRIGGER audit_email_templates
+AFTER INSERT OR UPDATE OR DELETE ON public.email_templates
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('email_template');
@@ -0,0 +1,348 @@
+-- Duplicate candidate detection and merging. Every intake path (careers page, candidate portal, Gmail
+-- polling, the email webhook) creates candidates keyed by email alone, so the same person applying from
+-- two addresses becomes two rows. A trigger scores each new or changed candidate against the others
+-- and files likely pairs for review; merge_candidates folds one into the other.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Last ten digits, so country codes and formatting don't matter
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN length(regexp_replace(COALESCE(_phone, ''), '\D', '', 'g')) >= 7
+      THEN right(regexp_replace(_phone, '\D', '', 'g'), 10)
+  END
+$$;
+
+-- 'https://www.LinkedIn.com/in/jane/?trk=x' -> 'linkedin.com/in/jane'
+CREATE OR REPLACE FUNCTION public.normalize_profile_url(_url TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(
+    rtrim(split_part(split_part(regexp_replace(lower(trim(COALESCE(_url, ''))), '^(https?://)?(www\.)?', ''), '?', 1), '#', 1), '/'),
+    ''
+  )
+$$;
+
+CREATE INDEX idx_candidates_full_name_trgm ON public.candidates USING gin (lower(full_name) extensions.gin_trgm_ops);
+CREATE INDEX idx_candidates_email_lower ON public.candidates (lower(email));
+CREATE INDEX idx_candidates_phone_normalized ON public.candidates (public.normalize_phone(phone));
+CREATE INDEX idx_candidates_linkedin_normalized ON public.candidates (public.normalize_profile_url(linkedin_url));
+CREATE INDEX idx_candidates_github_normalized ON public.candidates (public.normalize_profile_url(github_url));
+
+-- One row per suspected pair, stored with the lower id first so a pair is only filed once
+CREATE TABLE public.candidate_duplicates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_a_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  candidate_b_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  -- 0-1; see candidate_duplicate_matches for the weights
+  score NUMERIC(4, 3) NOT NULL,
+  -- Signals that matched: email, phone, linkedin, github, name, resume
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  -- Merged pairs disappear with the merged candidate; dismissed ones stay so they are not re-filed
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (candidate_a_id < candidate_b_id),
+  UNIQUE (candidate_a_id, candidate_b_id)
+);
+
+CREATE INDEX idx_candidate_duplicates_b ON public.candidate_duplicates(candidate_b_id);
+CREATE INDEX idx_candidate_duplicates_pending ON public.candidate_duplicates(score DESC) WHERE status = 'pending';
+
+ALTER TABLE public.candidate_duplicates ENABLE ROW LEVEL SECURITY;
+
+-- Staff review pairs where they can see both candidates; merging goes through the candidate-duplicates function
+CREATE POLICY "Staff can view accessible candidate duplicates"
+ON public.candidate_duplicates
+FOR SELECT
+USING (
+  public.can_access_candidate(auth.uid(), candidate_a_id)
+  AND public.can_access_candidate(auth.uid(), candidate_b_id)
+);
+
+CREATE POLICY "Staff can dismiss accessible candidate duplicates"
+ON public.candidate_duplicates
+FOR UPDATE
+USING (
+  public.can_access_candidate(auth.uid(), candidate_a_id)
+  AND public.can_access_candidate(auth.uid(), candidate_b_id)
+)
+WITH CHECK (status = 'dismissed' AND reviewed_by = auth.uid());
+
+-- Weighted signals, capped at 1. Identifiers are strong on their own; a similar name only counts
+-- alongside something else. Only names within trigram distance or a shared identifier are compared,
+-- so resume similarity strengthens a match but cannot find one by itself.
+CREATE OR REPLACE FUNCTION public.candidate_duplicate_matches(_candidate_id UUID)
+RETURNS TABLE (candidate_id UUID, score NUMERIC, reasons TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH target AS (
+    SELECT c.id,
+           lower(c.email) AS email,
+           lower(c.full_name) AS full_name,
+           public.normalize_phone(c.phone) AS phone,
+           public.normalize_profile_url(c.linkedin_url) AS linkedin,
+           public.normalize_profile_url(c.github_url) AS github,
+           left(c.resume_text, 3000) AS resume
+    FROM public.candidates c
+    WHERE c.id = _candidate_id AND c.anonymized_at IS NULL
+  ),
+  signals AS (
+    SELECT o.id,
+           lower(o.email) = t.email AS email_match,
+           public.normalize_phone(o.phone) = t.phone AS phone_match,
+           public.normalize_profile_url(o.linkedin_url) = t.linkedin AS linkedin_match,
+           public.normalize_profile_url(o.github_url) = t.github AS github_match,
+           similarity(lower(o.full_name), t.full_name) AS name_similarity,
+           CASE
+             WHEN length(t.resume) >= 200 AND length(o.resume_text) >= 200
+               THEN similarity(left(o.resume_text, 3000), t.resume)
+             ELSE 0
+           END AS resume_similarity
+    FROM target t
+    JOIN public.candidates o ON o.id <> t.id AND o.anonymized_at IS NULL
+    WHERE lower(o.email) = t.email
+       OR public.normalize_phone(o.phone) = t.phone
+       OR public.normalize_profile_url(o.linkedin_url) = t.linkedin
+       OR public.normalize_profile_url(o.github_url) = t.github
+       OR lower(o.full_name) % t.full_name
+  ),
+  scored AS (
+    SELECT id,
+           LEAST(1,
+             CASE WHEN email_match THEN 1 ELSE 0 END
+             + CASE WHEN phone_match THEN 0.6 ELSE 0 END
+             + CASE WHEN linkedin_match THEN 0.8 ELSE 0 END
+             + CASE WHEN github_match THEN 0.8 ELSE 0 END
+             + CASE WHEN name_similarity >= 0.6 THEN 0.4 * name_similarity ELSE 0 END
+             + CASE WHEN resume_similarity >= 0.5 THEN 0.5 * resume_similarity ELSE 0 END
+           ) AS score,
+           array_remove(ARRAY[
+             CASE WHEN email_match THEN 'email' END,
+             CASE WHEN phone_match THEN 'phone' END,
+             CASE WHEN linkedin_match THEN 'linkedin' END,
+             CASE WHEN github_match THEN 'github' END,
+             CASE WHEN name_similarity >= 0.6 THEN 'name' END,
+             CASE WHEN resume_similarity >= 0.5 THEN 'resume' END
+           ], NULL) AS reasons
+    FROM signals
+  )
+  SELECT id, round(score::numeric, 3), reasons
+  FROM scored
+  WHERE score >= 0.6
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_candidate_duplicates(_candidate_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Erased candidates are no longer anyone's duplicate
+  IF EXISTS (SELECT 1 FROM public.candidates WHERE id = _candidate_id AND anonymized_at IS NOT NULL) THEN
+    DELETE FROM public.candidate_duplicates
+    WHERE candidate_a_id = _candidate_id OR candidate_b_id = _candidate_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.candidate_duplicates (candidate_a_id, candidate_b_id, score, reasons)
+  SELECT LEAST(_candidate_id, m.candidate_id), GREATEST(_candidate_id, m.candidate_id), m.score, m.reasons
+  FROM public.candidate_duplicate_matches(_candidate_id) m
+  ON CONFLICT (candidate_a_id, candidate_b_id) DO UPDATE
+  SET score = EXCLUDED.score, reasons = EXCLUDED.reasons, detected_at = now()
+  WHERE public.candidate_duplicates.status = 'pending';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.detect_candidate_duplicates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_candidate_duplicates(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER detect_candidate_duplicates
+AFTER INSERT OR UPDATE OF full_name, email, phone, linkedin_url, github_url, resume_text, anonymized_at
+ON public.candidates
+FOR EACH ROW EXECUTE FUNCTION public.detect_candidate_duplicates();
+
+-- The audit log stays append-only, except that anonymize_candidate may scrub an erased candidate's values
+-- and merge_candidates may move the merged candidate's history onto the survivor
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.id = OLD.id
+    AND NEW.occurred_at = OLD.occurred_at
+    AND NEW.actor_id IS NOT DISTINCT FROM OLD.actor_id
+    AND NEW.actor_type = OLD.actor_type
+    AND NEW.action = OLD.action
+    AND NEW.entity_type = OLD.entity_type
+    AND NEW.entity_id IS NOT DISTINCT FROM OLD.entity_id
+  THEN
+    IF current_setting('app.audit_redaction', true) = 'on'
+      AND NEW.candidate_id IS NOT DISTINCT FROM OLD.candidate_id
+    THEN
+      RETURN NEW;
+    END IF;
+
+    IF current_setting('app.audit_candidate_merge', true) = 'on'
+      AND NEW.changes = OLD.changes
+      AND NEW.metadata = OLD.metadata
+    THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+-- Folds _merged_id into _survivor_id and deletes it. Applications move across; where both applied to the
+-- same job the merged application's interviews, tests and offer join the survivor's and it is removed.
+-- Blank survivor fields are filled from the merged candidate. Returns counts for the merge report.
+CREATE OR REPLACE FUNCTION public.merge_candidates(_survivor_id UUID, _merged_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _survivor public.candidates;
+  _merged public.candidates;
+  _application RECORD;
+  _moved INTEGER := 0;
+  _combined INTEGER := 0;
+  _email_logs INTEGER;
+  _filled TEXT[] := '{}';
+BEGIN
+  IF _survivor_id = _merged_id THEN
+    RAISE EXCEPTION 'A candidate cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.candidates WHERE id = _survivor_id FOR UPDATE;
+  SELECT * INTO _merged FROM public.candidates WHERE id = _merged_id FOR UPDATE;
+  IF _survivor.id IS NULL OR _merged.id IS NULL THEN
+    RAISE EXCEPTION 'Candidate not found';
+  END IF;
+  IF _survivor.anonymized_at IS NOT NULL OR _merged.anonymized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Erased candidates cannot be merged';
+  END IF;
+
+  FOR _application IN
+    SELECT m.id, m.notes, s.id AS survivor_application_id
+    FROM public.applications m
+    LEFT JOIN public.applications s ON s.candidate_id = _survivor_id AND s.job_id = m.job_id
+    WHERE m.candidate_id = _merged_id
+  LOOP
+    IF _application.survivor_application_id IS NULL THEN
+      UPDATE public.applications SET candidate_id = _survivor_id WHERE id = _application.id;
+      _moved := _moved + 1;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.id)
+      AND EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.survivor_application_id)
+    THEN
+      RAISE EXCEPTION 'Both candidates have an offer for the same job; withdraw one offer before merging';
+    END IF;
+
+    UPDATE public.interviews SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_test_sessions SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_answers SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.offer_letters SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+
+    IF _application.notes IS NOT NULL THEN
+      UPDATE public.applications
+      SET notes = concat_ws(E'\n\n', notes, _application.notes)
+      WHERE id = _application.survivor_application_id;
+    END IF;
+
+    DELETE FROM public.applications WHERE id = _application.id;
+    _combined := _combined + 1;
+  END LOOP;
+
+  UPDATE public.email_logs SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  GET DIAGNOSTICS _email_logs = ROW_COUNT;
+
+  -- A pending erasure request carries over unless the survivor already has one
+  UPDATE public.data_erasure_requests r
+  SET candidate_id = _survivor_id
+  WHERE r.candidate_id = _merged_id
+    AND NOT (
+      r.status = 'pending'
+      AND EXISTS (
+        SELECT 1 FROM public.data_erasure_requests p
+        WHERE p.candidate_id = _survivor_id AND p.status = 'pending'
+      )
+    );
+
+  IF _survivor.phone IS NULL AND _merged.phone IS NOT NULL THEN _filled := _filled || 'phone'; END IF;
+  IF _survivor.linkedin_url IS NULL AND _merged.linkedin_url IS NOT NULL THEN _filled := _filled || 'linkedin_url'; END IF;
+  IF _survivor.github_url IS NULL AND _merged.github_url IS NOT NULL THEN _filled := _filled || 'github_url'; END IF;
+  IF _survivor.portfolio_url IS NULL AND _merged.portfolio_url IS NOT NULL THEN _filled := _filled || 'portfolio_url'; END IF;
+  -- The resume moves as a whole so text, parse and file stay consistent
+  IF _survivor.resume_text IS NULL AND _survivor.resume_url IS NULL
+    AND (_merged.resume_text IS NOT NULL OR _merged.resume_url IS NOT NULL)
+  THEN
+    _filled := _filled || 'resume';
+  END IF;
+
+  -- Deleted first so the survivor's update doesn't file the pair again
+  DELETE FROM public.candidates WHERE id = _merged_id;
+
+  UPDATE public.candidates
+  SET phone = COALESCE(phone, _merged.phone),
+      linkedin_url = COALESCE(linkedin_url, _merged.linkedin_url),
+      github_url = COALESCE(github_url, _merged.github_url),
+      portfolio_url = COALESCE(portfolio_url, _merged.portfolio_url),
+      portfolio_analysis = CASE WHEN portfolio_url IS NULL THEN _merged.portfolio_analysis ELSE portfolio_analysis END,
+      resume_text = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_text ELSE resume_text END,
+      resume_url = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_url ELSE resume_url END,
+      parsed_resume = CASE WHEN 'resume' = ANY(_filled) THEN _merged.parsed_resume ELSE parsed_resume END
+  WHERE id = _survivor_id;
+
+  -- Keeps the merged candidate's history on the survivor's timeline, and within reach of a later erasure
+  PERFORM set_config('app.audit_candidate_merge', 'on', true);
+  UPDATE public.audit_log SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  PERFORM set_config('app.audit_candidate_merge', 'off', true);
+
+  RETURN jsonb_build_object(
+    'applicationsMoved', _moved,
+    'applicationsCombined', _combined,
+    'emailLogs', _email_logs,
+    'fieldsFilled', to_jsonb(_filled)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_candidates(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_candidate_duplicates(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.candidate_duplicate_matches(UUID) FROM PUBLIC, anon, authenticated;
+
+-- File pairs among existing candidates
+SELECT public.refresh_candidate_duplicates(id) FROM public.candidates WHERE anonymized_at IS NULL;
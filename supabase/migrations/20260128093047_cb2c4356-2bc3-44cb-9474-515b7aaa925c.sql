@@ -0,0 +1,221 @@
+-- Recruiting analytics: where applications come from and when they moved between stages.
+-- applications.updated_at changes on every edit, so it cannot tell how long a stage took.
+
+-- Intake path; NULL for applications created before it was recorded
+ALTER TABLE public.applications
+ADD COLUMN source TEXT CHECK (source IN ('portal', 'careers', 'gmail', 'email', 'manual'));
+
+-- The two email importers have always stamped their notes
+UPDATE public.applications SET source = 'gmail' WHERE notes LIKE 'Auto-imported from email:%';
+UPDATE public.applications SET source = 'email' WHERE notes LIKE 'Auto-ingested from email:%';
+
+CREATE INDEX idx_applications_created_at ON public.applications(created_at DESC);
+
+-- One row per status change, including the initial status (from_status NULL)
+CREATE TABLE public.application_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  from_status public.application_status,
+  to_status public.application_status NOT NULL,
+  -- NULL for system and candidate changes
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_application_stage_history_application
+ON public.application_stage_history(application_id, changed_at);
+
+CREATE INDEX idx_application_stage_history_changed_at
+ON public.application_stage_history(changed_at DESC);
+
+ALTER TABLE public.application_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Staff can view stage history of accessible applications"
+ON public.application_stage_history
+FOR SELECT
+USING (public.can_access_application(auth.uid(), application_id));
+
+CREATE OR REPLACE FUNCTION public.record_application_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.application_stage_history (application_id, from_status, to_status, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_application_stage_change
+AFTER INSERT OR UPDATE OF status ON public.applications
+FOR EACH ROW EXECUTE FUNCTION public.record_application_stage_change();
+
+-- Backfill. Every application starts with its creation; later moves come from the audit log where it
+-- has them, and otherwise the current status is dated at the last update as the best available guess.
+INSERT INTO public.application_stage_history (application_id, from_status, to_status, changed_at)
+SELECT id, NULL, 'applied', created_at
+FROM public.applications;
+
+INSERT INTO public.application_stage_history (application_id, from_status, to_status, changed_by, changed_at)
+SELECT l.entity_id,
+       (l.changes -> 'status' ->> 'old')::public.application_status,
+       (l.changes -> 'status' ->> 'new')::public.application_status,
+       CASE WHEN l.actor_type = 'user' AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = l.actor_id) THEN l.actor_id END,
+       l.occurred_at
+FROM public.audit_log l
+JOIN public.applications a ON a.id = l.entity_id
+WHERE l.entity_type = 'application'
+  AND l.action = 'application.updated'
+  AND l.changes ? 'status'
+  AND l.changes -> 'status' ->> 'new' <> '[erased]';
+
+INSERT INTO public.application_stage_history (application_id, from_status, to_status, changed_at)
+SELECT a.id, last.to_status, a.status, a.updated_at
+FROM public.applications a
+CROSS JOIN LATERAL (
+  SELECT h.to_status
+  FROM public.application_stage_history h
+  WHERE h.application_id = a.id
+  ORDER BY h.changed_at DESC
+  LIMIT 1
+) last
+WHERE last.to_status <> a.status;
+
+-- Redefined so a combined application's stage history is kept rather than deleted with it
+-- Folds _merged_id into _survivor_id and deletes it. Applications move across; where both applied to the
+-- same job the merged application's interviews, tests, offer and stage history join the survivor's and it
+-- is removed.
+-- Blank survivor fields are filled from the merged candidate. Returns counts for the merge report.
+CREATE OR REPLACE FUNCTION public.merge_candidates(_survivor_id UUID, _merged_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _survivor public.candidates;
+  _merged public.candidates;
+  _application RECORD;
+  _moved INTEGER := 0;
+  _combined INTEGER := 0;
+  _email_logs INTEGER;
+  _filled TEXT[] := '{}';
+BEGIN
+  IF _survivor_id = _merged_id THEN
+    RAISE EXCEPTION 'A candidate cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.candidates WHERE id = _survivor_id FOR UPDATE;
+  SELECT * INTO _merged FROM public.candidates WHERE id = _merged_id FOR UPDATE;
+  IF _survivor.id IS NULL OR _merged.id IS NULL THEN
+    RAISE EXCEPTION 'Candidate not found';
+  END IF;
+  IF _survivor.anonymized_at IS NOT NULL OR _merged.anonymized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Erased candidates cannot be merged';
+  END IF;
+
+  FOR _application IN
+    SELECT m.id, m.notes, s.id AS survivor_application_id
+    FROM public.applications m
+    LEFT JOIN public.applications s ON s.candidate_id = _survivor_id AND s.job_id = m.job_id
+    WHERE m.candidate_id = _merged_id
+  LOOP
+    IF _application.survivor_application_id IS NULL THEN
+      UPDATE public.applications SET candidate_id = _survivor_id WHERE id = _application.id;
+      _moved := _moved + 1;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.id)
+      AND EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.survivor_application_id)
+    THEN
+      RAISE EXCEPTION 'Both candidates have an offer for the same job; withdraw one offer before merging';
+    END IF;
+
+    UPDATE public.interviews SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_test_sessions SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_answers SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.offer_letters SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.application_stage_history SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+
+    IF _application.notes IS NOT NULL THEN
+      UPDATE public.applications
+      SET notes = concat_ws(E'\n\n', notes, _application.notes)
+      WHERE id = _application.survivor_application_id;
+    END IF;
+
+    DELETE FROM public.applications WHERE id = _application.id;
+    _combined := _combined + 1;
+  END LOOP;
+
+  UPDATE public.email_logs SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  GET DIAGNOSTICS _email_logs = ROW_COUNT;
+
+  -- A pending erasure request carries over unless the survivor already has one
+  UPDATE public.data_erasure_requests r
+  SET candidate_id = _survivor_id
+  WHERE r.candidate_id = _merged_id
+    AND NOT (
+      r.status = 'pending'
+      AND EXISTS (
+        SELECT 1 FROM public.data_erasure_requests p
+        WHERE p.candidate_id = _survivor_id AND p.status = 'pending'
+      )
+    );
+
+  IF _survivor.phone IS NULL AND _merged.phone IS NOT NULL THEN _filled := _filled || 'phone'; END IF;
+  IF _survivor.linkedin_url IS NULL AND _merged.linkedin_url IS NOT NULL THEN _filled := _filled || 'linkedin_url'; END IF;
+  IF _survivor.github_url IS NULL AND _merged.github_url IS NOT NULL THEN _filled := _filled || 'github_url'; END IF;
+  IF _survivor.portfolio_url IS NULL AND _merged.portfolio_url IS NOT NULL THEN _filled := _filled || 'portfolio_url'; END IF;
+  -- The resume moves as a whole so text, parse and file stay consistent
+  IF _survivor.resume_text IS NULL AND _survivor.resume_url IS NULL
+    AND (_merged.resume_text IS NOT NULL OR _merged.resume_url IS NOT NULL)
+  THEN
+    _filled := _filled || 'resume';
+  END IF;
+
+  -- Deleted first so the survivor's update doesn't file the pair again
+  DELETE FROM public.candidates WHERE id = _merged_id;
+
+  UPDATE public.candidates
+  SET phone = COALESCE(phone, _merged.phone),
+      linkedin_url = COALESCE(linkedin_url, _merged.linkedin_url),
+      github_url = COALESCE(github_url, _merged.github_url),
+      portfolio_url = COALESCE(portfolio_url, _merged.portfolio_url),
+      portfolio_analysis = CASE WHEN portfolio_url IS NULL THEN _merged.portfolio_analysis ELSE portfolio_analysis END,
+      resume_text = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_text ELSE resume_text END,
+      resume_url = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_url ELSE resume_url END,
+      parsed_resume = CASE WHEN 'resume' = ANY(_filled) THEN _merged.parsed_resume ELSE parsed_resume END
+  WHERE id = _survivor_id;
+
+  -- Keeps the merged candidate's history on the survivor's timeline, and within reach of a later erasure
+  PERFORM set_config('app.audit_candidate_merge', 'on', true);
+  UPDATE public.audit_log SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  PERFORM set_config('app.audit_candidate_merge', 'off', true);
+
+  RETURN jsonb_build_object(
+    'applicationsMoved', _moved,
+    'applicationsCombined', _combined,
+    'emailLogs', _email_logs,
+    'fieldsFilled', to_jsonb(_filled)
+  );
+END;
+$$;
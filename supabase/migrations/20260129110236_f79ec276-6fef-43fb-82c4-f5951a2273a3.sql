@@ -0,0 +1,169 @@
+-- Stage transition rules. Every status change now records why it happened, and moves that skip the
+-- normal path (e.g. applied straight to hired) need an HR manager to override the rules with a reason.
+-- Status changes go through change_application_status so the reason and override reach the triggers.
+
+ALTER TABLE public.application_stage_history
+ADD COLUMN reason TEXT,
+-- True when the move was not in application_stage_transitions and an HR manager overrode the rules
+ADD COLUMN overridden BOOLEAN NOT NULL DEFAULT false;
+
+-- Allowed moves; anything else needs an override
+CREATE TABLE public.application_stage_transitions (
+  from_status public.application_status NOT NULL,
+  to_status public.application_status NOT NULL,
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+INSERT INTO public.application_stage_transitions (from_status, to_status)
+SELECT f, t
+FROM unnest(ARRAY['applied', 'screening', 'interview', 'offer']::public.application_status[]) AS f
+CROSS JOIN unnest(ARRAY['applied', 'screening', 'interview', 'offer', 'rejected', 'withdrawn']::public.application_status[]) AS t
+WHERE f <> t;
+
+-- Hiring only follows an offer, and a closed application reopens no further than interviewing
+INSERT INTO public.application_stage_transitions (from_status, to_status) VALUES
+  ('offer', 'hired'),
+  ('rejected', 'applied'),
+  ('rejected', 'screening'),
+  ('rejected', 'interview'),
+  ('withdrawn', 'applied'),
+  ('withdrawn', 'screening'),
+  ('withdrawn', 'interview');
+
+ALTER TABLE public.application_stage_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view stage transitions"
+ON public.application_stage_transitions
+FOR SELECT
+USING (is_hr_staff(auth.uid()));
+
+CREATE POLICY "HR managers can manage stage transitions"
+ON public.application_stage_transitions
+FOR ALL
+USING (has_full_access(auth.uid()))
+WITH CHECK (has_full_access(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_allowed_stage_transition(
+  _from public.application_status,
+  _to public.application_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.application_stage_transitions
+    WHERE from_status = _from AND to_status = _to
+  )
+$$;
+
+-- SQLSTATE HR001 tells the app the move is possible with an override
+CREATE OR REPLACE FUNCTION public.enforce_stage_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR public.is_allowed_stage_transition(OLD.status, NEW.status)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.stage_change_override', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Moving an application from % to % skips the normal stages', OLD.status, NEW.status
+      USING ERRCODE = 'HR001', HINT = 'An HR manager can override the stage rules with a reason';
+  END IF;
+
+  -- The service role (auth.uid() IS NULL) is trusted like an HR manager
+  IF auth.uid() IS NOT NULL AND NOT public.has_full_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Only HR managers and admins can override the stage rules'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(current_setting('app.stage_change_reason', true), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override the stage rules'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_stage_transition
+BEFORE UPDATE OF status ON public.applications
+FOR EACH ROW EXECUTE FUNCTION public.enforce_stage_transition();
+
+CREATE OR REPLACE FUNCTION public.record_application_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.application_stage_history (application_id, from_status, to_status, changed_by, reason, overridden)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.stage_change_reason', true), ''),
+    TG_OP = 'UPDATE'
+      AND current_setting('app.stage_change_override', true) = 'on'
+      AND NOT public.is_allowed_stage_transition(OLD.status, NEW.status)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Runs as the caller, so RLS decides which applications a recruiter may move. _only_from makes the
+-- change conditional (e.g. scheduling an interview only advances applied or screening applications);
+-- returns false when nothing changed.
+CREATE OR REPLACE FUNCTION public.change_application_status(
+  _application_id UUID,
+  _status public.application_status,
+  _reason TEXT DEFAULT NULL,
+  _override BOOLEAN DEFAULT false,
+  _only_from public.application_status[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _current public.application_status;
+BEGIN
+  SELECT status INTO _current FROM public.applications WHERE id = _application_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _current = _status OR (_only_from IS NOT NULL AND NOT _current = ANY(_only_from)) THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('app.stage_change_reason', COALESCE(trim(_reason), ''), true);
+  PERFORM set_config('app.stage_change_override', CASE WHEN _override THEN 'on' ELSE 'off' END, true);
+
+  UPDATE public.applications
+  SET status = _status,
+      withdrawn_at = CASE WHEN _status = 'withdrawn' THEN now() ELSE withdrawn_at END
+  WHERE id = _application_id;
+
+  PERFORM set_config('app.stage_change_reason', '', true);
+  PERFORM set_config('app.stage_change_override', 'off', true);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.change_application_status(UUID, public.application_status, TEXT, BOOLEAN, public.application_status[]) FROM PUBLIC, anon;
@@ -0,0 +1,348 @@
+-- Rejection workflow: every rejection carries a reason code for analytics, and the rejection email is
+-- held back for a cool-off period so a mistaken rejection can be undone before the candidate hears of it.
+
+-- Keep in sync with REJECTION_REASON_LABELS in src/lib/rejections.ts
+ALTER TABLE public.applications
+ADD COLUMN rejection_reason TEXT CHECK (rejection_reason IN (
+  'skills_mismatch',
+  'insufficient_experience',
+  'failed_assessment',
+  'interview_performance',
+  'compensation_mismatch',
+  'location_or_authorization',
+  'position_filled',
+  'unresponsive',
+  'other'
+)),
+-- Internal note; never sent to the candidate
+ADD COLUMN rejection_note TEXT,
+ADD COLUMN rejected_at TIMESTAMP WITH TIME ZONE;
+
+-- Single row
+CREATE TABLE public.rejection_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- How long a rejection email waits before it goes out; 0 sends on the next run
+  cool_off_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (cool_off_minutes >= 0),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.rejection_settings (id) VALUES (true);
+
+ALTER TABLE public.rejection_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view rejection settings"
+ON public.rejection_settings
+FOR SELECT
+USING (is_hr_staff(auth.uid()));
+
+CREATE POLICY "HR managers can update rejection settings"
+ON public.rejection_settings
+FOR UPDATE
+USING (has_full_access(auth.uid()))
+WITH CHECK (has_full_access(auth.uid()));
+
+CREATE TRIGGER update_rejection_settings_updated_at
+BEFORE UPDATE ON public.rejection_settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Emails waiting for their send time; the send-scheduled-emails function delivers due ones
+CREATE TABLE public.scheduled_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES public.applications(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  email_type TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- sending while the worker holds it
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'cancelled', 'failed')),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  cancelled_by UUID REFERENCES auth.users(id),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  error TEXT
+);
+
+CREATE INDEX idx_scheduled_emails_due ON public.scheduled_emails(send_at) WHERE status = 'pending';
+CREATE INDEX idx_scheduled_emails_application ON public.scheduled_emails(application_id);
+
+ALTER TABLE public.scheduled_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view scheduled emails of accessible candidates"
+ON public.scheduled_emails
+FOR SELECT
+USING (can_access_candidate(auth.uid(), candidate_id));
+
+CREATE POLICY "Staff can schedule emails for accessible candidates"
+ON public.scheduled_emails
+FOR INSERT
+WITH CHECK (
+  can_access_candidate(auth.uid(), candidate_id)
+  AND created_by = auth.uid()
+  AND status = 'pending'
+);
+
+-- The only change staff make by hand is cancelling an email that has not gone out
+CREATE POLICY "Staff can cancel pending emails of accessible candidates"
+ON public.scheduled_emails
+FOR UPDATE
+USING (status = 'pending' AND can_access_candidate(auth.uid(), candidate_id))
+WITH CHECK (status = 'cancelled' AND cancelled_by = auth.uid());
+
+-- Reopening a rejected application clears the rejection and stops its email
+CREATE OR REPLACE FUNCTION public.clear_rejection_on_reopen()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'rejected' AND NEW.status <> 'rejected' THEN
+    NEW.rejection_reason := NULL;
+    NEW.rejection_note := NULL;
+    NEW.rejected_at := NULL;
+
+    UPDATE public.scheduled_emails
+    SET status = 'cancelled', cancelled_by = auth.uid(), cancelled_at = now()
+    WHERE application_id = NEW.id
+      AND email_type = 'rejection'
+      AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_rejection_on_reopen
+BEFORE UPDATE OF status ON public.applications
+FOR EACH ROW EXECUTE FUNCTION public.clear_rejection_on_reopen();
+
+-- An erased candidate's queued emails go with the rest of their personal data
+CREATE OR REPLACE FUNCTION public.delete_scheduled_emails_on_anonymize()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.scheduled_emails WHERE candidate_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER delete_scheduled_emails_on_anonymize
+AFTER UPDATE OF anonymized_at ON public.candidates
+FOR EACH ROW
+WHEN (OLD.anonymized_at IS NULL AND NEW.anonymized_at IS NOT NULL)
+EXECUTE FUNCTION public.delete_scheduled_emails_on_anonymize();
+
+-- Rejects one application and, when a subject and body are given, queues the rejection email after the
+-- cool-off. Runs as the caller like change_application_status. Returns the queued email's id, or NULL
+-- when no email was queued. Rejecting a hired application still needs an override through
+-- change_application_status first.
+CREATE OR REPLACE FUNCTION public.reject_application(
+  _application_id UUID,
+  _reason_code TEXT,
+  _note TEXT DEFAULT NULL,
+  _email_subject TEXT DEFAULT NULL,
+  _email_html TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _candidate_id UUID;
+  _recipient TEXT;
+  _cool_off INTEGER;
+  _email_id UUID;
+BEGIN
+  IF _reason_code IS NULL THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM public.change_application_status(
+    _application_id,
+    'rejected',
+    _reason_code || COALESCE(': ' || NULLIF(trim(_note), ''), '')
+  );
+
+  UPDATE public.applications
+  SET rejection_reason = _reason_code,
+      rejection_note = NULLIF(trim(_note), ''),
+      rejected_at = COALESCE(rejected_at, now())
+  WHERE id = _application_id
+  RETURNING candidate_id INTO _candidate_id;
+
+  IF NULLIF(trim(_email_subject), '') IS NULL OR NULLIF(trim(_email_html), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT email INTO _recipient FROM public.candidates WHERE id = _candidate_id;
+  SELECT cool_off_minutes INTO _cool_off FROM public.rejection_settings;
+
+  -- A second rejection replaces the email still waiting from the first
+  UPDATE public.scheduled_emails
+  SET status = 'cancelled', cancelled_by = auth.uid(), cancelled_at = now()
+  WHERE application_id = _application_id
+    AND email_type = 'rejection'
+    AND status = 'pending';
+
+  INSERT INTO public.scheduled_emails (application_id, candidate_id, email_type, recipient_email, subject, html, send_at, created_by)
+  VALUES (
+    _application_id,
+    _candidate_id,
+    'rejection',
+    _recipient,
+    trim(_email_subject),
+    _email_html,
+    now() + make_interval(mins => COALESCE(_cool_off, 0)),
+    auth.uid()
+  )
+  RETURNING id INTO _email_id;
+
+  RETURN _email_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reject_application(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+
+-- Redefined so a merge moves queued emails instead of deleting them with the merged candidate
+-- Folds _merged_id into _survivor_id and deletes it. Applications move across; where both applied to the
+-- same job the merged application's interviews, tests, offer, stage history and scheduled emails join the
+-- survivor's and it is removed.
+-- Blank survivor fields are filled from the merged candidate. Returns counts for the merge report.
+CREATE OR REPLACE FUNCTION public.merge_candidates(_survivor_id UUID, _merged_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _survivor public.candidates;
+  _merged public.candidates;
+  _application RECORD;
+  _moved INTEGER := 0;
+  _combined INTEGER := 0;
+  _email_logs INTEGER;
+  _filled TEXT[] := '{}';
+BEGIN
+  IF _survivor_id = _merged_id THEN
+    RAISE EXCEPTION 'A candidate cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.candidates WHERE id = _survivor_id FOR UPDATE;
+  SELECT * INTO _merged FROM public.candidates WHERE id = _merged_id FOR UPDATE;
+  IF _survivor.id IS NULL OR _merged.id IS NULL THEN
+    RAISE EXCEPTION 'Candidate not found';
+  END IF;
+  IF _survivor.anonymized_at IS NOT NULL OR _merged.anonymized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Erased candidates cannot be merged';
+  END IF;
+
+  FOR _application IN
+    SELECT m.id, m.notes, s.id AS survivor_application_id
+    FROM public.applications m
+    LEFT JOIN public.applications s ON s.candidate_id = _survivor_id AND s.job_id = m.job_id
+    WHERE m.candidate_id = _merged_id
+  LOOP
+    IF _application.survivor_application_id IS NULL THEN
+      UPDATE public.applications SET candidate_id = _survivor_id WHERE id = _application.id;
+      _moved := _moved + 1;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.id)
+      AND EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.survivor_application_id)
+    THEN
+      RAISE EXCEPTION 'Both candidates have an offer for the same job; withdraw one offer before merging';
+    END IF;
+
+    UPDATE public.interviews SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_test_sessions SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_answers SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.offer_letters SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.application_stage_history SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.scheduled_emails SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+
+    IF _application.notes IS NOT NULL THEN
+      UPDATE public.applications
+      SET notes = concat_ws(E'\n\n', notes, _application.notes)
+      WHERE id = _application.survivor_application_id;
+    END IF;
+
+    DELETE FROM public.applications WHERE id = _application.id;
+    _combined := _combined + 1;
+  END LOOP;
+
+  UPDATE public.email_logs SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  GET DIAGNOSTICS _email_logs = ROW_COUNT;
+
+  -- Queued emails still go out, to the address they were written for
+  UPDATE public.scheduled_emails SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+
+  -- A pending erasure request carries over unless the survivor already has one
+  UPDATE public.data_erasure_requests r
+  SET candidate_id = _survivor_id
+  WHERE r.candidate_id = _merged_id
+    AND NOT (
+      r.status = 'pending'
+      AND EXISTS (
+        SELECT 1 FROM public.data_erasure_requests p
+        WHERE p.candidate_id = _survivor_id AND p.status = 'pending'
+      )
+    );
+
+  IF _survivor.phone IS NULL AND _merged.phone IS NOT NULL THEN _filled := _filled || 'phone'; END IF;
+  IF _survivor.linkedin_url IS NULL AND _merged.linkedin_url IS NOT NULL THEN _filled := _filled || 'linkedin_url'; END IF;
+  IF _survivor.github_url IS NULL AND _merged.github_url IS NOT NULL THEN _filled := _filled || 'github_url'; END IF;
+  IF _survivor.portfolio_url IS NULL AND _merged.portfolio_url IS NOT NULL THEN _filled := _filled || 'portfolio_url'; END IF;
+  -- The resume moves as a whole so text, parse and file stay consistent
+  IF _survivor.resume_text IS NULL AND _survivor.resume_url IS NULL
+    AND (_merged.resume_text IS NOT NULL OR _merged.resume_url IS NOT NULL)
+  THEN
+    _filled := _filled || 'resume';
+  END IF;
+
+  -- Deleted first so the survivor's update doesn't file the pair again
+  DELETE FROM public.candidates WHERE id = _merged_id;
+
+  UPDATE public.candidates
+  SET phone = COALESCE(phone, _merged.phone),
+      linkedin_url = COALESCE(linkedin_url, _merged.linkedin_url),
+      github_url = COALESCE(github_url, _merged.github_url),
+      portfolio_url = COALESCE(portfolio_url, _merged.portfolio_url),
+      portfolio_analysis = CASE WHEN portfolio_url IS NULL THEN _merged.portfolio_analysis ELSE portfolio_analysis END,
+      resume_text = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_text ELSE resume_text END,
+      resume_url = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_url ELSE resume_url END,
+      parsed_resume = CASE WHEN 'resume' = ANY(_filled) THEN _merged.parsed_resume ELSE parsed_resume END
+  WHERE id = _survivor_id;
+
+  -- Keeps the merged candidate's history on the survivor's timeline, and within reach of a later erasure
+  PERFORM set_config('app.audit_candidate_merge', 'on', true);
+  UPDATE public.audit_log SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  PERFORM set_config('app.audit_candidate_merge', 'off', true);
+
+  RETURN jsonb_build_object(
+    'applicationsMoved', _moved,
+    'applicationsCombined', _combined,
+    'emailLogs', _email_logs,
+    'fieldsFilled', to_jsonb(_filled)
+  );
+END;
+$$;
+
+SELECT cron.schedule(
+  'send-scheduled-emails',
+  '*/5 * * * *',
+  $$SELECT public.invoke_edge_function('send-scheduled-emails', '{}'::jsonb)$$
+);
@@ -0,0 +1,89 @@
+-- Outbound email queue. scheduled_emails now holds every email the app sends, not just delayed
+-- rejections: sends are retried with backoff, deduplicated by idempotency key, and each email gets
+-- one email_logs row that delivery webhooks keep up to date.
+
+ALTER TABLE public.scheduled_emails
+-- Staff-facing emails (e.g. sent from the HR chat to an address) need not belong to a candidate
+ALTER COLUMN candidate_id DROP NOT NULL,
+ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+-- Callers derive it from what the email is about (e.g. 'interview-scheduled:<id>'); a second enqueue
+-- with the same key returns the existing email instead of sending twice
+ADD COLUMN idempotency_key TEXT UNIQUE,
+-- Storage objects sent as attachments: [{ "bucket", "path", "filename", "contentType" }]
+ADD COLUMN attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+-- When a worker claimed it; a claim older than ten minutes is taken to be abandoned
+ADD COLUMN locked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN transport TEXT,
+ADD COLUMN provider_message_id TEXT;
+
+COMMENT ON COLUMN public.scheduled_emails.send_at IS 'Next attempt: the requested send time, then each retry';
+
+DROP POLICY "Staff can schedule emails for accessible candidates" ON public.scheduled_emails;
+
+-- Only to the candidate's own address, and only about one of their applications
+CREATE POLICY "Staff can schedule emails for accessible candidates"
+ON public.scheduled_emails
+FOR INSERT
+WITH CHECK (
+  can_access_candidate(auth.uid(), candidate_id)
+  AND created_by = auth.uid()
+  AND status = 'pending'
+  AND attempts = 0
+  AND attachments = '[]'::jsonb
+  AND EXISTS (
+    SELECT 1 FROM public.candidates c
+    WHERE c.id = candidate_id AND lower(c.email) = lower(recipient_email)
+  )
+  AND (
+    application_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.applications a
+      WHERE a.id = application_id AND a.candidate_id = scheduled_emails.candidate_id
+    )
+  )
+);
+
+ALTER TABLE public.email_logs
+ADD COLUMN scheduled_email_id UUID UNIQUE REFERENCES public.scheduled_emails(id) ON DELETE SET NULL,
+ADD COLUMN transport TEXT,
+ADD COLUMN provider_message_id TEXT,
+ADD COLUMN error TEXT,
+ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN bounced_at TIMESTAMP WITH TIME ZONE;
+
+-- sent, failed, then from delivery webhooks: delivered, delayed, bounced, complained.
+-- NOT VALID leaves rows logged before the queue alone.
+ALTER TABLE public.email_logs
+ADD CONSTRAINT email_logs_status_check
+CHECK (status IN ('sent', 'failed', 'delivered', 'delayed', 'bounced', 'complained')) NOT VALID;
+
+CREATE INDEX idx_email_logs_provider_message ON public.email_logs(provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+-- Hands due emails to one worker. Also takes back claims abandoned by a worker that died mid-send.
+-- _ids limits the claim to specific emails, for callers that send right after enqueueing.
+CREATE OR REPLACE FUNCTION public.claim_scheduled_emails(_ids UUID[] DEFAULT NULL, _limit INTEGER DEFAULT 50)
+RETURNS SETOF public.scheduled_emails
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.scheduled_emails e
+  SET status = 'sending', locked_at = now(), attempts = e.attempts + 1
+  WHERE e.id IN (
+    SELECT id
+    FROM public.scheduled_emails
+    WHERE (
+        (status = 'pending' AND send_at <= now())
+        OR (status = 'sending' AND locked_at < now() - interval '10 minutes')
+      )
+      AND (_ids IS NULL OR id = ANY(_ids))
+    ORDER BY send_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.*
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_emails(UUID[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- Email templates are now rendered by a template engine with a variable catalog per email_type
+-- (src/lib/email-templates.ts). Placeholders used to be replaced case-insensitively and several were
+-- never filled in, so bring existing templates in line with the catalog: they would otherwise fail
+-- validation the next time they are edited or sent.
+
+CREATE OR REPLACE FUNCTION pg_temp.normalize_placeholders(_text TEXT, _email_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _name TEXT;
+  _interview_types CONSTANT TEXT[] := ARRAY['interview_invite', 'follow_up', 'custom'];
+BEGIN
+  FOREACH _name IN ARRAY ARRAY['candidateName', 'position', 'company', 'date', 'interviewerName'] LOOP
+    _text := regexp_replace(_text, '\{\{\s*' || _name || '\s*\}\}', '{{' || _name || '}}', 'gi');
+  END LOOP;
+
+  IF _email_type = ANY(_interview_types) THEN
+    -- {{time}} was advertised for the interview time but always rendered empty
+    _text := regexp_replace(_text, '\{\{\s*time\s*\}\}', '{{interviewTime}}', 'gi');
+  ELSE
+    -- Neither ever had a value outside interview emails
+    _text := regexp_replace(_text, '\{\{\s*(time|interviewerName)\s*\}\}', '', 'gi');
+  END IF;
+
+  RETURN _text;
+END;
+$$;
+
+UPDATE public.email_templates
+SET
+  subject = pg_temp.normalize_placeholders(subject, email_type),
+  body = pg_temp.normalize_placeholders(body, email_type)
+WHERE subject ~ '\{\{' OR body ~ '\{\{';
@@ -0,0 +1,159 @@
+-- Panel interviews: an interview has any number of interviewers, each with a role on the panel.
+-- created_by stays the person who scheduled it, who need not be on the panel.
+CREATE TABLE public.interview_interviewers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID NOT NULL REFERENCES public.interviews(id) ON DELETE CASCADE,
+  interviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- lead runs the interview; shadows observe, and their calendars do not block a slot
+  role TEXT NOT NULL DEFAULT 'interviewer' CHECK (role IN ('lead', 'interviewer', 'shadow')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (interview_id, interviewer_id)
+);
+
+CREATE INDEX idx_interview_interviewers_interviewer ON public.interview_interviewers(interviewer_id);
+
+-- At most one lead per interview
+CREATE UNIQUE INDEX idx_interview_interviewers_one_lead ON public.interview_interviewers(interview_id)
+WHERE role = 'lead';
+
+ALTER TABLE public.interview_interviewers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view panels of accessible interviews"
+ON public.interview_interviewers
+FOR SELECT
+USING (
+  interviewer_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.interviews i
+    WHERE i.id = interview_id AND public.can_access_application(auth.uid(), i.application_id)
+  )
+);
+
+CREATE POLICY "Staff can manage panels of accessible interviews"
+ON public.interview_interviewers
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.interviews i
+    WHERE i.id = interview_id AND public.can_access_application(auth.uid(), i.application_id)
+  )
+)
+WITH CHECK (
+  public.is_hr_staff(interviewer_id)
+  AND EXISTS (
+    SELECT 1 FROM public.interviews i
+    WHERE i.id = interview_id AND public.can_access_application(auth.uid(), i.application_id)
+  )
+);
+
+-- The calendar event with the whole panel and the candidate as attendees, and whose calendar it is on;
+-- meeting_id keeps the video meeting's own id
+ALTER TABLE public.interviews
+ADD COLUMN calendar_event_id TEXT,
+ADD COLUMN calendar_owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Until now the panel was inferred: scorecard authors, or whoever scheduled the interview
+INSERT INTO public.interview_interviewers (interview_id, interviewer_id, role)
+SELECT DISTINCT s.interview_id, s.interviewer_id, 'interviewer'
+FROM public.interview_scorecards s;
+
+INSERT INTO public.interview_interviewers (interview_id, interviewer_id, role)
+SELECT i.id, i.created_by, 'lead'
+FROM public.interviews i
+WHERE i.created_by IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.interview_interviewers p WHERE p.interview_id = i.id);
+
+-- Feedback is tracked per panel member, so writing a scorecard puts its author on the panel. Only
+-- someone who can see the application may join it this way.
+CREATE OR REPLACE FUNCTION public.add_scorecard_author_to_panel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.interview_interviewers
+    WHERE interview_id = NEW.interview_id AND interviewer_id = NEW.interviewer_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.interviews i
+    WHERE i.id = NEW.interview_id
+      AND public.can_access_application(NEW.interviewer_id, i.application_id)
+  ) THEN
+    RAISE EXCEPTION 'Only the panel or staff with access to the application can write a scorecard';
+  END IF;
+
+  INSERT INTO public.interview_interviewers (interview_id, interviewer_id)
+  VALUES (NEW.interview_id, NEW.interviewer_id)
+  ON CONFLICT (interview_id, interviewer_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_scorecard_author_to_panel
+AFTER INSERT ON public.interview_scorecards
+FOR EACH ROW
+EXECUTE FUNCTION public.add_scorecard_author_to_panel();
+
+CREATE OR REPLACE FUNCTION public.is_panel_member(_interview_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.interview_interviewers
+    WHERE interview_id = _interview_id
+      AND interviewer_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_submitted_scorecard(_interview_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.interview_scorecards
+    WHERE interview_id = _interview_id
+      AND interviewer_id = _user_id
+      AND submitted_at IS NOT NULL
+  )
+$$;
+
+-- Scorecards follow the panel: only its members write them, and a member sees the others' feedback
+-- only once their own is submitted, whether or not they have opened their form yet
+DROP POLICY IF EXISTS "HR staff can view submitted scorecards once their own is in" ON public.interview_scorecards;
+DROP POLICY IF EXISTS "HR staff can create own scorecards" ON public.interview_scorecards;
+DROP FUNCTION IF EXISTS public.has_pending_scorecard(UUID, UUID);
+
+CREATE POLICY "Staff can view submitted scorecards once their own is in"
+ON public.interview_scorecards
+FOR SELECT
+USING (
+  submitted_at IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM public.interviews i
+    WHERE i.id = interview_id
+      AND public.can_access_application(auth.uid(), i.application_id)
+  )
+  AND (
+    NOT public.is_panel_member(interview_id, auth.uid())
+    OR public.has_submitted_scorecard(interview_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Panel members can create own scorecards"
+ON public.interview_scorecards
+FOR INSERT
+WITH CHECK (interviewer_id = auth.uid() AND public.is_panel_member(interview_id, auth.uid()));
@@ -0,0 +1,200 @@
+-- Self-scheduling: instead of picking a time, HR sends the candidate a link to book one of the panel's
+-- free slots. Bookings go through the schedule-interview function like any other interview.
+CREATE TABLE public.scheduling_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(32), 'hex'),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  -- [{ "userId": ..., "role": "lead" | "interviewer" | "shadow" }], as schedule-interview takes it
+  interviewers JSONB NOT NULL,
+  interview_type TEXT NOT NULL DEFAULT 'Technical',
+  duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes BETWEEN 15 AND 480),
+  -- Free time the panel keeps around other meetings
+  buffer_minutes INTEGER NOT NULL DEFAULT 15 CHECK (buffer_minutes BETWEEN 0 AND 120),
+  -- The panel's working hours, in time_zone
+  workday_start_hour INTEGER NOT NULL DEFAULT 9 CHECK (workday_start_hour BETWEEN 0 AND 23),
+  workday_end_hour INTEGER NOT NULL DEFAULT 18 CHECK (workday_end_hour BETWEEN 1 AND 24),
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  -- Slots are offered this many days ahead
+  window_days INTEGER NOT NULL DEFAULT 14 CHECK (window_days BETWEEN 1 AND 31),
+  create_meet BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'booked', 'cancelled')),
+  -- The booked interview; a reschedule points it at the new one
+  interview_id UUID REFERENCES public.interviews(id) ON DELETE SET NULL,
+  booked_at TIMESTAMP WITH TIME ZONE,
+  reschedule_count INTEGER NOT NULL DEFAULT 0,
+  -- Last moment to book, or to move a booking
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (workday_start_hour < workday_end_hour)
+);
+
+CREATE INDEX idx_scheduling_links_application ON public.scheduling_links(application_id);
+
+ALTER TABLE public.scheduling_links ENABLE ROW LEVEL SECURITY;
+
+-- Candidates never read the table; the self-schedule function resolves their token
+CREATE POLICY "Staff can manage accessible scheduling links"
+ON public.scheduling_links
+FOR ALL
+USING (public.can_access_application(auth.uid(), application_id))
+WITH CHECK (public.can_access_application(auth.uid(), application_id));
+
+CREATE TRIGGER update_scheduling_links_updated_at BEFORE UPDATE ON public.scheduling_links
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rejecting, withdrawing (from the candidate portal) or hiring closes the application, and with it any
+-- link the candidate has not used yet
+CREATE OR REPLACE FUNCTION public.cancel_scheduling_links_on_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scheduling_links
+  SET status = 'cancelled'
+  WHERE application_id = NEW.id AND status = 'open';
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER cancel_scheduling_links_on_close
+AFTER UPDATE OF status ON public.applications
+FOR EACH ROW
+WHEN (NEW.status IN ('rejected', 'withdrawn', 'hired') AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.cancel_scheduling_links_on_close();
+
+-- Redefined so a merge moves scheduling links instead of deleting them with the merged application
+-- Folds _merged_id into _survivor_id and deletes it. Applications move across; where both applied to the
+-- same job the merged application's interviews, tests, offer, stage history, scheduled emails and
+-- scheduling links join the survivor's and it is removed.
+-- Blank survivor fields are filled from the merged candidate. Returns counts for the merge report.
+CREATE OR REPLACE FUNCTION public.merge_candidates(_survivor_id UUID, _merged_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _survivor public.candidates;
+  _merged public.candidates;
+  _application RECORD;
+  _moved INTEGER := 0;
+  _combined INTEGER := 0;
+  _email_logs INTEGER;
+  _filled TEXT[] := '{}';
+BEGIN
+  IF _survivor_id = _merged_id THEN
+    RAISE EXCEPTION 'A candidate cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.candidates WHERE id = _survivor_id FOR UPDATE;
+  SELECT * INTO _merged FROM public.candidates WHERE id = _merged_id FOR UPDATE;
+  IF _survivor.id IS NULL OR _merged.id IS NULL THEN
+    RAISE EXCEPTION 'Candidate not found';
+  END IF;
+  IF _survivor.anonymized_at IS NOT NULL OR _merged.anonymized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Erased candidates cannot be merged';
+  END IF;
+
+  FOR _application IN
+    SELECT m.id, m.notes, s.id AS survivor_application_id
+    FROM public.applications m
+    LEFT JOIN public.applications s ON s.candidate_id = _survivor_id AND s.job_id = m.job_id
+    WHERE m.candidate_id = _merged_id
+  LOOP
+    IF _application.survivor_application_id IS NULL THEN
+      UPDATE public.applications SET candidate_id = _survivor_id WHERE id = _application.id;
+      _moved := _moved + 1;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.id)
+      AND EXISTS (SELECT 1 FROM public.offer_letters WHERE application_id = _application.survivor_application_id)
+    THEN
+      RAISE EXCEPTION 'Both candidates have an offer for the same job; withdraw one offer before merging';
+    END IF;
+
+    UPDATE public.interviews SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_test_sessions SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.aptitude_answers SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.offer_letters SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.application_stage_history SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.scheduled_emails SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+    UPDATE public.scheduling_links SET application_id = _application.survivor_application_id
+    WHERE application_id = _application.id;
+
+    IF _application.notes IS NOT NULL THEN
+      UPDATE public.applications
+      SET notes = concat_ws(E'\n\n', notes, _application.notes)
+      WHERE id = _application.survivor_application_id;
+    END IF;
+
+    DELETE FROM public.applications WHERE id = _application.id;
+    _combined := _combined + 1;
+  END LOOP;
+
+  UPDATE public.email_logs SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  GET DIAGNOSTICS _email_logs = ROW_COUNT;
+
+  -- Queued emails still go out, to the address they were written for
+  UPDATE public.scheduled_emails SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+
+  -- A pending erasure request carries over unless the survivor already has one
+  UPDATE public.data_erasure_requests r
+  SET candidate_id = _survivor_id
+  WHERE r.candidate_id = _merged_id
+    AND NOT (
+      r.status = 'pending'
+      AND EXISTS (
+        SELECT 1 FROM public.data_erasure_requests p
+        WHERE p.candidate_id = _survivor_id AND p.status = 'pending'
+      )
+    );
+
+  IF _survivor.phone IS NULL AND _merged.phone IS NOT NULL THEN _filled := _filled || 'phone'; END IF;
+  IF _survivor.linkedin_url IS NULL AND _merged.linkedin_url IS NOT NULL THEN _filled := _filled || 'linkedin_url'; END IF;
+  IF _survivor.github_url IS NULL AND _merged.github_url IS NOT NULL THEN _filled := _filled || 'github_url'; END IF;
+  IF _survivor.portfolio_url IS NULL AND _merged.portfolio_url IS NOT NULL THEN _filled := _filled || 'portfolio_url'; END IF;
+  -- The resume moves as a whole so text, parse and file stay consistent
+  IF _survivor.resume_text IS NULL AND _survivor.resume_url IS NULL
+    AND (_merged.resume_text IS NOT NULL OR _merged.resume_url IS NOT NULL)
+  THEN
+    _filled := _filled || 'resume';
+  END IF;
+
+  -- Deleted first so the survivor's update doesn't file the pair again
+  DELETE FROM public.candidates WHERE id = _merged_id;
+
+  UPDATE public.candidates
+  SET phone = COALESCE(phone, _merged.phone),
+      linkedin_url = COALESCE(linkedin_url, _merged.linkedin_url),
+      github_url = COALESCE(github_url, _merged.github_url),
+      portfolio_url = COALESCE(portfolio_url, _merged.portfolio_url),
+      portfolio_analysis = CASE WHEN portfolio_url IS NULL THEN _merged.portfolio_analysis ELSE portfolio_analysis END,
+      resume_text = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_text ELSE resume_text END,
+      resume_url = CASE WHEN 'resume' = ANY(_filled) THEN _merged.resume_url ELSE resume_url END,
+      parsed_resume = CASE WHEN 'resume' = ANY(_filled) THEN _merged.parsed_resume ELSE parsed_resume END
+  WHERE id = _survivor_id;
+
+  -- Keeps the merged candidate's history on the survivor's timeline, and within reach of a later erasure
+  PERFORM set_config('app.audit_candidate_merge', 'on', true);
+  UPDATE public.audit_log SET candidate_id = _survivor_id WHERE candidate_id = _merged_id;
+  PERFORM set_config('app.audit_candidate_merge', 'off', true);
+
+  RETURN jsonb_build_object(
+    'applicationsMoved', _moved,
+    'applicationsCombined', _combined,
+    'emailLogs', _email_logs,
+    'fieldsFilled', to_jsonb(_filled)
+  );
+END;
+$$;
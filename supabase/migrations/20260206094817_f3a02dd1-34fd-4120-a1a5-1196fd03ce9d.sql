@@ -0,0 +1,45 @@
+-- Rescheduling and cancelling interviews through the manage-interview function, which keeps the calendar
+-- event, the video meeting, the candidate and the panel in step with the interviews row.
+
+-- ical_uid and ical_sequence identify the event in attendees' calendars, so an updated invite replaces
+-- the one they have. Interviews with a Google Calendar event use its iCalUID; others get one derived
+-- from their id.
+ALTER TABLE public.interviews
+ADD COLUMN ical_uid TEXT,
+ADD COLUMN ical_sequence INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN cancellation_reason TEXT,
+ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE public.interview_reschedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID NOT NULL REFERENCES public.interviews(id) ON DELETE CASCADE,
+  from_scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  to_scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  from_duration_minutes INTEGER NOT NULL,
+  to_duration_minutes INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  -- NULL when the candidate moved it through their scheduling link
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_interview_reschedules_interview
+ON public.interview_reschedules(interview_id, changed_at);
+
+ALTER TABLE public.interview_reschedules ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the manage-interview function
+CREATE POLICY "Staff can view reschedules of accessible interviews"
+ON public.interview_reschedules
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.interviews i
+    WHERE i.id = interview_id AND public.can_access_application(auth.uid(), i.application_id)
+  )
+);
+
+-- Invites travel with the email, so attachments may now also be inline
+COMMENT ON COLUMN public.scheduled_emails.attachments IS
+  'Storage objects [{ bucket, path, filename, contentType }] or inline files [{ filename, content (base64), contentType }]';
@@ -0,0 +1,27 @@
+-- Personal iCal feeds: each staff member can subscribe to their interviews from any calendar client.
+-- The token in the feed URL is the only credential, so it is kept out of profiles, which all staff read.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Last time a calendar client fetched the feed
+  last_accessed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- A new URL is a delete and an insert; the interview-feed function reads tokens with the service role
+CREATE POLICY "Staff can view their own calendar feed"
+ON public.calendar_feed_tokens
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Staff can create their own calendar feed"
+ON public.calendar_feed_tokens
+FOR INSERT
+WITH CHECK (user_id = auth.uid() AND public.is_hr_staff(auth.uid()));
+
+CREATE POLICY "Staff can revoke their own calendar feed"
+ON public.calendar_feed_tokens
+FOR DELETE
+USING (user_id = auth.uid());
@@ -0,0 +1,46 @@
+-- Video meeting providers: the organization picks a default and each interview can override it
+-- Single row
+CREATE TABLE public.meeting_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- Used when an interview is scheduled without choosing a provider; Google Meet needs a connected calendar
+  default_provider TEXT NOT NULL DEFAULT 'google_meet' CHECK (default_provider IN ('google_meet', 'teams', 'zoom', 'jitsi')),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.meeting_settings (id) VALUES (true);
+
+ALTER TABLE public.meeting_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view meeting settings"
+ON public.meeting_settings
+FOR SELECT
+USING (is_hr_staff(auth.uid()));
+
+CREATE POLICY "HR managers can update meeting settings"
+ON public.meeting_settings
+FOR UPDATE
+USING (has_full_access(auth.uid()))
+WITH CHECK (has_full_access(auth.uid()));
+
+CREATE TRIGGER update_meeting_settings_updated_at
+BEFORE UPDATE ON public.meeting_settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The provider behind meeting_url and meeting_id, so a reschedule or cancel reaches the right API.
+-- Null for links pasted by hand.
+ALTER TABLE public.interviews
+  ADD COLUMN meeting_provider TEXT CHECK (meeting_provider IN ('google_meet', 'teams', 'zoom', 'jitsi'));
+
+-- Until now a meeting id was always a Teams meeting, and any other generated link came from Google Meet
+UPDATE public.interviews SET meeting_provider = 'teams' WHERE meeting_id IS NOT NULL;
+UPDATE public.interviews SET meeting_provider = 'google_meet'
+WHERE meeting_id IS NULL AND meeting_url LIKE 'https://meet.google.com/%';
+
+-- Replaces create_meet: a provider, 'none' for no video link, or null for the default at booking time
+ALTER TABLE public.scheduling_links
+  ADD COLUMN meeting_provider TEXT CHECK (meeting_provider IN ('google_meet', 'teams', 'zoom', 'jitsi', 'none'));
+
+UPDATE public.scheduling_links SET meeting_provider = 'none' WHERE NOT create_meet;
+
+ALTER TABLE public.scheduling_links DROP COLUMN create_meet;
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Edge function tests run the shared Deno modules under Node: the esm.sh import resolves to the
+// installed package and vitest.setup.ts provides the Deno globals they read.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+    setupFiles: ["./vitest.setup.ts"],
+  },
+});
@@ -0,0 +1,9 @@
+// The parts of the Deno namespace the edge functions use. Environment reads go to process.env so tests
+// can set secrets with vi.stubEnv.
+Object.assign(globalThis, {
+  Deno: {
+    env: {
+      get: (key: string) => process.env[key],
+    },
+  },
+});